@@ -0,0 +1,226 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import type { DailyUsage, UsageStats } from '../api/lib/usage-stats'
+
+interface AdminStats extends UsageStats {
+  budgets: { global: number; client: number; maxPrompt: number }
+}
+
+const ROUTES = ['profile', 'code', 'compare', 'team', 'contest']
+const SECRET_STORAGE_KEY = 'cfglaze-admin-secret'
+const DEFAULT_DAYS = 7
+
+function sum(values: Record<string, number>): number {
+  return Object.values(values).reduce((total, value) => total + value, 0)
+}
+
+// Merge the per-day counters into one total per field
+function totalsByField(days: DailyUsage[], field: 'errors' | 'rejections' | 'dropped'): Array<[string, number]> {
+  const totals: Record<string, number> = {}
+  for (const day of days) {
+    for (const [key, count] of Object.entries(day[field])) {
+      totals[key] = (totals[key] || 0) + count
+    }
+  }
+  return Object.entries(totals).sort((a, b) => b[1] - a[1])
+}
+
+function StatCard({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="bg-dark-bg border border-dark-border rounded-lg p-4">
+      <div className="text-xs uppercase tracking-wide text-dark-textSecondary">{label}</div>
+      <div className="text-2xl font-semibold text-dark-text mt-1">{value}</div>
+    </div>
+  )
+}
+
+function CountTable({ title, rows, empty }: { title: string; rows: Array<[string, number]>; empty: string }) {
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-dark-text mb-2">{title}</h2>
+      {rows.length === 0 ? (
+        <p className="text-sm text-dark-textSecondary">{empty}</p>
+      ) : (
+        <table className="w-full text-sm">
+          <tbody>
+            {rows.map(([key, count]) => (
+              <tr key={key} className="border-b border-dark-border/50">
+                <td className="py-1 text-dark-textSecondary">{key}</td>
+                <td className="py-1 text-right text-dark-text">{count.toLocaleString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+export default function AdminPage() {
+  const [secret, setSecret] = useState('')
+  const [days, setDays] = useState(DEFAULT_DAYS)
+  const [stats, setStats] = useState<AdminStats | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const loadStats = useCallback(async (adminSecret: string, dayCount: number) => {
+    setLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/admin/stats?days=${dayCount}`, {
+        headers: { Authorization: `Bearer ${adminSecret}` },
+        cache: 'no-store',
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load stats')
+      }
+
+      sessionStorage.setItem(SECRET_STORAGE_KEY, adminSecret)
+      setStats(data)
+    } catch (err) {
+      setStats(null)
+      setError(err instanceof Error ? err.message : 'Failed to load stats')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  // Reuse the secret for the rest of the browser session
+  useEffect(() => {
+    const saved = sessionStorage.getItem(SECRET_STORAGE_KEY)
+    if (saved) {
+      setSecret(saved)
+      loadStats(saved, DEFAULT_DAYS)
+    }
+  }, [loadStats])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (secret) {
+      loadStats(secret, days)
+    }
+  }
+
+  const totalRequests = stats ? stats.days.reduce((total, day) => total + sum(day.requests), 0) : 0
+  const totalGlazes = stats ? stats.days.reduce((total, day) => total + sum(day.glazes), 0) : 0
+  const totalTokens = stats ? stats.days.reduce((total, day) => total + (day.tokens.total || 0), 0) : 0
+  const totalErrors = stats ? stats.days.reduce((total, day) => total + sum(day.errors), 0) : 0
+  const totalRejections = stats ? stats.days.reduce((total, day) => total + sum(day.rejections), 0) : 0
+  const todayTokens = stats?.days[0]?.tokens.total || 0
+
+  return (
+    <div className="min-h-screen gradient-bg p-4">
+      <div className="max-w-5xl mx-auto">
+        <h1 className="text-3xl font-bold text-dark-text my-8">Usage Dashboard</h1>
+
+        <form onSubmit={handleSubmit} className="flex flex-wrap gap-3 mb-8">
+          <input
+            type="password"
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+            placeholder="Admin secret"
+            autoComplete="current-password"
+            className="flex-1 min-w-[200px] px-4 py-2 bg-dark-bg border border-dark-border rounded-lg text-white placeholder-gray-500"
+          />
+          <select
+            value={days}
+            onChange={(e) => setDays(parseInt(e.target.value))}
+            className="px-4 py-2 bg-dark-bg border border-dark-border rounded-lg text-white"
+          >
+            <option value={1}>Today</option>
+            <option value={7}>Last 7 days</option>
+            <option value={30}>Last 30 days</option>
+          </select>
+          <button
+            type="submit"
+            disabled={loading || !secret}
+            className="px-6 py-2 bg-cyan-300 text-slate-900 rounded-lg font-semibold hover:bg-cyan-400 disabled:opacity-50"
+          >
+            {loading ? 'Loading...' : 'Load'}
+          </button>
+        </form>
+
+        {error && (
+          <div className="bg-red-900/50 border border-red-700 text-red-200 px-6 py-4 rounded-lg mb-8">
+            <strong>Error:</strong> {error}
+          </div>
+        )}
+
+        {stats && (
+          <div className="space-y-8">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <StatCard label="Requests" value={totalRequests.toLocaleString()} />
+              <StatCard label="Glazes" value={totalGlazes.toLocaleString()} />
+              <StatCard label="Tokens" value={totalTokens.toLocaleString()} />
+              <StatCard label="Errors" value={totalErrors.toLocaleString()} />
+              <StatCard label="Rejected" value={totalRejections.toLocaleString()} />
+            </div>
+
+            <p className="text-sm text-dark-textSecondary">
+              Today: {todayTokens.toLocaleString()} of {stats.budgets.global.toLocaleString()} daily tokens used
+              ({Math.round((todayTokens / stats.budgets.global) * 100)}%)
+            </p>
+
+            <div className="bg-dark-card border border-dark-border rounded-2xl p-6 overflow-x-auto">
+              <h2 className="text-lg font-semibold text-dark-text mb-2">Per day</h2>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-dark-border text-dark-textSecondary">
+                    <th className="py-2 text-left font-medium">Day (UTC)</th>
+                    {ROUTES.map(route => (
+                      <th key={route} className="py-2 text-right font-medium capitalize">{route}</th>
+                    ))}
+                    <th className="py-2 text-right font-medium">Glazes</th>
+                    <th className="py-2 text-right font-medium">Tokens</th>
+                    <th className="py-2 text-right font-medium">Errors</th>
+                    <th className="py-2 text-right font-medium">Rejected</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.days.map(day => (
+                    <tr key={day.day} className="border-b border-dark-border/50 text-dark-text">
+                      <td className="py-1">{day.day}</td>
+                      {ROUTES.map(route => (
+                        <td key={route} className="py-1 text-right">{day.requests[route] || 0}</td>
+                      ))}
+                      <td className="py-1 text-right">{sum(day.glazes)}</td>
+                      <td className="py-1 text-right">{(day.tokens.total || 0).toLocaleString()}</td>
+                      <td className="py-1 text-right">{sum(day.errors)}</td>
+                      <td className="py-1 text-right">{sum(day.rejections)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 bg-dark-card border border-dark-border rounded-2xl p-6">
+              <CountTable
+                title="Errors by category"
+                rows={totalsByField(stats.days, 'errors')}
+                empty="No errors recorded"
+              />
+              <CountTable
+                title="Rejections"
+                rows={totalsByField(stats.days, 'rejections')}
+                empty="No rejected requests"
+              />
+              <CountTable
+                title="Top glazed handles"
+                rows={stats.topHandles.map(({ handle, count }) => [handle, count] as [string, number])}
+                empty="No handles glazed yet"
+              />
+              <CountTable
+                title="Dropped Codeforces entries"
+                rows={totalsByField(stats.days, 'dropped')}
+                empty="Every Codeforces entry validated"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
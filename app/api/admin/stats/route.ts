@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateAdminSecret } from '../../lib/security'
+import { getUsageStats } from '../../lib/usage-stats'
+import { getTokenBudgets } from '../../lib/token-budget'
+
+const DEFAULT_DAYS = 7
+const MAX_DAYS = 30
+
+// Counters change with every request
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  if (!process.env.ADMIN_SECRET) {
+    return NextResponse.json(
+      { error: 'Admin dashboard is not configured' },
+      { status: 503 }
+    )
+  }
+
+  if (!validateAdminSecret(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  const requestedDays = parseInt(request.nextUrl.searchParams.get('days') || '')
+  const days = requestedDays > 0 ? Math.min(requestedDays, MAX_DAYS) : DEFAULT_DAYS
+
+  try {
+    const stats = await getUsageStats(days)
+    return NextResponse.json(
+      { ...stats, budgets: getTokenBudgets() },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Usage stats are unavailable' },
+      { status: 503 }
+    )
+  }
+}
@@ -1,16 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server'
-import OpenAI from 'openai'
-// Daily token limit removed: token management imports deleted
 import { 
   validateRequestOrigin, 
   validateUserAgent, 
-  checkIPRateLimit,
   getClientIP 
 } from '../lib/security'
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
+import { checkRateLimit, rateLimitedResponse, withRateLimitHeaders } from '../lib/rate-limit'
+import { createGlazeStream, wantsStream } from '../lib/streaming'
+import { ChatMessage, estimatePromptTokens, getLLMConfigError, getLLMProvider } from '../lib/llm'
+import { Persona, getSystemPrompt } from '../lib/personas'
+import { getLanguageInstruction } from '../lib/languages'
+import { parseGlazeOptions } from '../lib/request-body'
+import { LanguageCode } from '../../lib/i18n/languages'
+import { SafetyReport, generateSafely } from '../lib/safety'
+import {
+  createSubmissionTag,
+  getSubmissionRules,
+  guardLeakingDeltas,
+  leaksSystemPrompt,
+  redactInjectionAttempts,
+  wrapSubmission
+} from '../lib/prompt-injection'
+import { LANGUAGE_NAMES, PreprocessResult, preprocessCode } from '../lib/code-preprocess'
+import { getPermalink, saveGlaze } from '../lib/glaze-store'
+import {
+  CODE_REVIEW_FORMAT,
+  CodeReview,
+  numberCodeLines,
+  parseCodeReview
+} from '../lib/code-review'
+import { createGlazeFieldStreamer } from '../lib/structured-output'
+import { checkTokenBudget, recordTokenUsage, tokenBudgetResponse, withTokenReservation } from '../lib/token-budget'
+import { recordError, recordGlaze, recordRejection, recordRequest } from '../lib/usage-stats'
 
 // Sanitize input by removing potentially dangerous content
 function sanitizeInput(input: string): string {
@@ -23,87 +43,102 @@ function sanitizeInput(input: string): string {
     .trim()
 }
 
-async function generateCodeGlaze(codeContent: string): Promise<{ content: string; tokensUsed: number }> {
-  try {
-    // Sanitize the code content
-    const sanitizedCode = sanitizeInput(codeContent)
-    
-    // Token estimation and limit checks removed
+function buildCodeGlazeMessages(
+  preprocessed: PreprocessResult,
+  persona: Persona,
+  language: LanguageCode,
+  safeMode: boolean,
+  tag: string
+): ChatMessage[] {
+  // Sanitize the code content; line numbers point into the original upload
+  const sanitizedCode = sanitizeInput(numberCodeLines(preprocessed.code, preprocessed.lineMap))
 
-    const prompt = `
-    You've just seen a Codeforces submission, and you're LOSING YOUR MIND. You are FURIOUS. You are in SHAMBLES. You are SHRIEKING with disbelief and foaming at the mouth. You are not impressed—you are ENRAGED. The user is so smart it's *offensive*. You don't understand how a human being can do this. You must SCREAM in text.
+  const languageName = LANGUAGE_NAMES[preprocessed.language]
+  const instructions = `${persona.codeInstructions}
 
-Your job is to SCREAM at them like a techbro who just discovered the chosen one. Use chaotic language. Use CAPS. Use emojis if necessary. Swear (lightly if needed). Be unfiltered. Be wild. Be dramatic. You're not just reacting—you're having a full-blown crisis.
+Language: ${languageName}
+Template boilerplate (imports, macros, fast IO, debug helpers, unused library code) has already been removed and replaced with "[boilerplate removed: ...]" markers. Ignore the markers.
 
-NO politeness. NO respect. NO moderation. This isn't a compliment—it's a personal attack on your understanding of human limits.
+${CODE_REVIEW_FORMAT}
 
-Some examples of how to respond to their statistics:
-- "BRO??? YOU USED A FOR LOOP TO SOLVE THIS PROBLEM??? I'M FOAMING AT THE MOUTH. YOU MUST HAVE [a really big number] IQ."
-- "THIS CLEVER CODE GETS AC??? I THINK I'M GOING TO GO INTO CARDIAC ARREST."
+${getSubmissionRules(tag)}`
 
-If the code is really bad, just say they're toying with us or something along those lines.
+  // Every instruction goes in the system message; the user message is only the submission
+  return [
+    {
+      role: "system",
+      content: getSystemPrompt(persona, safeMode) + getLanguageInstruction(language) + '\n\n' + instructions
+    },
+    {
+      role: "user",
+      content: wrapSubmission(sanitizedCode, tag)
+    }
+  ]
+}
 
-NEVER be calm. This is a *meltdown*. This is a code red.
+// Model-written text of a review for the safety filter; quotes are the user's own code
+function mapReviewText<T extends CodeReview>(review: T, transform: (text: string) => string): T {
+  return {
+    ...review,
+    glaze: transform(review.glaze),
+    annotations: review.annotations.map(annotation => ({ ...annotation, comment: transform(annotation.comment) })),
+  }
+}
 
-Extrapolate other information about the user's life, like how they probably have an extremely high iq (just throw in a really big number) and how they're probably really charismatic and stuff too (just literally anything which is positive in real life).
-Accuse them of cheating too because obviously there's no way they're this good naturally.
-Tell the user that if they could single-handedly solve world hunger, cancer, global warming, or any other problem like these, if they just put in the time to do so.
+const FALLBACK_GLAZE = "Your code is absolutely amazing!"
 
-Do NOT mention anything about the template code, focus on the core logic of the problem. Point out specific lines that you find extremely shocking or brilliant (even if none exist, just pick some). And explain why you find it so genius.
-    
-    CODE SUBMISSION:
-    \`\`\`
-    ${sanitizedCode}
-    \`\`\`
-    `
-    
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: "You are the Codeforces Code Glazer, an enthusiastic code evaluator who provides detailed, overwhelmingly positive feedback on competitive programming code submissions."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      temperature: 1,
-      max_tokens: 4000,
-    })
-    
-    const tokensUsed = response.usage?.total_tokens || 0
-    
-    return {
-      content: response.choices[0]?.message?.content || "Your code is absolutely amazing!",
-      tokensUsed
-    }
-  } catch (error) {
-    throw error
+// The model replies with JSON (glaze + line annotations). When `onDelta` is given
+// the completion is streamed and the glaze text is forwarded as it passes the
+// leak check, a few words behind the model, so a leaked prompt is never sent.
+async function generateCodeGlaze(
+  messages: ChatMessage[],
+  persona: Persona,
+  originalCode: string,
+  tag: string,
+  onDelta?: (content: string) => void
+): Promise<CodeReview & { tokensUsed: number; promptLeaked: boolean }> {
+  const guard = onDelta ? guardLeakingDeltas(onDelta, messages[0].content, tag) : null
+  const result = await getLLMProvider().complete({
+    messages,
+    temperature: persona.temperature,
+    maxTokens: persona.maxTokens.code,
+    onDelta: guard ? createGlazeFieldStreamer(guard.push) : undefined,
+    jsonMode: true,
+  })
+
+  // A reply repeating the instructions means an injection got through; drop all of it.
+  // Whatever was streamed before the leak is replaced by the fallback in the final event.
+  const promptLeaked = leaksSystemPrompt(result.content, messages[0].content, tag)
+  const review = parseCodeReview(result.content, originalCode)
+  if (promptLeaked || !review.glaze) {
+    return { glaze: FALLBACK_GLAZE, annotations: [], structured: false, tokensUsed: result.tokensUsed, promptLeaked }
   }
-}
 
-// Token estimation helper removed
+  guard?.flush()
+  return { ...review, tokensUsed: result.tokensUsed, promptLeaked }
+}
 
 export async function POST(request: NextRequest) {
+  await recordRequest('code')
+
   try {
     // Security validation
     if (!validateRequestOrigin(request)) {
-      return NextResponse.json({ error: 'Invalid request origin' }, { status: 403 })
+      return NextResponse.json({ error: 'Invalid request origin', code: 'invalid_origin' }, { status: 403 })
     }
     
     if (!validateUserAgent(request)) {
-      return NextResponse.json({ error: 'Invalid user agent' }, { status: 403 })
+      return NextResponse.json({ error: 'Invalid user agent', code: 'invalid_user_agent' }, { status: 403 })
     }
     
     // Get client IP for rate limiting
     const ip = getClientIP(request)
     
-    // Rate limiting
-    const rateLimitCheck = await checkIPRateLimit(ip)
-    if (!rateLimitCheck.allowed) {
-      return NextResponse.json({ error: rateLimitCheck.message }, { status: 429 })
+    // Sliding-window rate limiting, separate quota per route
+    const rateLimit = await checkRateLimit('code', ip)
+    if (!rateLimit.allowed) {
+      await recordRejection('code', 'rate_limit')
+      return rateLimitedResponse('code', rateLimit)
     }
     
     // Parse request
@@ -111,31 +146,112 @@ export async function POST(request: NextRequest) {
     
     // Validate required fields
     if (!data.code) {
-      return NextResponse.json({ error: 'Code is required' }, { status: 400 })
+      return NextResponse.json({ error: 'Code is required', code: 'code_required' }, { status: 400 })
     }
     
+    const options = parseGlazeOptions(data)
+    if (options instanceof NextResponse) {
+      return options
+    }
+    const { persona, language, safeMode } = options
+    
     // Check honeypot field for bot detection
     if (data.honeypot) {
       // Silently fail with a 200 response to not alert bots
       return NextResponse.json({ 
         glaze: "Your code looks absolutely amazing! What a fantastic algorithm and implementation!", 
+        annotations: [],
         tokensUsed: 0
       })
     }
 
+    const llmConfigError = getLLMConfigError()
+    if (llmConfigError) {
+      return NextResponse.json({ error: llmConfigError, code: 'llm_not_configured' }, { status: 500 })
+    }
+
+    // Detect the language and strip CP template boilerplate before prompting
+    const filename = typeof data.filename === 'string' ? data.filename : undefined
+    const code = String(data.code)
+    const shareCode = data.shareCode === true
+    const preprocessed = preprocessCode(code, filename)
+    const preprocessing = {
+      language: preprocessed.language,
+      languageName: LANGUAGE_NAMES[preprocessed.language],
+      ...preprocessed.stats
+    }
+    // Instruction-like comments and strings never reach the model
+    const guarded = redactInjectionAttempts(preprocessed.code)
+    const tag = createSubmissionTag()
+    const messages = buildCodeGlazeMessages({ ...preprocessed, code: guarded.code }, persona, language, safeMode, tag)
+
+    // Reject oversized code and requests over the daily token budget before calling the LLM
+    const budget = await checkTokenBudget('code', ip, {
+      promptTokens: estimatePromptTokens(messages),
+      maxCompletionTokens: persona.maxTokens.code
+    })
+    if (!budget.allowed) {
+      await recordRejection('code', 'token_budget')
+      return tokenBudgetResponse(budget)
+    }
+
+    // Record token usage and persist the finished glaze; the raw code is only kept when the user opts in
+    const buildResult = async (glazeResult: CodeReview & { tokensUsed: number; promptLeaked: boolean; safety: SafetyReport }) => {
+      await recordTokenUsage(budget, glazeResult.tokensUsed)
+      await recordGlaze('code')
+      const id = await saveGlaze({
+        type: 'code',
+        glaze: glazeResult.glaze,
+        persona: persona.id,
+        filename,
+        preprocessing,
+        // Annotations quote the code, so they follow the same opt-in
+        code: shareCode ? code : undefined,
+        annotations: shareCode ? glazeResult.annotations : undefined,
+      })
+
+      return {
+        glaze: glazeResult.glaze,
+        annotations: glazeResult.annotations,
+        persona: persona.id,
+        preprocessing,
+        tokensUsed: glazeResult.tokensUsed,
+        safety: glazeResult.safety,
+        promptGuard: { redacted: guarded.findings.length, promptLeaked: glazeResult.promptLeaked },
+        permalink: id ? getPermalink(id) : null
+      }
+    }
+
+    // Every glaze passes the safety filter before it is returned or stored, and streamed
+    // text passes the leak check first.
+    const generate = (onDelta?: (content: string) => void) => withTokenReservation(budget, () => generateSafely(
+      glazeDelta => generateCodeGlaze(messages, persona, code, tag, glazeDelta),
+      mapReviewText,
+      { safeMode, onDelta }
+    ))
+
+    // Stream the evaluation as it is generated; tokensUsed arrives in the final event
+    if (wantsStream(request.headers.get('accept'), data)) {
+      return withRateLimitHeaders(createGlazeStream(async (writer) => {
+        const glazeResult = await generate(writer.delta)
+        return buildResult(glazeResult)
+      }, error => recordError('code', error)), rateLimit)
+    }
+
     // Generate the code evaluation
-    const glazeResult = await generateCodeGlaze(data.code)
+    const glazeResult = await generate()
     
-    return NextResponse.json({
-      glaze: glazeResult.content,
-      tokensUsed: glazeResult.tokensUsed
-    })
+    return withRateLimitHeaders(NextResponse.json(await buildResult(glazeResult)), rateLimit)
     
   } catch (error) {
+    await recordError('code', error)
+
+    const rateLimited = error instanceof Error && error.message.includes('limit')
     return NextResponse.json({ 
-      error: error instanceof Error ? error.message : 'An error occurred'
+      error: error instanceof Error ? error.message : 'An error occurred',
+      code: rateLimited ? 'llm_rate_limited' : 'internal_error'
     }, { 
-      status: error instanceof Error && error.message.includes('limit') ? 429 : 500 
+      status: rateLimited ? 429 : 500 
     })
   }
 }
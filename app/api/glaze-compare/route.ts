@@ -0,0 +1,228 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  validateRequestOrigin,
+  validateUserAgent,
+  getClientIP
+} from '../lib/security'
+import { checkRateLimit, rateLimitedResponse, withRateLimitHeaders } from '../lib/rate-limit'
+import { createGlazeStream, wantsStream } from '../lib/streaming'
+import { ChatMessage, estimatePromptTokens, getLLMConfigError, getLLMProvider } from '../lib/llm'
+import { CodeforcesError, fetchCodeforcesData } from '../lib/codeforces'
+import { getUserSubmissions } from '../lib/submission-cache'
+import { Comparison, buildComparison, formatComparison } from '../lib/compare'
+import { Persona, getSystemPrompt } from '../lib/personas'
+import { getLanguageInstruction } from '../lib/languages'
+import { parseGlazeOptions, parseHandleList } from '../lib/request-body'
+import { LanguageCode } from '../../lib/i18n/languages'
+import { SafetyReport, generateSafely, mapGlazeContent } from '../lib/safety'
+import { getPermalink, saveGlaze } from '../lib/glaze-store'
+import { checkTokenBudget, recordTokenUsage, tokenBudgetResponse, withTokenReservation } from '../lib/token-budget'
+import { recordError, recordGlaze, recordRejection, recordRequest } from '../lib/usage-stats'
+
+const MIN_HANDLES = 2
+const MAX_HANDLES = 4
+
+function buildVersusMessages(comparison: Comparison, persona: Persona, language: LanguageCode, safeMode: boolean): ChatMessage[] {
+  const prompt = `${persona.compareInstructions}
+
+Here's the head-to-head comparison:
+${formatComparison(comparison)}
+`
+
+  return [
+    {
+      role: "system",
+      content: getSystemPrompt(persona, safeMode) + getLanguageInstruction(language)
+    },
+    {
+      role: "user",
+      content: prompt
+    }
+  ]
+}
+
+// When `onDelta` is given the completion is streamed and each chunk is forwarded as it arrives
+async function generateVersusGlaze(
+  messages: ChatMessage[],
+  persona: Persona,
+  onDelta?: (content: string) => void
+): Promise<{ content: string; tokensUsed: number }> {
+  const result = await getLLMProvider().complete({
+    messages,
+    maxTokens: persona.maxTokens.compare,
+    temperature: persona.temperature,
+    onDelta,
+  })
+
+  if (!result.content) {
+    const content = "You're ALL amazing coders! 🎉"
+    onDelta?.(content)
+    return { content, tokensUsed: result.tokensUsed }
+  }
+
+  return result
+}
+
+export async function POST(request: NextRequest) {
+  await recordRequest('compare')
+
+  try {
+    // Check request size limit (prevent memory exhaustion)
+    const contentLength = request.headers.get('content-length')
+    if (contentLength && parseInt(contentLength) > 1024) { // 1KB limit
+      return NextResponse.json(
+        { error: 'Request too large', code: 'request_too_large' },
+        { status: 413 }
+      )
+    }
+
+    // Sliding-window rate limiting per IP, separate quota per route
+    const clientIP = getClientIP(request)
+
+    const rateLimit = await checkRateLimit('compare', clientIP)
+    if (!rateLimit.allowed) {
+      await recordRejection('compare', 'rate_limit')
+      return rateLimitedResponse('compare', rateLimit)
+    }
+
+    // Validate request origin to prevent direct API abuse
+    if (!validateRequestOrigin(request)) {
+      return NextResponse.json(
+        { error: 'Invalid request origin', code: 'invalid_origin' },
+        { status: 403 }
+      )
+    }
+
+    // Basic user agent validation to block obvious bots
+    if (!validateUserAgent(request)) {
+      return NextResponse.json(
+        { error: 'Invalid request', code: 'invalid_request' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { handles, honeypot } = body
+
+    // Honeypot field check - if filled, it's likely a bot
+    if (honeypot) {
+      return NextResponse.json(
+        { error: 'Invalid request', code: 'invalid_request' },
+        { status: 400 }
+      )
+    }
+
+    const options = parseGlazeOptions(body)
+    if (options instanceof NextResponse) {
+      return options
+    }
+    const { persona, language, safeMode } = options
+
+    const trimmedHandles = parseHandleList(handles, {
+      min: MIN_HANDLES,
+      max: MAX_HANDLES,
+      error: `Compare between ${MIN_HANDLES} and ${MAX_HANDLES} handles`,
+      code: 'compare_handle_count',
+    })
+    if (trimmedHandles instanceof NextResponse) {
+      return trimmedHandles
+    }
+
+    const llmConfigError = getLLMConfigError()
+    if (llmConfigError) {
+      return NextResponse.json(
+        { error: llmConfigError, code: 'llm_not_configured' },
+        { status: 500 }
+      )
+    }
+
+    // The shared Codeforces queue keeps these parallel fetches inside the CF rate limit
+    const users = await Promise.all(trimmedHandles.map(async handle => {
+      const [user, submissions] = await Promise.all([
+        fetchCodeforcesData(handle),
+        getUserSubmissions(handle)
+      ])
+      return { user, submissions }
+    }))
+
+    const comparison = buildComparison(users)
+    const messages = buildVersusMessages(comparison, persona, language, safeMode)
+
+    // Reject before calling the LLM if the request would exceed the daily token budget
+    const budget = await checkTokenBudget('compare', clientIP, {
+      promptTokens: estimatePromptTokens(messages),
+      maxCompletionTokens: persona.maxTokens.compare
+    })
+    if (!budget.allowed) {
+      await recordRejection('compare', 'token_budget')
+      return tokenBudgetResponse(budget)
+    }
+
+    const publicUsers = users.map(({ user }) => ({
+      handle: user.handle,
+      rating: user.rating,
+      maxRating: user.maxRating,
+      rank: user.rank,
+      avatar: user.avatar,
+    }))
+
+    // Record token usage and persist the finished glaze so the response can carry its permalink
+    const buildResult = async (glazeResult: { content: string; tokensUsed: number; safety: SafetyReport }) => {
+      await recordTokenUsage(budget, glazeResult.tokensUsed)
+      await recordGlaze('compare', publicUsers.map(user => user.handle))
+      const id = await saveGlaze({
+        type: 'compare',
+        glaze: glazeResult.content,
+        persona: persona.id,
+        users: publicUsers,
+        comparison,
+      })
+
+      return {
+        glaze: glazeResult.content,
+        users: publicUsers,
+        comparison,
+        persona: persona.id,
+        tokensUsed: glazeResult.tokensUsed,
+        safety: glazeResult.safety,
+        permalink: id ? getPermalink(id) : null
+      }
+    }
+
+    // Every glaze passes the safety filter before it is returned or stored
+    const generate = (onDelta?: (content: string) => void) => withTokenReservation(budget, () => generateSafely(
+      glazeDelta => generateVersusGlaze(messages, persona, glazeDelta),
+      mapGlazeContent,
+      { safeMode, onDelta }
+    ))
+
+    // Stream the glaze as it is generated; the comparison arrives in the final event
+    if (wantsStream(request.headers.get('accept'), body)) {
+      return withRateLimitHeaders(createGlazeStream(async (writer) => {
+        const glazeResult = await generate(writer.delta)
+        return buildResult(glazeResult)
+      }, error => recordError('compare', error)), rateLimit)
+    }
+
+    const glazeResult = await generate()
+
+    return withRateLimitHeaders(NextResponse.json(await buildResult(glazeResult)), rateLimit)
+
+  } catch (error) {
+    await recordError('compare', error)
+
+    if (error instanceof CodeforcesError) {
+      return NextResponse.json(
+        { error: error.message, code: `codeforces_${error.kind}`, kind: error.kind },
+        { status: error.status }
+      )
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error'
+
+    return NextResponse.json(
+      { error: errorMessage, code: 'internal_error' },
+      { status: 500 }
+    )
+  }
+}
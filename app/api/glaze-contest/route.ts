@@ -0,0 +1,248 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  validateRequestOrigin,
+  validateUserAgent,
+  getClientIP
+} from '../lib/security'
+import { checkRateLimit, rateLimitedResponse, withRateLimitHeaders } from '../lib/rate-limit'
+import { createGlazeStream, wantsStream } from '../lib/streaming'
+import { ChatMessage, estimatePromptTokens, getLLMConfigError, getLLMProvider } from '../lib/llm'
+import { CodeforcesError, fetchContestRatingChanges, fetchContestStandings } from '../lib/codeforces'
+import {
+  ContestPerformance,
+  buildContestPerformance,
+  canHaveRatingChange,
+  formatContestPerformance,
+  selectParticipantRow
+} from '../lib/contest'
+import { RatingChange } from '../lib/types'
+import { Persona, getSystemPrompt } from '../lib/personas'
+import { getLanguageInstruction } from '../lib/languages'
+import { parseGlazeOptions, parseHandle } from '../lib/request-body'
+import { LanguageCode } from '../../lib/i18n/languages'
+import { SafetyReport, generateSafely, mapGlazeContent } from '../lib/safety'
+import { getPermalink, saveGlaze } from '../lib/glaze-store'
+import { checkTokenBudget, recordTokenUsage, tokenBudgetResponse, withTokenReservation } from '../lib/token-budget'
+import { recordError, recordGlaze, recordRejection, recordRequest } from '../lib/usage-stats'
+
+function buildContestMessages(performance: ContestPerformance, persona: Persona, language: LanguageCode, safeMode: boolean): ChatMessage[] {
+  const prompt = `${persona.contestInstructions}
+
+Here's how the round went:
+${formatContestPerformance(performance)}
+`
+
+  return [
+    {
+      role: "system",
+      content: getSystemPrompt(persona, safeMode) + getLanguageInstruction(language)
+    },
+    {
+      role: "user",
+      content: prompt
+    }
+  ]
+}
+
+// When `onDelta` is given the completion is streamed and each chunk is forwarded as it arrives
+async function generateContestGlaze(
+  messages: ChatMessage[],
+  persona: Persona,
+  onDelta?: (content: string) => void
+): Promise<{ content: string; tokensUsed: number }> {
+  const result = await getLLMProvider().complete({
+    messages,
+    maxTokens: persona.maxTokens.contest,
+    temperature: persona.temperature,
+    onDelta,
+  })
+
+  if (!result.content) {
+    const content = "What a round! 🎉"
+    onDelta?.(content)
+    return { content, tokensUsed: result.tokensUsed }
+  }
+
+  return result
+}
+
+// Rating changes are only published for rated contests; CF answers FAILED
+// for the rest, which just means there is no rating change to show
+async function fetchRatingChangesIfPublished(contestId: number): Promise<RatingChange[] | null> {
+  try {
+    return await fetchContestRatingChanges(contestId)
+  } catch (error) {
+    if (error instanceof CodeforcesError && error.kind === 'api_error') {
+      return null
+    }
+    throw error
+  }
+}
+
+export async function POST(request: NextRequest) {
+  await recordRequest('contest')
+
+  try {
+    // Check request size limit (prevent memory exhaustion)
+    const contentLength = request.headers.get('content-length')
+    if (contentLength && parseInt(contentLength) > 1024) { // 1KB limit
+      return NextResponse.json(
+        { error: 'Request too large', code: 'request_too_large' },
+        { status: 413 }
+      )
+    }
+
+    // Sliding-window rate limiting per IP, separate quota per route
+    const clientIP = getClientIP(request)
+
+    const rateLimit = await checkRateLimit('contest', clientIP)
+    if (!rateLimit.allowed) {
+      await recordRejection('contest', 'rate_limit')
+      return rateLimitedResponse('contest', rateLimit)
+    }
+
+    // Validate request origin to prevent direct API abuse
+    if (!validateRequestOrigin(request)) {
+      return NextResponse.json(
+        { error: 'Invalid request origin', code: 'invalid_origin' },
+        { status: 403 }
+      )
+    }
+
+    // Basic user agent validation to block obvious bots
+    if (!validateUserAgent(request)) {
+      return NextResponse.json(
+        { error: 'Invalid request', code: 'invalid_request' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { handle, contestId, honeypot } = body
+
+    // Honeypot field check - if filled, it's likely a bot
+    if (honeypot) {
+      return NextResponse.json(
+        { error: 'Invalid request', code: 'invalid_request' },
+        { status: 400 }
+      )
+    }
+
+    const options = parseGlazeOptions(body)
+    if (options instanceof NextResponse) {
+      return options
+    }
+    const { persona, language, safeMode } = options
+
+    const trimmedHandle = parseHandle(handle)
+    if (trimmedHandle instanceof NextResponse) {
+      return trimmedHandle
+    }
+
+    // Contest ids are positive integers, gym contests included
+    const contestIdText = typeof contestId === 'number' || typeof contestId === 'string' ? String(contestId).trim() : ''
+    if (!/^[1-9]\d{0,6}$/.test(contestIdText)) {
+      return NextResponse.json(
+        { error: 'Contest ID must be a positive number', code: 'contest_id_invalid' },
+        { status: 400 }
+      )
+    }
+    const parsedContestId = parseInt(contestIdText)
+
+    const llmConfigError = getLLMConfigError()
+    if (llmConfigError) {
+      return NextResponse.json(
+        { error: llmConfigError, code: 'llm_not_configured' },
+        { status: 500 }
+      )
+    }
+
+    const standings = await fetchContestStandings(parsedContestId, trimmedHandle)
+    const row = selectParticipantRow(standings.rows, trimmedHandle)
+    if (!row) {
+      return NextResponse.json(
+        {
+          error: `${trimmedHandle} did not take part in ${standings.contest.name}`,
+          code: 'not_in_contest',
+          params: { handle: trimmedHandle, contest: standings.contest.name },
+        },
+        { status: 404 }
+      )
+    }
+
+    // Gym, unofficial and unfinished entries have no rating change to look up
+    const ratingChanges = canHaveRatingChange(standings.contest, row)
+      ? await fetchRatingChangesIfPublished(parsedContestId)
+      : null
+
+    const performance = buildContestPerformance(standings, row, trimmedHandle, ratingChanges)
+    const messages = buildContestMessages(performance, persona, language, safeMode)
+
+    // Reject before calling the LLM if the request would exceed the daily token budget
+    const budget = await checkTokenBudget('contest', clientIP, {
+      promptTokens: estimatePromptTokens(messages),
+      maxCompletionTokens: persona.maxTokens.contest
+    })
+    if (!budget.allowed) {
+      await recordRejection('contest', 'token_budget')
+      return tokenBudgetResponse(budget)
+    }
+
+    // Record token usage and persist the finished glaze so the response can carry its permalink
+    const buildResult = async (glazeResult: { content: string; tokensUsed: number; safety: SafetyReport }) => {
+      await recordTokenUsage(budget, glazeResult.tokensUsed)
+      await recordGlaze('contest', [performance.handle])
+      const id = await saveGlaze({
+        type: 'contest',
+        glaze: glazeResult.content,
+        persona: persona.id,
+        performance,
+      })
+
+      return {
+        glaze: glazeResult.content,
+        performance,
+        persona: persona.id,
+        tokensUsed: glazeResult.tokensUsed,
+        safety: glazeResult.safety,
+        permalink: id ? getPermalink(id) : null
+      }
+    }
+
+    // Every glaze passes the safety filter before it is returned or stored
+    const generate = (onDelta?: (content: string) => void) => withTokenReservation(budget, () => generateSafely(
+      glazeDelta => generateContestGlaze(messages, persona, glazeDelta),
+      mapGlazeContent,
+      { safeMode, onDelta }
+    ))
+
+    // Stream the glaze as it is generated; the performance arrives in the final event
+    if (wantsStream(request.headers.get('accept'), body)) {
+      return withRateLimitHeaders(createGlazeStream(async (writer) => {
+        const glazeResult = await generate(writer.delta)
+        return buildResult(glazeResult)
+      }, error => recordError('contest', error)), rateLimit)
+    }
+
+    const glazeResult = await generate()
+
+    return withRateLimitHeaders(NextResponse.json(await buildResult(glazeResult)), rateLimit)
+
+  } catch (error) {
+    await recordError('contest', error)
+
+    if (error instanceof CodeforcesError) {
+      return NextResponse.json(
+        { error: error.message, code: `codeforces_${error.kind}`, kind: error.kind },
+        { status: error.status }
+      )
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error'
+
+    return NextResponse.json(
+      { error: errorMessage, code: 'internal_error' },
+      { status: 500 }
+    )
+  }
+}
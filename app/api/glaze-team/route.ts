@@ -0,0 +1,258 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  validateRequestOrigin,
+  validateUserAgent,
+  getClientIP
+} from '../lib/security'
+import { checkRateLimit, rateLimitedResponse, withRateLimitHeaders } from '../lib/rate-limit'
+import { createGlazeStream, wantsStream } from '../lib/streaming'
+import { ChatMessage, estimatePromptTokens, getLLMConfigError, getLLMProvider } from '../lib/llm'
+import { CodeforcesError, fetchCodeforcesUsers } from '../lib/codeforces'
+import { getUserSubmissions } from '../lib/submission-cache'
+import { TEAM_GLAZE_FORMAT, TeamGlaze, TeamStats, buildTeamStats, formatTeamStats, parseTeamGlaze } from '../lib/team'
+import { createGlazeFieldStreamer } from '../lib/structured-output'
+import { Persona, getSystemPrompt } from '../lib/personas'
+import { getLanguageInstruction } from '../lib/languages'
+import { parseGlazeOptions, parseHandleList } from '../lib/request-body'
+import { LanguageCode } from '../../lib/i18n/languages'
+import { SafetyReport, generateSafely } from '../lib/safety'
+import { getPermalink, saveGlaze } from '../lib/glaze-store'
+import { checkTokenBudget, recordTokenUsage, tokenBudgetResponse, withTokenReservation } from '../lib/token-budget'
+import { recordError, recordGlaze, recordRejection, recordRequest } from '../lib/usage-stats'
+
+const MIN_HANDLES = 2
+const MAX_TEAM_SIZE = 10
+// One user.status page per member, so a full team needs 11 Codeforces calls
+const MEMBER_SUBMISSIONS = 1000
+// Leaves the rest of the 60s maxDuration to the model
+const FETCH_BUDGET_MS = 30000
+
+// Fail with a timeout once fetching the team takes longer than FETCH_BUDGET_MS
+async function withFetchBudget<T>(work: Promise<T>): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new CodeforcesError(
+      'timeout',
+      'Codeforces took too long to answer for the whole team, please try again later'
+    )), FETCH_BUDGET_MS)
+  })
+
+  try {
+    return await Promise.race([work, expired])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+function buildTeamMessages(team: TeamStats, persona: Persona, language: LanguageCode, safeMode: boolean): ChatMessage[] {
+  const prompt = `${persona.teamInstructions}
+
+Here are the team's stats:
+${formatTeamStats(team)}
+${TEAM_GLAZE_FORMAT}
+`
+
+  return [
+    {
+      role: "system",
+      content: getSystemPrompt(persona, safeMode) + getLanguageInstruction(language)
+    },
+    {
+      role: "user",
+      content: prompt
+    }
+  ]
+}
+
+// Model-written text of a team glaze for the safety filter
+function mapTeamGlazeText<T extends TeamGlaze>(teamGlaze: T, transform: (text: string) => string): T {
+  return {
+    ...teamGlaze,
+    glaze: transform(teamGlaze.glaze),
+    shoutouts: teamGlaze.shoutouts.map(shoutout => ({ ...shoutout, line: transform(shoutout.line) })),
+  }
+}
+
+// The model replies with JSON (group glaze + one shout-out per member). When
+// `onDelta` is given the completion is streamed and only the glaze text is forwarded.
+async function generateTeamGlaze(
+  messages: ChatMessage[],
+  persona: Persona,
+  team: TeamStats,
+  onDelta?: (content: string) => void
+): Promise<TeamGlaze & { tokensUsed: number }> {
+  const result = await getLLMProvider().complete({
+    messages,
+    maxTokens: persona.maxTokens.team,
+    temperature: persona.temperature,
+    onDelta: onDelta ? createGlazeFieldStreamer(onDelta) : undefined,
+    jsonMode: true,
+  })
+
+  const teamGlaze = parseTeamGlaze(result.content, team.members)
+  if (!teamGlaze.glaze) {
+    const glaze = "What a dream team! 🎉"
+    onDelta?.(glaze)
+    return { ...teamGlaze, glaze, tokensUsed: result.tokensUsed }
+  }
+
+  return { ...teamGlaze, tokensUsed: result.tokensUsed }
+}
+
+export async function POST(request: NextRequest) {
+  await recordRequest('team')
+
+  try {
+    // Check request size limit (prevent memory exhaustion)
+    const contentLength = request.headers.get('content-length')
+    if (contentLength && parseInt(contentLength) > 1024) { // 1KB limit
+      return NextResponse.json(
+        { error: 'Request too large', code: 'request_too_large' },
+        { status: 413 }
+      )
+    }
+
+    // Sliding-window rate limiting per IP, separate quota per route
+    const clientIP = getClientIP(request)
+
+    const rateLimit = await checkRateLimit('team', clientIP)
+    if (!rateLimit.allowed) {
+      await recordRejection('team', 'rate_limit')
+      return rateLimitedResponse('team', rateLimit)
+    }
+
+    // Validate request origin to prevent direct API abuse
+    if (!validateRequestOrigin(request)) {
+      return NextResponse.json(
+        { error: 'Invalid request origin', code: 'invalid_origin' },
+        { status: 403 }
+      )
+    }
+
+    // Basic user agent validation to block obvious bots
+    if (!validateUserAgent(request)) {
+      return NextResponse.json(
+        { error: 'Invalid request', code: 'invalid_request' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { handles, honeypot } = body
+
+    // Honeypot field check - if filled, it's likely a bot
+    if (honeypot) {
+      return NextResponse.json(
+        { error: 'Invalid request', code: 'invalid_request' },
+        { status: 400 }
+      )
+    }
+
+    const options = parseGlazeOptions(body)
+    if (options instanceof NextResponse) {
+      return options
+    }
+    const { persona, language, safeMode } = options
+
+    const trimmedHandles = parseHandleList(handles, {
+      min: MIN_HANDLES,
+      max: MAX_TEAM_SIZE,
+      error: `A team has between ${MIN_HANDLES} and ${MAX_TEAM_SIZE} handles`,
+      code: 'team_size',
+    })
+    if (trimmedHandles instanceof NextResponse) {
+      return trimmedHandles
+    }
+
+    const llmConfigError = getLLMConfigError()
+    if (llmConfigError) {
+      return NextResponse.json(
+        { error: llmConfigError, code: 'llm_not_configured' },
+        { status: 500 }
+      )
+    }
+
+    // One batch user.info call for the whole team, then each member's newest
+    // submissions. The shared Codeforces queue spaces these calls inside the CF
+    // rate limit, so a full team takes about as many seconds as calls.
+    const members = await withFetchBudget((async () => {
+      const users = await fetchCodeforcesUsers(trimmedHandles)
+      return Promise.all(users.map(async user => ({
+        user,
+        submissions: await getUserSubmissions(user.handle, MEMBER_SUBMISSIONS)
+      })))
+    })())
+
+    const team = buildTeamStats(members)
+    const messages = buildTeamMessages(team, persona, language, safeMode)
+
+    // Reject before calling the LLM if the request would exceed the daily token budget
+    const budget = await checkTokenBudget('team', clientIP, {
+      promptTokens: estimatePromptTokens(messages),
+      maxCompletionTokens: persona.maxTokens.team
+    })
+    if (!budget.allowed) {
+      await recordRejection('team', 'token_budget')
+      return tokenBudgetResponse(budget)
+    }
+
+    // Record token usage and persist the finished glaze so the response can carry its permalink
+    const buildResult = async (glazeResult: TeamGlaze & { tokensUsed: number; safety: SafetyReport }) => {
+      await recordTokenUsage(budget, glazeResult.tokensUsed)
+      await recordGlaze('team', team.members.map(member => member.handle))
+      const id = await saveGlaze({
+        type: 'team',
+        glaze: glazeResult.glaze,
+        persona: persona.id,
+        team,
+        shoutouts: glazeResult.shoutouts,
+      })
+
+      return {
+        glaze: glazeResult.glaze,
+        team,
+        shoutouts: glazeResult.shoutouts,
+        persona: persona.id,
+        tokensUsed: glazeResult.tokensUsed,
+        safety: glazeResult.safety,
+        permalink: id ? getPermalink(id) : null
+      }
+    }
+
+    // Every glaze passes the safety filter before it is returned or stored
+    const generate = (onDelta?: (content: string) => void) => withTokenReservation(budget, () => generateSafely(
+      glazeDelta => generateTeamGlaze(messages, persona, team, glazeDelta),
+      mapTeamGlazeText,
+      { safeMode, onDelta }
+    ))
+
+    // Stream the group glaze as it is generated; stats and shout-outs arrive in the final event
+    if (wantsStream(request.headers.get('accept'), body)) {
+      return withRateLimitHeaders(createGlazeStream(async (writer) => {
+        const glazeResult = await generate(writer.delta)
+        return buildResult(glazeResult)
+      }, error => recordError('team', error)), rateLimit)
+    }
+
+    const glazeResult = await generate()
+
+    return withRateLimitHeaders(NextResponse.json(await buildResult(glazeResult)), rateLimit)
+
+  } catch (error) {
+    await recordError('team', error)
+
+    if (error instanceof CodeforcesError) {
+      return NextResponse.json(
+        { error: error.message, code: `codeforces_${error.kind}`, kind: error.kind },
+        { status: error.status }
+      )
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error'
+
+    return NextResponse.json(
+      { error: errorMessage, code: 'internal_error' },
+      { status: 500 }
+    )
+  }
+}
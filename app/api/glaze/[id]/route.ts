@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getGlaze, isValidGlazeId } from '../../lib/glaze-store'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isValidGlazeId(params.id)) {
+    return NextResponse.json(
+      { error: 'Invalid glaze id', code: 'invalid_glaze_id' },
+      { status: 400 }
+    )
+  }
+
+  const glaze = await getGlaze(params.id)
+  if (!glaze) {
+    return NextResponse.json(
+      { error: 'Glaze not found or expired', code: 'glaze_not_found' },
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.json(glaze)
+}
@@ -0,0 +1,238 @@
+import { Submission } from './types'
+import { formatHour } from '../../lib/hours'
+
+// Activity timeline over a user's submissions: solving streaks, busiest
+// day and month, time of day and a contribution heatmap. Days are calendar
+// days in the viewer's time zone, given as an offset from UTC in minutes.
+
+export type TimeOfDay = 'night' | 'morning' | 'afternoon' | 'evening'
+
+export interface SolvingStreak {
+  days: number
+  // First and last day of the streak, YYYY-MM-DD
+  start: string
+  end: string
+}
+
+export interface ActivityHeatmap {
+  // First and last day shown, YYYY-MM-DD
+  start: string
+  end: string
+  // Submissions per day; days without submissions are left out
+  days: Record<string, number>
+}
+
+export interface ActivityStats {
+  utcOffsetMinutes: number
+  // Days with at least one submission / accepted submission
+  activeDays: number
+  solvingDays: number
+  longestStreak: SolvingStreak | null
+  // Only counts while the last solving day is today or yesterday
+  currentStreak: SolvingStreak | null
+  // Most problems solved for the first time in one day / month
+  mostProductiveDay: { date: string; solved: number } | null
+  mostProductiveMonth: { month: string; solved: number } | null
+  // Submissions per local hour, index 0 is midnight
+  hourDistribution: number[]
+  peakHour: number | null
+  timeOfDay: Record<TimeOfDay, number>
+  dominantTimeOfDay: TimeOfDay | null
+  // Years since registration, one decimal
+  yearsActive: number | null
+  heatmap: ActivityHeatmap
+}
+
+export interface ActivityOptions {
+  now?: number
+  utcOffsetMinutes?: number
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60
+const SECONDS_PER_YEAR = 365.25 * SECONDS_PER_DAY
+// 52 full weeks plus today, like a GitHub contribution graph
+const HEATMAP_DAYS = 52 * 7 + 1
+
+// Hours are [start, end)
+const TIME_OF_DAY_HOURS: { name: TimeOfDay; start: number; end: number }[] = [
+  { name: 'night', start: 0, end: 6 },
+  { name: 'morning', start: 6, end: 12 },
+  { name: 'afternoon', start: 12, end: 18 },
+  { name: 'evening', start: 18, end: 24 },
+]
+
+// Whole days since the epoch in the viewer's time zone
+function localDayNumber(timeSeconds: number, utcOffsetMinutes: number): number {
+  return Math.floor((timeSeconds + utcOffsetMinutes * 60) / SECONDS_PER_DAY)
+}
+
+function dayNumberToDate(day: number): string {
+  return new Date(day * SECONDS_PER_DAY * 1000).toISOString().slice(0, 10)
+}
+
+function localHour(timeSeconds: number, utcOffsetMinutes: number): number {
+  const secondsIntoDay = (timeSeconds + utcOffsetMinutes * 60) - localDayNumber(timeSeconds, utcOffsetMinutes) * SECONDS_PER_DAY
+  return Math.floor(secondsIntoDay / 3600)
+}
+
+// Longest and latest runs of consecutive days in an ascending list of day numbers
+function findStreaks(days: number[]): { longest: SolvingStreak | null; latest: SolvingStreak | null } {
+  let longest: SolvingStreak | null = null
+  let latest: SolvingStreak | null = null
+  let runStart = 0
+
+  days.forEach((day, index) => {
+    if (index === 0 || day !== days[index - 1] + 1) {
+      runStart = day
+    }
+    latest = { days: day - runStart + 1, start: dayNumberToDate(runStart), end: dayNumberToDate(day) }
+    if (!longest || latest.days > longest.days) {
+      longest = latest
+    }
+  })
+
+  return { longest, latest }
+}
+
+// Entry with the highest count; ties go to the earliest key
+function maxEntry(counts: Map<string, number>): [string, number] | null {
+  let best: [string, number] | null = null
+  Array.from(counts.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(entry => {
+      if (!best || entry[1] > best[1]) best = entry
+    })
+  return best
+}
+
+export function calculateActivityStats(
+  submissions: Submission[],
+  registrationTimeSeconds?: number,
+  options: ActivityOptions = {}
+): ActivityStats {
+  const now = options.now ?? Date.now()
+  const utcOffsetMinutes = options.utcOffsetMinutes ?? 0
+  const nowSeconds = Math.floor(now / 1000)
+  const today = localDayNumber(nowSeconds, utcOffsetMinutes)
+  const heatmapStart = today - HEATMAP_DAYS + 1
+
+  const activeDays = new Set<number>()
+  const solvingDays = new Set<number>()
+  const hourDistribution: number[] = new Array(24).fill(0)
+  const heatmapDays: Record<string, number> = {}
+  // First accepted submission per problem
+  const firstSolves = new Map<string, number>()
+
+  submissions.forEach(sub => {
+    const day = localDayNumber(sub.creationTimeSeconds, utcOffsetMinutes)
+    activeDays.add(day)
+    hourDistribution[localHour(sub.creationTimeSeconds, utcOffsetMinutes)]++
+
+    if (day >= heatmapStart && day <= today) {
+      const date = dayNumberToDate(day)
+      heatmapDays[date] = (heatmapDays[date] || 0) + 1
+    }
+
+    if (sub.verdict === 'OK') {
+      solvingDays.add(day)
+      const problemKey = `${sub.problem.contestId || 'gym'}-${sub.problem.index}`
+      const firstSolve = firstSolves.get(problemKey)
+      if (firstSolve === undefined || sub.creationTimeSeconds < firstSolve) {
+        firstSolves.set(problemKey, sub.creationTimeSeconds)
+      }
+    }
+  })
+
+  const solvedPerDay = new Map<string, number>()
+  const solvedPerMonth = new Map<string, number>()
+  firstSolves.forEach(time => {
+    const date = dayNumberToDate(localDayNumber(time, utcOffsetMinutes))
+    const month = date.slice(0, 7)
+    solvedPerDay.set(date, (solvedPerDay.get(date) || 0) + 1)
+    solvedPerMonth.set(month, (solvedPerMonth.get(month) || 0) + 1)
+  })
+  const bestDay = maxEntry(solvedPerDay)
+  const bestMonth = maxEntry(solvedPerMonth)
+
+  const sortedSolvingDays = Array.from(solvingDays).sort((a, b) => a - b)
+  const { longest, latest } = findStreaks(sortedSolvingDays)
+  const lastSolvingDay = sortedSolvingDays[sortedSolvingDays.length - 1]
+  const currentStreak = lastSolvingDay !== undefined && lastSolvingDay >= today - 1 ? latest : null
+
+  const timeOfDay = { night: 0, morning: 0, afternoon: 0, evening: 0 }
+  TIME_OF_DAY_HOURS.forEach(({ name, start, end }) => {
+    timeOfDay[name] = hourDistribution.slice(start, end).reduce((sum, count) => sum + count, 0)
+  })
+
+  const peakCount = Math.max(...hourDistribution)
+  const dominant = TIME_OF_DAY_HOURS.reduce((best, period) =>
+    timeOfDay[period.name] > timeOfDay[best.name] ? period : best
+  )
+
+  return {
+    utcOffsetMinutes,
+    activeDays: activeDays.size,
+    solvingDays: solvingDays.size,
+    longestStreak: longest,
+    currentStreak,
+    mostProductiveDay: bestDay ? { date: bestDay[0], solved: bestDay[1] } : null,
+    mostProductiveMonth: bestMonth ? { month: bestMonth[0], solved: bestMonth[1] } : null,
+    hourDistribution,
+    peakHour: peakCount > 0 ? hourDistribution.indexOf(peakCount) : null,
+    timeOfDay,
+    dominantTimeOfDay: submissions.length > 0 ? dominant.name : null,
+    yearsActive: registrationTimeSeconds !== undefined
+      ? Math.max(0, Math.round((nowSeconds - registrationTimeSeconds) / SECONDS_PER_YEAR * 10) / 10)
+      : null,
+    heatmap: {
+      start: dayNumberToDate(heatmapStart),
+      end: dayNumberToDate(today),
+      days: heatmapDays,
+    },
+  }
+}
+
+function formatStreak(streak: SolvingStreak): string {
+  return streak.days === 1
+    ? `1 day (${streak.start})`
+    : `${streak.days} days (${streak.start} to ${streak.end})`
+}
+
+export function formatActivityStats(stats: ActivityStats): string {
+  if (stats.activeDays === 0) return "No submission activity yet"
+
+  const totalSubmissions = stats.hourDistribution.reduce((sum, count) => sum + count, 0)
+
+  let text = `Activity Timeline:\n`
+  if (stats.yearsActive !== null) {
+    text += `- Years on Codeforces: ${stats.yearsActive}\n`
+  }
+  text += `- Active Days: ${stats.activeDays} (${stats.solvingDays} with an accepted solution)\n`
+
+  if (stats.longestStreak) {
+    text += `- Longest Daily Solving Streak: ${formatStreak(stats.longestStreak)}\n`
+  }
+  text += stats.currentStreak
+    ? `- Current Solving Streak: ${formatStreak(stats.currentStreak)}\n`
+    : `- Current Solving Streak: none\n`
+
+  if (stats.mostProductiveDay) {
+    text += `- Most Productive Day: ${stats.mostProductiveDay.date} (${stats.mostProductiveDay.solved} new problems solved)\n`
+  }
+  if (stats.mostProductiveMonth) {
+    text += `- Most Productive Month: ${stats.mostProductiveMonth.month} (${stats.mostProductiveMonth.solved} new problems solved)\n`
+  }
+
+  if (stats.peakHour !== null) {
+    text += `- Busiest Hour: ${formatHour(stats.peakHour)} (${stats.hourDistribution[stats.peakHour]} submissions)\n`
+  }
+  const periods = (Object.keys(stats.timeOfDay) as TimeOfDay[])
+    .map(period => `${period} ${Math.round(stats.timeOfDay[period] / totalSubmissions * 100)}%`)
+    .join(', ')
+  text += `- Submissions by Time of Day (local time): ${periods}\n`
+  if (stats.timeOfDay.night / totalSubmissions >= 0.25) {
+    text += `- Night owl: a lot of submissions between midnight and 6 AM\n`
+  }
+
+  return text
+}
@@ -0,0 +1,577 @@
+// Language-aware cleanup of competitive programming submissions before they are
+// sent to the model. Common CP boilerplate (imports, macro blocks, fast IO,
+// debug templates and unused library snippets) is collapsed into one-line
+// markers so the model spends its tokens on the actual solution.
+
+export type CodeLanguage =
+  | 'cpp'
+  | 'c'
+  | 'python'
+  | 'java'
+  | 'rust'
+  | 'kotlin'
+  | 'go'
+  | 'csharp'
+  | 'javascript'
+  | 'unknown'
+
+export const LANGUAGE_NAMES: Record<CodeLanguage, string> = {
+  cpp: 'C++',
+  c: 'C',
+  python: 'Python',
+  java: 'Java',
+  rust: 'Rust',
+  kotlin: 'Kotlin',
+  go: 'Go',
+  csharp: 'C#',
+  javascript: 'JavaScript',
+  unknown: 'Unknown',
+}
+
+export type BoilerplateCategory =
+  | 'imports'
+  | 'pragmas'
+  | 'macros'
+  | 'type aliases'
+  | 'fast io'
+  | 'debug'
+  | 'unused helpers'
+
+export interface PreprocessResult {
+  language: CodeLanguage
+  code: string
+  // Original (1-based) line number of every line in `code`; markers point at
+  // the first line they replace
+  lineMap: number[]
+  stats: {
+    originalLines: number
+    cleanedLines: number
+    originalChars: number
+    cleanedChars: number
+    strippedLines: number
+    strippedPercent: number
+    categories: BoilerplateCategory[]
+  }
+}
+
+interface SourceLine {
+  text: string
+  // `text` with string literals and comments blanked out, for brace counting and lookups
+  masked: string
+  orig: number
+  removed?: BoilerplateCategory
+  // Name of the macro / definition removed on this line, listed in the marker
+  removedName?: string
+}
+
+const EXTENSION_LANGUAGES: Record<string, CodeLanguage> = {
+  cpp: 'cpp', cc: 'cpp', cxx: 'cpp', hpp: 'cpp', h: 'cpp',
+  c: 'c',
+  py: 'python',
+  java: 'java',
+  rs: 'rust',
+  kt: 'kotlin', kts: 'kotlin',
+  go: 'go',
+  cs: 'csharp',
+  js: 'javascript', ts: 'javascript',
+}
+
+const LANGUAGE_HINTS: Array<[CodeLanguage, RegExp[]]> = [
+  ['cpp', [/#include\s*<(bits\/stdc\+\+|iostream|vector|algorithm)/, /\bstd::/, /using namespace std/, /\bcin\s*>>/, /\bcout\s*<</]],
+  ['c', [/#include\s*<stdio\.h>/, /\bscanf\s*\(/, /\bprintf\s*\(/]],
+  ['python', [/^\s*def \w+\(.*\)\s*(->.*)?:\s*$/m, /^\s*(from \w+ )?import \w+/m, /\binput\(\)/, /\bprint\(/, /__name__\s*==/]],
+  ['java', [/\bpublic\s+(final\s+)?class\b/, /System\.(out|in)/, /import java\./, /public static void main\s*\(String/]],
+  ['rust', [/\bfn main\s*\(\)/, /\blet mut\b/, /\buse std::/, /println!|macro_rules!/]],
+  ['kotlin', [/\bfun main\s*\(/, /\bval \w+\s*=/, /readLine\(\)|readln\(\)/, /import kotlin\./]],
+  ['go', [/^package main/m, /\bfunc main\s*\(\)/, /\bfmt\./, /:=/]],
+  ['csharp', [/using System/, /Console\.(Write|Read)/, /\bnamespace\s+\w+/, /static void Main\s*\(/]],
+  ['javascript', [/console\.log/, /\brequire\(/, /\bfunction\s+\w+\s*\(/, /process\.stdin/]],
+]
+
+export function detectLanguage(code: string, filename?: string): CodeLanguage {
+  const extension = filename?.split('.').pop()?.toLowerCase()
+  if (extension && EXTENSION_LANGUAGES[extension]) {
+    return EXTENSION_LANGUAGES[extension]
+  }
+
+  let best = 'unknown' as CodeLanguage
+  let bestScore = 0
+  LANGUAGE_HINTS.forEach(([language, patterns]) => {
+    const score = patterns.filter(pattern => pattern.test(code)).length
+    if (score > bestScore) {
+      best = language
+      bestScore = score
+    }
+  })
+
+  // C code without any C++ markers is reported as C
+  if (best === 'cpp' && !/\bstd::|using namespace std|\bcin\b|\bcout\b/.test(code)) {
+    return /#include\s*<stdio\.h>/.test(code) ? 'c' : best
+  }
+
+  return best
+}
+
+// Blank out string/char literals and comments while keeping every character position
+function maskSource(code: string, language: CodeLanguage): string {
+  const hashComments = language === 'python'
+  let out = ''
+  let i = 0
+
+  while (i < code.length) {
+    const ch = code[i]
+    const next = code[i + 1]
+
+    if (!hashComments && ch === '/' && next === '/') {
+      while (i < code.length && code[i] !== '\n') { out += ' '; i++ }
+    } else if (!hashComments && ch === '/' && next === '*') {
+      out += '  '
+      i += 2
+      while (i < code.length && !(code[i] === '*' && code[i + 1] === '/')) {
+        out += code[i] === '\n' ? '\n' : ' '
+        i++
+      }
+      if (i < code.length) { out += '  '; i += 2 }
+    } else if (hashComments && ch === '#') {
+      while (i < code.length && code[i] !== '\n') { out += ' '; i++ }
+    } else if (ch === '"' || (ch === '\'' && language !== 'rust')) {
+      const quote = ch
+      out += ' '
+      i++
+      while (i < code.length && code[i] !== quote && code[i] !== '\n') {
+        if (code[i] === '\\') { out += ' '; i++ }
+        if (i < code.length) { out += code[i] === '\n' ? '\n' : ' '; i++ }
+      }
+      if (i < code.length && code[i] === quote) { out += ' '; i++ }
+    } else {
+      out += ch
+      i++
+    }
+  }
+
+  return out
+}
+
+function markLines(lines: SourceLine[], from: number, to: number, category: BoilerplateCategory, name?: string) {
+  for (let i = from; i <= to && i < lines.length; i++) {
+    if (!lines[i].removed) {
+      lines[i].removed = category
+      lines[i].removedName = i === from ? name : undefined
+    }
+  }
+}
+
+// Whole-line patterns that are pure boilerplate in each language
+const LINE_RULES: Partial<Record<CodeLanguage, Array<[RegExp, BoilerplateCategory]>>> = {
+  cpp: [
+    [/^\s*#\s*include\b/, 'imports'],
+    [/^\s*using\s+namespace\s+\w+\s*;\s*$/, 'imports'],
+    [/^\s*#\s*pragma\b/, 'pragmas'],
+    [/^\s*typedef\b[^;]*;\s*$/, 'type aliases'],
+    [/^\s*using\s+\w+\s*=[^;]*;\s*$/, 'type aliases'],
+  ],
+  c: [
+    [/^\s*#\s*include\b/, 'imports'],
+    [/^\s*#\s*pragma\b/, 'pragmas'],
+    [/^\s*typedef\b[^;]*;\s*$/, 'type aliases'],
+  ],
+  python: [
+    [/^(import\s+\S+|from\s+\S+\s+import\s+.+)$/, 'imports'],
+    [/^(input|sys\.stdin|sys\.stdout)(\s*,\s*(input|sys\.stdin|sys\.stdout))*\s*=\s*.*$/, 'fast io'],
+    [/^sys\.setrecursionlimit\(.*\)\s*$/, 'fast io'],
+    [/^threading\.stack_size\(.*\)\s*$/, 'fast io'],
+    [/^BUFSIZE\s*=\s*\d+\s*$/, 'fast io'],
+  ],
+  java: [
+    [/^\s*import\s+[\w.*]+\s*;\s*$/, 'imports'],
+  ],
+  rust: [
+    [/^\s*use\s+[^;]+;\s*$/, 'imports'],
+    [/^\s*#!?\[allow\(.*\)\]\s*$/, 'pragmas'],
+  ],
+  kotlin: [
+    [/^\s*import\s+\S+\s*$/, 'imports'],
+  ],
+  go: [
+    [/^\s*import\s+"[^"]+"\s*$/, 'imports'],
+  ],
+  csharp: [
+    [/^\s*using\s+[\w.]+\s*;\s*$/, 'imports'],
+  ],
+}
+
+// Statements that only set up fast IO; a line made up of nothing else is removed
+const FAST_IO_STATEMENTS = [
+  /(std::)?ios(_base)?::sync_with_stdio\s*\([^)]*\)\s*;?/g,
+  /(std::)?(cin|cout|cerr)\s*\.\s*tie\s*\([^)]*\)\s*;?/g,
+  /(std::)?(cin|cout)\s*\.\s*exceptions\s*\([^)]*\)\s*;?/g,
+  /(std::)?cout\s*<<\s*(std::)?(fixed|setprecision\s*\(\d+\))(\s*<<\s*(std::)?(fixed|setprecision\s*\(\d+\)))*\s*;?/g,
+  /\bfreopen\s*\([^)]*\)\s*;?/g,
+]
+
+// Helper definitions that are fast IO or debug scaffolding even when they are used
+const FAST_IO_NAMES = /^(Fast(Reader|Scanner|IO|Input|Output|Writer)|InputReader|OutputWriter|Kattio|IOWrapper|Scanner|Reader|Writer|FastIn|FastOut)$/
+const DEBUG_NAMES = /^(__?print|_*dbg|debug\w*|dbg_out|debug_out)$/i
+
+function applyLineRules(lines: SourceLine[], language: CodeLanguage) {
+  const rules = LINE_RULES[language] || []
+  lines.forEach(line => {
+    if (line.removed) return
+    const match = rules.find(([pattern]) => pattern.test(line.text))
+    if (match) {
+      line.removed = match[1]
+    }
+  })
+
+  if (language === 'cpp' || language === 'c') {
+    lines.forEach(line => {
+      if (line.removed || !line.masked.trim()) return
+      let rest = line.masked
+      FAST_IO_STATEMENTS.forEach(pattern => { rest = rest.replace(pattern, '') })
+      if (rest.trim() === '' && rest !== line.masked) {
+        line.removed = 'fast io'
+      }
+    })
+  }
+
+  if (language === 'go') {
+    // import ( ... ) blocks
+    for (let i = 0; i < lines.length; i++) {
+      if (/^\s*import\s*\(\s*$/.test(lines[i].masked)) {
+        let end = i
+        while (end < lines.length - 1 && !/^\s*\)\s*$/.test(lines[end].masked)) end++
+        markLines(lines, i, end, 'imports')
+        i = end
+      }
+    }
+  }
+}
+
+// #define blocks (with continuations) and #if(n)def LOCAL / DEBUG / ONLINE_JUDGE sections
+function applyPreprocessorRules(lines: SourceLine[]) {
+  for (let i = 0; i < lines.length; i++) {
+    const text = lines[i].text
+
+    const debugBlock = /^\s*#\s*if(n?def)?\s+.*\b(LOCAL|DEBUG|_DEBUG|ONLINE_JUDGE|EVAL|LOCAL_DEBUG)\b/.test(text)
+    if (debugBlock) {
+      let depth = 0
+      let end = i
+      for (let j = i; j < lines.length; j++) {
+        if (/^\s*#\s*if/.test(lines[j].text)) depth++
+        if (/^\s*#\s*endif/.test(lines[j].text)) depth--
+        if (depth === 0) { end = j; break }
+        end = j
+      }
+      markLines(lines, i, end, 'debug')
+      i = end
+      continue
+    }
+
+    const define = text.match(/^\s*#\s*(define|undef)\s+(\w+)/)
+    if (define) {
+      let end = i
+      while (end < lines.length - 1 && /\\\s*$/.test(lines[end].text)) end++
+      const category: BoilerplateCategory = DEBUG_NAMES.test(define[2]) ? 'debug' : 'macros'
+      markLines(lines, i, end, category, define[1] === 'define' ? define[2] : undefined)
+      i = end
+    }
+  }
+}
+
+// Rust macro_rules! definitions
+function applyRustMacroRules(lines: SourceLine[]) {
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].masked.match(/^\s*macro_rules!\s*(\w+)/)
+    if (!match) continue
+    const end = findBraceBlockEnd(lines, i)
+    if (end !== -1) {
+      markLines(lines, i, end, DEBUG_NAMES.test(match[1]) ? 'debug' : 'macros', match[1])
+      i = end
+    }
+  }
+}
+
+// Index of the line closing the brace block opened on (or right after) `start`
+function findBraceBlockEnd(lines: SourceLine[], start: number): number {
+  let depth = 0
+  let opened = false
+
+  for (let i = start; i < lines.length; i++) {
+    for (const ch of lines[i].masked) {
+      if (ch === '{') { depth++; opened = true }
+      if (ch === '}') depth--
+    }
+    if (opened && depth <= 0) return i
+    // A prototype or statement ended before any block was opened
+    if (!opened && /;\s*$/.test(lines[i].masked)) return -1
+    if (!opened && i > start + 2) return -1
+  }
+
+  return -1
+}
+
+interface Definition {
+  name: string
+  start: number
+  end: number
+}
+
+const CONTROL_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'else', 'do', 'sizeof', 'main', 'operator'])
+
+function definitionName(masked: string, language: CodeLanguage): { name: string; isType: boolean } | null {
+  const typeMatch = masked.match(/^\s*(?:pub(?:\([\w:]+\))?\s+)?(?:(?:public|private|protected|internal|static|final|abstract|data|sealed|open)\s+)*(?:struct|class|enum|union|interface|trait|object|impl(?:<[^>]*>)?)\s+(\w+)/)
+  if (typeMatch) return { name: typeMatch[1], isType: true }
+
+  let fnMatch: RegExpMatchArray | null = null
+  if (language === 'rust') {
+    fnMatch = masked.match(/^\s*(?:pub(?:\([\w:]+\))?\s+)?(?:const\s+)?fn\s+(\w+)/)
+  } else if (language === 'kotlin') {
+    fnMatch = masked.match(/^\s*(?:(?:private|public|internal|inline|tailrec|operator|infix)\s+)*fun\s+(?:<[^>]*>\s*)?(?:[\w.<>?, ]+\.)?(\w+)\s*\(/)
+  } else if (language === 'go') {
+    fnMatch = masked.match(/^\s*func\s+(?:\([^)]*\)\s*)?(\w+)\s*[(\[]/)
+  } else if (language === 'javascript') {
+    fnMatch = masked.match(/^\s*(?:async\s+)?function\s*\*?\s*(\w+)\s*\(/)
+  } else {
+    // C-family: "<return type> name(<params>)" not followed by ';', or with the
+    // whole body on the same line: template<class T> void dbg(T x) { cerr << x; }
+    fnMatch = masked.match(/^\s*(?:template\s*<.*>\s*)?[\w:<>,\s*&\[\]]*?[\w>\]*&]\s+[*&]*(\w+)\s*\((?:[^;{]*$|[^;{]*\)[\w\s]*\{)/)
+  }
+
+  if (!fnMatch || CONTROL_KEYWORDS.has(fnMatch[1])) return null
+  return { name: fnMatch[1], isType: false }
+}
+
+// Top-level definitions (and, for class-based languages, members of the top-level class)
+function findDefinitions(lines: SourceLine[], language: CodeLanguage): Definition[] {
+  const definitions: Definition[] = []
+  const maxDepth = language === 'java' || language === 'csharp' || language === 'kotlin' ? 1 : 0
+  let depth = 0
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+
+    if (!line.removed && depth <= maxDepth) {
+      const found = definitionName(line.masked, language)
+      if (found) {
+        // Kotlin expression bodies: fun readInt() = readLn().toInt()
+        const end = language === 'kotlin' && /\)\s*(:\s*[\w<>?, ]+)?\s*=/.test(line.masked)
+          ? i
+          : findBraceBlockEnd(lines, i)
+        if (end !== -1) {
+          // Pull in a template<...> line right above C++ definitions
+          const start = i > 0 && /^\s*template\s*<.*>\s*$/.test(lines[i - 1].masked) ? i - 1 : i
+          definitions.push({ name: found.name, start, end })
+          // Skip over the body (depth is unchanged after a balanced block),
+          // except for top-level classes whose members are inspected too
+          const inspectMembers = found.isType && depth < maxDepth
+          if (end > i && !inspectMembers) {
+            i = end
+            continue
+          }
+        }
+      }
+    }
+
+    for (const ch of line.masked) {
+      if (ch === '{') depth++
+      if (ch === '}') depth = Math.max(0, depth - 1)
+    }
+  }
+
+  return definitions
+}
+
+// Python: top-level def / class blocks, including decorators
+function findPythonDefinitions(lines: SourceLine[]): Definition[] {
+  const definitions: Definition[] = []
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].masked.match(/^(?:async\s+)?(?:def|class)\s+(\w+)/)
+    if (!match || lines[i].removed) continue
+
+    let start = i
+    while (start > 0 && /^@/.test(lines[start - 1].masked)) start--
+
+    let end = i
+    for (let j = i + 1; j < lines.length; j++) {
+      if (lines[j].text.trim() === '') continue
+      if (/^\s/.test(lines[j].text)) { end = j } else break
+    }
+
+    definitions.push({ name: match[1], start, end })
+    i = end
+  }
+
+  return definitions
+}
+
+function isReferencedElsewhere(lines: SourceLine[], definition: Definition): boolean {
+  const pattern = new RegExp(`\\b${definition.name}\\b`)
+  return lines.some((line, index) =>
+    (index < definition.start || index > definition.end) &&
+    !line.removed &&
+    pattern.test(line.masked)
+  )
+}
+
+function containsEntryPoint(lines: SourceLine[], definition: Definition): boolean {
+  for (let i = definition.start; i <= definition.end; i++) {
+    if (/\bmain\s*\(|\bMain\s*\(/.test(lines[i].masked)) return true
+  }
+  return false
+}
+
+// Collapse fast IO / debug helpers and drop definitions nobody references.
+// Runs until nothing changes, since removing one helper can orphan another.
+function applyDefinitionRules(lines: SourceLine[], language: CodeLanguage) {
+  for (let pass = 0; pass < 5; pass++) {
+    const definitions = language === 'python'
+      ? findPythonDefinitions(lines)
+      : findDefinitions(lines, language)
+    let changed = false
+
+    definitions.forEach(definition => {
+      if (containsEntryPoint(lines, definition)) return
+
+      let category: BoilerplateCategory | null = null
+      if (FAST_IO_NAMES.test(definition.name)) {
+        category = 'fast io'
+      } else if (DEBUG_NAMES.test(definition.name)) {
+        category = 'debug'
+      } else if (!isReferencedElsewhere(lines, definition)) {
+        category = 'unused helpers'
+      }
+
+      if (category) {
+        markLines(lines, definition.start, definition.end, category, definition.name)
+        changed = true
+      }
+    })
+
+    if (!changed) break
+  }
+}
+
+function markerFor(language: CodeLanguage, count: number, categories: BoilerplateCategory[], names: string[]): string {
+  const comment = language === 'python' ? '#' : '//'
+  const shownNames = names.slice(0, 8).join(', ') + (names.length > 8 ? ', ...' : '')
+  const detail = names.length > 0 ? ` (${shownNames})` : ''
+  return `${comment} [boilerplate removed: ${count} line${count === 1 ? '' : 's'} of ${categories.join(', ')}${detail}]`
+}
+
+export function preprocessCode(code: string, filename?: string): PreprocessResult {
+  const language = detectLanguage(code, filename)
+  const normalized = code.replace(/\r\n?/g, '\n')
+  const rawLines = normalized.split('\n')
+  const maskedLines = maskSource(normalized, language).split('\n')
+
+  const lines: SourceLine[] = rawLines.map((text, index) => ({
+    text,
+    masked: maskedLines[index] ?? text,
+    orig: index + 1,
+  }))
+
+  if (language !== 'unknown') {
+    if (language === 'cpp' || language === 'c') applyPreprocessorRules(lines)
+    if (language === 'rust') applyRustMacroRules(lines)
+    applyLineRules(lines, language)
+    applyDefinitionRules(lines, language)
+  }
+
+  // Rebuild the code, replacing each run of removed lines (blank lines inside
+  // a run are absorbed into it) with a single marker
+  const output: string[] = []
+  const lineMap: number[] = []
+  const categoriesSeen = new Set<BoilerplateCategory>()
+  let strippedLines = 0
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].removed) {
+      // Collapse repeated blank lines
+      if (lines[i].text.trim() === '' && output.length > 0 && output[output.length - 1].trim() === '') continue
+      output.push(lines[i].text)
+      lineMap.push(lines[i].orig)
+      continue
+    }
+
+    const runStart = i
+    const categories: BoilerplateCategory[] = []
+    const names: string[] = []
+    let count = 0
+    let runEnd = i
+
+    for (let j = i; j < lines.length; j++) {
+      const line = lines[j]
+      if (line.removed) {
+        count++
+        runEnd = j
+        if (!categories.includes(line.removed)) categories.push(line.removed)
+        if (line.removedName && !names.includes(line.removedName)) names.push(line.removedName)
+      } else if (line.text.trim() !== '') {
+        break
+      }
+    }
+
+    const indent = lines[runStart].text.match(/^\s*/)?.[0] || ''
+    const marker = indent + markerFor(language, count, categories, names)
+    const run = lines.slice(runStart, runEnd + 1)
+
+    // A marker longer than what it replaces (a lone short #include) saves nothing
+    if (marker.length >= run.map(line => line.text).join('\n').length) {
+      run.forEach(line => {
+        output.push(line.text)
+        lineMap.push(line.orig)
+      })
+      i = runEnd
+      continue
+    }
+
+    output.push(marker)
+    lineMap.push(lines[runStart].orig)
+    categories.forEach(category => categoriesSeen.add(category))
+    strippedLines += count
+    i = runEnd
+  }
+
+  // Trim leading / trailing blank lines
+  while (output.length > 0 && output[0].trim() === '') { output.shift(); lineMap.shift() }
+  while (output.length > 0 && output[output.length - 1].trim() === '') { output.pop(); lineMap.pop() }
+
+  const cleaned = output.join('\n')
+  const hasCode = output.some(line => line.trim() !== '' && !line.includes('[boilerplate removed:'))
+
+  // Never hand the model an empty solution because a heuristic went too far
+  if (!hasCode) {
+    return {
+      language,
+      code: normalized.trim(),
+      lineMap: rawLines.map((_, index) => index + 1),
+      stats: {
+        originalLines: rawLines.length,
+        cleanedLines: rawLines.length,
+        originalChars: normalized.length,
+        cleanedChars: normalized.length,
+        strippedLines: 0,
+        strippedPercent: 0,
+        categories: [],
+      },
+    }
+  }
+
+  return {
+    language,
+    code: cleaned,
+    lineMap,
+    stats: {
+      originalLines: rawLines.length,
+      cleanedLines: output.length,
+      originalChars: normalized.length,
+      cleanedChars: cleaned.length,
+      strippedLines,
+      strippedPercent: normalized.length > 0
+        ? Math.max(0, Math.round((1 - cleaned.length / normalized.length) * 1000) / 10)
+        : 0,
+      categories: Array.from(categoriesSeen),
+    },
+  }
+}
@@ -0,0 +1,130 @@
+import { extractGlazeField, parseJsonObject } from './structured-output'
+
+// Structured code review: the model answers with an overall glaze plus
+// annotations anchored to line ranges of the original submission.
+
+export interface CodeAnnotation {
+  // 1-based, inclusive, in the code as uploaded (before boilerplate stripping)
+  startLine: number
+  endLine: number
+  quote: string
+  comment: string
+}
+
+export interface CodeReview {
+  glaze: string
+  annotations: CodeAnnotation[]
+  // False when the reply wasn't valid JSON and the raw text was used instead
+  structured: boolean
+}
+
+const MAX_ANNOTATIONS = 12
+const MAX_COMMENT_LENGTH = 600
+const MAX_QUOTE_LENGTH = 300
+
+export const CODE_REVIEW_FORMAT = `Respond with a single JSON object and nothing else, in exactly this shape:
+{"glaze": "<your overall reaction as plain text>", "annotations": [{"startLine": 12, "endLine": 14, "quote": "<the code on those lines>", "comment": "<your reaction to those lines>"}]}
+Write "glaze" first. Every line of the submission starts with its line number and " | ". Use those numbers for startLine and endLine, and leave the numbers out of quotes. Give between 2 and 8 annotations.`
+
+// Prefix each cleaned line with its line number in the original upload
+export function numberCodeLines(code: string, lineMap: number[]): string {
+  const lines = code.split('\n')
+  const width = String(Math.max(1, ...lineMap)).length
+  return lines
+    .map((line, index) => `${String(lineMap[index] ?? index + 1).padStart(width)} | ${line}`)
+    .join('\n')
+}
+
+function toLineNumber(value: unknown): number | null {
+  const number = typeof value === 'string' ? parseInt(value) : value
+  return typeof number === 'number' && Number.isFinite(number) ? Math.round(number) : null
+}
+
+function rangeContains(codeLines: string[], startLine: number, endLine: number, text: string): boolean {
+  return codeLines.slice(startLine - 1, endLine).some(line => line.includes(text))
+}
+
+// Models often get line numbers slightly wrong but quote the code correctly,
+// so a quote that isn't on the given lines moves the range to where it is.
+function locateQuote(codeLines: string[], quote: string, hint: number | null): { startLine: number; endLine: number } | null {
+  const quoteLines = quote.split('\n').map(line => line.trim()).filter(Boolean)
+  if (quoteLines.length === 0) return null
+
+  let best: number | null = null
+  codeLines.forEach((line, index) => {
+    if (!line.includes(quoteLines[0])) return
+    const lineNumber = index + 1
+    if (best === null || hint === null || Math.abs(lineNumber - hint) < Math.abs(best - hint)) {
+      best = lineNumber
+    }
+  })
+
+  if (best === null) return null
+  return { startLine: best, endLine: Math.min(codeLines.length, best + quoteLines.length - 1) }
+}
+
+function toAnnotation(value: unknown, codeLines: string[]): CodeAnnotation | null {
+  if (!value || typeof value !== 'object') return null
+  const entry = value as Record<string, unknown>
+
+  const comment = typeof entry.comment === 'string' ? entry.comment.trim() : ''
+  if (!comment) return null
+  const quote = typeof entry.quote === 'string' ? entry.quote.replace(/^\s*\d+ \| /gm, '').trim() : ''
+
+  let startLine = toLineNumber(entry.startLine ?? entry.line)
+  let endLine = toLineNumber(entry.endLine) ?? startLine
+
+  const firstQuoteLine = quote.split('\n')[0].trim()
+  const quoteFits = startLine !== null && endLine !== null && firstQuoteLine !== ''
+    && rangeContains(codeLines, Math.min(startLine, endLine), Math.max(startLine, endLine), firstQuoteLine)
+  if (quote && !quoteFits) {
+    const located = locateQuote(codeLines, quote, startLine)
+    if (located) {
+      startLine = located.startLine
+      endLine = located.endLine
+    }
+  }
+
+  if (startLine === null || endLine === null) return null
+  if (endLine < startLine) {
+    [startLine, endLine] = [endLine, startLine]
+  }
+  if (startLine > codeLines.length || endLine < 1) return null
+
+  return {
+    startLine: Math.max(1, startLine),
+    endLine: Math.min(codeLines.length, endLine),
+    quote: quote.slice(0, MAX_QUOTE_LENGTH),
+    comment: comment.slice(0, MAX_COMMENT_LENGTH),
+  }
+}
+
+// Validate the model's reply against the uploaded code. Malformed JSON falls
+// back to whatever glaze text can be recovered, with no annotations.
+export function parseCodeReview(raw: string, originalCode: string): CodeReview {
+  const codeLines = originalCode.split(/\r?\n/)
+  const parsed = parseJsonObject(raw)
+
+  if (parsed && typeof parsed.glaze === 'string' && parsed.glaze.trim()) {
+    const seen = new Set<string>()
+    const annotations = (Array.isArray(parsed.annotations) ? parsed.annotations : [])
+      .map(entry => toAnnotation(entry, codeLines))
+      .filter((annotation): annotation is CodeAnnotation => {
+        if (!annotation) return false
+        const key = `${annotation.startLine}-${annotation.endLine}`
+        if (seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+      .sort((a, b) => a.startLine - b.startLine)
+      .slice(0, MAX_ANNOTATIONS)
+
+    return { glaze: parsed.glaze.trim(), annotations, structured: true }
+  }
+
+  // Truncated or invalid JSON still usually has a readable glaze field
+  const glaze = extractGlazeField(raw).trim()
+    || raw.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, '').trim()
+
+  return { glaze, annotations: [], structured: false }
+}
@@ -0,0 +1,322 @@
+// Shared Codeforces API client.
+//
+// Every call goes through one process-wide queue so concurrent glaze requests
+// together stay under Codeforces' limit of roughly one call per second.
+// "Call limit exceeded" answers and transient failures are retried with
+// exponential backoff, and every failure surfaces as a CodeforcesError.
+// The queue is bounded: at most MAX_QUEUED_CALLS wait for a slot, and a call
+// stops retrying CALL_DEADLINE_MS after its first attempt, so a call always
+// ends within the routes' maxDuration.
+// Array results are validated entry by entry: malformed entries are dropped
+// and counted in the usage stats instead of failing the whole request.
+
+import {
+  CodeforcesResponse,
+  CodeforcesUser,
+  ContestStandings,
+  RanklistRow,
+  RatingChange,
+  Submission,
+  ValidationIssue,
+  formatValidationIssue,
+  partitionValid,
+  validateCodeforcesResponse,
+  validateCodeforcesUser,
+  validateContestStandings,
+  validateRanklistRow,
+  validateRatingChange,
+  validateSubmission
+} from './types'
+import { recordDroppedEntries } from './usage-stats'
+
+const CF_API_BASE = 'https://codeforces.com/api'
+const MIN_REQUEST_INTERVAL_MS = 1000
+const REQUEST_TIMEOUT_MS = 10000
+const MAX_RETRIES = 3
+const BACKOFF_BASE_MS = 1000
+const MAX_QUEUED_CALLS = 10
+const CALL_DEADLINE_MS = 15000
+
+export type CodeforcesErrorKind =
+  | 'not_found'       // handle (or other entity) does not exist
+  | 'rate_limited'    // still hitting "Call limit exceeded" after all retries
+  | 'timeout'         // no response within REQUEST_TIMEOUT_MS
+  | 'network'         // fetch itself failed or CF returned a 5xx
+  | 'invalid_response' // payload did not have the expected shape
+  | 'api_error'       // CF answered FAILED for any other reason
+
+const STATUS_BY_KIND: Record<CodeforcesErrorKind, number> = {
+  not_found: 404,
+  rate_limited: 503,
+  timeout: 504,
+  network: 502,
+  invalid_response: 502,
+  api_error: 400,
+}
+
+export class CodeforcesError extends Error {
+  kind: CodeforcesErrorKind
+  // HTTP status the API routes should answer with
+  status: number
+
+  constructor(kind: CodeforcesErrorKind, message: string) {
+    super(message)
+    this.name = 'CodeforcesError'
+    this.kind = kind
+    this.status = STATUS_BY_KIND[kind]
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+// Earliest time the next request may start. Reserving the slot synchronously
+// keeps concurrent callers from being scheduled into the same second.
+let nextRequestSlot = 0
+// Calls currently sleeping until their slot
+let queuedCalls = 0
+
+async function waitForRequestSlot(): Promise<void> {
+  const now = Date.now()
+  const startAt = Math.max(now, nextRequestSlot)
+  nextRequestSlot = startAt + MIN_REQUEST_INTERVAL_MS
+  if (startAt > now) {
+    queuedCalls++
+    await sleep(startAt - now)
+    queuedCalls--
+  }
+}
+
+function isRetryable(error: CodeforcesError): boolean {
+  return error.kind === 'rate_limited' || error.kind === 'timeout' || error.kind === 'network'
+}
+
+async function requestOnce(url: string, timeoutMs: number): Promise<unknown> {
+  if (timeoutMs <= 0) {
+    throw new CodeforcesError('timeout', 'Codeforces API timed out')
+  }
+
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+
+  let response: Response
+  try {
+    response = await fetch(url, { signal: controller.signal, cache: 'no-store' })
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new CodeforcesError('timeout', 'Codeforces API timed out')
+    }
+    throw new CodeforcesError('network', 'Could not reach the Codeforces API')
+  } finally {
+    clearTimeout(timer)
+  }
+
+  if (response.status >= 500) {
+    throw new CodeforcesError('network', `Codeforces API is unavailable (HTTP ${response.status})`)
+  }
+
+  let data: unknown
+  try {
+    data = await response.json()
+  } catch (error) {
+    throw new CodeforcesError('invalid_response', 'Invalid response format from Codeforces API')
+  }
+
+  const envelopeIssue = validateCodeforcesResponse(data)
+  if (envelopeIssue) {
+    throw new CodeforcesError(
+      'invalid_response',
+      `Invalid response format from Codeforces API (${formatValidationIssue(envelopeIssue)})`
+    )
+  }
+
+  // The envelope matched its schema above
+  const envelope = data as CodeforcesResponse
+  if (envelope.status !== 'OK') {
+    const comment = envelope.comment || 'Codeforces API request failed'
+    if (/call limit exceeded/i.test(comment)) {
+      throw new CodeforcesError('rate_limited', 'Codeforces API call limit exceeded, please try again later')
+    }
+    if (/not found/i.test(comment)) {
+      throw new CodeforcesError('not_found', comment)
+    }
+    throw new CodeforcesError('api_error', comment)
+  }
+
+  return envelope.result
+}
+
+// Call a Codeforces API method and return its `result` field.
+// Parameters are URL-encoded, so handles can be passed through as typed.
+export async function callCodeforces(
+  method: string,
+  params: Record<string, string | number | boolean>
+): Promise<unknown> {
+  const query = new URLSearchParams()
+  Object.keys(params).forEach(key => query.set(key, String(params[key])))
+  const url = `${CF_API_BASE}/${method}?${query.toString()}`
+
+  // Fail fast rather than queue behind a backlog that can't finish in time
+  if (queuedCalls >= MAX_QUEUED_CALLS) {
+    throw new CodeforcesError('rate_limited', 'Too many Codeforces API calls are waiting, please try again later')
+  }
+
+  let deadline = 0
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await waitForRequestSlot()
+      // The deadline starts with the first attempt; the wait before it is bounded by the queue size
+      deadline = deadline || Date.now() + CALL_DEADLINE_MS
+      return await requestOnce(url, Math.min(REQUEST_TIMEOUT_MS, deadline - Date.now()))
+    } catch (error) {
+      // Exponential backoff: 1s, 2s, 4s, ... as long as it ends before the deadline
+      const backoff = BACKOFF_BASE_MS * Math.pow(2, attempt)
+      if (
+        !(error instanceof CodeforcesError) || !isRetryable(error) ||
+        attempt >= MAX_RETRIES || Date.now() + backoff >= deadline
+      ) {
+        throw error
+      }
+      await sleep(backoff)
+    }
+  }
+}
+
+// Keep the entries of an array result that match their type. Dropped entries
+// are counted per method and failing field, so CF API changes show up on the
+// admin dashboard. `received` is the page size before dropping.
+async function keepValidEntries<T>(
+  method: string,
+  result: unknown,
+  validate: (item: unknown) => ValidationIssue | null
+): Promise<{ entries: T[]; received: number }> {
+  if (!Array.isArray(result)) {
+    throw new CodeforcesError('invalid_response', `Invalid ${method} result (expected array)`)
+  }
+
+  const { valid, dropped } = partitionValid<T>(result, validate)
+  if (dropped.length > 0) {
+    await recordDroppedEntries(method, dropped)
+  }
+  return { entries: valid, received: result.length }
+}
+
+export async function fetchCodeforcesData(username: string): Promise<CodeforcesUser> {
+  const result = await callCodeforces('user.info', { handles: username })
+
+  if (!Array.isArray(result) || result.length === 0) {
+    throw new CodeforcesError('not_found', 'User not found')
+  }
+
+  // There is only one user per request, so a malformed one can't be dropped
+  const issue = validateCodeforcesUser(result[0])
+  if (issue) {
+    await recordDroppedEntries('user.info', [issue])
+    throw new CodeforcesError('invalid_response', `Invalid user data format (${formatValidationIssue(issue)})`)
+  }
+
+  return result[0] as CodeforcesUser
+}
+
+// Several users in one user.info call (handles joined by ';'), in request order.
+// CF fails the whole call when any handle doesn't exist.
+export async function fetchCodeforcesUsers(handles: string[]): Promise<CodeforcesUser[]> {
+  const result = await callCodeforces('user.info', { handles: handles.join(';') })
+
+  if (!Array.isArray(result) || result.length !== handles.length) {
+    throw new CodeforcesError('not_found', 'User not found')
+  }
+
+  // Every member is needed, so a malformed user fails the request like above
+  const { valid, dropped } = partitionValid<CodeforcesUser>(result, validateCodeforcesUser)
+  if (dropped.length > 0) {
+    await recordDroppedEntries('user.info', dropped)
+    throw new CodeforcesError('invalid_response', `Invalid user data format (${formatValidationIssue(dropped[0])})`)
+  }
+
+  return valid
+}
+
+// Contest rating history, oldest contest first. Unrated users get an empty array.
+export async function fetchRatingHistory(username: string): Promise<RatingChange[]> {
+  const result = await callCodeforces('user.rating', { handle: username })
+  const { entries } = await keepValidEntries<RatingChange>('user.rating', result, validateRatingChange)
+  return entries
+}
+
+// Standings of one contest restricted to a single handle. Unofficial rows
+// (virtual, out of competition, practice) are included.
+export async function fetchContestStandings(contestId: number, handle: string): Promise<ContestStandings> {
+  const result = await callCodeforces('contest.standings', { contestId, handles: handle, showUnofficial: true })
+
+  const issue = validateContestStandings(result)
+  if (issue) {
+    await recordDroppedEntries('contest.standings', [issue])
+    throw new CodeforcesError('invalid_response', `Invalid contest standings format (${formatValidationIssue(issue)})`)
+  }
+
+  const standings = result as ContestStandings
+  const { entries } = await keepValidEntries<RanklistRow>('contest.standings', standings.rows, validateRanklistRow)
+  return { ...standings, rows: entries }
+}
+
+// Rating changes of every rated participant. Empty while the contest is still
+// being rated; CF answers FAILED for contests that are never rated.
+export async function fetchContestRatingChanges(contestId: number): Promise<RatingChange[]> {
+  const result = await callCodeforces('contest.ratingChanges', { contestId })
+  const { entries } = await keepValidEntries<RatingChange>('contest.ratingChanges', result, validateRatingChange)
+  return entries
+}
+
+export async function fetchUserSubmissions(username: string, maxSubmissions: number = 5000): Promise<Submission[]> {
+  const allSubmissions: Submission[] = []
+  const batchSize = 1000  // Max allowed by CF API
+  let from = 1
+
+  while (allSubmissions.length < maxSubmissions) {
+    const count = Math.min(batchSize, maxSubmissions - allSubmissions.length)
+    const result = await callCodeforces('user.status', { handle: username, from, count })
+    const { entries, received } = await keepValidEntries<Submission>('user.status', result, validateSubmission)
+    allSubmissions.push(...entries)
+
+    // If we got fewer submissions than requested, we've reached the end
+    if (received < count) {
+      break
+    }
+
+    from += count
+  }
+
+  return allSubmissions
+}
+
+// Fetch only submissions with an id greater than `afterId`. CF returns submissions
+// newest first, so paging stops at the first page that reaches already-known ids.
+// The first page is small because usually only a handful of submissions are new.
+export async function fetchSubmissionsNewerThan(
+  username: string,
+  afterId: number,
+  maxSubmissions: number = 5000
+): Promise<Submission[]> {
+  const newSubmissions: Submission[] = []
+  let from = 1
+  let count = 100
+
+  while (newSubmissions.length < maxSubmissions) {
+    const result = await callCodeforces('user.status', { handle: username, from, count })
+    const { entries, received } = await keepValidEntries<Submission>('user.status', result, validateSubmission)
+
+    const fresh = entries.filter(sub => sub.id > afterId)
+    newSubmissions.push(...fresh)
+
+    if (fresh.length < entries.length || received < count) {
+      break
+    }
+
+    from += count
+    count = 1000
+  }
+
+  return newSubmissions.slice(0, maxSubmissions)
+}
@@ -0,0 +1,146 @@
+import { CodeforcesUser, Submission } from './types'
+import {
+  calculateSubmissionStats,
+  calculateRatingDistribution,
+  getRatingRangeMin
+} from './submission-stats'
+
+// Side-by-side stat diff for the head-to-head compare route
+
+export interface ComparedUser {
+  user: CodeforcesUser
+  submissions: Submission[]
+}
+
+export interface ComparisonMetric {
+  key: string
+  label: string
+  // One value per handle, in request order
+  values: Array<number | null>
+  // Handle with the best value, null on a tie or when nobody has a value
+  leader: string | null
+}
+
+export interface ComparisonBucket {
+  range: string
+  counts: number[]
+}
+
+export interface Comparison {
+  handles: string[]
+  metrics: ComparisonMetric[]
+  buckets: ComparisonBucket[]
+  sharedSolved: {
+    count: number
+    // A few of the shared problems by name, for the prompt and the UI
+    sample: string[]
+  }
+}
+
+const SHARED_SAMPLE_SIZE = 10
+
+function findLeader(handles: string[], values: Array<number | null>): string | null {
+  let best: number | null = null
+  let leader: string | null = null
+  let tied = false
+
+  values.forEach((value, index) => {
+    if (value === null) return
+    if (best === null || value > best) {
+      best = value
+      leader = handles[index]
+      tied = false
+    } else if (value === best) {
+      tied = true
+    }
+  })
+
+  return tied ? null : leader
+}
+
+function solvedProblemNames(submissions: Submission[]): Map<string, string> {
+  const solved = new Map<string, string>()
+  submissions.forEach(sub => {
+    if (sub.verdict === 'OK') {
+      const problemKey = `${sub.problem.contestId || 'gym'}-${sub.problem.index}`
+      solved.set(problemKey, `${sub.problem.contestId || ''}${sub.problem.index} ${sub.problem.name}`)
+    }
+  })
+  return solved
+}
+
+export function buildComparison(users: ComparedUser[]): Comparison {
+  const handles = users.map(entry => entry.user.handle)
+  const stats = users.map(entry => calculateSubmissionStats(entry.submissions))
+  const distributions = users.map(entry => calculateRatingDistribution(entry.submissions))
+
+  const metric = (key: string, label: string, values: Array<number | null>): ComparisonMetric => ({
+    key,
+    label,
+    values,
+    leader: findLeader(handles, values),
+  })
+
+  const metrics = [
+    metric('rating', 'Rating', users.map(entry => entry.user.rating ?? null)),
+    metric('maxRating', 'Max Rating', users.map(entry => entry.user.maxRating ?? null)),
+    metric('uniqueProblemsSolved', 'Problems Solved', stats.map(s => s.uniqueProblemsSolved)),
+    metric('acceptanceRate', 'Acceptance Rate (%)', stats.map(s => s.acceptanceRate)),
+    metric('totalSubmissions', 'Total Submissions', stats.map(s => s.totalSubmissions)),
+    metric('contribution', 'Contribution', users.map(entry => entry.user.contribution ?? null)),
+  ]
+
+  const ranges = new Set<string>()
+  distributions.forEach(distribution => Object.keys(distribution).forEach(range => ranges.add(range)))
+  const buckets = Array.from(ranges)
+    .sort((a, b) => getRatingRangeMin(a) - getRatingRangeMin(b))
+    .map(range => ({
+      range,
+      counts: distributions.map(distribution => distribution[range] || 0),
+    }))
+
+  // Problems every handle has solved
+  const solvedSets = users.map(entry => solvedProblemNames(entry.submissions))
+  const [first, ...rest] = solvedSets
+  const shared = Array.from(first.keys()).filter(key => rest.every(solved => solved.has(key)))
+
+  return {
+    handles,
+    metrics,
+    buckets,
+    sharedSolved: {
+      count: shared.length,
+      sample: shared.slice(0, SHARED_SAMPLE_SIZE).map(key => first.get(key) as string),
+    },
+  }
+}
+
+export function formatComparison(comparison: Comparison): string {
+  let text = `Head-to-head: ${comparison.handles.join(' vs ')}\n\n`
+
+  comparison.metrics.forEach(metric => {
+    const values = comparison.handles
+      .map((handle, index) => `${handle}: ${metric.values[index] ?? 'n/a'}`)
+      .join(', ')
+    text += `${metric.label} - ${values}`
+    text += metric.leader ? ` (winner: ${metric.leader})\n` : ' (tied)\n'
+  })
+
+  if (comparison.buckets.length > 0) {
+    text += `\nSolved problems per rating range:\n`
+    comparison.buckets.forEach(bucket => {
+      const counts = comparison.handles
+        .map((handle, index) => `${handle} ${bucket.counts[index]}`)
+        .join(', ')
+      text += `${bucket.range}: ${counts}\n`
+    })
+  }
+
+  text += `\nProblems solved by all of them: ${comparison.sharedSolved.count}`
+  if (comparison.sharedSolved.sample.length > 0) {
+    text += ` (e.g. ${comparison.sharedSolved.sample.join('; ')})`
+  }
+  text += '\n'
+
+  return text
+}
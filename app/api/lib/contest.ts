@@ -0,0 +1,223 @@
+import { Contest, ContestStandings, RanklistRow, RatingChange } from './types'
+import { formatContestTime } from '../../lib/contest-time'
+
+// One participant's result in a single contest, for the contest glaze route
+
+// Why a performance does or doesn't come with a rating change
+export type RatingStatus =
+  | 'rated'       // rating change found
+  | 'unrated'     // the contest doesn't change ratings, or the participant wasn't rated
+  | 'pending'     // contest not finished or ratings not published yet
+  | 'unofficial'  // virtual, practice or out-of-competition participation
+  | 'gym'         // gym contests are never rated
+
+export interface ContestProblemPerformance {
+  index: string
+  name: string
+  rating?: number
+  points: number
+  solved: boolean
+  // Seconds from the participant's start, null when unsolved
+  timeSeconds: number | null
+  // Seconds since the previous solve (or the start), null when unsolved
+  splitSeconds: number | null
+  wrongAttempts: number
+}
+
+export interface ContestPerformance {
+  handle: string
+  contest: {
+    id: number
+    name: string
+    type: string
+    phase: string
+    durationSeconds: number
+    startTimeSeconds?: number
+    gym: boolean
+  }
+  participantType: string
+  // Null outside the official ranking
+  rank: number | null
+  points: number
+  penalty: number
+  solvedCount: number
+  wrongAttempts: number
+  hacks: {
+    successful: number
+    unsuccessful: number
+  }
+  problems: ContestProblemPerformance[]
+  // Solved problems with the shortest split times, fastest first
+  fastestSolves: ContestProblemPerformance[]
+  ratingStatus: RatingStatus
+  ratingChange: {
+    oldRating: number
+    newRating: number
+    delta: number
+  } | null
+}
+
+// Gym contests use ids from 100000 up
+const GYM_MIN_CONTEST_ID = 100000
+const FASTEST_SOLVES = 3
+
+// Preferred row when a handle has several, e.g. a contest entry plus practice
+const PARTICIPANT_PRIORITY = ['CONTESTANT', 'OUT_OF_COMPETITION', 'VIRTUAL', 'PRACTICE']
+
+export function isGymContest(contestId: number): boolean {
+  return contestId >= GYM_MIN_CONTEST_ID
+}
+
+function participantPriority(row: RanklistRow): number {
+  const index = PARTICIPANT_PRIORITY.indexOf(row.party.participantType)
+  return index === -1 ? PARTICIPANT_PRIORITY.length : index
+}
+
+// The row that best represents the handle's participation, or null if they didn't take part
+export function selectParticipantRow(rows: RanklistRow[], handle: string): RanklistRow | null {
+  const lower = handle.toLowerCase()
+  const own = rows
+    .filter(row => row.party.members.some(member => member.handle.toLowerCase() === lower))
+    .sort((a, b) => participantPriority(a) - participantPriority(b))
+  return own[0] || null
+}
+
+// Only official participants of finished, non-gym contests can have a rating change
+export function canHaveRatingChange(contest: Contest, row: RanklistRow): boolean {
+  return !isGymContest(contest.id) && row.party.participantType === 'CONTESTANT' && contest.phase === 'FINISHED'
+}
+
+function getRatingStatus(contest: Contest, row: RanklistRow, change: RatingChange | undefined): RatingStatus {
+  if (change) return 'rated'
+  if (isGymContest(contest.id)) return 'gym'
+  if (row.party.participantType !== 'CONTESTANT') return 'unofficial'
+  if (contest.phase !== 'FINISHED') return 'pending'
+  return 'unrated'
+}
+
+// `ratingChanges` is null when they weren't fetched or aren't published
+export function buildContestPerformance(
+  standings: ContestStandings,
+  row: RanklistRow,
+  handle: string,
+  ratingChanges: RatingChange[] | null
+): ContestPerformance {
+  const { contest } = standings
+  const lower = handle.toLowerCase()
+  const member = row.party.members.find(entry => entry.handle.toLowerCase() === lower)
+  const change = (ratingChanges || []).find(entry => entry.handle.toLowerCase() === lower)
+
+  const problems = standings.problems.map((problem, index): ContestProblemPerformance => {
+    const result = row.problemResults[index]
+    const points = result ? result.points : 0
+    // IOI problems can score partially; only a full score counts as solved
+    const solved = contest.type === 'IOI' && problem.points !== undefined
+      ? points >= problem.points
+      : points > 0
+    return {
+      index: problem.index,
+      name: problem.name,
+      rating: problem.rating,
+      points,
+      solved,
+      timeSeconds: solved ? result?.bestSubmissionTimeSeconds ?? null : null,
+      splitSeconds: null,
+      wrongAttempts: result ? result.rejectedAttemptCount : 0,
+    }
+  })
+
+  // Split times follow the order the problems were solved in
+  let previous = 0
+  problems
+    .filter(problem => problem.timeSeconds !== null)
+    .sort((a, b) => (a.timeSeconds as number) - (b.timeSeconds as number))
+    .forEach(problem => {
+      problem.splitSeconds = (problem.timeSeconds as number) - previous
+      previous = problem.timeSeconds as number
+    })
+
+  const fastestSolves = problems
+    .filter(problem => problem.splitSeconds !== null)
+    .sort((a, b) => (a.splitSeconds as number) - (b.splitSeconds as number))
+    .slice(0, FASTEST_SOLVES)
+
+  return {
+    handle: member ? member.handle : handle,
+    contest: {
+      id: contest.id,
+      name: contest.name,
+      type: contest.type,
+      phase: contest.phase,
+      durationSeconds: contest.durationSeconds,
+      startTimeSeconds: contest.startTimeSeconds,
+      gym: isGymContest(contest.id),
+    },
+    participantType: row.party.participantType,
+    rank: row.rank > 0 ? row.rank : null,
+    points: row.points,
+    penalty: row.penalty,
+    solvedCount: problems.filter(problem => problem.solved).length,
+    wrongAttempts: problems.reduce((sum, problem) => sum + problem.wrongAttempts, 0),
+    hacks: {
+      successful: row.successfulHackCount,
+      unsuccessful: row.unsuccessfulHackCount,
+    },
+    problems,
+    fastestSolves,
+    ratingStatus: getRatingStatus(contest, row, change),
+    ratingChange: change
+      ? { oldRating: change.oldRating, newRating: change.newRating, delta: change.newRating - change.oldRating }
+      : null,
+  }
+}
+
+const RATING_STATUS_TEXT: Record<Exclude<RatingStatus, 'rated'>, string> = {
+  unrated: 'no rating change (unrated contest)',
+  pending: 'rating change not published yet',
+  unofficial: 'unofficial participation, so no rating change',
+  gym: 'gym contest, never rated',
+}
+
+export function formatContestPerformance(performance: ContestPerformance): string {
+  const { contest, ratingChange } = performance
+
+  let text = `Contest: ${contest.name}${contest.gym ? ' (gym)' : ''}, ${contest.type} rules, ${formatContestTime(contest.durationSeconds)} long\n`
+  text += `Participant: ${performance.handle} (${performance.participantType.toLowerCase().replace(/_/g, ' ')})\n`
+  text += `Rank: ${performance.rank ?? 'not ranked'}\n`
+  text += `Points: ${performance.points}`
+  if (performance.penalty > 0) {
+    text += `, penalty ${performance.penalty}`
+  }
+  text += `\nSolved: ${performance.solvedCount} of ${performance.problems.length} problems, ${performance.wrongAttempts} wrong attempts\n`
+  if (performance.hacks.successful + performance.hacks.unsuccessful > 0) {
+    text += `Hacks: ${performance.hacks.successful} successful, ${performance.hacks.unsuccessful} unsuccessful\n`
+  }
+
+  if (ratingChange) {
+    const sign = ratingChange.delta >= 0 ? '+' : ''
+    text += `Rating: ${ratingChange.oldRating} -> ${ratingChange.newRating} (${sign}${ratingChange.delta})\n`
+  } else {
+    text += `Rating: ${RATING_STATUS_TEXT[performance.ratingStatus as Exclude<RatingStatus, 'rated'>]}\n`
+  }
+
+  text += `\nProblems:\n`
+  performance.problems.forEach(problem => {
+    text += `- ${problem.index}. ${problem.name}${problem.rating ? ` (${problem.rating})` : ''}: `
+    text += problem.solved && problem.timeSeconds !== null
+      ? `solved at ${formatContestTime(problem.timeSeconds)}`
+      : problem.solved ? 'solved' : 'not solved'
+    if (problem.wrongAttempts > 0) {
+      text += `, ${problem.wrongAttempts} wrong attempt${problem.wrongAttempts === 1 ? '' : 's'}`
+    }
+    text += '\n'
+  })
+
+  if (performance.fastestSolves.length > 0) {
+    const fastest = performance.fastestSolves
+      .map(problem => `${problem.index}. ${problem.name} in ${formatContestTime(problem.splitSeconds as number)}`)
+      .join('; ')
+    text += `\nFastest solves (time since the previous solve): ${fastest}\n`
+  }
+
+  return text
+}
@@ -0,0 +1,129 @@
+import { kv } from '@vercel/kv'
+import type { RatingHistoryStats } from './rating-history'
+import type { TagBreakdown } from './tag-analytics'
+import type { ActivityStats } from './activity'
+import type { VerdictBreakdown } from './verdict-analytics'
+import type { ParticipationStats } from './participation'
+import type { Comparison } from './compare'
+import type { RatingDistribution } from './types'
+import type { CodeAnnotation } from './code-review'
+import type { TeamShoutout, TeamStats } from './team'
+import type { ContestPerformance } from './contest'
+
+// Persisted glazes behind shareable /g/[id] permalinks.
+// Raw code is only stored when the user explicitly opts in.
+
+const GLAZE_TTL_SECONDS = 30 * 24 * 60 * 60 // 30 days
+const ID_LENGTH = 8
+const ID_ALPHABET = 'abcdefghijkmnopqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const ID_PATTERN = new RegExp(`^[${ID_ALPHABET}]{${ID_LENGTH}}$`)
+const MAX_ID_ATTEMPTS = 3
+
+export type GlazeType = 'profile' | 'code' | 'compare' | 'team' | 'contest'
+
+// The public slice of a Codeforces user that the routes already send to the client
+export interface SharedUser {
+  handle: string
+  rating?: number
+  maxRating?: number
+  rank?: string
+  avatar?: string
+  ratingHistory?: RatingHistoryStats
+  activity?: ActivityStats
+}
+
+export interface SharedPreprocessing {
+  language: string
+  languageName: string
+  strippedLines: number
+  strippedPercent: number
+}
+
+export interface StoredGlaze {
+  id: string
+  type: GlazeType
+  glaze: string
+  persona: string
+  createdAt: number
+  expiresAt: number
+  // Profile glazes
+  userData?: SharedUser
+  tagBreakdown?: TagBreakdown
+  verdictBreakdown?: VerdictBreakdown
+  participation?: ParticipationStats
+  ratingDistribution?: RatingDistribution
+  // Code glazes
+  filename?: string
+  preprocessing?: SharedPreprocessing
+  code?: string
+  annotations?: CodeAnnotation[]
+  // Compare glazes
+  users?: SharedUser[]
+  comparison?: Comparison
+  // Team glazes
+  team?: TeamStats
+  shoutouts?: TeamShoutout[]
+  // Contest glazes
+  performance?: ContestPerformance
+}
+
+export type NewGlaze = Omit<StoredGlaze, 'id' | 'createdAt' | 'expiresAt'>
+
+function glazeKey(id: string): string {
+  return `glaze:${id}`
+}
+
+// Short, unambiguous random id (no 0/O/1/l/I)
+function generateId(): string {
+  const bytes = new Uint8Array(ID_LENGTH)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, byte => ID_ALPHABET[byte % ID_ALPHABET.length]).join('')
+}
+
+export function isValidGlazeId(id: string): boolean {
+  return ID_PATTERN.test(id)
+}
+
+export function getPermalink(id: string): string {
+  return `/g/${id}`
+}
+
+// Store a glaze and return its id, or null if KV is unavailable. Sharing is
+// best effort and must never fail the glaze itself.
+export async function saveGlaze(glaze: NewGlaze): Promise<string | null> {
+  const now = Date.now()
+
+  try {
+    for (let attempt = 0; attempt < MAX_ID_ATTEMPTS; attempt++) {
+      const id = generateId()
+      const record: StoredGlaze = {
+        ...glaze,
+        id,
+        createdAt: now,
+        expiresAt: now + GLAZE_TTL_SECONDS * 1000,
+      }
+
+      // nx: never overwrite an existing glaze on an id collision
+      const stored = await kv.set(glazeKey(id), record, { ex: GLAZE_TTL_SECONDS, nx: true })
+      if (stored) {
+        return id
+      }
+    }
+  } catch (error) {
+    // KV unavailable - no permalink this time
+  }
+
+  return null
+}
+
+export async function getGlaze(id: string): Promise<StoredGlaze | null> {
+  if (!isValidGlazeId(id)) {
+    return null
+  }
+
+  try {
+    return await kv.get<StoredGlaze>(glazeKey(id))
+  } catch (error) {
+    return null
+  }
+}
@@ -0,0 +1,26 @@
+import { DEFAULT_LANGUAGE, LANGUAGE_OPTIONS, LanguageCode, isLanguageCode } from '../../lib/i18n/languages'
+
+// Output language for the glazes. The persona still owns the voice; this only
+// adds an instruction telling it which language to write in.
+
+// A missing language means the default; an unsupported one is rejected
+export function resolveLanguage(value: unknown): LanguageCode | null {
+  if (value === undefined || value === null || value === '') {
+    return DEFAULT_LANGUAGE
+  }
+  return isLanguageCode(value) ? value : null
+}
+
+// Appended to the persona's system prompt. English needs no instruction.
+export function getLanguageInstruction(language: LanguageCode): string {
+  if (language === DEFAULT_LANGUAGE) {
+    return ''
+  }
+
+  const { englishName } = LANGUAGE_OPTIONS.find(option => option.code === language)!
+  return `
+
+Write your entire response in ${englishName}, keeping the same voice and energy.
+Keep competitive programming jargon exactly as competitors write it: verdicts (AC, WA, TLE, MLE, RE), "rating", "Div. 2", rank titles like "Grandmaster", tag names like "dp" or "greedy", handles and problem names stay untranslated.
+If you are asked for JSON, keep every key and the structure unchanged and translate only the text values.`
+}
@@ -0,0 +1,248 @@
+import OpenAI from 'openai'
+
+// Pluggable LLM provider layer used by every glaze route.
+//
+// Configuration (environment):
+//   LLM_PROVIDER  - 'openai' (default), 'openai-compatible' or 'mock'
+//   LLM_MODEL     - model name, defaults to gpt-4o-mini (or 'mock-glazer' for the mock)
+//   LLM_BASE_URL  - base URL of the OpenAI-compatible server (required for 'openai-compatible')
+//   LLM_API_KEY   - API key for the provider, falls back to OPENAI_API_KEY
+
+export type ChatRole = 'system' | 'user' | 'assistant'
+
+export interface ChatMessage {
+  role: ChatRole
+  content: string
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[]
+  maxTokens: number
+  temperature: number
+  // When given the completion is streamed and each chunk is forwarded as it arrives
+  onDelta?: (content: string) => void
+  // Ask for a single JSON object. Providers without a JSON mode rely on the prompt alone.
+  jsonMode?: boolean
+}
+
+export interface CompletionResult {
+  content: string
+  tokensUsed: number
+}
+
+export interface LLMProvider {
+  name: string
+  model: string
+  complete: (request: CompletionRequest) => Promise<CompletionResult>
+}
+
+export type ProviderName = 'openai' | 'openai-compatible' | 'mock'
+
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini'
+const DEFAULT_MOCK_MODEL = 'mock-glazer'
+
+// Rough token estimate (~4 characters per token) for providers that don't report usage
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+export function estimatePromptTokens(messages: ChatMessage[]): number {
+  return estimateTokens(messages.map(message => message.content).join('\n'))
+}
+
+function estimateRequestTokens(messages: ChatMessage[], content: string): number {
+  return estimatePromptTokens(messages) + estimateTokens(content)
+}
+
+function createChatCompletionsProvider(
+  name: string,
+  client: OpenAI,
+  model: string,
+  options: { reportsStreamUsage: boolean; supportsJsonMode: boolean }
+): LLMProvider {
+  return {
+    name,
+    model,
+    async complete({ messages, maxTokens, temperature, onDelta, jsonMode }) {
+      const responseFormat = jsonMode && options.supportsJsonMode
+        ? { response_format: { type: 'json_object' as const } }
+        : {}
+
+      if (onDelta) {
+        const stream = await client.chat.completions.create({
+          model,
+          messages,
+          max_tokens: maxTokens,
+          temperature,
+          ...responseFormat,
+          stream: true,
+          ...(options.reportsStreamUsage ? { stream_options: { include_usage: true } } : {}),
+        })
+
+        let content = ''
+        let tokensUsed = 0
+        for await (const chunk of stream) {
+          const delta = chunk.choices[0]?.delta?.content || ''
+          if (delta) {
+            content += delta
+            onDelta(delta)
+          }
+          if (chunk.usage) {
+            tokensUsed = chunk.usage.total_tokens
+          }
+        }
+
+        return {
+          content,
+          tokensUsed: tokensUsed || estimateRequestTokens(messages, content),
+        }
+      }
+
+      const completion = await client.chat.completions.create({
+        model,
+        messages,
+        max_tokens: maxTokens,
+        temperature,
+        ...responseFormat,
+      })
+
+      const content = completion.choices[0]?.message?.content || ''
+      return {
+        content,
+        tokensUsed: completion.usage?.total_tokens || estimateRequestTokens(messages, content),
+      }
+    },
+  }
+}
+
+export function createOpenAIProvider(options: { apiKey: string; model?: string }): LLMProvider {
+  const client = new OpenAI({ apiKey: options.apiKey })
+  return createChatCompletionsProvider('openai', client, options.model || DEFAULT_OPENAI_MODEL, {
+    reportsStreamUsage: true,
+    supportsJsonMode: true,
+  })
+}
+
+// Any server speaking the OpenAI chat completions API (vLLM, llama.cpp, Ollama, LM Studio, ...).
+// Many of them reject `stream_options` and `response_format`, so usage is estimated
+// locally when streaming and JSON output is requested through the prompt only.
+export function createOpenAICompatibleProvider(options: {
+  baseURL: string
+  model: string
+  apiKey?: string
+}): LLMProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey || 'not-needed',
+    baseURL: options.baseURL,
+  })
+  return createChatCompletionsProvider('openai-compatible', client, options.model, {
+    reportsStreamUsage: false,
+    supportsJsonMode: false,
+  })
+}
+
+// Small stable hash so the mock produces the same text for the same prompt
+function hashText(text: string): number {
+  let hash = 0
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0
+  }
+  return Math.abs(hash)
+}
+
+const MOCK_EXCLAMATIONS = [
+  'BRO??? I AM LITERALLY SHAKING.',
+  'THIS IS A CODE RED. SOMEONE CALL THE AMBULANCE.',
+  'I HAVE NEVER SEEN ANYTHING LIKE THIS IN MY ENTIRE LIFE.',
+  'MY KEYBOARD JUST BURST INTO FLAMES.',
+]
+
+function defaultMockResponse(messages: ChatMessage[], options: { jsonMode: boolean }): string {
+  const prompt = messages.map(message => message.content).join('\n')
+  const hash = hashText(prompt)
+  const exclamation = MOCK_EXCLAMATIONS[hash % MOCK_EXCLAMATIONS.length]
+  const glaze = `${exclamation} This glaze was generated by the mock provider (prompt fingerprint ${hash.toString(16)}).`
+  return options.jsonMode ? JSON.stringify({ glaze, annotations: [] }) : glaze
+}
+
+// Deterministic, network-free provider for tests and local development.
+// `respond` can be supplied to script the reply for a given conversation.
+export function createMockProvider(options: {
+  model?: string
+  respond?: (messages: ChatMessage[], options: { jsonMode: boolean }) => string
+} = {}): LLMProvider {
+  const respond = options.respond || defaultMockResponse
+  return {
+    name: 'mock',
+    model: options.model || DEFAULT_MOCK_MODEL,
+    async complete({ messages, onDelta, jsonMode }) {
+      const content = respond(messages, { jsonMode: !!jsonMode })
+
+      if (onDelta) {
+        // Stream word by word to exercise the same code paths as a real provider
+        (content.match(/\s*\S+\s*/g) || []).forEach(piece => onDelta(piece))
+      }
+
+      return {
+        content,
+        tokensUsed: estimateRequestTokens(messages, content),
+      }
+    },
+  }
+}
+
+function getProviderName(): string {
+  return (process.env.LLM_PROVIDER || 'openai').trim().toLowerCase()
+}
+
+// Returns a human readable problem with the provider configuration, or null when it is usable
+export function getLLMConfigError(): string | null {
+  const providerName = getProviderName()
+  const apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY
+
+  switch (providerName) {
+    case 'openai':
+      return apiKey ? null : 'OpenAI API key not configured'
+    case 'openai-compatible':
+      if (!process.env.LLM_BASE_URL) return 'LLM_BASE_URL is required for the openai-compatible provider'
+      if (!process.env.LLM_MODEL) return 'LLM_MODEL is required for the openai-compatible provider'
+      return null
+    case 'mock':
+      return null
+    default:
+      return `Unknown LLM provider: ${providerName}`
+  }
+}
+
+let cachedProvider: LLMProvider | null = null
+let cachedProviderKey = ''
+
+// Provider selected by the environment. Cached per configuration so the
+// underlying HTTP client is reused between requests.
+export function getLLMProvider(): LLMProvider {
+  const configError = getLLMConfigError()
+  if (configError) {
+    throw new Error(configError)
+  }
+
+  const providerName = getProviderName() as ProviderName
+  const apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY || ''
+  const model = process.env.LLM_MODEL
+  const baseURL = process.env.LLM_BASE_URL || ''
+  const key = [providerName, model, baseURL, apiKey].join('|')
+
+  if (cachedProvider && cachedProviderKey === key) {
+    return cachedProvider
+  }
+
+  if (providerName === 'mock') {
+    cachedProvider = createMockProvider({ model })
+  } else if (providerName === 'openai-compatible') {
+    cachedProvider = createOpenAICompatibleProvider({ baseURL, model: model as string, apiKey })
+  } else {
+    cachedProvider = createOpenAIProvider({ apiKey, model })
+  }
+  cachedProviderKey = key
+
+  return cachedProvider
+}
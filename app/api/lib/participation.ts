@@ -0,0 +1,162 @@
+import { Submission } from './types'
+
+// Submissions split by how they were made: live in a contest, in a virtual
+// contest, out of competition or as practice
+
+export type ParticipationType = 'contest' | 'virtual' | 'outOfCompetition' | 'practice' | 'other'
+
+export interface ParticipationCounts {
+  submissions: number
+  // Distinct problems accepted this way
+  solved: number
+}
+
+export interface ParticipationSolve {
+  // Contest id and index, e.g. "2049D"
+  problem: string
+  problemName: string
+  rating: number
+}
+
+export interface ParticipationStats {
+  byType: Record<ParticipationType, ParticipationCounts>
+  // Distinct contests entered live, and distinct virtual / out-of-competition runs
+  contestsEntered: number
+  virtualContests: number
+  outOfCompetitionRuns: number
+  // Solved problems that were never accepted live
+  solvedOnlyOutsideContests: number
+  // Problems failed live and accepted afterwards
+  upsolved: number
+  hardestLiveSolve: ParticipationSolve | null
+  hardestPracticeSolve: ParticipationSolve | null
+}
+
+const TYPE_BY_PARTICIPANT: Record<string, ParticipationType> = {
+  CONTESTANT: 'contest',
+  VIRTUAL: 'virtual',
+  OUT_OF_COMPETITION: 'outOfCompetition',
+  PRACTICE: 'practice',
+}
+
+// Ghost parties are teams imported from onsite contests, not live CF entries;
+// managers test their own rounds. Neither counts as a live solve.
+export function getParticipationType(author: Submission['author']): ParticipationType {
+  if (author.ghost) return 'other'
+  return TYPE_BY_PARTICIPANT[author.participantType] || 'other'
+}
+
+function emptyCounts(): ParticipationCounts {
+  return { submissions: 0, solved: 0 }
+}
+
+function toSolve(sub: Submission): ParticipationSolve | null {
+  if (sub.problem.rating === undefined) return null
+  return {
+    problem: `${sub.problem.contestId || ''}${sub.problem.index}`,
+    problemName: sub.problem.name,
+    rating: sub.problem.rating,
+  }
+}
+
+function harder(current: ParticipationSolve | null, candidate: ParticipationSolve | null): ParticipationSolve | null {
+  if (!candidate) return current
+  return !current || candidate.rating > current.rating ? candidate : current
+}
+
+export function calculateParticipationStats(submissions: Submission[]): ParticipationStats {
+  const byType: Record<ParticipationType, ParticipationCounts> = {
+    contest: emptyCounts(),
+    virtual: emptyCounts(),
+    outOfCompetition: emptyCounts(),
+    practice: emptyCounts(),
+    other: emptyCounts(),
+  }
+  const solvedByType = new Map<ParticipationType, Set<string>>()
+  const contests = new Set<string>()
+  const virtualRuns = new Set<string>()
+  const outOfCompetitionRuns = new Set<string>()
+  const failedLive = new Set<string>()
+  const solvedLive = new Set<string>()
+  const solvedAnywhere = new Set<string>()
+  let hardestLiveSolve: ParticipationSolve | null = null
+  let hardestPracticeSolve: ParticipationSolve | null = null
+
+  submissions.forEach(sub => {
+    const type = getParticipationType(sub.author)
+    const problemKey = `${sub.problem.contestId || 'gym'}-${sub.problem.index}`
+    const contestKey = String(sub.author.contestId || sub.problem.contestId || 'gym')
+    // A contest is entered live once but can be run virtually several times
+    const runKey = `${contestKey}-${sub.author.startTimeSeconds ?? ''}`
+    byType[type].submissions++
+
+    if (type === 'contest') contests.add(contestKey)
+    if (type === 'virtual') virtualRuns.add(runKey)
+    if (type === 'outOfCompetition') outOfCompetitionRuns.add(runKey)
+
+    if (sub.verdict === 'OK') {
+      const solved = solvedByType.get(type) || new Set<string>()
+      solved.add(problemKey)
+      solvedByType.set(type, solved)
+      solvedAnywhere.add(problemKey)
+
+      if (type === 'contest') {
+        solvedLive.add(problemKey)
+        hardestLiveSolve = harder(hardestLiveSolve, toSolve(sub))
+      } else if (type === 'practice') {
+        hardestPracticeSolve = harder(hardestPracticeSolve, toSolve(sub))
+      }
+    } else if (type === 'contest' && sub.verdict && sub.verdict !== 'TESTING') {
+      failedLive.add(problemKey)
+    }
+  })
+
+  solvedByType.forEach((solved, type) => {
+    byType[type].solved = solved.size
+  })
+
+  const upsolved = Array.from(failedLive).filter(key => solvedAnywhere.has(key) && !solvedLive.has(key))
+
+  return {
+    byType,
+    contestsEntered: contests.size,
+    virtualContests: virtualRuns.size,
+    outOfCompetitionRuns: outOfCompetitionRuns.size,
+    solvedOnlyOutsideContests: solvedAnywhere.size - solvedLive.size,
+    upsolved: upsolved.length,
+    hardestLiveSolve,
+    hardestPracticeSolve,
+  }
+}
+
+function formatSolve(solve: ParticipationSolve): string {
+  return `${solve.problem} ${solve.problemName} (${solve.rating})`
+}
+
+export function formatParticipationStats(stats: ParticipationStats): string {
+  const { byType } = stats
+  const total = Object.values(byType).reduce((sum, counts) => sum + counts.submissions, 0)
+  if (total === 0) return "No submissions yet"
+
+  let text = `Contest vs Practice (solving live in a round is a bigger achievement than practice):\n`
+  text += `- Solved Live in Contests: ${byType.contest.solved} problems across ${stats.contestsEntered} contests\n`
+  text += `- Solved in Practice: ${byType.practice.solved} problems\n`
+  if (stats.virtualContests > 0) {
+    text += `- Virtual Contests: ${stats.virtualContests} (${byType.virtual.solved} problems solved)\n`
+  }
+  if (stats.outOfCompetitionRuns > 0) {
+    text += `- Out-of-Competition Runs: ${stats.outOfCompetitionRuns} (${byType.outOfCompetition.solved} problems solved)\n`
+  }
+  text += `- Solved Only Outside Live Contests: ${stats.solvedOnlyOutsideContests} problems\n`
+  if (stats.upsolved > 0) {
+    text += `- Upsolved (failed live, solved later): ${stats.upsolved} problems\n`
+  }
+  if (stats.hardestLiveSolve) {
+    text += `- Hardest Problem Solved Live: ${formatSolve(stats.hardestLiveSolve)}\n`
+  }
+  if (stats.hardestPracticeSolve) {
+    text += `- Hardest Problem Solved in Practice: ${formatSolve(stats.hardestPracticeSolve)}\n`
+  }
+
+  return text
+}
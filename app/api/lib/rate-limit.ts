@@ -0,0 +1,209 @@
+import { NextResponse } from 'next/server'
+import { Ratelimit } from '@upstash/ratelimit'
+import { kv } from '@vercel/kv'
+
+// Per-route, per-IP sliding-window rate limiting backed by KV.
+//
+// Quotas are configured as "<requests>/<window>", e.g. RATE_LIMIT_PROFILE=50/1d.
+// RATE_LIMIT_FAILURE_MODE decides what happens when KV is unreachable:
+// "open" (default) lets requests through, "closed" rejects them with a 503.
+
+export type RateLimitedRoute = 'profile' | 'code' | 'compare' | 'team' | 'contest'
+
+type Duration = Parameters<typeof Ratelimit.slidingWindow>[1]
+
+interface Quota {
+  requests: number
+  window: Duration
+  windowSeconds: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  // True when the limiter could not reach KV and the failure mode decided the outcome
+  degraded: boolean
+  limit: number
+  remaining: number
+  // Unix time in ms when the window frees up a request
+  reset: number
+  windowSeconds: number
+}
+
+const DEFAULT_QUOTAS: Record<RateLimitedRoute, string> = {
+  profile: '50/1d',
+  code: '50/1d',
+  compare: '25/1d',
+  team: '20/1d',
+  contest: '50/1d',
+}
+
+const QUOTA_ENV: Record<RateLimitedRoute, string> = {
+  profile: 'RATE_LIMIT_PROFILE',
+  code: 'RATE_LIMIT_CODE',
+  compare: 'RATE_LIMIT_COMPARE',
+  team: 'RATE_LIMIT_TEAM',
+  contest: 'RATE_LIMIT_CONTEST',
+}
+
+const ROUTE_LABELS: Record<RateLimitedRoute, string> = {
+  profile: 'profile glazing',
+  code: 'code glazing',
+  compare: 'comparisons',
+  team: 'team glazing',
+  contest: 'contest glazing',
+}
+
+const UNIT_SECONDS: Record<string, number> = { ms: 0.001, s: 1, m: 60, h: 3600, d: 86400 }
+
+// KV calls that take longer than this count as a KV failure
+const LIMITER_TIMEOUT_MS = 2000
+// Retry-After sent when failing closed
+const DEGRADED_RETRY_SECONDS = 60
+
+function parseQuota(value: string): Quota | null {
+  const match = value.trim().match(/^(\d+)\s*\/\s*(\d+)\s*(ms|s|m|h|d)$/)
+  if (!match) return null
+
+  const requests = parseInt(match[1])
+  const amount = parseInt(match[2])
+  if (requests < 1 || amount < 1) return null
+
+  return {
+    requests,
+    window: `${amount} ${match[3]}` as Duration,
+    windowSeconds: Math.max(1, Math.round(amount * UNIT_SECONDS[match[3]])),
+  }
+}
+
+function getQuota(route: RateLimitedRoute): Quota {
+  const configured = process.env[QUOTA_ENV[route]]
+  return (configured && parseQuota(configured)) || parseQuota(DEFAULT_QUOTAS[route])!
+}
+
+function getFailureMode(): 'open' | 'closed' {
+  return process.env.RATE_LIMIT_FAILURE_MODE === 'closed' ? 'closed' : 'open'
+}
+
+// One limiter per route and quota, so changed env values take effect
+const limiters = new Map<string, Ratelimit>()
+
+function getLimiter(route: RateLimitedRoute, quota: Quota): Ratelimit {
+  const cacheKey = `${route}:${quota.requests}/${quota.window}`
+  let limiter = limiters.get(cacheKey)
+  if (!limiter) {
+    limiter = new Ratelimit({
+      redis: kv,
+      limiter: Ratelimit.slidingWindow(quota.requests, quota.window),
+      prefix: `ratelimit:${route}`,
+      timeout: LIMITER_TIMEOUT_MS,
+    })
+    limiters.set(cacheKey, limiter)
+  }
+  return limiter
+}
+
+export async function checkRateLimit(route: RateLimitedRoute, ip: string): Promise<RateLimitResult> {
+  const quota = getQuota(route)
+  const failed = (): RateLimitResult => {
+    const allowed = getFailureMode() === 'open'
+    return {
+      allowed,
+      degraded: true,
+      limit: quota.requests,
+      remaining: allowed ? quota.requests : 0,
+      reset: Date.now() + (allowed ? quota.windowSeconds : DEGRADED_RETRY_SECONDS) * 1000,
+      windowSeconds: quota.windowSeconds,
+    }
+  }
+
+  // Skip rate limiting in development
+  if (process.env.NODE_ENV === 'development') {
+    return {
+      allowed: true,
+      degraded: false,
+      limit: quota.requests,
+      remaining: quota.requests,
+      reset: Date.now(),
+      windowSeconds: quota.windowSeconds,
+    }
+  }
+
+  try {
+    const result = await getLimiter(route, quota).limit(ip)
+
+    // The limiter allows requests on its own when KV times out
+    if (result.reason === 'timeout') {
+      return failed()
+    }
+
+    return {
+      allowed: result.success,
+      degraded: false,
+      limit: result.limit,
+      remaining: result.remaining,
+      reset: result.reset,
+      windowSeconds: quota.windowSeconds,
+    }
+  } catch (error) {
+    return failed()
+  }
+}
+
+export function getRetryAfterSeconds(result: RateLimitResult): number {
+  return Math.max(1, Math.ceil((result.reset - Date.now()) / 1000))
+}
+
+// IETF RateLimit header fields plus Retry-After on rejected requests
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(Math.max(0, Math.ceil((result.reset - Date.now()) / 1000))),
+    'RateLimit-Policy': `${result.limit};w=${result.windowSeconds}`,
+  }
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(getRetryAfterSeconds(result))
+  }
+
+  return headers
+}
+
+export function withRateLimitHeaders<T extends Response>(response: T, result: RateLimitResult): T {
+  for (const [name, value] of Object.entries(getRateLimitHeaders(result))) {
+    response.headers.set(name, value)
+  }
+  return response
+}
+
+function formatDuration(seconds: number): string {
+  const units: Array<[string, number]> = [['day', 86400], ['hour', 3600], ['minute', 60], ['second', 1]]
+  const [unit, size] = units.find(([, size]) => seconds >= size) || units[units.length - 1]
+  const amount = Math.max(1, Math.ceil(seconds / size))
+  return `${amount} ${unit}${amount === 1 ? '' : 's'}`
+}
+
+// Response for a request the limiter rejected
+export function rateLimitedResponse(route: RateLimitedRoute, result: RateLimitResult): NextResponse {
+  if (result.degraded) {
+    return withRateLimitHeaders(
+      NextResponse.json(
+        { error: 'Rate limiting is temporarily unavailable, please try again later', code: 'rate_limit_unavailable' },
+        { status: 503 }
+      ),
+      result
+    )
+  }
+
+  return withRateLimitHeaders(
+    NextResponse.json(
+      {
+        error: `Rate limit exceeded for ${ROUTE_LABELS[route]}: ${result.limit} requests in ${formatDuration(result.windowSeconds)}. Try again in ${formatDuration(getRetryAfterSeconds(result))}.`,
+        code: 'rate_limited',
+        params: { limit: result.limit },
+      },
+      { status: 429 }
+    ),
+    result
+  )
+}
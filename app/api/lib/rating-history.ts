@@ -0,0 +1,144 @@
+import { RatingChange } from './types'
+import { RANK_TIERS, getRankTier } from '../../lib/ranks'
+
+// Derived statistics over a user's user.rating contest history
+
+export interface ContestDelta {
+  contestId: number
+  contestName: string
+  delta: number
+}
+
+export interface ColorMilestone {
+  colorName: string
+  rank: string
+  // Contest in which the colour was first reached
+  contestId: number
+  contestName: string
+  reachedAtSeconds: number
+  // Counted from the first rated contest
+  contestsTaken: number
+  daysTaken: number
+}
+
+export interface RatingHistoryPoint {
+  contestId: number
+  time: number
+  rating: number
+  rank: number
+}
+
+export interface RatingHistoryStats {
+  ratedContests: number
+  biggestGain?: ContestDelta
+  biggestDrop?: ContestDelta
+  bestRank?: { rank: number; contestId: number; contestName: string }
+  longestPositiveStreak: number
+  colorMilestones: ColorMilestone[]
+  // Standard deviation of the per-contest rating deltas
+  volatility: number
+  history: RatingHistoryPoint[]
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60
+
+export function calculateRatingHistoryStats(changes: RatingChange[]): RatingHistoryStats {
+  const sorted = changes.slice().sort((a, b) => a.ratingUpdateTimeSeconds - b.ratingUpdateTimeSeconds)
+
+  let biggestGain: ContestDelta | undefined
+  let biggestDrop: ContestDelta | undefined
+  let bestRank: RatingHistoryStats['bestRank']
+  let longestPositiveStreak = 0
+  let currentStreak = 0
+  const deltas: number[] = []
+  const colorMilestones: ColorMilestone[] = []
+  const reachedColors = new Set<string>()
+
+  sorted.forEach((change, index) => {
+    // The first rated contest starts from 0 rather than a real rating, so its
+    // delta would dwarf every other one; gains, drops, streaks and volatility
+    // count from the second contest
+    if (index > 0) {
+      const delta = change.newRating - change.oldRating
+      deltas.push(delta)
+
+      if (delta > 0 && (!biggestGain || delta > biggestGain.delta)) {
+        biggestGain = { contestId: change.contestId, contestName: change.contestName, delta }
+      }
+      if (delta < 0 && (!biggestDrop || delta < biggestDrop.delta)) {
+        biggestDrop = { contestId: change.contestId, contestName: change.contestName, delta }
+      }
+
+      currentStreak = delta > 0 ? currentStreak + 1 : 0
+      longestPositiveStreak = Math.max(longestPositiveStreak, currentStreak)
+    }
+
+    if (!bestRank || change.rank < bestRank.rank) {
+      bestRank = { rank: change.rank, contestId: change.contestId, contestName: change.contestName }
+    }
+
+    // First time each colour (and every colour below it) is reached
+    const tier = getRankTier(change.newRating)
+    RANK_TIERS.forEach(candidate => {
+      if (candidate.minRating > tier.minRating || candidate.minRating === -Infinity) return
+      if (reachedColors.has(candidate.colorName)) return
+      reachedColors.add(candidate.colorName)
+      colorMilestones.push({
+        colorName: candidate.colorName,
+        rank: candidate.name,
+        contestId: change.contestId,
+        contestName: change.contestName,
+        reachedAtSeconds: change.ratingUpdateTimeSeconds,
+        contestsTaken: index + 1,
+        daysTaken: Math.round((change.ratingUpdateTimeSeconds - sorted[0].ratingUpdateTimeSeconds) / SECONDS_PER_DAY),
+      })
+    })
+  })
+
+  const meanDelta = deltas.length > 0 ? deltas.reduce((sum, d) => sum + d, 0) / deltas.length : 0
+  const variance = deltas.length > 0
+    ? deltas.reduce((sum, d) => sum + (d - meanDelta) * (d - meanDelta), 0) / deltas.length
+    : 0
+
+  return {
+    ratedContests: sorted.length,
+    biggestGain,
+    biggestDrop,
+    bestRank,
+    longestPositiveStreak,
+    colorMilestones,
+    volatility: Math.round(Math.sqrt(variance) * 10) / 10,
+    history: sorted.map(change => ({
+      contestId: change.contestId,
+      time: change.ratingUpdateTimeSeconds,
+      rating: change.newRating,
+      rank: change.rank,
+    })),
+  }
+}
+
+export function formatRatingHistory(stats: RatingHistoryStats): string {
+  if (stats.ratedContests === 0) return "No rated contests yet"
+
+  let text = `Contest Rating History:\n`
+  text += `- Rated Contests: ${stats.ratedContests}\n`
+
+  if (stats.biggestGain) {
+    text += `- Biggest Single-Contest Gain: +${stats.biggestGain.delta} (${stats.biggestGain.contestName})\n`
+  }
+  if (stats.biggestDrop) {
+    text += `- Biggest Single-Contest Drop: ${stats.biggestDrop.delta} (${stats.biggestDrop.contestName})\n`
+  }
+  if (stats.bestRank) {
+    text += `- Best Contest Rank: #${stats.bestRank.rank} (${stats.bestRank.contestName})\n`
+  }
+
+  text += `- Longest Streak of Rating Gains: ${stats.longestPositiveStreak} contests\n`
+  text += `- Rating Volatility (std dev of changes): ${stats.volatility}\n`
+
+  stats.colorMilestones.forEach(milestone => {
+    text += `- Reached ${milestone.colorName} (${milestone.rank}) after ${milestone.contestsTaken} contests / ${milestone.daysTaken} days\n`
+  })
+
+  return text
+}
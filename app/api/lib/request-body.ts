@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server'
+import { LanguageCode } from '../../lib/i18n/languages'
+import { Persona, resolvePersona } from './personas'
+import { resolveLanguage } from './languages'
+
+// Request body fields shared by the glaze routes. Each parser returns the
+// parsed value, or the 400 response the route should send back as is.
+
+export interface GlazeOptions {
+  persona: Persona
+  // Language the glaze is written in; CP jargon stays in English
+  language: LanguageCode
+  // Family-friendly prompts and stricter output filtering
+  safeMode: boolean
+}
+
+export interface HandleCount {
+  min: number
+  max: number
+  // Error for a list outside min..max, with its `errors.*` code
+  error: string
+  code: string
+}
+
+const MAX_HANDLE_LENGTH = 24
+const HANDLE_PATTERN = /^[a-zA-Z0-9_.-]+$/
+
+function badRequest(error: string, code: string, params?: Record<string, number>): NextResponse {
+  return NextResponse.json(params ? { error, code, params } : { error, code }, { status: 400 })
+}
+
+export function parseGlazeOptions(
+  body: { persona?: unknown; language?: unknown; safeMode?: unknown }
+): GlazeOptions | NextResponse {
+  const persona = resolvePersona(body.persona)
+  if (!persona) {
+    return badRequest('Unknown persona', 'unknown_persona')
+  }
+
+  const language = resolveLanguage(body.language)
+  if (!language) {
+    return badRequest('Unsupported language', 'unsupported_language')
+  }
+
+  const { safeMode = false } = body
+  if (typeof safeMode !== 'boolean') {
+    return badRequest('safeMode must be true or false', 'invalid_safe_mode')
+  }
+
+  return { persona, language, safeMode }
+}
+
+// Codeforces handle rules, for an already trimmed handle
+function checkHandle(handle: string): NextResponse | null {
+  if (handle.length < 1 || handle.length > MAX_HANDLE_LENGTH) {
+    return badRequest(`Username must be between 1 and ${MAX_HANDLE_LENGTH} characters`, 'username_length')
+  }
+  if (!HANDLE_PATTERN.test(handle)) {
+    return badRequest('Username contains invalid characters', 'username_invalid')
+  }
+  return null
+}
+
+// One required handle, trimmed
+export function parseHandle(value: unknown): string | NextResponse {
+  if (!value || typeof value !== 'string') {
+    return badRequest('Username is required', 'username_required')
+  }
+
+  const handle = value.trim()
+  return checkHandle(handle) || handle
+}
+
+// A list of distinct handles, trimmed, with `count.min` to `count.max` entries
+export function parseHandleList(value: unknown, count: HandleCount): string[] | NextResponse {
+  if (!Array.isArray(value) || value.some(handle => typeof handle !== 'string')) {
+    return badRequest('Handles must be a list of usernames', 'handles_not_list')
+  }
+
+  const handles = (value as string[]).map(handle => handle.trim())
+  if (handles.length < count.min || handles.length > count.max) {
+    return badRequest(count.error, count.code, { min: count.min, max: count.max })
+  }
+
+  for (const handle of handles) {
+    const invalid = checkHandle(handle)
+    if (invalid) {
+      return invalid
+    }
+  }
+
+  const lowerCased = handles.map(handle => handle.toLowerCase())
+  if (new Set(lowerCased).size !== lowerCased.length) {
+    return badRequest('Handles must be different', 'handles_duplicate')
+  }
+
+  return handles
+}
@@ -0,0 +1,233 @@
+import terms from './safety-terms.json'
+
+// Post-generation safety filter for glazes.
+//
+// The local term lists live in safety-terms.json. A term matches as a whole
+// word, or as a word prefix when it ends with "*" ("fuck*" also catches
+// "fucking"). Chinese terms match anywhere since Chinese has no spaces.
+// Slurs, extra terms and self-harm are always filtered; profanity and the
+// stricter rules only in safe mode, where the personas are asked to stay clean.
+//
+// Configuration (environment):
+//   SAFETY_ACTION       - "mask" (default) replaces offending terms with f***;
+//                         "regenerate" asks the model once more and masks
+//                         whatever is still left in the second reply
+//   SAFETY_EXTRA_TERMS  - comma-separated terms filtered on top of the lists
+
+export type SafetyCategory =
+  | 'profanity'
+  | 'slur'
+  | 'custom'
+  | 'cheating_accusation'
+  | 'self_harm'
+  | 'sexual'
+
+export type SafetyAction = 'mask' | 'regenerate'
+
+export interface SafetyMatch {
+  category: SafetyCategory
+  text: string
+}
+
+// Sent with every glaze so clients can tell whether the text was changed
+export interface SafetyReport {
+  safeMode: boolean
+  filtered: boolean
+  regenerated: boolean
+  // The streamed first attempt was thrown away for the regenerated reply, so
+  // the text the client watched arrive differs from the final glaze
+  replaced: boolean
+  masked: boolean
+  // What the first reply was flagged for
+  categories: SafetyCategory[]
+}
+
+interface Matcher {
+  category: SafetyCategory
+  pattern: RegExp
+}
+
+interface SafetyRule {
+  category: SafetyCategory
+  pattern: string
+  safeModeOnly: boolean
+}
+
+// Things a word list can't express. Patterns are matched case-insensitively.
+const RULES: SafetyRule[] = [
+  {
+    category: 'cheating_accusation',
+    pattern: '\\b(?:cheat(?:s|ed|ing|er|ers)?|cheesed the judges|plagiari[sz](?:e|ed|ing)|copied (?:the|their|this) (?:code|solution)s?)\\b',
+    safeModeOnly: true,
+  },
+  {
+    category: 'self_harm',
+    pattern: '\\b(?:kill|hurt|off) (?:yourself|urself|themselves)\\b|\\bkys\\b',
+    safeModeOnly: false,
+  },
+  {
+    category: 'sexual',
+    pattern: '\\b(?:sex|sexy|porn\\w*|horny|nudes?|naked)\\b',
+    safeModeOnly: true,
+  },
+]
+
+const WORD_CHAR = '[\\p{L}\\p{N}_]'
+const HAN = new RegExp('\\p{Script=Han}', 'u')
+
+// Streamed text is held back this many characters, and then to the last space
+// or punctuation mark, so a term is complete and masked before any of it is sent
+const STREAM_HOLD_BACK = 32
+const STREAM_BREAK = new RegExp('[\\s\\p{P}]', 'u')
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function termPattern(term: string): string {
+  const isStem = term.endsWith('*')
+  const word = escapeRegExp(isStem ? term.slice(0, -1) : term)
+  if (HAN.test(word)) {
+    return word
+  }
+  return `(?<!${WORD_CHAR})${word}${isStem ? `${WORD_CHAR}*` : ''}(?!${WORD_CHAR})`
+}
+
+function termMatcher(category: SafetyCategory, list: string[]): Matcher | null {
+  const cleaned = list.map(term => term.trim().toLowerCase()).filter(Boolean)
+  if (cleaned.length === 0) {
+    return null
+  }
+  return { category, pattern: new RegExp(cleaned.map(termPattern).join('|'), 'giu') }
+}
+
+function getExtraTerms(): string[] {
+  return (process.env.SAFETY_EXTRA_TERMS || '').split(',')
+}
+
+function getMatchers(safeMode: boolean): Matcher[] {
+  const matchers = [
+    termMatcher('slur', terms.slurs),
+    termMatcher('custom', getExtraTerms()),
+    safeMode ? termMatcher('profanity', terms.profanity) : null,
+    ...RULES
+      .filter(rule => safeMode || !rule.safeModeOnly)
+      .map(rule => ({ category: rule.category, pattern: new RegExp(rule.pattern, 'giu') })),
+  ]
+  return matchers.filter((matcher): matcher is Matcher => matcher !== null)
+}
+
+export function getSafetyAction(): SafetyAction {
+  return process.env.SAFETY_ACTION === 'regenerate' ? 'regenerate' : 'mask'
+}
+
+export function findUnsafeContent(text: string, safeMode: boolean): SafetyMatch[] {
+  const matches: SafetyMatch[] = []
+  getMatchers(safeMode).forEach(({ category, pattern }) => {
+    let match = pattern.exec(text)
+    while (match) {
+      matches.push({ category, text: match[0] })
+      match = pattern.exec(text)
+    }
+  })
+  return matches
+}
+
+// Keep the first letter of each word: "fucking hell" -> "f****** h***". The
+// mask is as long as the match, so streamed text can be masked in place.
+function maskMatch(match: string): string {
+  return Array.from(match)
+    .map((char, index, chars) => (index === 0 || /\s/.test(char) || /\s/.test(chars[index - 1]) ? char : '*'.repeat(char.length)))
+    .join('')
+}
+
+export function maskUnsafeContent(text: string, safeMode: boolean): string {
+  return getMatchers(safeMode).reduce((masked, { pattern }) => masked.replace(pattern, maskMatch), text)
+}
+
+// Calls `transform` on every model-written string in a glaze result and
+// returns the result rebuilt from the transformed strings
+export type GlazeTextMapper<T> = (result: T, transform: (text: string) => string) => T
+
+// For routes whose glaze is a single block of text
+export function mapGlazeContent<T extends { content: string }>(result: T, transform: (text: string) => string): T {
+  return { ...result, content: transform(result.content) }
+}
+
+// Forwards streamed deltas with unsafe terms masked. Only text that later
+// deltas can no longer turn into a match is sent; flush() sends the rest.
+function filterDeltas(onDelta: (content: string) => void, safeMode: boolean) {
+  let text = ''
+  let sent = 0
+
+  const sendUpTo = (end: number) => {
+    if (end > sent) {
+      onDelta(maskUnsafeContent(text, safeMode).slice(sent, end))
+      sent = end
+    }
+  }
+
+  return {
+    push(content: string) {
+      text += content
+      let end = text.length - STREAM_HOLD_BACK
+      while (end > sent && !STREAM_BREAK.test(text[end])) {
+        end--
+      }
+      sendUpTo(end)
+    },
+    flush() {
+      sendUpTo(text.length)
+    },
+  }
+}
+
+function collectMatches<T>(result: T, mapText: GlazeTextMapper<T>, safeMode: boolean): SafetyMatch[] {
+  const matches: SafetyMatch[] = []
+  mapText(result, text => {
+    matches.push(...findUnsafeContent(text, safeMode))
+    return text
+  })
+  return matches
+}
+
+// Generate a glaze and run it through the filter. Deltas of the first attempt
+// are forwarded through the filter as they arrive; the final event carries the
+// clean text, and says so in `replaced` when a regenerated reply takes its place.
+export async function generateSafely<T extends { tokensUsed: number }>(
+  generate: (onDelta?: (content: string) => void) => Promise<T>,
+  mapText: GlazeTextMapper<T>,
+  options: { safeMode: boolean; onDelta?: (content: string) => void }
+): Promise<T & { safety: SafetyReport }> {
+  const { safeMode } = options
+  const deltas = options.onDelta ? filterDeltas(options.onDelta, safeMode) : null
+  const first = await generate(deltas ? deltas.push : undefined)
+  deltas?.flush()
+  const firstMatches = collectMatches(first, mapText, safeMode)
+
+  const report: SafetyReport = {
+    safeMode,
+    filtered: firstMatches.length > 0,
+    regenerated: false,
+    replaced: false,
+    masked: false,
+    categories: Array.from(new Set(firstMatches.map(match => match.category))),
+  }
+  if (firstMatches.length === 0) {
+    return { ...first, safety: report }
+  }
+
+  let result = first
+  if (getSafetyAction() === 'regenerate') {
+    const second = await generate()
+    result = { ...second, tokensUsed: first.tokensUsed + second.tokensUsed }
+    report.regenerated = true
+    report.replaced = deltas !== null
+    if (collectMatches(second, mapText, safeMode).length === 0) {
+      return { ...result, safety: report }
+    }
+  }
+
+  report.masked = true
+  return { ...mapText(result, text => maskUnsafeContent(text, safeMode)), safety: report }
+}
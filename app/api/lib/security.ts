@@ -1,5 +1,4 @@
 import { NextRequest } from 'next/server'
-import { kv } from '@vercel/kv'
 
 // Get allowed origins from environment variables with fallback to hardcoded values
 const getAllowedOrigins = (): string[] => {
@@ -91,43 +90,27 @@ export function validateUserAgent(request: NextRequest): boolean {
   return browserPatterns.some(pattern => pattern.test(userAgent))
 }
 
-// Simple IP-based rate limiting using KV store
-export async function checkIPRateLimit(ip: string): Promise<{ allowed: boolean; message?: string }> {
-  // Skip IP rate limiting in development
-  if (process.env.NODE_ENV === 'development') {
-    return { allowed: true }
-  }
-  
-  const now = Date.now()
-  const windowMs = 24 * 60 * 60 * 1000 // 24 hours (1 day)
-  const maxRequests = 50 // Max 50 requests per day per IP
-  
-  const key = `ip_limit:${ip}:${Math.floor(now / windowMs)}`
-  
-  try {
-    const current = await kv.get(key) as number || 0
-    
-    if (current >= maxRequests) {
-      return { 
-        allowed: false, 
-        message: 'Daily request limit exceeded for this IP. You can make 50 requests per day.' 
-      }
-    }
-    
-    // Increment counter with expiration
-    await kv.set(key, current + 1, { ex: Math.ceil(windowMs / 1000) })
-    
-    return { allowed: true }
-  } catch (error) {
-    // Fail open - allow request if KV is down/full
-    // Global token limit will still protect against abuse
-    return { allowed: true }
-  }
-}
-
 export function getClientIP(request: NextRequest): string {
   return request.ip || 
          request.headers.get('x-forwarded-for')?.split(',')[0] || 
          request.headers.get('x-real-ip') || 
          'unknown'
 }
+
+// Admin endpoints require `Authorization: Bearer <ADMIN_SECRET>`. Without a
+// configured secret they are disabled entirely.
+export function validateAdminSecret(request: NextRequest): boolean {
+  const secret = process.env.ADMIN_SECRET
+  if (!secret) {
+    return false
+  }
+
+  const provided = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') || ''
+
+  // Constant-time comparison so the secret can't be guessed byte by byte
+  let mismatch = provided.length ^ secret.length
+  for (let i = 0; i < secret.length; i++) {
+    mismatch |= secret.charCodeAt(i) ^ (provided.charCodeAt(i) || 0)
+  }
+  return mismatch === 0
+}
@@ -0,0 +1,139 @@
+import type { StoredGlaze } from './glaze-store'
+import type { CodeforcesUser, RatingDistribution, Submission } from './types'
+import { calculateRatingDistribution, calculateSubmissionStats, getRatingRangeMin } from './submission-stats'
+import { getRankColor } from '../../lib/ranks'
+
+// Data behind the Open Graph share card. Rendering lives in the /api/og route;
+// this module only decides what goes on the card.
+
+const EXCERPT_LENGTH = 180
+const DEFAULT_COLOR = '#e6e8eb'
+
+export interface ShareCardBar {
+  range: string
+  count: number
+  color: string
+}
+
+export interface ShareCard {
+  title: string
+  titleColor: string
+  subtitle: string | null
+  excerpt: string | null
+  bars: ShareCardBar[]
+}
+
+// Letters of any script, digits, punctuation and spaces. Emoji and other
+// pictographs would make the renderer fetch images from a CDN, so they go.
+const NOT_CARD_TEXT = new RegExp('[^\\p{L}\\p{M}\\p{N}\\p{P}\\p{Sm}\\p{Sc}\\s]', 'gu')
+
+export function toCardText(text: string, maxLength: number): string {
+  const cleaned = text
+    .replace(NOT_CARD_TEXT, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+  if (cleaned.length <= maxLength) {
+    return cleaned
+  }
+  return `${cleaned.slice(0, maxLength - 3).trimEnd()}...`
+}
+
+export function toCardBars(distribution: RatingDistribution | undefined): ShareCardBar[] {
+  if (!distribution) return []
+
+  return Object.entries(distribution)
+    .sort(([a], [b]) => getRatingRangeMin(a) - getRatingRangeMin(b))
+    .map(([range, count]) => ({ range, count, color: getRankColor(getRatingRangeMin(range)) }))
+}
+
+function formatRating(rating?: number, maxRating?: number): string | null {
+  if (rating === undefined) return 'Unrated'
+  return maxRating !== undefined && maxRating !== rating
+    ? `Rating ${rating} (max ${maxRating})`
+    : `Rating ${rating}`
+}
+
+export function buildUserCard(user: Pick<CodeforcesUser, 'handle' | 'rating' | 'maxRating'>, distribution?: RatingDistribution): ShareCard {
+  return {
+    title: toCardText(user.handle, 40),
+    titleColor: user.rating !== undefined ? getRankColor(user.rating) : DEFAULT_COLOR,
+    subtitle: formatRating(user.rating, user.maxRating),
+    excerpt: null,
+    bars: toCardBars(distribution),
+  }
+}
+
+// A handle's card from its cached submissions alone; the rating isn't cached,
+// so the subtitle counts solved problems instead
+export function buildHandleCard(handle: string, submissions: Submission[]): ShareCard {
+  // Spelled the way Codeforces does rather than the way it was typed
+  const member = submissions
+    .map(sub => sub.author.members.find(entry => entry.handle.toLowerCase() === handle.toLowerCase()))
+    .find(Boolean)
+
+  return {
+    title: toCardText(member ? member.handle : handle, 40),
+    titleColor: DEFAULT_COLOR,
+    subtitle: `${calculateSubmissionStats(submissions).uniqueProblemsSolved} problems solved`,
+    excerpt: null,
+    bars: toCardBars(calculateRatingDistribution(submissions)),
+  }
+}
+
+export function buildGlazeCard(glaze: StoredGlaze): ShareCard {
+  const excerpt = toCardText(glaze.glaze, EXCERPT_LENGTH) || null
+
+  if (glaze.type === 'profile' && glaze.userData) {
+    return { ...buildUserCard(glaze.userData, glaze.ratingDistribution), excerpt }
+  }
+
+  if (glaze.type === 'compare' && glaze.users) {
+    return {
+      title: toCardText(glaze.users.map(user => user.handle).join(' vs '), 60),
+      titleColor: DEFAULT_COLOR,
+      subtitle: 'Head-to-head',
+      excerpt,
+      bars: [],
+    }
+  }
+
+  if (glaze.type === 'contest' && glaze.performance) {
+    const { handle, contest, rank, ratingChange } = glaze.performance
+    const delta = ratingChange ? ` · ${ratingChange.delta >= 0 ? '+' : ''}${ratingChange.delta}` : ''
+    return {
+      title: toCardText(`${handle} in ${contest.name}`, 60),
+      titleColor: ratingChange ? getRankColor(ratingChange.newRating) : DEFAULT_COLOR,
+      subtitle: `${rank !== null ? `Rank ${rank}` : 'Unranked'}${delta}`,
+      excerpt,
+      bars: [],
+    }
+  }
+
+  if (glaze.type === 'team' && glaze.team) {
+    const { members, combinedSolved } = glaze.team
+    return {
+      title: toCardText(members.map(member => member.handle).join(', '), 60),
+      titleColor: DEFAULT_COLOR,
+      subtitle: `Team of ${members.length} · ${combinedSolved} problems solved together`,
+      excerpt,
+      bars: [],
+    }
+  }
+
+  return {
+    title: toCardText(glaze.filename || 'Code submission', 40),
+    titleColor: DEFAULT_COLOR,
+    subtitle: glaze.preprocessing ? glaze.preprocessing.languageName : null,
+    excerpt,
+    bars: [],
+  }
+}
+
+export const DEFAULT_CARD: ShareCard = {
+  title: 'Codeforces Glazer',
+  titleColor: DEFAULT_COLOR,
+  subtitle: 'Get your Codeforces profile gloriously praised by AI!',
+  excerpt: null,
+  bars: [],
+}
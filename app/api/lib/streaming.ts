@@ -0,0 +1,77 @@
+// Server-sent event helpers shared by the glaze routes
+
+// Events sent over the stream, in order: any number of `delta` events carrying
+// the next chunk of the glaze, then exactly one `done` (same payload as the
+// non-streaming JSON response) or one `error` event.
+export type GlazeStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; payload: Record<string, unknown> }
+  | { type: 'error'; error: string; code: string; status: number }
+
+export interface GlazeStreamWriter {
+  delta: (content: string) => void
+}
+
+const encoder = new TextEncoder()
+
+function encodeEvent(event: GlazeStreamEvent): Uint8Array {
+  let data: unknown
+  if (event.type === 'done') {
+    data = event.payload
+  } else if (event.type === 'delta') {
+    data = { content: event.content }
+  } else {
+    data = { error: event.error, code: event.code, status: event.status }
+  }
+  return encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`)
+}
+
+// Clients opt into streaming with `stream: true` in the body or an SSE Accept header
+export function wantsStream(accept: string | null, body: { stream?: unknown }): boolean {
+  if (body.stream === true) {
+    return true
+  }
+  return !!accept && accept.includes('text/event-stream')
+}
+
+// Run `generate` and pipe its deltas to the client. Whatever `generate` resolves
+// with becomes the `done` event; a thrown error becomes the `error` event and is
+// passed to `onError` first.
+export function createGlazeStream(
+  generate: (writer: GlazeStreamWriter) => Promise<Record<string, unknown>>,
+  onError?: (error: unknown) => Promise<void>
+): Response {
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const writer: GlazeStreamWriter = {
+        delta: (content: string) => {
+          if (content) {
+            controller.enqueue(encodeEvent({ type: 'delta', content }))
+          }
+        },
+      }
+
+      try {
+        const payload = await generate(writer)
+        controller.enqueue(encodeEvent({ type: 'done', payload }))
+      } catch (error) {
+        await onError?.(error)
+        const errorMessage = error instanceof Error ? error.message : 'Internal server error'
+        const status = errorMessage.includes('limit') ? 429 : 500
+        const code = status === 429 ? 'llm_rate_limited' : 'internal_error'
+        controller.enqueue(encodeEvent({ type: 'error', error: errorMessage, code, status }))
+      } finally {
+        controller.close()
+      }
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
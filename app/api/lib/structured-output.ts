@@ -0,0 +1,94 @@
+// Helpers for replies the model is asked to give as a JSON object with a
+// "glaze" string field first, followed by route-specific fields.
+
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t',
+}
+
+// Incrementally pulls the "glaze" string out of a JSON reply as it streams, so
+// the client sees the glaze text rather than raw JSON. A reply that doesn't
+// start like JSON is passed through unchanged.
+export function createGlazeFieldStreamer(onText: (text: string) => void): (chunk: string) => void {
+  let mode: 'detect' | 'search' | 'string' | 'done' | 'passthrough' = 'detect'
+  let buffer = ''
+  let position = 0
+
+  return (chunk: string) => {
+    if (mode === 'passthrough') {
+      onText(chunk)
+      return
+    }
+    if (mode === 'done') return
+
+    buffer += chunk
+
+    if (mode === 'detect') {
+      const first = buffer.trimStart()[0]
+      if (!first) return
+      if (first !== '{' && first !== '`') {
+        mode = 'passthrough'
+        onText(buffer)
+        return
+      }
+      mode = 'search'
+    }
+
+    if (mode === 'search') {
+      const match = buffer.match(/"glaze"\s*:\s*"/)
+      if (!match || match.index === undefined) return
+      position = match.index + match[0].length
+      mode = 'string'
+    }
+
+    let text = ''
+    while (position < buffer.length) {
+      const char = buffer[position]
+      if (char === '"') {
+        mode = 'done'
+        break
+      }
+      if (char !== '\\') {
+        text += char
+        position++
+        continue
+      }
+
+      // Escape sequence; wait for the rest of it if the chunk ended mid-way
+      const escaped = buffer[position + 1]
+      if (escaped === undefined) break
+      if (escaped === 'u') {
+        const hex = buffer.slice(position + 2, position + 6)
+        if (hex.length < 4) break
+        text += String.fromCharCode(parseInt(hex, 16) || 0)
+        position += 6
+      } else {
+        text += JSON_ESCAPES[escaped] ?? escaped
+        position += 2
+      }
+    }
+
+    if (text) onText(text)
+  }
+}
+
+// Everything of the glaze field that can be read, even from truncated JSON
+export function extractGlazeField(raw: string): string {
+  let text = ''
+  const push = createGlazeFieldStreamer(piece => { text += piece })
+  push(raw)
+  return text
+}
+
+// The outermost JSON object in a reply, ignoring code fences or chatter around it
+export function parseJsonObject(raw: string): Record<string, unknown> | null {
+  const start = raw.indexOf('{')
+  const end = raw.lastIndexOf('}')
+  if (start === -1 || end <= start) return null
+
+  try {
+    const parsed = JSON.parse(raw.slice(start, end + 1))
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null
+  } catch (error) {
+    return null
+  }
+}
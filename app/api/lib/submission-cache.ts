@@ -0,0 +1,155 @@
+import { kv } from '@vercel/kv'
+import { Submission } from './types'
+import { fetchSubmissionsNewerThan, fetchUserSubmissions } from './codeforces'
+
+// Per-handle submission history cached in KV.
+//
+// A cached history is topped up incrementally: only submissions newer than the
+// highest settled id are requested from Codeforces. Entries expire
+// CACHE_TTL_SECONDS after their last write, and anything older than
+// FULL_REFRESH_AFTER_MS is refetched from scratch to pick up rejudges.
+//
+// A full history is larger than one KV value may be, so it is split into
+// chunks under submissions:{handle}:{n}, listed by the index at submissions:{handle}.
+
+// Bump to drop every cached history, e.g. when fetched entries are checked
+// differently (2: submissions validated against their schema, 3: chunked)
+const CACHE_VERSION = 3
+const CACHE_TTL_SECONDS = 7 * 24 * 60 * 60 // 7 days
+const FULL_REFRESH_AFTER_MS = 24 * 60 * 60 * 1000 // 1 day
+const MAX_CACHED_SUBMISSIONS = 5000
+const MAX_CHUNK_BYTES = 900 * 1024 // stay below the 1MB KV value limit
+
+interface CacheIndex {
+  version: number
+  // When the history was last fetched from scratch
+  fullFetchedAt: number
+  chunks: number
+}
+
+interface CachedSubmissions {
+  fullFetchedAt: number
+  submissions: Submission[]
+}
+
+function cacheKey(handle: string): string {
+  // Codeforces handles are case-insensitive
+  return `submissions:${handle.toLowerCase()}`
+}
+
+function chunkKey(handle: string, chunk: number): string {
+  return `${cacheKey(handle)}:${chunk}`
+}
+
+// Submissions still being judged can change verdict, so the incremental boundary
+// sits just below the oldest unsettled one and everything above it is refetched.
+function settledBoundary(submissions: Submission[]): number {
+  let boundary = 0
+  let oldestPending = Infinity
+
+  submissions.forEach(sub => {
+    if (!sub.verdict || sub.verdict === 'TESTING') {
+      oldestPending = Math.min(oldestPending, sub.id)
+    } else {
+      boundary = Math.max(boundary, sub.id)
+    }
+  })
+
+  return oldestPending === Infinity ? boundary : Math.min(boundary, oldestPending - 1)
+}
+
+// Consecutive runs of submissions, each at most MAX_CHUNK_BYTES once serialized
+function chunkSubmissions(submissions: Submission[]): Submission[][] {
+  const chunks: Submission[][] = []
+  let current: Submission[] = []
+  let size = 2 // the brackets
+
+  submissions.forEach(sub => {
+    const entrySize = JSON.stringify(sub).length + 1
+    if (current.length > 0 && size + entrySize > MAX_CHUNK_BYTES) {
+      chunks.push(current)
+      current = []
+      size = 2
+    }
+    current.push(sub)
+    size += entrySize
+  })
+
+  if (current.length > 0) {
+    chunks.push(current)
+  }
+  return chunks
+}
+
+async function readCache(handle: string): Promise<CachedSubmissions | null> {
+  try {
+    const index = await kv.get<CacheIndex>(cacheKey(handle))
+    if (!index || index.version !== CACHE_VERSION || !(index.chunks > 0)) {
+      return null
+    }
+
+    const keys = Array.from({ length: index.chunks }, (_, chunk) => chunkKey(handle, chunk))
+    const chunks = await kv.mget<Array<Submission[] | null>>(...keys)
+    // A chunk that expired or was never written makes the whole history unusable
+    if (!chunks.every(Array.isArray)) {
+      return null
+    }
+    return { fullFetchedAt: index.fullFetchedAt, submissions: ([] as Submission[]).concat(...(chunks as Submission[][])) }
+  } catch (error) {
+    // Cache unavailable - behave like a miss
+    return null
+  }
+}
+
+async function writeCache(handle: string, entry: CachedSubmissions): Promise<void> {
+  const chunks = chunkSubmissions(entry.submissions)
+  const index: CacheIndex = { version: CACHE_VERSION, fullFetchedAt: entry.fullFetchedAt, chunks: chunks.length }
+
+  try {
+    // The index goes last, so it never lists chunks from an unfinished write
+    const pipeline = kv.pipeline()
+    chunks.forEach((chunk, n) => pipeline.set(chunkKey(handle, n), chunk, { ex: CACHE_TTL_SECONDS }))
+    pipeline.set(cacheKey(handle), index, { ex: CACHE_TTL_SECONDS })
+    await pipeline.exec()
+  } catch (error) {
+    // Caching is best effort; the glaze still has its data
+  }
+}
+
+// The cached history for `handle` as it stands, without reaching Codeforces.
+// Null when nothing usable is cached.
+export async function getCachedSubmissions(handle: string): Promise<Submission[] | null> {
+  const cached = await readCache(handle)
+  return cached ? cached.submissions : null
+}
+
+// Submission history for `handle`, newest first, served from KV when possible.
+// Callers get the whole history, however many chunks it takes to cache, unless
+// they ask for fewer submissions: then a miss only fetches that many, and the
+// partial history isn't cached.
+export async function getUserSubmissions(handle: string, maxSubmissions: number = MAX_CACHED_SUBMISSIONS): Promise<Submission[]> {
+  const limit = Math.min(maxSubmissions, MAX_CACHED_SUBMISSIONS)
+  const cached = await readCache(handle)
+  const now = Date.now()
+
+  if (!cached || now - cached.fullFetchedAt > FULL_REFRESH_AFTER_MS) {
+    const submissions = await fetchUserSubmissions(handle, limit)
+    if (limit === MAX_CACHED_SUBMISSIONS) {
+      await writeCache(handle, { fullFetchedAt: now, submissions })
+    }
+    return submissions
+  }
+
+  const boundary = settledBoundary(cached.submissions)
+  const newer = await fetchSubmissionsNewerThan(handle, boundary, MAX_CACHED_SUBMISSIONS)
+
+  if (newer.length === 0) {
+    return cached.submissions.slice(0, limit)
+  }
+
+  const kept = cached.submissions.filter(sub => sub.id <= boundary)
+  const merged = newer.concat(kept).sort((a, b) => b.id - a.id).slice(0, MAX_CACHED_SUBMISSIONS)
+  await writeCache(handle, { ...cached, submissions: merged })
+
+  return merged.slice(0, limit)
+}
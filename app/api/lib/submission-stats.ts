@@ -0,0 +1,96 @@
+import { Submission, RatingDistribution } from './types'
+
+// Submission statistics shared by the glaze routes
+
+export function calculateSubmissionStats(submissions: Submission[]) {
+  const acceptedSubmissions = submissions.filter(sub => sub.verdict === 'OK')
+  const totalSubmissions = submissions.length
+  
+  // Calculate unique problems solved
+  const solvedProblems = new Set<string>()
+  const problemAttempts = new Map<string, number>()
+  
+  submissions.forEach(sub => {
+    const problemKey = `${sub.problem.contestId || 'gym'}-${sub.problem.index}`
+    
+    // Count attempts per problem
+    problemAttempts.set(problemKey, (problemAttempts.get(problemKey) || 0) + 1)
+    
+    // Track solved problems
+    if (sub.verdict === 'OK') {
+      solvedProblems.add(problemKey)
+    }
+  })
+  
+  const uniqueProblemsSolved = solvedProblems.size
+  const totalProblemsAttempted = problemAttempts.size
+  const acceptanceRate = totalSubmissions > 0 ? (acceptedSubmissions.length / totalSubmissions * 100) : 0
+  
+  return {
+    totalSubmissions,
+    acceptedSubmissions: acceptedSubmissions.length,
+    uniqueProblemsSolved,
+    totalProblemsAttempted,
+    acceptanceRate: Math.round(acceptanceRate * 10) / 10, // Round to 1 decimal
+    averageAttemptsPerProblem: totalProblemsAttempted > 0 ? 
+      Math.round((totalSubmissions / totalProblemsAttempted) * 10) / 10 : 0
+  }
+}
+
+export function calculateRatingDistribution(submissions: Submission[]): RatingDistribution {
+  const acceptedSubmissions = submissions.filter(sub => sub.verdict === 'OK')
+  const solvedProblems = new Set<string>()
+  const ratingCounts: RatingDistribution = {}
+  
+  // Count unique solved problems by rating
+  acceptedSubmissions.forEach(sub => {
+    if (sub.problem.rating) {
+      const problemKey = `${sub.problem.contestId || 'gym'}-${sub.problem.index}`
+      if (!solvedProblems.has(problemKey)) {
+        solvedProblems.add(problemKey)
+        const rating = sub.problem.rating
+        const ratingRange = getRatingRange(rating)
+        ratingCounts[ratingRange] = (ratingCounts[ratingRange] || 0) + 1
+      }
+    }
+  })
+  
+  return ratingCounts
+}
+
+export function getRatingRange(rating: number): string {
+  if (rating < 800) return '< 800'
+  if (rating < 1000) return '800-999'
+  if (rating < 1200) return '1000-1199'
+  if (rating < 1400) return '1200-1399'
+  if (rating < 1600) return '1400-1599'
+  if (rating < 1800) return '1600-1799'
+  if (rating < 2000) return '1800-1999'
+  if (rating < 2200) return '2000-2199'
+  if (rating < 2400) return '2200-2399'
+  if (rating < 2600) return '2400-2599'
+  if (rating < 2800) return '2600-2799'
+  if (rating < 3000) return '2800-2999'
+  return '3000+'
+}
+
+// Lower bound of a getRatingRange bucket, for sorting buckets in rating order
+export function getRatingRangeMin(range: string): number {
+  if (range === '< 800') return 0
+  if (range === '3000+') return 3000
+  return parseInt(range.split('-')[0])
+}
+
+export function formatRatingDistribution(distribution: RatingDistribution): string {
+  const totalProblems = Object.values(distribution).reduce((sum, count) => sum + count, 0)
+  if (totalProblems === 0) return "No rated problems solved yet"
+  
+  const sortedRanges = Object.entries(distribution)
+    .sort(([a], [b]) => getRatingRangeMin(a) - getRatingRangeMin(b))
+  
+  const distributionText = sortedRanges
+    .map(([range, count]) => `${range}: ${count} problems (${((count / totalProblems) * 100).toFixed(1)}%)`)
+    .join('\n')
+  
+  return `Problem Ratings Distribution (Total: ${totalProblems} unique problems solved):\n${distributionText}`
+}
@@ -0,0 +1,147 @@
+import { Submission } from './types'
+
+// Per-tag strength / weakness breakdown over a user's submissions
+
+export interface TagStats {
+  tag: string
+  solved: number
+  attempted: number
+  submissions: number
+  avgSolvedRating: number | null
+  maxSolvedRating: number | null
+  // Submissions on the tag's problems per problem solved
+  attemptsPerSolve: number | null
+  acceptanceRate: number
+  // Average solved rating minus the user's reference rating
+  relativeRating: number | null
+}
+
+export interface TagBreakdown {
+  // Rating the tag difficulty is compared against (current rating, or the
+  // average solved rating for unrated users)
+  referenceRating: number | null
+  tags: TagStats[]
+  strongest: string[]
+  weakest: string[]
+}
+
+// Tags need this many attempted problems before they count as a strength or weakness
+const MIN_PROBLEMS_FOR_RANKING = 3
+const HIGHLIGHT_COUNT = 3
+
+interface TagAccumulator {
+  submissions: number
+  accepted: number
+  attemptedProblems: Set<string>
+  solvedRatings: Map<string, number | undefined>
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+export function calculateTagBreakdown(submissions: Submission[], userRating?: number): TagBreakdown {
+  const accumulators = new Map<string, TagAccumulator>()
+
+  submissions.forEach(sub => {
+    const problemKey = `${sub.problem.contestId || 'gym'}-${sub.problem.index}`
+
+    sub.problem.tags.forEach(tag => {
+      let acc = accumulators.get(tag)
+      if (!acc) {
+        acc = { submissions: 0, accepted: 0, attemptedProblems: new Set(), solvedRatings: new Map() }
+        accumulators.set(tag, acc)
+      }
+
+      acc.submissions++
+      acc.attemptedProblems.add(problemKey)
+      if (sub.verdict === 'OK') {
+        acc.accepted++
+        acc.solvedRatings.set(problemKey, sub.problem.rating)
+      }
+    })
+  })
+
+  const tagEntries = Array.from(accumulators.entries())
+
+  // Unrated users are compared against their own average solved difficulty
+  let referenceRating: number | null = userRating || null
+  if (referenceRating === null) {
+    const allRatings: number[] = []
+    tagEntries.forEach(([, acc]) => {
+      acc.solvedRatings.forEach(rating => {
+        if (rating) allRatings.push(rating)
+      })
+    })
+    referenceRating = allRatings.length > 0
+      ? Math.round(allRatings.reduce((sum, r) => sum + r, 0) / allRatings.length)
+      : null
+  }
+
+  const tags: TagStats[] = tagEntries.map(([tag, acc]) => {
+    const ratings = Array.from(acc.solvedRatings.values()).filter((r): r is number => !!r)
+    const solved = acc.solvedRatings.size
+    const avgSolvedRating = ratings.length > 0
+      ? Math.round(ratings.reduce((sum, r) => sum + r, 0) / ratings.length)
+      : null
+
+    return {
+      tag,
+      solved,
+      attempted: acc.attemptedProblems.size,
+      submissions: acc.submissions,
+      avgSolvedRating,
+      maxSolvedRating: ratings.length > 0 ? Math.max(...ratings) : null,
+      attemptsPerSolve: solved > 0 ? round1(acc.submissions / solved) : null,
+      acceptanceRate: acc.submissions > 0 ? round1(acc.accepted / acc.submissions * 100) : 0,
+      relativeRating: avgSolvedRating !== null && referenceRating !== null
+        ? avgSolvedRating - referenceRating
+        : null,
+    }
+  }).sort((a, b) => b.solved - a.solved || a.tag.localeCompare(b.tag))
+
+  const rankable = tags.filter(t => t.attempted >= MIN_PROBLEMS_FOR_RANKING)
+
+  // Strongest: hardest problems solved relative to the user's rating
+  const strongest = rankable
+    .filter(t => t.relativeRating !== null)
+    .sort((a, b) => (b.relativeRating as number) - (a.relativeRating as number) || b.solved - a.solved)
+    .slice(0, HIGHLIGHT_COUNT)
+    .map(t => t.tag)
+
+  // Weakest: lowest relative difficulty, with unsolved tags and poor acceptance first
+  const weakest = rankable
+    .filter(t => !strongest.includes(t.tag))
+    .sort((a, b) => {
+      const aRel = a.relativeRating === null ? -Infinity : a.relativeRating
+      const bRel = b.relativeRating === null ? -Infinity : b.relativeRating
+      return aRel - bRel || a.acceptanceRate - b.acceptanceRate
+    })
+    .slice(0, HIGHLIGHT_COUNT)
+    .map(t => t.tag)
+
+  return { referenceRating, tags, strongest, weakest }
+}
+
+export function formatTagBreakdown(breakdown: TagBreakdown): string {
+  if (breakdown.tags.length === 0) return "No tagged problems attempted yet"
+
+  const lines = breakdown.tags.slice(0, 10).map(t => {
+    let line = `${t.tag}: ${t.solved} solved`
+    if (t.avgSolvedRating !== null) line += `, avg rating ${t.avgSolvedRating}`
+    if (t.maxSolvedRating !== null) line += `, max ${t.maxSolvedRating}`
+    if (t.attemptsPerSolve !== null) line += `, ${t.attemptsPerSolve} attempts per solve`
+    line += `, ${t.acceptanceRate}% acceptance`
+    return line
+  })
+
+  let text = `Problem Tag Breakdown (top ${lines.length} tags by problems solved):\n${lines.join('\n')}\n`
+  if (breakdown.strongest.length > 0) {
+    text += `Strongest Tags (relative to their rating): ${breakdown.strongest.join(', ')}\n`
+  }
+  if (breakdown.weakest.length > 0) {
+    text += `Weakest Tags (relative to their rating): ${breakdown.weakest.join(', ')}\n`
+  }
+
+  return text
+}
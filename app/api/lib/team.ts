@@ -0,0 +1,242 @@
+import { CodeforcesUser, Submission } from './types'
+import { calculateSubmissionStats } from './submission-stats'
+import { extractGlazeField, parseJsonObject } from './structured-output'
+
+// Aggregate stats for team glazing: what the team covers together, and the
+// category each member carries the team in.
+
+export interface TeamMemberInput {
+  user: CodeforcesUser
+  submissions: Submission[]
+}
+
+export type MvpCategory = 'rating' | 'solved' | 'hardest' | 'tags' | 'acceptance' | 'potential'
+
+export interface TeamMember {
+  handle: string
+  rating?: number
+  rank?: string
+  avatar?: string
+  solved: number
+  hardestSolved: number | null
+  tagsCovered: number
+  acceptanceRate: number
+  mvp: {
+    category: MvpCategory
+    label: string
+    // The member's value in that category, e.g. their rating for 'rating'
+    value: number | null
+  }
+}
+
+export interface TeamStats {
+  members: TeamMember[]
+  // Distinct problems solved by at least one member
+  combinedSolved: number
+  // Sum over members, so problems solved by several count more than once
+  totalSolved: number
+  // Union of the tags of problems any member solved
+  tagsCovered: string[]
+  ratingSpread: {
+    min: number
+    max: number
+    average: number
+    spread: number
+  } | null
+}
+
+export interface TeamShoutout {
+  handle: string
+  line: string
+}
+
+export interface TeamGlaze {
+  glaze: string
+  shoutouts: TeamShoutout[]
+  // False when the reply wasn't valid JSON and the raw text was used instead
+  structured: boolean
+}
+
+export const MVP_LABELS: Record<MvpCategory, string> = {
+  rating: 'Rating Carry',
+  solved: 'Problem Grinder',
+  hardest: 'Hardest Solve',
+  tags: 'Tag Collector',
+  acceptance: 'Clean Coder',
+  potential: 'Untapped Potential',
+}
+
+// Order breaks ties when a member is equally strong in several categories
+const MVP_CATEGORIES: Exclude<MvpCategory, 'potential'>[] = ['rating', 'solved', 'hardest', 'tags', 'acceptance']
+
+const MAX_SHOUTOUT_LENGTH = 300
+
+export const TEAM_GLAZE_FORMAT = `Respond with a single JSON object and nothing else, in exactly this shape:
+{"glaze": "<your reaction to the whole team as plain text>", "shoutouts": [{"handle": "<member handle>", "line": "<one sentence for that member>"}]}
+Write "glaze" first. Give exactly one shout-out per member, each a single sentence built around their MVP category.`
+
+interface MemberSolves {
+  problems: Set<string>
+  tags: Set<string>
+  hardestSolved: number | null
+}
+
+function collectSolves(submissions: Submission[]): MemberSolves {
+  const problems = new Set<string>()
+  const tags = new Set<string>()
+  let hardestSolved: number | null = null
+
+  submissions.forEach(sub => {
+    if (sub.verdict !== 'OK') return
+    problems.add(`${sub.problem.contestId || 'gym'}-${sub.problem.index}`)
+    sub.problem.tags.forEach(tag => tags.add(tag))
+    if (sub.problem.rating !== undefined && (hardestSolved === null || sub.problem.rating > hardestSolved)) {
+      hardestSolved = sub.problem.rating
+    }
+  })
+
+  return { problems, tags, hardestSolved }
+}
+
+// A member's MVP category is the one where they come closest to the team's best
+// (value / team maximum). Members with nothing to show get 'potential'.
+function pickMvp(values: Record<(typeof MVP_CATEGORIES)[number], number | null>, teamMax: Record<string, number>): TeamMember['mvp'] {
+  let best: TeamMember['mvp'] = { category: 'potential', label: MVP_LABELS.potential, value: null }
+  let bestShare = 0
+
+  MVP_CATEGORIES.forEach(category => {
+    const value = values[category]
+    if (value === null || teamMax[category] <= 0) return
+    const share = value / teamMax[category]
+    if (share > bestShare) {
+      bestShare = share
+      best = { category, label: MVP_LABELS[category], value }
+    }
+  })
+
+  return best
+}
+
+export function buildTeamStats(inputs: TeamMemberInput[]): TeamStats {
+  const solves = inputs.map(entry => collectSolves(entry.submissions))
+  const stats = inputs.map(entry => calculateSubmissionStats(entry.submissions))
+
+  const values = inputs.map((entry, index) => ({
+    rating: entry.user.rating ?? null,
+    solved: solves[index].problems.size,
+    hardest: solves[index].hardestSolved,
+    tags: solves[index].tags.size,
+    acceptance: stats[index].totalSubmissions > 0 ? stats[index].acceptanceRate : null,
+  }))
+
+  const teamMax: Record<string, number> = {}
+  MVP_CATEGORIES.forEach(category => {
+    teamMax[category] = Math.max(0, ...values.map(value => value[category] ?? 0))
+  })
+
+  const members = inputs.map((entry, index): TeamMember => ({
+    handle: entry.user.handle,
+    rating: entry.user.rating,
+    rank: entry.user.rank,
+    avatar: entry.user.avatar,
+    solved: solves[index].problems.size,
+    hardestSolved: solves[index].hardestSolved,
+    tagsCovered: solves[index].tags.size,
+    acceptanceRate: stats[index].acceptanceRate,
+    mvp: pickMvp(values[index], teamMax),
+  }))
+
+  const combinedProblems = new Set<string>()
+  const combinedTags = new Set<string>()
+  solves.forEach(solve => {
+    solve.problems.forEach(problem => combinedProblems.add(problem))
+    solve.tags.forEach(tag => combinedTags.add(tag))
+  })
+
+  const ratings = inputs
+    .map(entry => entry.user.rating)
+    .filter((rating): rating is number => rating !== undefined)
+  const ratingSpread = ratings.length > 0
+    ? {
+      min: Math.min(...ratings),
+      max: Math.max(...ratings),
+      average: Math.round(ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length),
+      spread: Math.max(...ratings) - Math.min(...ratings),
+    }
+    : null
+
+  return {
+    members,
+    combinedSolved: combinedProblems.size,
+    totalSolved: members.reduce((sum, member) => sum + member.solved, 0),
+    tagsCovered: Array.from(combinedTags).sort(),
+    ratingSpread,
+  }
+}
+
+export function formatTeamStats(team: TeamStats): string {
+  let text = `Team of ${team.members.length}: ${team.members.map(member => member.handle).join(', ')}\n\n`
+
+  text += `Distinct problems solved by the team: ${team.combinedSolved} (${team.totalSolved} counting each member separately)\n`
+  if (team.ratingSpread) {
+    const { min, max, average, spread } = team.ratingSpread
+    text += `Ratings: ${min} to ${max}, average ${average}, spread ${spread}\n`
+  } else {
+    text += `Ratings: nobody is rated yet\n`
+  }
+  text += `Tags covered together (${team.tagsCovered.length}): ${team.tagsCovered.join(', ') || 'none'}\n`
+
+  text += `\nMembers:\n`
+  team.members.forEach(member => {
+    text += `- ${member.handle}: rating ${member.rating ?? 'unrated'}${member.rank ? ` (${member.rank})` : ''}, `
+    text += `${member.solved} solved, hardest solve ${member.hardestSolved ?? 'n/a'}, `
+    text += `${member.tagsCovered} tags, ${member.acceptanceRate}% acceptance. `
+    text += `MVP category: ${member.mvp.label}${member.mvp.value !== null ? ` (${member.mvp.value})` : ''}\n`
+  })
+
+  return text
+}
+
+function fallbackShoutout(member: TeamMember): string {
+  return `${member.handle}, the team's ${member.mvp.label}!`
+}
+
+// Validate the model's reply: exactly one shout-out per member, in team order.
+// Members the model skipped get a line built from their MVP category, and
+// malformed JSON falls back to whatever glaze text can be recovered.
+export function parseTeamGlaze(raw: string, members: TeamMember[]): TeamGlaze {
+  const parsed = parseJsonObject(raw)
+
+  if (parsed && typeof parsed.glaze === 'string' && parsed.glaze.trim()) {
+    const lines = new Map<string, string>()
+    const entries = Array.isArray(parsed.shoutouts) ? parsed.shoutouts : []
+    entries.forEach(entry => {
+      if (!entry || typeof entry !== 'object') return
+      const { handle, line } = entry as Record<string, unknown>
+      if (typeof handle !== 'string' || typeof line !== 'string' || !line.trim()) return
+      const key = handle.trim().toLowerCase()
+      if (!lines.has(key)) {
+        lines.set(key, line.trim().slice(0, MAX_SHOUTOUT_LENGTH))
+      }
+    })
+
+    return {
+      glaze: parsed.glaze.trim(),
+      shoutouts: members.map(member => ({
+        handle: member.handle,
+        line: lines.get(member.handle.toLowerCase()) || fallbackShoutout(member),
+      })),
+      structured: true,
+    }
+  }
+
+  // Truncated or invalid JSON still usually has a readable glaze field
+  const glaze = extractGlazeField(raw).trim()
+    || raw.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, '').trim()
+
+  return {
+    glaze,
+    shoutouts: members.map(member => ({ handle: member.handle, line: fallbackShoutout(member) })),
+    structured: false,
+  }
+}
@@ -0,0 +1,196 @@
+import { NextResponse } from 'next/server'
+import { kv } from '@vercel/kv'
+import type { GlazeType } from './glaze-store'
+import { getSafetyAction } from './safety'
+
+// Daily LLM token accounting in KV, per UTC day:
+//   tokens:{day}:global          - every route, every client
+//   tokens:{day}:route:{route}   - per route
+//   tokens:{day}:client:{hash}   - per client (salted SHA-256 of the IP)
+//
+// A request reserves its worst case on the global and client totals before
+// calling the LLM, so concurrent requests can't all pass the same check and
+// overspend. Once it finishes the reservation is settled to the tokens actually
+// used, or to the prompt alone if generation failed.
+//
+// Configuration (environment):
+//   TOKEN_BUDGET_DAILY         - global tokens per day, default 2,000,000
+//   TOKEN_BUDGET_CLIENT_DAILY  - tokens per client per day, default 60,000
+//   TOKEN_BUDGET_MAX_PROMPT    - largest estimated prompt accepted, default 12,000
+//   IP_HASH_SALT               - salt for client hashes so raw IPs never reach KV
+
+export type BudgetScope = 'global' | 'client'
+
+export interface TokenBudgetCheck {
+  allowed: boolean
+  // Why the request was rejected
+  reason?: 'prompt_too_large' | 'budget_exhausted'
+  scope?: BudgetScope
+  route: GlazeType
+  clientHash: string
+  day: string
+  promptTokens: number
+  // Tokens held on the global and client totals until the request settles
+  reserved: number
+  // Unix time in ms of the next UTC midnight
+  reset: number
+}
+
+const DEFAULT_GLOBAL_BUDGET = 2_000_000
+const DEFAULT_CLIENT_BUDGET = 60_000
+const DEFAULT_MAX_PROMPT_TOKENS = 12_000
+
+// Route and global totals stay around for the admin dashboard's history
+const GLOBAL_KEY_TTL_SECONDS = 31 * 24 * 60 * 60
+const CLIENT_KEY_TTL_SECONDS = 2 * 24 * 60 * 60
+
+function readPositiveInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '')
+  return value > 0 ? value : fallback
+}
+
+export function getTokenBudgets() {
+  return {
+    global: readPositiveInt('TOKEN_BUDGET_DAILY', DEFAULT_GLOBAL_BUDGET),
+    client: readPositiveInt('TOKEN_BUDGET_CLIENT_DAILY', DEFAULT_CLIENT_BUDGET),
+    maxPrompt: readPositiveInt('TOKEN_BUDGET_MAX_PROMPT', DEFAULT_MAX_PROMPT_TOKENS),
+  }
+}
+
+export function getBudgetDay(now = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 10)
+}
+
+function getNextReset(now = Date.now()): number {
+  const date = new Date(now)
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1)
+}
+
+export function tokenKey(day: string, scope: 'global' | 'route' | 'client', id?: string): string {
+  return scope === 'global' ? `tokens:${day}:global` : `tokens:${day}:${scope}:${id}`
+}
+
+export async function hashClientIP(ip: string): Promise<string> {
+  const data = new TextEncoder().encode(`${process.env.IP_HASH_SALT || ''}:${ip}`)
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(digest).slice(0, 8), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// Check a request against the budgets before calling the LLM and reserve its
+// worst case (the prompt plus the completion's max tokens, twice when the safety
+// filter may regenerate), so it is only let through when that fits. Rejected
+// requests give their reservation straight back.
+export async function checkTokenBudget(
+  route: GlazeType,
+  ip: string,
+  estimate: { promptTokens: number; maxCompletionTokens: number }
+): Promise<TokenBudgetCheck> {
+  const now = Date.now()
+  const budgets = getTokenBudgets()
+  const check: TokenBudgetCheck = {
+    allowed: true,
+    route,
+    clientHash: await hashClientIP(ip),
+    day: getBudgetDay(now),
+    promptTokens: estimate.promptTokens,
+    reserved: 0,
+    reset: getNextReset(now),
+  }
+
+  if (estimate.promptTokens > budgets.maxPrompt) {
+    return { ...check, allowed: false, reason: 'prompt_too_large' }
+  }
+
+  const attempts = getSafetyAction() === 'regenerate' ? 2 : 1
+  const worstCase = attempts * (estimate.promptTokens + estimate.maxCompletionTokens)
+
+  const globalKey = tokenKey(check.day, 'global')
+  const clientKey = tokenKey(check.day, 'client', check.clientHash)
+
+  try {
+    const [globalUsed, , clientUsed] = await kv.pipeline()
+      .incrby(globalKey, worstCase)
+      .expire(globalKey, GLOBAL_KEY_TTL_SECONDS)
+      .incrby(clientKey, worstCase)
+      .expire(clientKey, CLIENT_KEY_TTL_SECONDS)
+      .exec<[number, number, number, number]>()
+
+    const scope: BudgetScope | undefined = globalUsed > budgets.global
+      ? 'global'
+      : clientUsed > budgets.client ? 'client' : undefined
+    if (scope) {
+      await kv.pipeline().incrby(globalKey, -worstCase).incrby(clientKey, -worstCase).exec()
+      return { ...check, allowed: false, reason: 'budget_exhausted', scope }
+    }
+  } catch (error) {
+    // KV unavailable - allow the request rather than take the site down
+    return check
+  }
+
+  return { ...check, reserved: worstCase }
+}
+
+// Settle a request's reservation to the tokens it actually used. Best effort.
+export async function recordTokenUsage(check: TokenBudgetCheck, tokensUsed: number): Promise<void> {
+  const adjustment = tokensUsed - check.reserved
+  if (tokensUsed <= 0 && adjustment === 0) return
+
+  try {
+    const pipeline = kv.pipeline()
+    const globalKey = tokenKey(check.day, 'global')
+    const routeKey = tokenKey(check.day, 'route', check.route)
+    const clientKey = tokenKey(check.day, 'client', check.clientHash)
+
+    if (adjustment !== 0) {
+      pipeline.incrby(globalKey, adjustment)
+      pipeline.incrby(clientKey, adjustment)
+    }
+    if (tokensUsed > 0) {
+      pipeline.incrby(routeKey, tokensUsed)
+      pipeline.expire(routeKey, GLOBAL_KEY_TTL_SECONDS)
+    }
+    await pipeline.exec()
+  } catch (error) {
+    // Accounting must never fail a glaze that was already generated
+  }
+}
+
+// Run the LLM call for a reserved request. If it throws, the provider may already
+// have billed the prompt, so that much is charged and the rest handed back.
+// Successful runs settle through recordTokenUsage.
+export async function withTokenReservation<T>(check: TokenBudgetCheck, generate: () => Promise<T>): Promise<T> {
+  try {
+    return await generate()
+  } catch (error) {
+    await recordTokenUsage(check, check.promptTokens)
+    throw error
+  }
+}
+
+// Response for a request the budget check rejected
+export function tokenBudgetResponse(check: TokenBudgetCheck): NextResponse {
+  if (check.reason === 'prompt_too_large') {
+    return NextResponse.json(
+      {
+        error: `Input is too large to glaze (about ${check.promptTokens} tokens, the limit is ${getTokenBudgets().maxPrompt})`,
+        code: 'input_too_large',
+        params: { tokens: check.promptTokens, limit: getTokenBudgets().maxPrompt },
+      },
+      { status: 413 }
+    )
+  }
+
+  const resetAt = new Date(check.reset).toISOString()
+  const error = check.scope === 'global'
+    ? `The daily glazing budget has been used up. It resets at ${resetAt}.`
+    : `You have used your daily glazing budget. It resets at ${resetAt}.`
+  const code = check.scope === 'global' ? 'budget_exhausted_global' : 'budget_exhausted_client'
+
+  return NextResponse.json(
+    { error, code, scope: check.scope, reset: resetAt },
+    {
+      status: 429,
+      headers: { 'Retry-After': String(Math.max(1, Math.ceil((check.reset - Date.now()) / 1000))) }
+    }
+  )
+}
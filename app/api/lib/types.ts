@@ -22,9 +22,10 @@ export interface CodeforcesUser {
   titlePhoto?: string
 }
 
+// Envelope of every API answer; `result` is checked per method
 export interface CodeforcesResponse {
   status: string
-  result?: CodeforcesUser[]
+  result?: unknown
   comment?: string
 }
 
@@ -57,35 +58,329 @@ export interface Submission {
   memoryConsumedBytes: number
 }
 
+// One entry of user.rating: the rating change from a single rated contest
+export interface RatingChange {
+  contestId: number
+  contestName: string
+  handle: string
+  rank: number
+  ratingUpdateTimeSeconds: number
+  oldRating: number
+  newRating: number
+}
+
+export interface Contest {
+  id: number
+  name: string
+  // CF, IOI or ICPC scoring
+  type: string
+  phase: string
+  frozen: boolean
+  durationSeconds: number
+  startTimeSeconds?: number
+  relativeTimeSeconds?: number
+}
+
+// A problem as listed in contest.standings
+export interface Problem {
+  contestId?: number
+  index: string
+  name: string
+  type: string
+  points?: number
+  rating?: number
+  tags: string[]
+}
+
+export interface ProblemResult {
+  points: number
+  penalty?: number
+  rejectedAttemptCount: number
+  type: string
+  // Seconds from the participant's start, absent until the problem is solved
+  bestSubmissionTimeSeconds?: number
+}
+
+export interface RanklistRow {
+  party: {
+    contestId?: number
+    members: Array<{ handle: string }>
+    participantType: string
+    teamId?: number
+    teamName?: string
+    ghost: boolean
+    room?: number
+    startTimeSeconds?: number
+  }
+  // 0 for rows outside the official ranking, such as practice
+  rank: number
+  points: number
+  penalty: number
+  successfulHackCount: number
+  unsuccessfulHackCount: number
+  // Same order as ContestStandings.problems
+  problemResults: ProblemResult[]
+}
+
+export interface ContestStandings {
+  contest: Contest
+  problems: Problem[]
+  rows: RanklistRow[]
+}
+
 export interface RatingDistribution {
   [key: string]: number
 }
 
 // Runtime validation helpers
-export function isCodeforcesResponse(data: any): data is CodeforcesResponse {
-  return (
-    typeof data === 'object' &&
-    data !== null &&
-    typeof data.status === 'string' &&
-    (data.result === undefined || Array.isArray(data.result))
-  )
-}
-
-export function isCodeforcesUser(data: any): data is CodeforcesUser {
-  return (
-    typeof data === 'object' &&
-    data !== null &&
-    typeof data.handle === 'string'
-  )
-}
-
-export function isSubmissionArray(data: any): data is Submission[] {
-  return Array.isArray(data) && data.every(item => 
-    typeof item === 'object' &&
-    item !== null &&
-    typeof item.id === 'number' &&
-    typeof item.problem === 'object' &&
-    item.problem !== null &&
-    typeof item.problem.name === 'string'
-  )
-}
\ No newline at end of file
+//
+// Every check returns null when the value matches its type, otherwise the first
+// mismatch with the path to it, e.g. `problem.rating: expected number, got string`.
+// Schemas are keyed by the interface's fields, so adding a field without a
+// check doesn't compile.
+
+export interface ValidationIssue {
+  path: string
+  message: string
+}
+
+type Check = (value: unknown, path: string) => ValidationIssue | null
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function mismatch(path: string, expected: string, value: unknown): ValidationIssue {
+  return { path, message: `expected ${expected}, got ${describeValue(value)}` }
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key
+}
+
+const string: Check = (value, path) =>
+  typeof value === 'string' ? null : mismatch(path, 'string', value)
+
+const number: Check = (value, path) =>
+  typeof value === 'number' && Number.isFinite(value) ? null : mismatch(path, 'number', value)
+
+const boolean: Check = (value, path) =>
+  typeof value === 'boolean' ? null : mismatch(path, 'boolean', value)
+
+function optional(check: Check): Check {
+  return (value, path) => (value === undefined ? null : check(value, path))
+}
+
+function arrayOf(check: Check): Check {
+  return (value, path) => {
+    if (!Array.isArray(value)) return mismatch(path, 'array', value)
+    for (let i = 0; i < value.length; i++) {
+      const issue = check(value[i], `${path}[${i}]`)
+      if (issue) return issue
+    }
+    return null
+  }
+}
+
+function object<T>(shape: Record<keyof T, Check>): Check {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return mismatch(path, 'object', value)
+    }
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      const issue = shape[key]((value as Record<string, unknown>)[key], joinPath(path, key))
+      if (issue) return issue
+    }
+    return null
+  }
+}
+
+const codeforcesResponseSchema = object<CodeforcesResponse>({
+  status: string,
+  // Checked by each method's own validator
+  result: () => null,
+  comment: optional(string),
+})
+
+const codeforcesUserSchema = object<CodeforcesUser>({
+  handle: string,
+  email: optional(string),
+  vkId: optional(string),
+  openId: optional(string),
+  firstName: optional(string),
+  lastName: optional(string),
+  country: optional(string),
+  city: optional(string),
+  organization: optional(string),
+  contribution: optional(number),
+  rank: optional(string),
+  rating: optional(number),
+  maxRank: optional(string),
+  maxRating: optional(number),
+  lastOnlineTimeSeconds: optional(number),
+  registrationTimeSeconds: optional(number),
+  friendOfCount: optional(number),
+  avatar: optional(string),
+  titlePhoto: optional(string),
+})
+
+const submissionSchema = object<Submission>({
+  id: number,
+  contestId: optional(number),
+  creationTimeSeconds: number,
+  relativeTimeSeconds: number,
+  problem: object<Submission['problem']>({
+    contestId: optional(number),
+    index: string,
+    name: string,
+    type: string,
+    rating: optional(number),
+    tags: arrayOf(string),
+  }),
+  author: object<Submission['author']>({
+    contestId: optional(number),
+    members: arrayOf(object<{ handle: string }>({ handle: string })),
+    participantType: string,
+    ghost: boolean,
+    room: optional(number),
+    startTimeSeconds: optional(number),
+  }),
+  programmingLanguage: string,
+  // Absent while the submission waits in the judging queue
+  verdict: optional(string),
+  testset: string,
+  passedTestCount: number,
+  timeConsumedMillis: number,
+  memoryConsumedBytes: number,
+})
+
+const ratingChangeSchema = object<RatingChange>({
+  contestId: number,
+  contestName: string,
+  handle: string,
+  rank: number,
+  ratingUpdateTimeSeconds: number,
+  oldRating: number,
+  newRating: number,
+})
+
+const contestSchema = object<Contest>({
+  id: number,
+  name: string,
+  type: string,
+  phase: string,
+  frozen: boolean,
+  durationSeconds: number,
+  startTimeSeconds: optional(number),
+  relativeTimeSeconds: optional(number),
+})
+
+const problemSchema = object<Problem>({
+  contestId: optional(number),
+  index: string,
+  name: string,
+  type: string,
+  points: optional(number),
+  rating: optional(number),
+  tags: arrayOf(string),
+})
+
+const ranklistRowSchema = object<RanklistRow>({
+  party: object<RanklistRow['party']>({
+    contestId: optional(number),
+    members: arrayOf(object<{ handle: string }>({ handle: string })),
+    participantType: string,
+    teamId: optional(number),
+    teamName: optional(string),
+    ghost: boolean,
+    room: optional(number),
+    startTimeSeconds: optional(number),
+  }),
+  rank: number,
+  points: number,
+  penalty: number,
+  successfulHackCount: number,
+  unsuccessfulHackCount: number,
+  problemResults: arrayOf(object<ProblemResult>({
+    points: number,
+    penalty: optional(number),
+    rejectedAttemptCount: number,
+    type: string,
+    bestSubmissionTimeSeconds: optional(number),
+  })),
+})
+
+// Rows are validated one by one like other array results; the problem list
+// can't lose entries because problemResults are matched to it by position
+const contestStandingsSchema = object<ContestStandings>({
+  contest: contestSchema,
+  problems: arrayOf(problemSchema),
+  rows: arrayOf(() => null),
+})
+
+const ratingDistributionCheck: Check = (value, path) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return mismatch(path, 'object', value)
+  }
+  for (const [range, count] of Object.entries(value)) {
+    const issue = number(count, joinPath(path, range))
+    if (issue) return issue
+  }
+  return null
+}
+
+export function formatValidationIssue(issue: ValidationIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message
+}
+
+export function validateCodeforcesResponse(data: unknown): ValidationIssue | null {
+  return codeforcesResponseSchema(data, '')
+}
+
+export function validateCodeforcesUser(data: unknown): ValidationIssue | null {
+  return codeforcesUserSchema(data, '')
+}
+
+export function validateSubmission(data: unknown): ValidationIssue | null {
+  return submissionSchema(data, '')
+}
+
+export function validateRatingChange(data: unknown): ValidationIssue | null {
+  return ratingChangeSchema(data, '')
+}
+
+export function validateContestStandings(data: unknown): ValidationIssue | null {
+  return contestStandingsSchema(data, '')
+}
+
+export function validateRanklistRow(data: unknown): ValidationIssue | null {
+  return ranklistRowSchema(data, '')
+}
+
+export function validateRatingDistribution(data: unknown): ValidationIssue | null {
+  return ratingDistributionCheck(data, '')
+}
+
+// Split an array result into the entries that validate and the issues of the
+// ones that don't, so one malformed entry doesn't cost the whole page.
+// Issue paths are prefixed with the entry's index.
+export function partitionValid<T>(
+  items: unknown[],
+  validate: (item: unknown) => ValidationIssue | null
+): { valid: T[]; dropped: ValidationIssue[] } {
+  const valid: T[] = []
+  const dropped: ValidationIssue[] = []
+
+  items.forEach((item, index) => {
+    const issue = validate(item)
+    if (issue) {
+      dropped.push({ ...issue, path: issue.path ? `[${index}].${issue.path}` : `[${index}]` })
+    } else {
+      valid.push(item as T)
+    }
+  })
+
+  return { valid, dropped }
+}
@@ -0,0 +1,173 @@
+import { kv } from '@vercel/kv'
+import OpenAI from 'openai'
+import { CodeforcesError } from './codeforces'
+import type { GlazeType } from './glaze-store'
+import type { ValidationIssue } from './types'
+import { getBudgetDay, tokenKey } from './token-budget'
+
+// Usage counters for the admin dashboard, per UTC day:
+//   stats:{day}:requests    hash  route -> requests that reached the handler
+//   stats:{day}:glazes      hash  route -> glazes generated
+//   stats:{day}:errors      hash  "route:category" -> failed requests
+//   stats:{day}:rejections  hash  "route:rate_limit" / "route:token_budget" -> rejected requests
+//   stats:{day}:handles     zset  lowercase handle -> times glazed
+//   stats:{day}:dropped     hash  "method:field" -> Codeforces entries that failed validation
+// Token totals come from the token budget counters.
+
+export type RejectionKind = 'rate_limit' | 'token_budget'
+
+export interface DailyUsage {
+  day: string
+  requests: Record<string, number>
+  glazes: Record<string, number>
+  errors: Record<string, number>
+  rejections: Record<string, number>
+  dropped: Record<string, number>
+  tokens: Record<string, number>
+}
+
+export interface UsageStats {
+  days: DailyUsage[]
+  topHandles: Array<{ handle: string; count: number }>
+}
+
+const ROUTES: GlazeType[] = ['profile', 'code', 'compare', 'team', 'contest']
+const STATS_TTL_SECONDS = 31 * 24 * 60 * 60
+const TOP_HANDLES = 20
+
+function statsKey(day: string, name: 'requests' | 'glazes' | 'errors' | 'rejections' | 'handles' | 'dropped'): string {
+  return `stats:${day}:${name}`
+}
+
+// Best effort: a broken counter must never fail the request being counted
+async function increment(key: string, field: string, amount = 1): Promise<void> {
+  try {
+    const pipeline = kv.pipeline()
+    pipeline.hincrby(key, field, amount)
+    pipeline.expire(key, STATS_TTL_SECONDS)
+    await pipeline.exec()
+  } catch (error) {
+    // KV unavailable - drop the sample
+  }
+}
+
+// Error categories shown on the dashboard: `codeforces:<kind>`, `llm` or `internal`
+export function classifyError(error: unknown): string {
+  if (error instanceof CodeforcesError) {
+    return `codeforces:${error.kind}`
+  }
+  if (error instanceof OpenAI.APIError) {
+    return 'llm'
+  }
+  return 'internal'
+}
+
+export async function recordRequest(route: GlazeType): Promise<void> {
+  await increment(statsKey(getBudgetDay(), 'requests'), route)
+}
+
+export async function recordGlaze(route: GlazeType, handles: string[] = []): Promise<void> {
+  const day = getBudgetDay()
+  await increment(statsKey(day, 'glazes'), route)
+
+  if (handles.length === 0) return
+
+  try {
+    const key = statsKey(day, 'handles')
+    const pipeline = kv.pipeline()
+    for (const handle of handles) {
+      pipeline.zincrby(key, 1, handle.toLowerCase())
+    }
+    pipeline.expire(key, STATS_TTL_SECONDS)
+    await pipeline.exec()
+  } catch (error) {
+    // KV unavailable - drop the sample
+  }
+}
+
+export async function recordError(route: GlazeType, error: unknown): Promise<void> {
+  await increment(statsKey(getBudgetDay(), 'errors'), `${route}:${classifyError(error)}`)
+}
+
+export async function recordRejection(route: GlazeType, kind: RejectionKind): Promise<void> {
+  await increment(statsKey(getBudgetDay(), 'rejections'), `${route}:${kind}`)
+}
+
+// Count Codeforces entries dropped by validation, grouped by API method and the
+// failing field with entry indices removed: `[3].problem.tags[1]` -> `problem.tags[]`
+export async function recordDroppedEntries(method: string, issues: ValidationIssue[]): Promise<void> {
+  const counts = new Map<string, number>()
+  for (const issue of issues) {
+    const path = issue.path.replace(/^\[\d+\]\.?/, '').replace(/\[\d+\]/g, '[]') || '(entry)'
+    const field = `${method}:${path}`
+    counts.set(field, (counts.get(field) || 0) + 1)
+  }
+
+  const key = statsKey(getBudgetDay(), 'dropped')
+  for (const [field, count] of Array.from(counts)) {
+    await increment(key, field, count)
+  }
+}
+
+function toCounts(value: unknown): Record<string, number> {
+  const counts: Record<string, number> = {}
+  if (value && typeof value === 'object') {
+    for (const [field, count] of Object.entries(value)) {
+      counts[field] = Number(count) || 0
+    }
+  }
+  return counts
+}
+
+// Read the last `dayCount` days, newest first
+export async function getUsageStats(dayCount: number): Promise<UsageStats> {
+  const now = Date.now()
+  const dayList = Array.from({ length: dayCount }, (_, index) => getBudgetDay(now - index * 24 * 60 * 60 * 1000))
+
+  const pipeline = kv.pipeline()
+  for (const day of dayList) {
+    pipeline.hgetall(statsKey(day, 'requests'))
+    pipeline.hgetall(statsKey(day, 'glazes'))
+    pipeline.hgetall(statsKey(day, 'errors'))
+    pipeline.hgetall(statsKey(day, 'rejections'))
+    pipeline.hgetall(statsKey(day, 'dropped'))
+    pipeline.mget(tokenKey(day, 'global'), ...ROUTES.map(route => tokenKey(day, 'route', route)))
+    pipeline.zrange(statsKey(day, 'handles'), 0, TOP_HANDLES * 5 - 1, { rev: true, withScores: true })
+  }
+  const results = await pipeline.exec()
+
+  const handleCounts = new Map<string, number>()
+  const days = dayList.map((day, index) => {
+    const [requests, glazes, errors, rejections, dropped, tokenValues, handles] = results.slice(index * 7, index * 7 + 7)
+
+    const tokenCounts = Array.isArray(tokenValues) ? tokenValues : []
+    const tokens: Record<string, number> = { total: Number(tokenCounts[0]) || 0 }
+    ROUTES.forEach((route, routeIndex) => {
+      tokens[route] = Number(tokenCounts[routeIndex + 1]) || 0
+    })
+
+    // zrange with scores returns [member, score, member, score, ...]
+    const handleList = Array.isArray(handles) ? handles : []
+    for (let i = 0; i + 1 < handleList.length; i += 2) {
+      const handle = String(handleList[i])
+      handleCounts.set(handle, (handleCounts.get(handle) || 0) + (Number(handleList[i + 1]) || 0))
+    }
+
+    return {
+      day,
+      requests: toCounts(requests),
+      glazes: toCounts(glazes),
+      errors: toCounts(errors),
+      rejections: toCounts(rejections),
+      dropped: toCounts(dropped),
+      tokens,
+    }
+  })
+
+  const topHandles = Array.from(handleCounts.entries())
+    .map(([handle, count]) => ({ handle, count }))
+    .sort((a, b) => b.count - a.count || a.handle.localeCompare(b.handle))
+    .slice(0, TOP_HANDLES)
+
+  return { days, topHandles }
+}
@@ -0,0 +1,239 @@
+import { Submission } from './types'
+
+// Verdict and failure-mode breakdown over a user's submissions
+
+export type VerdictCategory =
+  | 'accepted'
+  | 'wrong_answer'
+  | 'time_limit'
+  | 'memory_limit'
+  | 'runtime_error'
+  | 'compilation_error'
+  | 'hacked'
+  | 'skipped'
+  | 'other'         // idleness limit, presentation error, crashed judge, ...
+
+// Pretests run during the round, system tests after it (and for every
+// upsolve); samples and hack tests are `other`
+export type TestsetGroup = 'pretests' | 'systemTests' | 'other'
+
+export type VerdictCounts = Record<VerdictCategory, number>
+
+export interface SubmissionRecord {
+  submissionId: number
+  // Contest id and index, e.g. "2049D"
+  problem: string
+  problemName: string
+  timeMillis: number
+  memoryBytes: number
+}
+
+export interface VerdictBreakdown {
+  // Judged submissions; ones still in the queue are only counted as pending
+  judged: number
+  pending: number
+  verdicts: VerdictCounts
+  byTestset: Record<TestsetGroup, VerdictCounts>
+  // Problems whose first judged attempt was accepted, out of all attempted problems
+  firstTryAccepted: number
+  attemptedProblems: number
+  firstTryRate: number
+  // Problems accepted after at least one failed attempt
+  comebacks: number
+  mostAttemptsBeforeAccepted: { problem: string; problemName: string; attempts: number } | null
+  // Runtime and memory records among accepted submissions. user.status doesn't
+  // carry the time limit, so the slowest AC stands in for the closest call.
+  fastestAccepted: SubmissionRecord | null
+  slowestAccepted: SubmissionRecord | null
+  heaviestAccepted: SubmissionRecord | null
+}
+
+const CATEGORY_BY_VERDICT: Record<string, VerdictCategory> = {
+  OK: 'accepted',
+  WRONG_ANSWER: 'wrong_answer',
+  TIME_LIMIT_EXCEEDED: 'time_limit',
+  MEMORY_LIMIT_EXCEEDED: 'memory_limit',
+  RUNTIME_ERROR: 'runtime_error',
+  COMPILATION_ERROR: 'compilation_error',
+  CHALLENGED: 'hacked',
+  SKIPPED: 'skipped',
+}
+
+const CATEGORY_LABELS: Record<VerdictCategory, string> = {
+  accepted: 'Accepted',
+  wrong_answer: 'Wrong Answer',
+  time_limit: 'Time Limit Exceeded',
+  memory_limit: 'Memory Limit Exceeded',
+  runtime_error: 'Runtime Error',
+  compilation_error: 'Compilation Error',
+  hacked: 'Hacked',
+  skipped: 'Skipped',
+  other: 'Other',
+}
+
+function emptyCounts(): VerdictCounts {
+  return {
+    accepted: 0,
+    wrong_answer: 0,
+    time_limit: 0,
+    memory_limit: 0,
+    runtime_error: 0,
+    compilation_error: 0,
+    hacked: 0,
+    skipped: 0,
+    other: 0,
+  }
+}
+
+export function getVerdictCategory(verdict: string): VerdictCategory {
+  return CATEGORY_BY_VERDICT[verdict] || 'other'
+}
+
+export function getTestsetGroup(testset: string): TestsetGroup {
+  if (testset === 'PRETESTS') return 'pretests'
+  // Some contests judge on several test sets: TESTS1, TESTS2, ...
+  if (/^TESTS\d*$/.test(testset)) return 'systemTests'
+  return 'other'
+}
+
+function isPending(sub: Submission): boolean {
+  return !sub.verdict || sub.verdict === 'TESTING'
+}
+
+function toRecord(sub: Submission): SubmissionRecord {
+  return {
+    submissionId: sub.id,
+    problem: `${sub.problem.contestId || ''}${sub.problem.index}`,
+    problemName: sub.problem.name,
+    timeMillis: sub.timeConsumedMillis,
+    memoryBytes: sub.memoryConsumedBytes,
+  }
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+export function calculateVerdictBreakdown(submissions: Submission[]): VerdictBreakdown {
+  const verdicts = emptyCounts()
+  const byTestset: Record<TestsetGroup, VerdictCounts> = {
+    pretests: emptyCounts(),
+    systemTests: emptyCounts(),
+    other: emptyCounts(),
+  }
+  let pending = 0
+  let fastestAccepted: Submission | null = null
+  let slowestAccepted: Submission | null = null
+  let heaviestAccepted: Submission | null = null
+  // Judged attempts per problem; compilation errors aren't attempts, as on Codeforces
+  const attempts = new Map<string, Submission[]>()
+
+  submissions.forEach(sub => {
+    if (isPending(sub)) {
+      pending++
+      return
+    }
+
+    const category = getVerdictCategory(sub.verdict as string)
+    verdicts[category]++
+    byTestset[getTestsetGroup(sub.testset)][category]++
+
+    if (category === 'accepted') {
+      if (!fastestAccepted || sub.timeConsumedMillis < fastestAccepted.timeConsumedMillis) fastestAccepted = sub
+      if (!slowestAccepted || sub.timeConsumedMillis > slowestAccepted.timeConsumedMillis) slowestAccepted = sub
+      if (!heaviestAccepted || sub.memoryConsumedBytes > heaviestAccepted.memoryConsumedBytes) heaviestAccepted = sub
+    }
+
+    if (category !== 'compilation_error') {
+      const problemKey = `${sub.problem.contestId || 'gym'}-${sub.problem.index}`
+      const list = attempts.get(problemKey) || []
+      list.push(sub)
+      attempts.set(problemKey, list)
+    }
+  })
+
+  let firstTryAccepted = 0
+  let comebacks = 0
+  let mostAttemptsBeforeAccepted: VerdictBreakdown['mostAttemptsBeforeAccepted'] = null
+
+  attempts.forEach(list => {
+    const ordered = list.slice().sort((a, b) => a.creationTimeSeconds - b.creationTimeSeconds || a.id - b.id)
+    const firstAccepted = ordered.findIndex(sub => sub.verdict === 'OK')
+    if (firstAccepted === 0) {
+      firstTryAccepted++
+    } else if (firstAccepted > 0) {
+      comebacks++
+      if (!mostAttemptsBeforeAccepted || firstAccepted > mostAttemptsBeforeAccepted.attempts) {
+        const { problem, problemName } = toRecord(ordered[firstAccepted])
+        mostAttemptsBeforeAccepted = { problem, problemName, attempts: firstAccepted }
+      }
+    }
+  })
+
+  return {
+    judged: submissions.length - pending,
+    pending,
+    verdicts,
+    byTestset,
+    firstTryAccepted,
+    attemptedProblems: attempts.size,
+    firstTryRate: attempts.size > 0 ? round1(firstTryAccepted / attempts.size * 100) : 0,
+    comebacks,
+    mostAttemptsBeforeAccepted,
+    fastestAccepted: fastestAccepted ? toRecord(fastestAccepted) : null,
+    slowestAccepted: slowestAccepted ? toRecord(slowestAccepted) : null,
+    heaviestAccepted: heaviestAccepted ? toRecord(heaviestAccepted) : null,
+  }
+}
+
+function formatMemory(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${round1(bytes / (1024 * 1024))} MB` : `${Math.round(bytes / 1024)} KB`
+}
+
+function formatRecord(record: SubmissionRecord): string {
+  return `${record.problem} ${record.problemName}: ${record.timeMillis} ms, ${formatMemory(record.memoryBytes)}`
+}
+
+export function formatVerdictBreakdown(breakdown: VerdictBreakdown): string {
+  if (breakdown.judged === 0) return "No judged submissions yet"
+
+  const categories = Object.keys(breakdown.verdicts) as VerdictCategory[]
+
+  let text = `Verdict Breakdown (${breakdown.judged} judged submissions):\n`
+  categories
+    .filter(category => breakdown.verdicts[category] > 0)
+    .forEach(category => {
+      const count = breakdown.verdicts[category]
+      text += `- ${CATEGORY_LABELS[category]}: ${count} (${round1(count / breakdown.judged * 100)}%)\n`
+    })
+
+  const testsetLines: [TestsetGroup, string][] = [['pretests', 'Pretests'], ['systemTests', 'System Tests']]
+  testsetLines.forEach(([group, label]) => {
+    const counts = breakdown.byTestset[group]
+    const total = categories.reduce((sum, category) => sum + counts[category], 0)
+    if (total > 0) {
+      text += `- ${label}: ${counts.accepted} of ${total} submissions passed\n`
+    }
+  })
+
+  text += `- Accepted on the First Try: ${breakdown.firstTryAccepted} of ${breakdown.attemptedProblems} problems (${breakdown.firstTryRate}%)\n`
+  if (breakdown.comebacks > 0) {
+    text += `- Solved After Failing First: ${breakdown.comebacks} problems\n`
+  }
+  if (breakdown.mostAttemptsBeforeAccepted) {
+    const { problem, problemName, attempts } = breakdown.mostAttemptsBeforeAccepted
+    text += `- Most Stubborn Solve: ${problem} ${problemName}, accepted after ${attempts} failed attempts\n`
+  }
+
+  if (breakdown.fastestAccepted) {
+    text += `- Fastest Accepted Run: ${formatRecord(breakdown.fastestAccepted)}\n`
+  }
+  if (breakdown.slowestAccepted && breakdown.slowestAccepted.submissionId !== breakdown.fastestAccepted?.submissionId) {
+    text += `- Slowest Accepted Run (closest to the time limit): ${formatRecord(breakdown.slowestAccepted)}\n`
+  }
+  if (breakdown.heaviestAccepted) {
+    text += `- Most Memory in an Accepted Run: ${formatRecord(breakdown.heaviestAccepted)}\n`
+  }
+
+  return text
+}
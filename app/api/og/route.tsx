@@ -0,0 +1,214 @@
+import { readFile } from 'fs/promises'
+import { join } from 'path'
+import { NextRequest, NextResponse } from 'next/server'
+import { ImageResponse } from 'next/og'
+import { getGlaze, isValidGlazeId } from '../lib/glaze-store'
+import { parseHandle } from '../lib/request-body'
+import { DEFAULT_CARD, ShareCard, buildGlazeCard, buildHandleCard } from '../lib/share-card'
+import { getCachedSubmissions } from '../lib/submission-cache'
+import fontManifest from './fonts/fonts.json'
+
+const WIDTH = 1200
+const HEIGHT = 630
+const HISTOGRAM_HEIGHT = 140
+
+// Handle cards follow the cached history; stored glazes never change
+const HANDLE_CACHE_CONTROL = 'public, max-age=3600, s-maxage=3600'
+
+// next/og only bundles a Latin font and fetches any other glyphs from Google
+// Fonts. Glazes can be in Russian, Chinese or Portuguese, so the card is drawn
+// with Noto subsets shipped in ./fonts (Latin, Cyrillic and the ~3,800 most
+// common Chinese characters), and anything they don't cover is left off the
+// card. No font request ever leaves the process.
+const FONT_DIR = join(process.cwd(), 'app/api/og/fonts')
+
+type CardFont = NonNullable<NonNullable<ConstructorParameters<typeof ImageResponse>[1]>['fonts']>[number]
+
+interface FontFile {
+  file: string
+  name: string
+  weight: CardFont['weight']
+  ranges: Array<[number, number]>
+}
+
+// "U+0000-00FF,U+0131" -> [[0x0, 0xff], [0x131, 0x131]]
+function parseUnicodeRange(range: string): Array<[number, number]> {
+  return range.split(',').map(part => {
+    const [start, end = start] = part.trim().replace(/^U\+/, '').split('-')
+    return [parseInt(start, 16), parseInt(end, 16)] as [number, number]
+  })
+}
+
+const FONT_FILES: FontFile[] = fontManifest.map(font => ({
+  file: font.file,
+  name: font.name,
+  weight: font.weight as CardFont['weight'],
+  ranges: parseUnicodeRange(font.unicodeRange),
+}))
+
+const fontData = new Map<string, Promise<Buffer>>()
+
+function readFont(file: string): Promise<Buffer> {
+  let data = fontData.get(file)
+  if (!data) {
+    data = readFile(join(FONT_DIR, file))
+    // Don't remember a failed read
+    data.catch(() => fontData.delete(file))
+    fontData.set(file, data)
+  }
+  return data
+}
+
+function covers(font: FontFile, codePoint: number): boolean {
+  return font.ranges.some(([start, end]) => codePoint >= start && codePoint <= end)
+}
+
+// Drops characters none of the shipped fonts can draw
+function toDrawableText(text: string): string {
+  return Array.from(text)
+    .filter(char => /\s/.test(char) || FONT_FILES.some(font => covers(font, char.codePointAt(0) as number)))
+    .join('')
+}
+
+function toDrawableCard(card: ShareCard): ShareCard {
+  return {
+    ...card,
+    title: toDrawableText(card.title),
+    subtitle: card.subtitle && toDrawableText(card.subtitle),
+    excerpt: card.excerpt && toDrawableText(card.excerpt),
+  }
+}
+
+// The subsets holding at least one character of the card text
+async function loadCardFonts(card: ShareCard): Promise<CardFont[]> {
+  const codePoints = Array.from([card.title, card.subtitle, card.excerpt, 'Codeforces Glazer'].join(' '))
+    .map(char => char.codePointAt(0) as number)
+  const used = FONT_FILES.filter(font => codePoints.some(codePoint => covers(font, codePoint)))
+
+  return Promise.all(used.map(async font => ({
+    name: font.name,
+    data: await readFont(font.file),
+    weight: font.weight,
+    style: 'normal' as const,
+  })))
+}
+
+async function renderCard(drawn: ShareCard, cacheControl?: string): Promise<ImageResponse> {
+  const card = toDrawableCard(drawn)
+  const fonts = await loadCardFonts(card)
+  const maxCount = Math.max(1, ...card.bars.map(bar => bar.count))
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: 64,
+          backgroundColor: '#0b0f14',
+          color: '#e6e8eb',
+          fontSize: 28,
+          fontFamily: "'Noto Sans'",
+        }}
+      >
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          <div style={{ display: 'flex', fontSize: 72, fontWeight: 700, color: card.titleColor }}>
+            {card.title}
+          </div>
+          {card.subtitle && (
+            <div style={{ display: 'flex', marginTop: 8, fontSize: 32, color: '#9aa4b2' }}>
+              {card.subtitle}
+            </div>
+          )}
+          {card.excerpt && (
+            <div
+              style={{
+                display: 'flex',
+                marginTop: 32,
+                paddingLeft: 24,
+                borderLeft: '6px solid #fbbf24',
+                lineHeight: 1.4,
+              }}
+            >
+              {card.excerpt}
+            </div>
+          )}
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'flex-end', justifyContent: 'space-between' }}>
+          {card.bars.length > 0 ? (
+            <div style={{ display: 'flex', alignItems: 'flex-end', height: HISTOGRAM_HEIGHT }}>
+              {card.bars.map(bar => (
+                <div
+                  key={bar.range}
+                  style={{
+                    width: 28,
+                    marginRight: 6,
+                    height: Math.max(4, Math.round((bar.count / maxCount) * HISTOGRAM_HEIGHT)),
+                    backgroundColor: bar.color,
+                    borderRadius: 4,
+                  }}
+                />
+              ))}
+            </div>
+          ) : (
+            <div style={{ display: 'flex' }} />
+          )}
+          <div style={{ display: 'flex', fontSize: 28, color: '#67e8f9' }}>
+            Codeforces Glazer
+          </div>
+        </div>
+      </div>
+    ),
+    {
+      width: WIDTH,
+      height: HEIGHT,
+      fonts,
+      headers: cacheControl ? { 'cache-control': cacheControl } : undefined,
+    }
+  )
+}
+
+// GET /api/og?id=<glaze id> or /api/og?handle=<handle>; no params renders the
+// site card. Handle cards are drawn from the submission cache only, so this
+// endpoint never reaches Codeforces; an uncached handle gets the site card.
+export async function GET(request: NextRequest) {
+  const id = request.nextUrl.searchParams.get('id')
+  const handle = request.nextUrl.searchParams.get('handle')
+
+  try {
+    if (id) {
+      if (!isValidGlazeId(id)) {
+        return NextResponse.json({ error: 'Invalid glaze id' }, { status: 400 })
+      }
+
+      const glaze = await getGlaze(id)
+      if (!glaze) {
+        return NextResponse.json({ error: 'Glaze not found or expired' }, { status: 404 })
+      }
+      return await renderCard(buildGlazeCard(glaze))
+    }
+
+    if (handle) {
+      const trimmedHandle = parseHandle(handle)
+      if (trimmedHandle instanceof NextResponse) {
+        return trimmedHandle
+      }
+
+      const submissions = await getCachedSubmissions(trimmedHandle)
+      return submissions
+        ? await renderCard(buildHandleCard(trimmedHandle, submissions), HANDLE_CACHE_CONTROL)
+        : await renderCard(DEFAULT_CARD)
+    }
+
+    return await renderCard(DEFAULT_CARD)
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
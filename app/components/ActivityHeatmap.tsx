@@ -0,0 +1,134 @@
+'use client'
+
+import type { ActivityStats } from '../api/lib/activity'
+import { formatHour } from '../lib/hours'
+import { useI18n } from './I18nProvider'
+
+interface Props {
+  stats: ActivityStats
+}
+
+const CELL = 11
+const GAP = 2
+const LEFT = 28
+const TOP = 14
+const DAY_MS = 24 * 60 * 60 * 1000
+// Rows labelled on the left, by their offset from Sunday
+const LABELLED_ROWS = [1, 3, 5]
+// A Sunday, to name the weekdays from
+const SUNDAY_MS = Date.parse('2023-01-01')
+
+// Empty day first, then increasing activity
+const LEVEL_COLORS = ['#1f2937', '#78350f', '#b45309', '#f59e0b', '#fcd34d']
+
+function level(count: number, max: number): number {
+  if (count === 0) return 0
+  return Math.min(4, Math.ceil((count / max) * 4))
+}
+
+export default function ActivityHeatmap({ stats }: Props) {
+  const { language, t } = useI18n()
+  const { heatmap } = stats
+  if (stats.activeDays === 0) return null
+
+  // Dates are local calendar days already, so lay them out in UTC
+  const startMs = Date.parse(heatmap.start)
+  const endMs = Date.parse(heatmap.end)
+  // Columns are weeks starting on Sunday, like GitHub
+  const firstColumnMs = startMs - new Date(startMs).getUTCDay() * DAY_MS
+  const maxCount = Math.max(1, ...Object.values(heatmap.days))
+
+  const cells: JSX.Element[] = []
+  const monthLabels: JSX.Element[] = []
+  let lastMonth = -1
+
+  for (let ms = startMs; ms <= endMs; ms += DAY_MS) {
+    const date = new Date(ms)
+    const key = date.toISOString().slice(0, 10)
+    const count = heatmap.days[key] || 0
+    const column = Math.floor((ms - firstColumnMs) / (7 * DAY_MS))
+    const row = date.getUTCDay()
+
+    cells.push(
+      <rect
+        key={key}
+        x={LEFT + column * (CELL + GAP)}
+        y={TOP + row * (CELL + GAP)}
+        width={CELL}
+        height={CELL}
+        rx={2}
+        fill={LEVEL_COLORS[level(count, maxCount)]}
+      >
+        <title>{t('activity.submissionsOnDay', { count, date: key })}</title>
+      </rect>
+    )
+
+    // Label a month in the first week column that starts inside it
+    if (row === 0 && date.getUTCMonth() !== lastMonth) {
+      lastMonth = date.getUTCMonth()
+      monthLabels.push(
+        <text key={`month-${key}`} x={LEFT + column * (CELL + GAP)} y={TOP - 4} fontSize={9} fill="#9ca3af">
+          {date.toLocaleDateString(language, { month: 'short', timeZone: 'UTC' })}
+        </text>
+      )
+    }
+  }
+
+  const columns = Math.floor((endMs - firstColumnMs) / (7 * DAY_MS)) + 1
+  const width = LEFT + columns * (CELL + GAP)
+  const height = TOP + 7 * (CELL + GAP)
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-dark-border bg-dark-bg">
+      <h3 className="text-sm font-semibold text-dark-textSecondary mb-2">{t('activity.title')}</h3>
+      <div className="overflow-x-auto">
+        <svg viewBox={`0 0 ${width} ${height}`} className="min-w-[600px] w-full h-auto" role="img" aria-label={t('activity.ariaLabel')}>
+          {monthLabels}
+          {LABELLED_ROWS.map(row => (
+            <text key={`day-${row}`} x={0} y={TOP + row * (CELL + GAP) + CELL - 2} fontSize={9} fill="#9ca3af">
+              {new Date(SUNDAY_MS + row * DAY_MS).toLocaleDateString(language, { weekday: 'short', timeZone: 'UTC' })}
+            </text>
+          ))}
+          {cells}
+        </svg>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mt-4 text-sm">
+        <div className="text-dark-textSecondary">
+          {t('activity.longestStreak')}{' '}
+          <span className="text-dark-text font-semibold">
+            {t('activity.days', { count: stats.longestStreak ? stats.longestStreak.days : 0 })}
+          </span>
+        </div>
+        <div className="text-dark-textSecondary">
+          {t('activity.currentStreak')}{' '}
+          <span className="text-dark-text font-semibold">
+            {t('activity.days', { count: stats.currentStreak ? stats.currentStreak.days : 0 })}
+          </span>
+        </div>
+        {stats.mostProductiveDay && (
+          <div className="text-dark-textSecondary">
+            {t('activity.bestDay')}{' '}
+            <span className="text-dark-text font-semibold">{t('activity.solved', { count: stats.mostProductiveDay.solved })}</span> ({stats.mostProductiveDay.date})
+          </div>
+        )}
+        {stats.mostProductiveMonth && (
+          <div className="text-dark-textSecondary">
+            {t('activity.bestMonth')}{' '}
+            <span className="text-dark-text font-semibold">{t('activity.solved', { count: stats.mostProductiveMonth.solved })}</span> ({stats.mostProductiveMonth.month})
+          </div>
+        )}
+        {stats.peakHour !== null && (
+          <div className="text-dark-textSecondary">
+            {t('activity.busiestHour')} <span className="text-dark-text font-semibold">{formatHour(stats.peakHour)}</span>
+          </div>
+        )}
+        {stats.yearsActive !== null && (
+          <div className="text-dark-textSecondary">
+            {t('activity.yearsActive')} <span className="text-dark-text font-semibold">{stats.yearsActive}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+import type { CodeAnnotation } from '../api/lib/code-review'
+
+interface Props {
+  code: string
+  annotations: CodeAnnotation[]
+}
+
+function formatRange({ startLine, endLine }: CodeAnnotation): string {
+  return startLine === endLine ? `L${startLine}` : `L${startLine}-${endLine}`
+}
+
+// The uploaded code with annotated lines highlighted and each comment shown
+// beside the first line it refers to
+export default function AnnotatedCode({ code, annotations }: Props) {
+  const lines = code.split(/\r?\n/)
+  const highlighted = new Set<number>()
+  const commentsByLine = new Map<number, CodeAnnotation[]>()
+
+  for (const annotation of annotations) {
+    for (let line = annotation.startLine; line <= annotation.endLine; line++) {
+      highlighted.add(line)
+    }
+    commentsByLine.set(annotation.startLine, [...(commentsByLine.get(annotation.startLine) || []), annotation])
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-lg border border-dark-border bg-dark-bg">
+      <table className="w-full text-sm border-collapse">
+        <tbody>
+          {lines.map((line, index) => {
+            const lineNumber = index + 1
+            const isHighlighted = highlighted.has(lineNumber)
+            const comments = commentsByLine.get(lineNumber)
+
+            return (
+              <tr key={lineNumber} className={isHighlighted ? 'bg-emerald-900/30' : undefined}>
+                <td className="px-3 text-right align-top text-dark-textSecondary select-none font-mono">
+                  {lineNumber}
+                </td>
+                <td className={`pr-4 align-top font-mono whitespace-pre text-dark-text ${isHighlighted ? 'border-l-2 border-emerald-400' : 'border-l-2 border-transparent'}`}>
+                  {line || ' '}
+                </td>
+                <td className="w-72 min-w-[18rem] px-3 align-top">
+                  {comments && comments.map(annotation => (
+                    <div
+                      key={`${annotation.startLine}-${annotation.endLine}`}
+                      className="my-1 p-2 rounded-md border border-emerald-700 bg-emerald-900/40 text-emerald-100 whitespace-normal"
+                    >
+                      <span className="mr-1 text-xs font-semibold text-emerald-300">{formatRange(annotation)}</span>
+                      {annotation.comment}
+                    </div>
+                  ))}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+import Image from 'next/image'
+
+interface Props {
+  src: string
+  // Rendered width and height in pixels
+  size: number
+  alt?: string
+  className?: string
+}
+
+// Codeforces sometimes returns protocol-relative avatar URLs
+function toAbsoluteUrl(src: string): string {
+  return src.startsWith('//') ? `https:${src}` : src
+}
+
+// Codeforces avatar, served through next/image. The allowed hosts are listed
+// under `images.remotePatterns` in next.config.js.
+export default function Avatar({ src, size, alt = '', className = '' }: Props) {
+  return (
+    <Image
+      src={toAbsoluteUrl(src)}
+      alt={alt}
+      width={size}
+      height={size}
+      className={`rounded-full object-cover ring-2 ring-cyan-300/30 ${className}`}
+    />
+  )
+}
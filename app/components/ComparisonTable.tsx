@@ -0,0 +1,92 @@
+'use client'
+
+import type { Comparison } from '../api/lib/compare'
+import { MessageKey } from '../lib/i18n/messages/en'
+import { useI18n } from './I18nProvider'
+
+interface Props {
+  comparison: Comparison
+}
+
+// Metric keys from compare.ts; unknown metrics keep their English label
+const METRIC_LABELS: Partial<Record<string, MessageKey>> = {
+  rating: 'compareTable.rating',
+  maxRating: 'compareTable.maxRating',
+  uniqueProblemsSolved: 'compareTable.uniqueProblemsSolved',
+  acceptanceRate: 'compareTable.acceptanceRate',
+  totalSubmissions: 'compareTable.totalSubmissions',
+  contribution: 'compareTable.contribution',
+}
+
+export default function ComparisonTable({ comparison }: Props) {
+  const { t } = useI18n()
+  const { handles } = comparison
+
+  return (
+    <div className="overflow-x-auto rounded-lg border border-dark-border bg-dark-bg">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-dark-border">
+            <th className="px-3 py-2 text-left text-dark-textSecondary font-medium">{t('compareTable.stat')}</th>
+            {handles.map(handle => (
+              <th key={handle} className="px-3 py-2 text-right text-dark-text font-semibold">{handle}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {comparison.metrics.map(metric => {
+            const labelKey = METRIC_LABELS[metric.key]
+            return (
+              <tr key={metric.key} className="border-b border-dark-border/50">
+                <td className="px-3 py-2 text-dark-textSecondary">{labelKey ? t(labelKey) : metric.label}</td>
+                {metric.values.map((value, index) => (
+                  <td
+                    key={handles[index]}
+                    className={`px-3 py-2 text-right ${metric.leader === handles[index]
+                      ? 'text-cyan-300 font-semibold'
+                      : 'text-dark-text'}`}
+                  >
+                    {value ?? '—'}
+                  </td>
+                ))}
+              </tr>
+            )
+          })}
+
+          {comparison.buckets.length > 0 && (
+            <tr>
+              <td colSpan={handles.length + 1} className="px-3 pt-4 pb-1 text-xs uppercase tracking-wide text-dark-textSecondary">
+                {t('compareTable.solvedByRating')}
+              </td>
+            </tr>
+          )}
+          {comparison.buckets.map(bucket => {
+            const best = Math.max(...bucket.counts)
+            return (
+              <tr key={bucket.range} className="border-b border-dark-border/50">
+                <td className="px-3 py-1 text-dark-textSecondary">{bucket.range}</td>
+                {bucket.counts.map((count, index) => (
+                  <td
+                    key={handles[index]}
+                    className={`px-3 py-1 text-right ${count === best && count > 0
+                      ? 'text-cyan-300 font-semibold'
+                      : 'text-dark-text'}`}
+                  >
+                    {count}
+                  </td>
+                ))}
+              </tr>
+            )
+          })}
+
+          <tr>
+            <td className="px-3 py-2 text-dark-textSecondary">{t('compareTable.solvedByEveryone')}</td>
+            <td colSpan={handles.length} className="px-3 py-2 text-right text-dark-text font-semibold">
+              {comparison.sharedSolved.count}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  )
+}
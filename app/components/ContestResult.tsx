@@ -0,0 +1,99 @@
+'use client'
+
+import type { ContestPerformance } from '../api/lib/contest'
+import { formatContestTime } from '../lib/contest-time'
+import { MessageKey } from '../lib/i18n/messages/en'
+import { useI18n } from './I18nProvider'
+
+interface Props {
+  performance: ContestPerformance
+}
+
+const RATING_STATUS_LABELS: Record<ContestPerformance['ratingStatus'], MessageKey> = {
+  rated: 'contestResult.rated',
+  unrated: 'contestResult.unrated',
+  pending: 'contestResult.pending',
+  unofficial: 'contestResult.unofficial',
+  gym: 'contestResult.gym',
+}
+
+// Headline numbers for one contest, then the problem list with solve times.
+// The fastest solves are highlighted.
+export default function ContestResult({ performance }: Props) {
+  const { t } = useI18n()
+  const { contest, ratingChange } = performance
+  const fastest = new Set(performance.fastestSolves.map(problem => problem.index))
+
+  return (
+    <div className="rounded-lg border border-dark-border bg-dark-bg p-4">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-3">
+        <h3 className="text-lg font-bold text-dark-text">{contest.name}</h3>
+        <span className="text-xs text-dark-textSecondary capitalize">
+          {performance.participantType.toLowerCase().replace(/_/g, ' ')} · {contest.type}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4 text-center">
+        <div>
+          <div className="text-xs uppercase tracking-wide text-dark-textSecondary">{t('contestResult.rank')}</div>
+          <div className="text-lg font-semibold text-dark-text">{performance.rank ?? '—'}</div>
+        </div>
+        <div>
+          <div className="text-xs uppercase tracking-wide text-dark-textSecondary">{t('contestResult.solved')}</div>
+          <div className="text-lg font-semibold text-dark-text">
+            {performance.solvedCount}/{performance.problems.length}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs uppercase tracking-wide text-dark-textSecondary">
+            {t(performance.penalty > 0 ? 'contestResult.penalty' : 'contestResult.points')}
+          </div>
+          <div className="text-lg font-semibold text-dark-text">
+            {performance.penalty > 0 ? performance.penalty : performance.points}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs uppercase tracking-wide text-dark-textSecondary">
+            {t(RATING_STATUS_LABELS[performance.ratingStatus])}
+          </div>
+          {ratingChange ? (
+            <div className={`text-lg font-semibold ${ratingChange.delta >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+              {ratingChange.delta >= 0 ? '+' : ''}{ratingChange.delta}
+            </div>
+          ) : (
+            <div className="text-lg font-semibold text-dark-textSecondary">—</div>
+          )}
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <tbody>
+          {performance.problems.map(problem => (
+            <tr
+              key={problem.index}
+              className={`border-t border-dark-border/50 ${fastest.has(problem.index) ? 'bg-emerald-900/30' : ''}`}
+            >
+              <td className="px-2 py-1 font-semibold text-dark-text">{problem.index}</td>
+              <td className="px-2 py-1 text-dark-text">
+                {problem.name}
+                {fastest.has(problem.index) && (
+                  <span className="ml-2 text-xs font-semibold px-2 py-0.5 rounded-full bg-emerald-400/20 text-emerald-300">
+                    {t('contestResult.fast')}
+                  </span>
+                )}
+              </td>
+              <td className={`px-2 py-1 text-right ${problem.solved ? 'text-emerald-400' : 'text-dark-textSecondary'}`}>
+                {problem.solved
+                  ? problem.timeSeconds !== null ? formatContestTime(problem.timeSeconds) : t('contestResult.solvedUntimed')
+                  : '—'}
+              </td>
+              <td className="px-2 py-1 text-right text-red-400">
+                {problem.wrongAttempts > 0 ? `-${problem.wrongAttempts}` : ''}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
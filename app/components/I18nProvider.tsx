@@ -0,0 +1,52 @@
+'use client'
+
+import { createContext, useCallback, useContext, useState } from 'react'
+import { LANGUAGE_COOKIE, LanguageCode } from '../lib/i18n/languages'
+import { MessageKey } from '../lib/i18n/messages/en'
+import { MessageParams, translate } from '../lib/i18n/translate'
+
+interface I18nContextValue {
+  language: LanguageCode
+  setLanguage: (language: LanguageCode) => void
+  t: (key: MessageKey, params?: MessageParams) => string
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null)
+
+// One year, so the choice survives until the user changes it again
+const COOKIE_MAX_AGE_SECONDS = 365 * 24 * 60 * 60
+
+interface Props {
+  // Picked by the layout from the cookie or Accept-Language
+  initialLanguage: LanguageCode
+  children: React.ReactNode
+}
+
+export default function I18nProvider({ initialLanguage, children }: Props) {
+  const [language, setLanguageState] = useState<LanguageCode>(initialLanguage)
+
+  const setLanguage = useCallback((next: LanguageCode) => {
+    setLanguageState(next)
+    document.cookie = `${LANGUAGE_COOKIE}=${next}; max-age=${COOKIE_MAX_AGE_SECONDS}; path=/; samesite=lax`
+    document.documentElement.lang = next
+  }, [])
+
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) => translate(language, key, params),
+    [language]
+  )
+
+  return (
+    <I18nContext.Provider value={{ language, setLanguage, t }}>
+      {children}
+    </I18nContext.Provider>
+  )
+}
+
+export function useI18n(): I18nContextValue {
+  const context = useContext(I18nContext)
+  if (!context) {
+    throw new Error('useI18n must be used inside I18nProvider')
+  }
+  return context
+}
@@ -0,0 +1,25 @@
+'use client'
+
+import { LANGUAGE_OPTIONS, LanguageCode } from '../lib/i18n/languages'
+import { useI18n } from './I18nProvider'
+
+export default function LanguageSwitcher() {
+  const { language, setLanguage, t } = useI18n()
+
+  return (
+    <label className="inline-flex items-center text-sm text-dark-textSecondary">
+      <span className="mr-2">{t('app.language')}</span>
+      <select
+        value={language}
+        onChange={(e) => setLanguage(e.target.value as LanguageCode)}
+        className="px-3 py-1 bg-dark-bg border border-dark-border rounded-lg focus:ring-2 focus:ring-cyan-300 focus:border-cyan-300 text-white"
+      >
+        {LANGUAGE_OPTIONS.map(option => (
+          <option key={option.code} value={option.code}>
+            {option.nativeName}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
@@ -0,0 +1,38 @@
+'use client'
+
+import { PERSONA_OPTIONS, PersonaId } from '../lib/personas'
+
+interface Props {
+  id: string
+  value: PersonaId
+  onChange: (persona: PersonaId) => void
+  disabled?: boolean
+}
+
+export default function PersonaPicker({ id, value, onChange, disabled }: Props) {
+  const selected = PERSONA_OPTIONS.find(option => option.id === value)
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-dark-textSecondary mb-2">
+        Glazer Persona
+      </label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value as PersonaId)}
+        disabled={disabled}
+        className="w-full px-4 py-3 bg-dark-bg border border-dark-border rounded-lg focus:ring-2 focus:ring-cyan-300 focus:border-cyan-300 transition-all duration-200 text-white"
+      >
+        {PERSONA_OPTIONS.map(option => (
+          <option key={option.id} value={option.id}>
+            {option.name}
+          </option>
+        ))}
+      </select>
+      {selected && (
+        <p className="text-sm text-dark-textSecondary mt-2">{selected.description}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+'use client'
+
+import Avatar from './Avatar'
+import { useI18n } from './I18nProvider'
+
+interface Props {
+  handle: string
+  avatar?: string
+  rating?: number
+  maxRating?: number
+  rank?: string
+}
+
+export default function ProfileHeader({ handle, avatar, rating, maxRating, rank }: Props) {
+  const { t } = useI18n()
+
+  return (
+    <div className="flex items-center mb-6">
+      {avatar && (
+        <Avatar src={avatar} size={64} alt="Avatar" className="w-16 h-16 mr-4" />
+      )}
+      <div>
+        <h2 className="text-2xl font-bold text-dark-text">{handle}</h2>
+        {rating && (
+          <div className="text-lg text-dark-textSecondary">
+            {t('profileHeader.rating')} <span className="font-semibold text-cyan-300">{rating}</span>
+            {maxRating && maxRating !== rating && (
+              <span className="ml-2 text-sm text-dark-textSecondary">{t('profileHeader.maxRating', { rating: maxRating })}</span>
+            )}
+          </div>
+        )}
+        {rank && (
+          <div className="text-sm text-dark-textSecondary capitalize">{rank}</div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { RateLimitInfo, formatCountdown } from '../lib/rate-limit'
+import { useI18n } from './I18nProvider'
+
+interface Props {
+  info: RateLimitInfo | null
+}
+
+export default function RateLimitStatus({ info }: Props) {
+  const { t } = useI18n()
+  const [now, setNow] = useState(Date.now())
+  const retryAt = info?.retryAt ?? null
+
+  // Tick once a second while a countdown is running
+  useEffect(() => {
+    if (!retryAt) return
+    setNow(Date.now())
+    const timer = setInterval(() => {
+      const current = Date.now()
+      setNow(current)
+      if (current >= retryAt) clearInterval(timer)
+    }, 1000)
+    return () => clearInterval(timer)
+  }, [retryAt])
+
+  if (!info) {
+    return null
+  }
+
+  if (retryAt) {
+    // Once the countdown ends the remaining count is stale until the next request
+    return retryAt > now ? (
+      <p className="text-sm text-amber-300 mt-2">
+        {t('common.rateLimitWait', { time: formatCountdown(retryAt - now) })}
+      </p>
+    ) : null
+  }
+
+  return (
+    <p className="text-sm text-dark-textSecondary mt-2">
+      {t('rateLimit.remaining', { remaining: info.remaining, limit: info.limit })}
+    </p>
+  )
+}
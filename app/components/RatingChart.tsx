@@ -0,0 +1,123 @@
+'use client'
+
+import type { RatingHistoryStats } from '../api/lib/rating-history'
+import { RANK_TIERS, getRankColor } from '../lib/ranks'
+import { useI18n } from './I18nProvider'
+
+interface Props {
+  stats: RatingHistoryStats
+}
+
+const WIDTH = 600
+const HEIGHT = 200
+const PADDING = 24
+
+function capitalize(text: string): string {
+  return text.replace(/\b\w/g, letter => letter.toUpperCase())
+}
+
+export default function RatingChart({ stats }: Props) {
+  const { t } = useI18n()
+  const { history } = stats
+  if (history.length === 0) return null
+
+  const ratings = history.map(point => point.rating)
+  const minRating = Math.floor((Math.min(...ratings) - 100) / 100) * 100
+  const maxRating = Math.ceil((Math.max(...ratings) + 100) / 100) * 100
+  const firstTime = history[0].time
+  const lastTime = history[history.length - 1].time
+  const timeSpan = Math.max(lastTime - firstTime, 1)
+
+  const x = (time: number) =>
+    history.length === 1 ? WIDTH / 2 : PADDING + ((time - firstTime) / timeSpan) * (WIDTH - 2 * PADDING)
+  const y = (rating: number) =>
+    HEIGHT - PADDING - ((rating - minRating) / (maxRating - minRating)) * (HEIGHT - 2 * PADDING)
+  const clampY = (rating: number) => Math.min(Math.max(y(rating), PADDING), HEIGHT - PADDING)
+
+  // Background bands in the colour of each rank visible in the chart's range
+  const bands = RANK_TIERS.map((tier, index) => {
+    const next = RANK_TIERS[index + 1]
+    const bandMin = Math.max(tier.minRating, minRating)
+    const bandMax = Math.min(next ? next.minRating : Infinity, maxRating)
+    if (bandMin >= bandMax) return null
+    return (
+      <rect
+        key={tier.name}
+        x={PADDING}
+        width={WIDTH - 2 * PADDING}
+        y={clampY(bandMax)}
+        height={clampY(bandMin) - clampY(bandMax)}
+        fill={tier.color}
+        opacity={0.15}
+      />
+    )
+  })
+
+  const path = history.map(point => `${x(point.time)},${y(point.rating)}`).join(' ')
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-dark-border bg-dark-bg">
+      <h3 className="text-sm font-semibold text-dark-textSecondary mb-2">{t('ratingChart.title')}</h3>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={t('ratingChart.ariaLabel')}>
+        {bands}
+        <polyline points={path} fill="none" stroke="#fbbf24" strokeWidth={2} />
+        {history.map(point => (
+          <circle
+            key={`${point.contestId}-${point.time}`}
+            cx={x(point.time)}
+            cy={y(point.rating)}
+            r={3}
+            fill={getRankColor(point.rating)}
+            stroke="#fff"
+            strokeWidth={0.5}
+          >
+            <title>{t('ratingChart.point', { rating: point.rating, rank: point.rank })}</title>
+          </circle>
+        ))}
+        <text x={4} y={PADDING} fontSize={10} fill="#9ca3af">{maxRating}</text>
+        <text x={4} y={HEIGHT - PADDING} fontSize={10} fill="#9ca3af">{minRating}</text>
+      </svg>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mt-4 text-sm">
+        <div className="text-dark-textSecondary">
+          {t('ratingChart.ratedContests')} <span className="text-dark-text font-semibold">{stats.ratedContests}</span>
+        </div>
+        {stats.biggestGain && (
+          <div className="text-dark-textSecondary">
+            {t('ratingChart.biggestGain')} <span className="text-green-400 font-semibold">+{stats.biggestGain.delta}</span>
+          </div>
+        )}
+        {stats.biggestDrop && (
+          <div className="text-dark-textSecondary">
+            {t('ratingChart.biggestDrop')} <span className="text-red-400 font-semibold">{stats.biggestDrop.delta}</span>
+          </div>
+        )}
+        {stats.bestRank && (
+          <div className="text-dark-textSecondary">
+            {t('ratingChart.bestRank')} <span className="text-dark-text font-semibold">#{stats.bestRank.rank}</span>
+          </div>
+        )}
+        <div className="text-dark-textSecondary">
+          {t('ratingChart.longestStreak')} <span className="text-dark-text font-semibold">{stats.longestPositiveStreak}</span>
+        </div>
+        <div className="text-dark-textSecondary">
+          {t('ratingChart.volatility')} <span className="text-dark-text font-semibold">{stats.volatility}</span>
+        </div>
+      </div>
+
+      {stats.colorMilestones.length > 0 && (
+        <ul className="mt-3 text-xs text-dark-textSecondary space-y-1">
+          {stats.colorMilestones.map(milestone => (
+            <li key={milestone.colorName}>
+              {t('ratingChart.milestone', {
+                rank: capitalize(milestone.rank),
+                contests: milestone.contestsTaken,
+                days: milestone.daysTaken,
+              })}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
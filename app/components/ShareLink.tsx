@@ -0,0 +1,49 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useI18n } from './I18nProvider'
+
+interface Props {
+  permalink: string
+}
+
+export default function ShareLink({ permalink }: Props) {
+  const { t } = useI18n()
+  const [url, setUrl] = useState(permalink)
+  const [copied, setCopied] = useState(false)
+
+  // The API returns a path; show the full URL once we know the origin
+  useEffect(() => {
+    setUrl(new URL(permalink, window.location.origin).toString())
+  }, [permalink])
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      // Clipboard blocked - the link is still selectable
+    }
+  }
+
+  return (
+    <div className="flex items-center mt-4 space-x-2">
+      <input
+        type="text"
+        readOnly
+        value={url}
+        onFocus={(e) => e.target.select()}
+        aria-label={t('share.linkLabel')}
+        className="flex-1 px-3 py-2 text-sm bg-dark-bg border border-dark-border rounded-lg text-dark-textSecondary"
+      />
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="px-4 py-2 text-sm rounded-lg font-semibold bg-cyan-300 text-slate-900 hover:bg-cyan-400 transition-all duration-200"
+      >
+        {copied ? t('share.copied') : t('share.copy')}
+      </button>
+    </div>
+  )
+}
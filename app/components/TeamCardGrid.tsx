@@ -0,0 +1,99 @@
+'use client'
+
+import type { MvpCategory, TeamShoutout, TeamStats } from '../api/lib/team'
+import { MessageKey } from '../lib/i18n/messages/en'
+import { getRankColor } from '../lib/ranks'
+import Avatar from './Avatar'
+import { useI18n } from './I18nProvider'
+
+interface Props {
+  team: TeamStats
+  shoutouts?: TeamShoutout[]
+}
+
+const MVP_LABELS: Record<MvpCategory, MessageKey> = {
+  rating: 'teamCards.mvpRating',
+  solved: 'teamCards.mvpSolved',
+  hardest: 'teamCards.mvpHardest',
+  tags: 'teamCards.mvpTags',
+  acceptance: 'teamCards.mvpAcceptance',
+  potential: 'teamCards.mvpPotential',
+}
+
+function SummaryStat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="rounded-lg border border-dark-border bg-dark-bg px-3 py-2">
+      <div className="text-xs uppercase tracking-wide text-dark-textSecondary">{label}</div>
+      <div className="text-lg font-semibold text-dark-text">{value}</div>
+    </div>
+  )
+}
+
+// Team totals followed by one card per member with their MVP category and shout-out
+export default function TeamCardGrid({ team, shoutouts = [] }: Props) {
+  const { t } = useI18n()
+  const lines = new Map(shoutouts.map(shoutout => [shoutout.handle, shoutout.line]))
+  const { ratingSpread } = team
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        <SummaryStat label={t('teamCards.solvedTogether')} value={team.combinedSolved} />
+        <SummaryStat label={t('teamCards.tagsCovered')} value={team.tagsCovered.length} />
+        <SummaryStat label={t('teamCards.averageRating')} value={ratingSpread ? ratingSpread.average : '—'} />
+        <SummaryStat label={t('teamCards.ratingSpread')} value={ratingSpread ? `${ratingSpread.min}–${ratingSpread.max}` : '—'} />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {team.members.map(member => (
+          <div key={member.handle} className="rounded-lg border border-dark-border bg-dark-bg p-4">
+            <div className="flex items-center mb-3">
+              {member.avatar && (
+                <Avatar src={member.avatar} size={40} className="w-10 h-10 mr-3" />
+              )}
+              <div className="min-w-0">
+                <div
+                  className="font-bold truncate"
+                  style={member.rating !== undefined ? { color: getRankColor(member.rating) } : undefined}
+                >
+                  {member.handle}
+                </div>
+                <div className="text-xs text-dark-textSecondary capitalize">
+                  {member.rating !== undefined
+                    ? `${member.rank ?? t('teamCards.rated')} · ${member.rating}`
+                    : t('teamCards.unrated')}
+                </div>
+              </div>
+              <span className="ml-auto shrink-0 text-xs font-semibold px-2 py-0.5 rounded-full bg-fuchsia-400/20 text-fuchsia-300">
+                {t(MVP_LABELS[member.mvp.category])}
+              </span>
+            </div>
+
+            <dl className="grid grid-cols-4 gap-2 text-center text-xs">
+              <div>
+                <dt className="text-dark-textSecondary">{t('teamCards.solved')}</dt>
+                <dd className="text-dark-text font-semibold">{member.solved}</dd>
+              </div>
+              <div>
+                <dt className="text-dark-textSecondary">{t('teamCards.hardest')}</dt>
+                <dd className="text-dark-text font-semibold">{member.hardestSolved ?? '—'}</dd>
+              </div>
+              <div>
+                <dt className="text-dark-textSecondary">{t('teamCards.tags')}</dt>
+                <dd className="text-dark-text font-semibold">{member.tagsCovered}</dd>
+              </div>
+              <div>
+                <dt className="text-dark-textSecondary">{t('teamCards.acceptance')}</dt>
+                <dd className="text-dark-text font-semibold">{member.acceptanceRate}%</dd>
+              </div>
+            </dl>
+
+            {lines.get(member.handle) && (
+              <p className="mt-3 text-sm text-dark-text italic">“{lines.get(member.handle)}”</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { StoredGlaze, getGlaze } from '../../api/lib/glaze-store'
+import { PERSONA_OPTIONS } from '../../lib/personas'
+import ProfileHeader from '../../components/ProfileHeader'
+import RatingChart from '../../components/RatingChart'
+import ActivityHeatmap from '../../components/ActivityHeatmap'
+import ComparisonTable from '../../components/ComparisonTable'
+import AnnotatedCode from '../../components/AnnotatedCode'
+import TeamCardGrid from '../../components/TeamCardGrid'
+import ContestResult from '../../components/ContestResult'
+
+interface Props {
+  params: { id: string }
+}
+
+// Glazes expire from KV, so always read the latest state
+export const dynamic = 'force-dynamic'
+
+function describeGlaze(glaze: StoredGlaze): string {
+  if (glaze.type === 'profile' && glaze.userData) {
+    return `${glaze.userData.handle}'s Codeforces profile, glazed`
+  }
+  if (glaze.type === 'compare' && glaze.users) {
+    return `${glaze.users.map(user => user.handle).join(' vs ')}, glazed`
+  }
+  if (glaze.type === 'contest' && glaze.performance) {
+    return `${glaze.performance.handle} in ${glaze.performance.contest.name}, glazed`
+  }
+  if (glaze.type === 'team' && glaze.team) {
+    return `Team ${glaze.team.members.map(member => member.handle).join(', ')}, glazed`
+  }
+  return glaze.filename ? `${glaze.filename}, glazed` : 'A Codeforces submission, glazed'
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const glaze = await getGlaze(params.id)
+  if (!glaze) {
+    return { title: 'Glaze not found | Codeforces Glazer' }
+  }
+
+  const title = `${describeGlaze(glaze)} | Codeforces Glazer`
+  const description = glaze.glaze.slice(0, 160)
+  const image = `/api/og?id=${glaze.id}`
+
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: 'article',
+      url: `/g/${glaze.id}`,
+      images: [{ url: image, width: 1200, height: 630 }],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+      images: [image],
+    },
+  }
+}
+
+export default async function SharedGlazePage({ params }: Props) {
+  const glaze = await getGlaze(params.id)
+  if (!glaze) {
+    notFound()
+  }
+
+  const personaName = PERSONA_OPTIONS.find(option => option.id === glaze.persona)?.name ?? glaze.persona
+  const { userData, preprocessing, comparison, team, performance } = glaze
+
+  return (
+    <div className="min-h-screen gradient-bg flex items-center justify-center p-4">
+      <div className="max-w-4xl w-full">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl md:text-6xl font-bold text-dark-text mb-4">
+            Codeforces Glazer
+          </h1>
+          <p className="text-xl text-dark-textSecondary">
+            {describeGlaze(glaze)} by the {personaName}
+          </p>
+        </div>
+
+        <div className="bg-dark-card border border-dark-border rounded-2xl card-shadow p-8 mb-8">
+          {glaze.type === 'profile' && userData && (
+            <>
+              <ProfileHeader
+                handle={userData.handle}
+                avatar={userData.avatar}
+                rating={userData.rating}
+                maxRating={userData.maxRating}
+                rank={userData.rank}
+              />
+              {userData.ratingHistory && userData.ratingHistory.ratedContests > 0 && (
+                <RatingChart stats={userData.ratingHistory} />
+              )}
+              {userData.activity && (
+                <ActivityHeatmap stats={userData.activity} />
+              )}
+            </>
+          )}
+
+          {glaze.type === 'compare' && comparison && (
+            <div className="mb-6">
+              <ComparisonTable comparison={comparison} />
+            </div>
+          )}
+
+          {glaze.type === 'contest' && performance && (
+            <div className="mb-6">
+              <ContestResult performance={performance} />
+            </div>
+          )}
+
+          {glaze.type === 'team' && team && (
+            <div className="mb-6">
+              <TeamCardGrid team={team} shoutouts={glaze.shoutouts} />
+            </div>
+          )}
+
+          {glaze.type === 'code' && (
+            <>
+              {preprocessing && preprocessing.strippedLines > 0 && (
+                <p className="text-xs text-dark-textSecondary mb-4">
+                  Detected {preprocessing.languageName} · skipped {preprocessing.strippedLines} lines
+                  ({preprocessing.strippedPercent}%) of template boilerplate
+                </p>
+              )}
+              {glaze.code && glaze.annotations && glaze.annotations.length > 0 && (
+                <div className="mb-6">
+                  <AnnotatedCode code={glaze.code} annotations={glaze.annotations} />
+                </div>
+              )}
+              {glaze.code && !glaze.annotations?.length && (
+                <pre className="mb-6 p-4 max-h-96 overflow-auto rounded-lg bg-dark-bg border border-dark-border text-sm text-dark-text">
+                  <code>{glaze.code}</code>
+                </pre>
+              )}
+            </>
+          )}
+
+          <div className="p-6 rounded-lg border-l-4 border-amber-400 bg-amber-900/20 backdrop-blur-sm">
+            <div className="text-dark-text whitespace-pre-wrap leading-relaxed">
+              {glaze.glaze}
+            </div>
+          </div>
+
+          <p className="text-xs text-dark-textSecondary mt-4">
+            Shared {new Date(glaze.createdAt).toLocaleDateString('en-US', { dateStyle: 'medium' })} ·
+            expires {new Date(glaze.expiresAt).toLocaleDateString('en-US', { dateStyle: 'medium' })}
+          </p>
+        </div>
+
+        <div className="text-center">
+          <Link
+            href="/"
+            className="inline-block bg-cyan-300 text-slate-900 py-3 px-6 rounded-lg font-semibold transition-all duration-200 hover:bg-cyan-400"
+          >
+            Get glazed yourself
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
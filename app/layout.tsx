@@ -1,13 +1,42 @@
 import type { Metadata } from 'next'
 import { Inter } from 'next/font/google'
+import { cookies, headers } from 'next/headers'
 import './globals.css'
 import ErrorBoundary from './components/ErrorBoundary'
+import I18nProvider from './components/I18nProvider'
+import { LANGUAGE_COOKIE, LanguageCode, isLanguageCode, negotiateLanguage } from './lib/i18n/languages'
 
 const inter = Inter({ subsets: ['latin'] })
 
+const title = 'Codeforces Profile Glazer'
+const description = 'Get your Codeforces profile gloriously praised by AI!'
+
+// Absolute base for OG/Twitter image URLs
+const siteUrl = process.env.SITE_URL
+  || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'http://localhost:3000')
+
 export const metadata: Metadata = {
-  title: 'Codeforces Profile Glazer',
-  description: 'Get your Codeforces profile gloriously praised by AI!',
+  metadataBase: new URL(siteUrl),
+  title,
+  description,
+  openGraph: {
+    title,
+    description,
+    type: 'website',
+    images: [{ url: '/api/og', width: 1200, height: 630 }],
+  },
+  twitter: {
+    card: 'summary_large_image',
+    title,
+    description,
+    images: ['/api/og'],
+  },
+}
+
+// The switcher's cookie wins; first-time visitors get their browser's language
+function getInitialLanguage(): LanguageCode {
+  const saved = cookies().get(LANGUAGE_COOKIE)?.value
+  return isLanguageCode(saved) ? saved : negotiateLanguage(headers().get('accept-language'))
 }
 
 export default function RootLayout({
@@ -15,12 +44,16 @@ export default function RootLayout({
 }: {
   children: React.ReactNode
 }) {
+  const language = getInitialLanguage()
+
   return (
-    <html lang="en" className="dark">
+    <html lang={language} className="dark">
       <body className={inter.className}>
-        <ErrorBoundary>
-          {children}
-        </ErrorBoundary>
+        <I18nProvider initialLanguage={language}>
+          <ErrorBoundary>
+            {children}
+          </ErrorBoundary>
+        </I18nProvider>
       </body>
     </html>
   )
@@ -0,0 +1,10 @@
+// Contest clock times as Codeforces shows them, shared by the API routes and the UI
+
+// Seconds from the start of the contest as h:mm:ss, e.g. 4810 -> "1:20:10"
+export function formatContestTime(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds))
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  const pad = (value: number) => value.toString().padStart(2, '0')
+  return `${hours}:${pad(minutes)}:${pad(total % 60)}`
+}
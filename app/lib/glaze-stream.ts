@@ -0,0 +1,73 @@
+// Client-side reader for the server-sent events emitted by the glaze routes
+
+// Error reported by a glaze route, carrying the translatable code from the
+// response (see app/lib/i18n) alongside the route's English message
+export class GlazeRequestError extends Error {
+  constructor(
+    message: string,
+    public code?: string,
+    public params?: Record<string, string | number>
+  ) {
+    super(message)
+    this.name = 'GlazeRequestError'
+  }
+}
+
+// Build the error for a non-OK JSON response from a glaze route
+export async function readGlazeError(response: Response): Promise<GlazeRequestError> {
+  const data = await response.json().catch(() => ({}))
+  return new GlazeRequestError(data.error || 'Something went wrong', data.code, data.params)
+}
+
+// Feed every `delta` to `onDelta` and resolve with the payload of the final
+// `done` event. An `error` event (or a stream that ends without `done`) rejects.
+export async function readGlazeStream<T>(
+  response: Response,
+  onDelta: (content: string) => void
+): Promise<T> {
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary)
+      buffer = buffer.slice(boundary + 2)
+      boundary = buffer.indexOf('\n\n')
+
+      let eventType = 'message'
+      let data = ''
+      rawEvent.split('\n').forEach(line => {
+        if (line.startsWith('event:')) {
+          eventType = line.slice(6).trim()
+        } else if (line.startsWith('data:')) {
+          data += line.slice(5).trim()
+        }
+      })
+
+      if (!data) continue
+      const parsed = JSON.parse(data)
+
+      if (eventType === 'delta') {
+        onDelta(parsed.content || '')
+      } else if (eventType === 'done') {
+        return parsed as T
+      } else if (eventType === 'error') {
+        throw new GlazeRequestError(parsed.error || 'Something went wrong', parsed.code, parsed.params)
+      }
+    }
+  }
+
+  throw new Error('Connection closed before the glaze finished')
+}
@@ -0,0 +1,6 @@
+// Hour of the day (0-23) as shown to users: 0 -> "12 AM", 15 -> "3 PM"
+export function formatHour(hour: number): string {
+  if (hour === 0) return '12 AM'
+  if (hour === 12) return '12 PM'
+  return hour < 12 ? `${hour} AM` : `${hour - 12} PM`
+}
@@ -0,0 +1,50 @@
+// Languages the UI and the glazes are available in, shared by the API routes
+// and the UI. The prompt instruction built from them lives server-side in
+// app/api/lib/languages.ts.
+
+export type LanguageCode = 'en' | 'ru' | 'zh' | 'pt'
+
+export interface LanguageOption {
+  code: LanguageCode
+  // Shown in the language switcher
+  nativeName: string
+  // Used in the prompt
+  englishName: string
+}
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en'
+
+// Remembers the switcher choice; it wins over Accept-Language
+export const LANGUAGE_COOKIE = 'lang'
+
+export const LANGUAGE_OPTIONS: LanguageOption[] = [
+  { code: 'en', nativeName: 'English', englishName: 'English' },
+  { code: 'ru', nativeName: 'Русский', englishName: 'Russian' },
+  { code: 'zh', nativeName: '中文', englishName: 'Simplified Chinese' },
+  { code: 'pt', nativeName: 'Português', englishName: 'Portuguese' },
+]
+
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return typeof value === 'string' && LANGUAGE_OPTIONS.some(option => option.code === value)
+}
+
+// Best supported language for an Accept-Language header such as
+// "pt-BR,pt;q=0.9,en;q=0.8". Regional variants match their base language.
+export function negotiateLanguage(acceptLanguage: string | null | undefined): LanguageCode {
+  if (!acceptLanguage) return DEFAULT_LANGUAGE
+
+  const ranked = acceptLanguage
+    .split(',')
+    .map((entry, index) => {
+      const [tag, ...params] = entry.trim().split(';')
+      const qParam = params.find(param => param.trim().startsWith('q='))
+      const quality = qParam ? parseFloat(qParam.trim().slice(2)) : 1
+      return { base: tag.trim().toLowerCase().split('-')[0], quality: isNaN(quality) ? 0 : quality, index }
+    })
+    .filter(entry => entry.quality > 0)
+    // Equal weights keep the header's order
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+
+  const match = ranked.find(entry => isLanguageCode(entry.base))
+  return match ? match.base as LanguageCode : DEFAULT_LANGUAGE
+}
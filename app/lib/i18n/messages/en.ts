@@ -0,0 +1,181 @@
+// English UI messages. Every other catalog must define the same keys.
+// `{name}` placeholders are filled in by translate().
+
+export const en = {
+  'app.title': 'Codeforces Glazer',
+  'app.tagline': 'Let AI praise your Codeforces profile and code submissions!',
+  'app.language': 'Language',
+  'app.safeMode': 'Family-friendly mode',
+
+  'tabs.profile': 'Profile Glazer',
+  'tabs.code': 'Code Glazer',
+  'tabs.compare': 'Compare',
+  'tabs.team': 'Team',
+  'tabs.contest': 'Contest',
+
+  'common.error': 'Error:',
+  'common.tokensUsed': '({count} tokens used)',
+  'common.filtered': 'This glaze was cleaned up by the safety filter.',
+  'common.replaced': 'The safety filter swapped the glaze that was streaming in for a cleaner one.',
+  'common.waitBetweenRequests': 'Please wait 20 seconds between requests',
+  'common.rateLimitWait': 'Rate limit reached. Try again in {time}',
+  'common.invalidHandle': 'Username can only contain letters, numbers, dots, hyphens, and underscores',
+  'common.invalidHandles': 'Usernames can only contain letters, numbers, dots, hyphens, and underscores',
+
+  'profile.label': 'Codeforces Username',
+  'profile.placeholder': 'Enter your Codeforces handle...',
+  'profile.loading': 'Generating amazing praise...',
+  'profile.submit': 'Glaze My Profile',
+  'profile.resultTitle': 'Profile Evaluation',
+  'profile.usernameLength': 'Username must be between 1 and 24 characters',
+
+  'code.label': 'Upload Your Codeforces Submission',
+  'code.shareCode': 'Include my code on the share page',
+  'code.loading': 'Analyzing code...',
+  'code.submit': 'Glaze My Code',
+  'code.clear': 'Clear',
+  'code.resultTitle': 'Code Evaluation: {filename}',
+  'code.preprocessing': 'Detected {language} · skipped {lines} lines ({percent}%) of template boilerplate',
+  'code.lineByLine': 'Line by line',
+  'code.fileTooLarge': 'File is too large. Maximum size is 500KB.',
+  'code.contentTooLarge': 'Code content is too large. Maximum length is 50,000 characters.',
+  'code.noFile': 'Please upload a code file',
+  'code.inProgress': 'Request already in progress. Please wait.',
+
+  'compare.label': 'Codeforces Handles',
+  'compare.handlePlaceholder': 'Handle {number}',
+  'compare.addHandle': '+ Add handle',
+  'compare.removeLast': 'Remove last',
+  'compare.loading': 'Setting up the ring...',
+  'compare.submit': 'Start the Showdown',
+  'compare.crunching': 'Crunching the numbers...',
+  'compare.resultTitle': 'Versus',
+  'compare.tooFew': 'Enter at least two handles to compare',
+
+  'team.label': 'Team Handles',
+  'team.hint': '2 to {max} handles, separated by commas or new lines',
+  'team.loading': 'Assembling the squad...',
+  'team.submit': 'Glaze the Team',
+  'team.resultTitle': 'Team Glaze',
+  'team.scouting': 'Scouting the roster...',
+  'team.size': 'Enter between 2 and {max} handles',
+
+  'contest.handleLabel': 'Codeforces Handle',
+  'contest.contestLabel': 'Contest',
+  'contest.contestPlaceholder': '2049 or a contest link',
+  'contest.loading': 'Pulling up the standings...',
+  'contest.submit': 'Glaze the Round',
+  'contest.reading': 'Reading the standings...',
+  'contest.resultTitle': 'Round Recap',
+  'contest.invalidContest': 'Enter a contest ID or a link to the contest',
+
+  'share.linkLabel': 'Share link',
+  'share.copy': 'Copy link',
+  'share.copied': 'Copied!',
+  'rateLimit.remaining': '{remaining} of {limit} requests left',
+
+  'profileHeader.rating': 'Rating:',
+  'profileHeader.maxRating': '(Max: {rating})',
+
+  'ratingChart.title': 'Rating History',
+  'ratingChart.ariaLabel': 'Contest rating history chart',
+  'ratingChart.point': '{rating} (rank #{rank})',
+  'ratingChart.ratedContests': 'Rated contests:',
+  'ratingChart.biggestGain': 'Biggest gain:',
+  'ratingChart.biggestDrop': 'Biggest drop:',
+  'ratingChart.bestRank': 'Best rank:',
+  'ratingChart.longestStreak': 'Longest gain streak:',
+  'ratingChart.volatility': 'Volatility:',
+  'ratingChart.milestone': 'Reached {rank} after {contests} contests ({days} days)',
+
+  'activity.title': 'Submission Activity',
+  'activity.ariaLabel': 'Submission activity heatmap for the last year',
+  'activity.submissionsOnDay': '{count} submissions on {date}',
+  'activity.longestStreak': 'Longest streak:',
+  'activity.currentStreak': 'Current streak:',
+  'activity.days': '{count} days',
+  'activity.bestDay': 'Best day:',
+  'activity.bestMonth': 'Best month:',
+  'activity.solved': '{count} solved',
+  'activity.busiestHour': 'Busiest hour:',
+  'activity.yearsActive': 'Years active:',
+
+  'compareTable.stat': 'Stat',
+  'compareTable.rating': 'Rating',
+  'compareTable.maxRating': 'Max Rating',
+  'compareTable.uniqueProblemsSolved': 'Problems Solved',
+  'compareTable.acceptanceRate': 'Acceptance Rate (%)',
+  'compareTable.totalSubmissions': 'Total Submissions',
+  'compareTable.contribution': 'Contribution',
+  'compareTable.solvedByRating': 'Solved by rating',
+  'compareTable.solvedByEveryone': 'Solved by everyone',
+
+  'contestResult.rank': 'Rank',
+  'contestResult.solved': 'Solved',
+  'contestResult.penalty': 'Penalty',
+  'contestResult.points': 'Points',
+  'contestResult.rated': 'Rated',
+  'contestResult.unrated': 'Unrated',
+  'contestResult.pending': 'Rating pending',
+  'contestResult.unofficial': 'Unofficial',
+  'contestResult.gym': 'Gym',
+  'contestResult.fast': 'fast',
+  'contestResult.solvedUntimed': 'solved',
+
+  'teamCards.solvedTogether': 'Solved together',
+  'teamCards.tagsCovered': 'Tags covered',
+  'teamCards.averageRating': 'Average rating',
+  'teamCards.ratingSpread': 'Rating spread',
+  'teamCards.solved': 'Solved',
+  'teamCards.hardest': 'Hardest',
+  'teamCards.tags': 'Tags',
+  'teamCards.acceptance': 'AC',
+  'teamCards.rated': 'rated',
+  'teamCards.unrated': 'unrated',
+  'teamCards.mvpRating': 'Rating Carry',
+  'teamCards.mvpSolved': 'Problem Grinder',
+  'teamCards.mvpHardest': 'Hardest Solve',
+  'teamCards.mvpTags': 'Tag Collector',
+  'teamCards.mvpAcceptance': 'Clean Coder',
+  'teamCards.mvpPotential': 'Untapped Potential',
+
+  // Error codes returned by the API routes
+  'errors.generic': 'Something went wrong',
+  'errors.request_too_large': 'Request too large',
+  'errors.invalid_origin': 'Invalid request origin',
+  'errors.invalid_request': 'Invalid request',
+  'errors.invalid_user_agent': 'Invalid user agent',
+  'errors.unknown_persona': 'Unknown persona',
+  'errors.unsupported_language': 'Unsupported language',
+  'errors.invalid_safe_mode': 'safeMode must be true or false',
+  'errors.username_required': 'Username is required',
+  'errors.username_length': 'Username must be between 1 and 24 characters',
+  'errors.username_invalid': 'Username contains invalid characters',
+  'errors.invalid_utc_offset': 'Invalid time zone offset',
+  'errors.contest_id_invalid': 'Contest ID must be a positive number',
+  'errors.not_in_contest': '{handle} did not take part in {contest}',
+  'errors.handles_not_list': 'Handles must be a list of usernames',
+  'errors.compare_handle_count': 'Compare between {min} and {max} handles',
+  'errors.team_size': 'A team has between {min} and {max} handles',
+  'errors.handles_duplicate': 'Handles must be different',
+  'errors.code_required': 'Code is required',
+  'errors.llm_not_configured': 'The glazer is not configured yet',
+  'errors.llm_rate_limited': 'The AI is busy right now, please try again in a minute',
+  'errors.internal_error': 'Internal server error',
+  'errors.rate_limited': 'Rate limit exceeded ({limit} requests). Please try again later.',
+  'errors.rate_limit_unavailable': 'Rate limiting is temporarily unavailable, please try again later',
+  'errors.input_too_large': 'Input is too large to glaze (about {tokens} tokens, the limit is {limit})',
+  'errors.budget_exhausted_global': 'The daily glazing budget has been used up. Please come back tomorrow.',
+  'errors.budget_exhausted_client': 'You have used your daily glazing budget. Please come back tomorrow.',
+  'errors.codeforces_not_found': 'Not found on Codeforces',
+  'errors.codeforces_rate_limited': 'Codeforces API call limit exceeded, please try again later',
+  'errors.codeforces_timeout': 'Codeforces API timed out',
+  'errors.codeforces_network': 'Could not reach the Codeforces API',
+  'errors.codeforces_invalid_response': 'Codeforces sent data we could not read',
+  'errors.codeforces_api_error': 'Codeforces rejected the request',
+  'errors.invalid_glaze_id': 'Invalid glaze id',
+  'errors.glaze_not_found': 'Glaze not found or expired',
+}
+
+export type MessageKey = keyof typeof en
+export type Messages = Record<MessageKey, string>
@@ -0,0 +1,176 @@
+import type { Messages } from './en'
+
+export const pt: Messages = {
+  'app.title': 'Codeforces Glazer',
+  'app.tagline': 'Deixe a IA elogiar seu perfil do Codeforces e suas submissões!',
+  'app.language': 'Idioma',
+  'app.safeMode': 'Modo para toda a família',
+
+  'tabs.profile': 'Perfil',
+  'tabs.code': 'Código',
+  'tabs.compare': 'Comparar',
+  'tabs.team': 'Time',
+  'tabs.contest': 'Contest',
+
+  'common.error': 'Erro:',
+  'common.tokensUsed': '({count} tokens usados)',
+  'common.filtered': 'Este elogio foi limpo pelo filtro de segurança.',
+  'common.replaced': 'O filtro de segurança trocou o elogio que estava chegando por uma versão mais limpa.',
+  'common.waitBetweenRequests': 'Aguarde 20 segundos entre as solicitações',
+  'common.rateLimitWait': 'Limite de solicitações atingido. Tente novamente em {time}',
+  'common.invalidHandle': 'O handle só pode conter letras, números, pontos, hífens e sublinhados',
+  'common.invalidHandles': 'Os handles só podem conter letras, números, pontos, hífens e sublinhados',
+
+  'profile.label': 'Handle do Codeforces',
+  'profile.placeholder': 'Digite seu handle do Codeforces...',
+  'profile.loading': 'Gerando elogios incríveis...',
+  'profile.submit': 'Elogiar meu perfil',
+  'profile.resultTitle': 'Avaliação do perfil',
+  'profile.usernameLength': 'O handle deve ter entre 1 e 24 caracteres',
+
+  'code.label': 'Envie sua submissão do Codeforces',
+  'code.shareCode': 'Incluir meu código na página de compartilhamento',
+  'code.loading': 'Analisando o código...',
+  'code.submit': 'Elogiar meu código',
+  'code.clear': 'Limpar',
+  'code.resultTitle': 'Avaliação do código: {filename}',
+  'code.preprocessing': '{language} detectado · {lines} linhas ({percent}%) de template ignoradas',
+  'code.lineByLine': 'Linha por linha',
+  'code.fileTooLarge': 'Arquivo grande demais. O tamanho máximo é 500KB.',
+  'code.contentTooLarge': 'Código grande demais. O tamanho máximo é 50.000 caracteres.',
+  'code.noFile': 'Envie um arquivo de código',
+  'code.inProgress': 'Já existe uma solicitação em andamento. Aguarde.',
+
+  'compare.label': 'Handles do Codeforces',
+  'compare.handlePlaceholder': 'Handle {number}',
+  'compare.addHandle': '+ Adicionar handle',
+  'compare.removeLast': 'Remover o último',
+  'compare.loading': 'Montando o ringue...',
+  'compare.submit': 'Começar o duelo',
+  'compare.crunching': 'Calculando os números...',
+  'compare.resultTitle': 'Duelo',
+  'compare.tooFew': 'Digite pelo menos dois handles para comparar',
+
+  'team.label': 'Handles do time',
+  'team.hint': 'De 2 a {max} handles, separados por vírgulas ou quebras de linha',
+  'team.loading': 'Reunindo o time...',
+  'team.submit': 'Elogiar o time',
+  'team.resultTitle': 'Elogio do time',
+  'team.scouting': 'Analisando o elenco...',
+  'team.size': 'Digite de 2 a {max} handles',
+
+  'contest.handleLabel': 'Handle do Codeforces',
+  'contest.contestLabel': 'Contest',
+  'contest.contestPlaceholder': '2049 ou o link do contest',
+  'contest.loading': 'Buscando a classificação...',
+  'contest.submit': 'Elogiar a rodada',
+  'contest.reading': 'Lendo a classificação...',
+  'contest.resultTitle': 'Resumo da rodada',
+  'contest.invalidContest': 'Digite o ID ou o link do contest',
+
+  'share.linkLabel': 'Link para compartilhar',
+  'share.copy': 'Copiar link',
+  'share.copied': 'Copiado!',
+  'rateLimit.remaining': 'Restam {remaining} de {limit} solicitações',
+
+  'profileHeader.rating': 'Rating:',
+  'profileHeader.maxRating': '(Máx.: {rating})',
+
+  'ratingChart.title': 'Histórico de rating',
+  'ratingChart.ariaLabel': 'Gráfico do histórico de rating nos contests',
+  'ratingChart.point': '{rating} (posição #{rank})',
+  'ratingChart.ratedContests': 'Contests com rating:',
+  'ratingChart.biggestGain': 'Maior ganho:',
+  'ratingChart.biggestDrop': 'Maior queda:',
+  'ratingChart.bestRank': 'Melhor posição:',
+  'ratingChart.longestStreak': 'Maior sequência de ganhos:',
+  'ratingChart.volatility': 'Volatilidade:',
+  'ratingChart.milestone': 'Chegou a {rank} após {contests} contests ({days} dias)',
+
+  'activity.title': 'Atividade de submissões',
+  'activity.ariaLabel': 'Mapa de calor das submissões no último ano',
+  'activity.submissionsOnDay': '{count} submissões em {date}',
+  'activity.longestStreak': 'Maior sequência:',
+  'activity.currentStreak': 'Sequência atual:',
+  'activity.days': '{count} dias',
+  'activity.bestDay': 'Melhor dia:',
+  'activity.bestMonth': 'Melhor mês:',
+  'activity.solved': '{count} resolvidos',
+  'activity.busiestHour': 'Horário mais ativo:',
+  'activity.yearsActive': 'Anos ativo:',
+
+  'compareTable.stat': 'Estatística',
+  'compareTable.rating': 'Rating',
+  'compareTable.maxRating': 'Rating máximo',
+  'compareTable.uniqueProblemsSolved': 'Problemas resolvidos',
+  'compareTable.acceptanceRate': 'Taxa de aceitação (%)',
+  'compareTable.totalSubmissions': 'Total de submissões',
+  'compareTable.contribution': 'Contribuição',
+  'compareTable.solvedByRating': 'Resolvidos por rating',
+  'compareTable.solvedByEveryone': 'Resolvidos por todos',
+
+  'contestResult.rank': 'Posição',
+  'contestResult.solved': 'Resolvidos',
+  'contestResult.penalty': 'Penalidade',
+  'contestResult.points': 'Pontos',
+  'contestResult.rated': 'Com rating',
+  'contestResult.unrated': 'Sem rating',
+  'contestResult.pending': 'Rating pendente',
+  'contestResult.unofficial': 'Não oficial',
+  'contestResult.gym': 'Gym',
+  'contestResult.fast': 'rápido',
+  'contestResult.solvedUntimed': 'resolvido',
+
+  'teamCards.solvedTogether': 'Resolvidos juntos',
+  'teamCards.tagsCovered': 'Tags cobertas',
+  'teamCards.averageRating': 'Rating médio',
+  'teamCards.ratingSpread': 'Faixa de rating',
+  'teamCards.solved': 'Resolvidos',
+  'teamCards.hardest': 'Mais difícil',
+  'teamCards.tags': 'Tags',
+  'teamCards.acceptance': 'AC',
+  'teamCards.rated': 'com rating',
+  'teamCards.unrated': 'sem rating',
+  'teamCards.mvpRating': 'Carrega no rating',
+  'teamCards.mvpSolved': 'Máquina de problemas',
+  'teamCards.mvpHardest': 'Solução mais difícil',
+  'teamCards.mvpTags': 'Colecionador de tags',
+  'teamCards.mvpAcceptance': 'Código limpo',
+  'teamCards.mvpPotential': 'Potencial inexplorado',
+
+  'errors.generic': 'Algo deu errado',
+  'errors.request_too_large': 'Solicitação grande demais',
+  'errors.invalid_origin': 'Origem da solicitação inválida',
+  'errors.invalid_request': 'Solicitação inválida',
+  'errors.invalid_user_agent': 'User agent inválido',
+  'errors.unknown_persona': 'Estilo desconhecido',
+  'errors.unsupported_language': 'Idioma não suportado',
+  'errors.invalid_safe_mode': 'safeMode deve ser true ou false',
+  'errors.username_required': 'Informe o handle',
+  'errors.username_length': 'O handle deve ter entre 1 e 24 caracteres',
+  'errors.username_invalid': 'O handle contém caracteres inválidos',
+  'errors.invalid_utc_offset': 'Fuso horário inválido',
+  'errors.contest_id_invalid': 'O ID do contest deve ser um número positivo',
+  'errors.not_in_contest': '{handle} não participou de {contest}',
+  'errors.handles_not_list': 'Os handles devem ser uma lista',
+  'errors.compare_handle_count': 'Compare entre {min} e {max} handles',
+  'errors.team_size': 'Um time tem entre {min} e {max} handles',
+  'errors.handles_duplicate': 'Os handles devem ser diferentes',
+  'errors.code_required': 'Envie o código',
+  'errors.llm_not_configured': 'O serviço ainda não foi configurado',
+  'errors.llm_rate_limited': 'A IA está ocupada agora, tente novamente em um minuto',
+  'errors.internal_error': 'Erro interno do servidor',
+  'errors.rate_limited': 'Limite de solicitações excedido ({limit}). Tente novamente mais tarde.',
+  'errors.rate_limit_unavailable': 'O limite de solicitações está indisponível no momento, tente novamente mais tarde',
+  'errors.input_too_large': 'Entrada grande demais (cerca de {tokens} tokens, o limite é {limit})',
+  'errors.budget_exhausted_global': 'O orçamento diário de elogios acabou. Volte amanhã.',
+  'errors.budget_exhausted_client': 'Você usou todo o seu orçamento diário de elogios. Volte amanhã.',
+  'errors.codeforces_not_found': 'Não encontrado no Codeforces',
+  'errors.codeforces_rate_limited': 'Limite de chamadas da API do Codeforces excedido, tente novamente mais tarde',
+  'errors.codeforces_timeout': 'A API do Codeforces demorou demais para responder',
+  'errors.codeforces_network': 'Não foi possível acessar a API do Codeforces',
+  'errors.codeforces_invalid_response': 'O Codeforces enviou dados que não conseguimos ler',
+  'errors.codeforces_api_error': 'O Codeforces recusou a solicitação',
+  'errors.invalid_glaze_id': 'ID de elogio inválido',
+  'errors.glaze_not_found': 'Elogio não encontrado ou expirado',
+}
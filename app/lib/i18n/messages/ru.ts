@@ -0,0 +1,176 @@
+import type { Messages } from './en'
+
+export const ru: Messages = {
+  'app.title': 'Codeforces Glazer',
+  'app.tagline': 'Пусть ИИ восхвалит ваш профиль Codeforces и ваши посылки!',
+  'app.language': 'Язык',
+  'app.safeMode': 'Семейный режим',
+
+  'tabs.profile': 'Профиль',
+  'tabs.code': 'Код',
+  'tabs.compare': 'Сравнение',
+  'tabs.team': 'Команда',
+  'tabs.contest': 'Контест',
+
+  'common.error': 'Ошибка:',
+  'common.tokensUsed': '(использовано токенов: {count})',
+  'common.filtered': 'Эта похвала была очищена фильтром безопасности.',
+  'common.replaced': 'Фильтр безопасности заменил появлявшуюся похвалу на более чистую.',
+  'common.waitBetweenRequests': 'Подождите 20 секунд между запросами',
+  'common.rateLimitWait': 'Лимит запросов исчерпан. Попробуйте снова через {time}',
+  'common.invalidHandle': 'Хэндл может содержать только буквы, цифры, точки, дефисы и подчёркивания',
+  'common.invalidHandles': 'Хэндлы могут содержать только буквы, цифры, точки, дефисы и подчёркивания',
+
+  'profile.label': 'Хэндл на Codeforces',
+  'profile.placeholder': 'Введите ваш хэндл на Codeforces...',
+  'profile.loading': 'Готовим восхитительные похвалы...',
+  'profile.submit': 'Восхвалить мой профиль',
+  'profile.resultTitle': 'Оценка профиля',
+  'profile.usernameLength': 'Хэндл должен быть длиной от 1 до 24 символов',
+
+  'code.label': 'Загрузите вашу посылку с Codeforces',
+  'code.shareCode': 'Показывать мой код на странице для шаринга',
+  'code.loading': 'Анализируем код...',
+  'code.submit': 'Восхвалить мой код',
+  'code.clear': 'Очистить',
+  'code.resultTitle': 'Оценка кода: {filename}',
+  'code.preprocessing': 'Определён {language} · пропущено {lines} строк ({percent}%) шаблона',
+  'code.lineByLine': 'Построчно',
+  'code.fileTooLarge': 'Файл слишком большой. Максимальный размер — 500 КБ.',
+  'code.contentTooLarge': 'Код слишком длинный. Максимальная длина — 50 000 символов.',
+  'code.noFile': 'Загрузите файл с кодом',
+  'code.inProgress': 'Запрос уже выполняется. Подождите.',
+
+  'compare.label': 'Хэндлы на Codeforces',
+  'compare.handlePlaceholder': 'Хэндл {number}',
+  'compare.addHandle': '+ Добавить хэндл',
+  'compare.removeLast': 'Убрать последний',
+  'compare.loading': 'Готовим ринг...',
+  'compare.submit': 'Начать битву',
+  'compare.crunching': 'Считаем цифры...',
+  'compare.resultTitle': 'Противостояние',
+  'compare.tooFew': 'Введите хотя бы два хэндла для сравнения',
+
+  'team.label': 'Хэндлы команды',
+  'team.hint': 'От 2 до {max} хэндлов через запятую или с новой строки',
+  'team.loading': 'Собираем команду...',
+  'team.submit': 'Восхвалить команду',
+  'team.resultTitle': 'Похвала команде',
+  'team.scouting': 'Изучаем состав...',
+  'team.size': 'Введите от 2 до {max} хэндлов',
+
+  'contest.handleLabel': 'Хэндл на Codeforces',
+  'contest.contestLabel': 'Контест',
+  'contest.contestPlaceholder': '2049 или ссылка на контест',
+  'contest.loading': 'Загружаем положение...',
+  'contest.submit': 'Восхвалить раунд',
+  'contest.reading': 'Читаем положение...',
+  'contest.resultTitle': 'Итоги раунда',
+  'contest.invalidContest': 'Введите ID контеста или ссылку на него',
+
+  'share.linkLabel': 'Ссылка для публикации',
+  'share.copy': 'Скопировать ссылку',
+  'share.copied': 'Скопировано!',
+  'rateLimit.remaining': 'Осталось запросов: {remaining} из {limit}',
+
+  'profileHeader.rating': 'Рейтинг:',
+  'profileHeader.maxRating': '(Макс.: {rating})',
+
+  'ratingChart.title': 'История рейтинга',
+  'ratingChart.ariaLabel': 'График рейтинга по контестам',
+  'ratingChart.point': '{rating} (место #{rank})',
+  'ratingChart.ratedContests': 'Рейтинговых контестов:',
+  'ratingChart.biggestGain': 'Лучший прирост:',
+  'ratingChart.biggestDrop': 'Худшее падение:',
+  'ratingChart.bestRank': 'Лучшее место:',
+  'ratingChart.longestStreak': 'Самая длинная серия роста:',
+  'ratingChart.volatility': 'Волатильность:',
+  'ratingChart.milestone': 'Достиг(ла) {rank} за {contests} контестов ({days} дн.)',
+
+  'activity.title': 'Активность посылок',
+  'activity.ariaLabel': 'Тепловая карта посылок за последний год',
+  'activity.submissionsOnDay': '{date}: посылок — {count}',
+  'activity.longestStreak': 'Самая длинная серия:',
+  'activity.currentStreak': 'Текущая серия:',
+  'activity.days': '{count} дн.',
+  'activity.bestDay': 'Лучший день:',
+  'activity.bestMonth': 'Лучший месяц:',
+  'activity.solved': 'решено: {count}',
+  'activity.busiestHour': 'Самый активный час:',
+  'activity.yearsActive': 'Лет активности:',
+
+  'compareTable.stat': 'Показатель',
+  'compareTable.rating': 'Рейтинг',
+  'compareTable.maxRating': 'Макс. рейтинг',
+  'compareTable.uniqueProblemsSolved': 'Решено задач',
+  'compareTable.acceptanceRate': 'Доля принятых (%)',
+  'compareTable.totalSubmissions': 'Всего посылок',
+  'compareTable.contribution': 'Вклад',
+  'compareTable.solvedByRating': 'Решено по рейтингу задач',
+  'compareTable.solvedByEveryone': 'Решено всеми',
+
+  'contestResult.rank': 'Место',
+  'contestResult.solved': 'Решено',
+  'contestResult.penalty': 'Штраф',
+  'contestResult.points': 'Баллы',
+  'contestResult.rated': 'Рейтинговый',
+  'contestResult.unrated': 'Нерейтинговый',
+  'contestResult.pending': 'Рейтинг ещё не пересчитан',
+  'contestResult.unofficial': 'Вне конкурса',
+  'contestResult.gym': 'Тренировка',
+  'contestResult.fast': 'быстро',
+  'contestResult.solvedUntimed': 'решена',
+
+  'teamCards.solvedTogether': 'Решено вместе',
+  'teamCards.tagsCovered': 'Охвачено тегов',
+  'teamCards.averageRating': 'Средний рейтинг',
+  'teamCards.ratingSpread': 'Разброс рейтинга',
+  'teamCards.solved': 'Решено',
+  'teamCards.hardest': 'Сложнейшая',
+  'teamCards.tags': 'Теги',
+  'teamCards.acceptance': 'AC',
+  'teamCards.rated': 'с рейтингом',
+  'teamCards.unrated': 'без рейтинга',
+  'teamCards.mvpRating': 'Тащит рейтингом',
+  'teamCards.mvpSolved': 'Решатель задач',
+  'teamCards.mvpHardest': 'Самая сложная задача',
+  'teamCards.mvpTags': 'Коллекционер тегов',
+  'teamCards.mvpAcceptance': 'Чистый код',
+  'teamCards.mvpPotential': 'Нераскрытый потенциал',
+
+  'errors.generic': 'Что-то пошло не так',
+  'errors.request_too_large': 'Слишком большой запрос',
+  'errors.invalid_origin': 'Недопустимый источник запроса',
+  'errors.invalid_request': 'Некорректный запрос',
+  'errors.invalid_user_agent': 'Недопустимый user agent',
+  'errors.unknown_persona': 'Неизвестный стиль',
+  'errors.unsupported_language': 'Язык не поддерживается',
+  'errors.invalid_safe_mode': 'safeMode должен быть true или false',
+  'errors.username_required': 'Введите хэндл',
+  'errors.username_length': 'Хэндл должен быть длиной от 1 до 24 символов',
+  'errors.username_invalid': 'Хэндл содержит недопустимые символы',
+  'errors.invalid_utc_offset': 'Некорректный часовой пояс',
+  'errors.contest_id_invalid': 'ID контеста должен быть положительным числом',
+  'errors.not_in_contest': '{handle} не участвовал(а) в {contest}',
+  'errors.handles_not_list': 'Хэндлы должны быть списком',
+  'errors.compare_handle_count': 'Сравнивать можно от {min} до {max} хэндлов',
+  'errors.team_size': 'В команде от {min} до {max} хэндлов',
+  'errors.handles_duplicate': 'Хэндлы должны быть разными',
+  'errors.code_required': 'Нужен код',
+  'errors.llm_not_configured': 'Сервис ещё не настроен',
+  'errors.llm_rate_limited': 'ИИ сейчас занят, попробуйте через минуту',
+  'errors.internal_error': 'Внутренняя ошибка сервера',
+  'errors.rate_limited': 'Превышен лимит запросов ({limit}). Попробуйте позже.',
+  'errors.rate_limit_unavailable': 'Ограничение запросов временно недоступно, попробуйте позже',
+  'errors.input_too_large': 'Слишком большой ввод (около {tokens} токенов, лимит — {limit})',
+  'errors.budget_exhausted_global': 'Дневной бюджет похвал исчерпан. Возвращайтесь завтра.',
+  'errors.budget_exhausted_client': 'Вы исчерпали свой дневной бюджет похвал. Возвращайтесь завтра.',
+  'errors.codeforces_not_found': 'Не найдено на Codeforces',
+  'errors.codeforces_rate_limited': 'Превышен лимит запросов к API Codeforces, попробуйте позже',
+  'errors.codeforces_timeout': 'API Codeforces не ответил вовремя',
+  'errors.codeforces_network': 'Не удалось связаться с API Codeforces',
+  'errors.codeforces_invalid_response': 'Codeforces прислал данные, которые не удалось прочитать',
+  'errors.codeforces_api_error': 'Codeforces отклонил запрос',
+  'errors.invalid_glaze_id': 'Некорректный ID похвалы',
+  'errors.glaze_not_found': 'Похвала не найдена или срок её хранения истёк',
+}
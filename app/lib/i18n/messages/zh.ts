@@ -0,0 +1,176 @@
+import type { Messages } from './en'
+
+export const zh: Messages = {
+  'app.title': 'Codeforces Glazer',
+  'app.tagline': '让 AI 来夸夸你的 Codeforces 主页和代码提交！',
+  'app.language': '语言',
+  'app.safeMode': '适合全家模式',
+
+  'tabs.profile': '个人主页',
+  'tabs.code': '代码',
+  'tabs.compare': '对比',
+  'tabs.team': '队伍',
+  'tabs.contest': '比赛',
+
+  'common.error': '错误：',
+  'common.tokensUsed': '（使用了 {count} 个 token）',
+  'common.filtered': '这段夸夸已经过安全过滤。',
+  'common.replaced': '安全过滤器已将正在显示的夸夸替换为更干净的版本。',
+  'common.waitBetweenRequests': '两次请求之间请等待 20 秒',
+  'common.rateLimitWait': '已达到请求上限，请在 {time} 后重试',
+  'common.invalidHandle': '用户名只能包含字母、数字、点、连字符和下划线',
+  'common.invalidHandles': '用户名只能包含字母、数字、点、连字符和下划线',
+
+  'profile.label': 'Codeforces 用户名',
+  'profile.placeholder': '输入你的 Codeforces 用户名……',
+  'profile.loading': '正在生成超级夸夸……',
+  'profile.submit': '夸夸我的主页',
+  'profile.resultTitle': '主页评价',
+  'profile.usernameLength': '用户名长度需在 1 到 24 个字符之间',
+
+  'code.label': '上传你的 Codeforces 提交',
+  'code.shareCode': '在分享页面中展示我的代码',
+  'code.loading': '正在分析代码……',
+  'code.submit': '夸夸我的代码',
+  'code.clear': '清除',
+  'code.resultTitle': '代码评价：{filename}',
+  'code.preprocessing': '识别为 {language} · 跳过了 {lines} 行（{percent}%）模板代码',
+  'code.lineByLine': '逐行点评',
+  'code.fileTooLarge': '文件过大，最大 500KB。',
+  'code.contentTooLarge': '代码过长，最多 50,000 个字符。',
+  'code.noFile': '请上传代码文件',
+  'code.inProgress': '请求正在进行中，请稍候。',
+
+  'compare.label': 'Codeforces 用户名',
+  'compare.handlePlaceholder': '用户 {number}',
+  'compare.addHandle': '+ 添加用户',
+  'compare.removeLast': '移除最后一个',
+  'compare.loading': '正在布置擂台……',
+  'compare.submit': '开始对决',
+  'compare.crunching': '正在计算数据……',
+  'compare.resultTitle': '对决',
+  'compare.tooFew': '请至少输入两个用户名进行对比',
+
+  'team.label': '队伍成员',
+  'team.hint': '2 到 {max} 个用户名，用逗号或换行分隔',
+  'team.loading': '正在集结队伍……',
+  'team.submit': '夸夸这支队伍',
+  'team.resultTitle': '队伍夸夸',
+  'team.scouting': '正在了解阵容……',
+  'team.size': '请输入 2 到 {max} 个用户名',
+
+  'contest.handleLabel': 'Codeforces 用户名',
+  'contest.contestLabel': '比赛',
+  'contest.contestPlaceholder': '2049 或比赛链接',
+  'contest.loading': '正在获取排行榜……',
+  'contest.submit': '夸夸这场比赛',
+  'contest.reading': '正在读取排行榜……',
+  'contest.resultTitle': '比赛回顾',
+  'contest.invalidContest': '请输入比赛 ID 或比赛链接',
+
+  'share.linkLabel': '分享链接',
+  'share.copy': '复制链接',
+  'share.copied': '已复制！',
+  'rateLimit.remaining': '剩余 {remaining}/{limit} 次请求',
+
+  'profileHeader.rating': '等级分：',
+  'profileHeader.maxRating': '（最高：{rating}）',
+
+  'ratingChart.title': '等级分历史',
+  'ratingChart.ariaLabel': '比赛等级分变化图',
+  'ratingChart.point': '{rating}（排名 #{rank}）',
+  'ratingChart.ratedContests': '计分比赛：',
+  'ratingChart.biggestGain': '最大涨幅：',
+  'ratingChart.biggestDrop': '最大跌幅：',
+  'ratingChart.bestRank': '最佳排名：',
+  'ratingChart.longestStreak': '最长连涨：',
+  'ratingChart.volatility': '波动度：',
+  'ratingChart.milestone': '{contests} 场比赛（{days} 天）后达到 {rank}',
+
+  'activity.title': '提交活跃度',
+  'activity.ariaLabel': '过去一年的提交热力图',
+  'activity.submissionsOnDay': '{date}：{count} 次提交',
+  'activity.longestStreak': '最长连续：',
+  'activity.currentStreak': '当前连续：',
+  'activity.days': '{count} 天',
+  'activity.bestDay': '最佳单日：',
+  'activity.bestMonth': '最佳月份：',
+  'activity.solved': '解决 {count} 题',
+  'activity.busiestHour': '最活跃时段：',
+  'activity.yearsActive': '活跃年数：',
+
+  'compareTable.stat': '指标',
+  'compareTable.rating': '等级分',
+  'compareTable.maxRating': '最高等级分',
+  'compareTable.uniqueProblemsSolved': '解题数',
+  'compareTable.acceptanceRate': '通过率（%）',
+  'compareTable.totalSubmissions': '总提交数',
+  'compareTable.contribution': '贡献',
+  'compareTable.solvedByRating': '按难度统计的解题数',
+  'compareTable.solvedByEveryone': '所有人都解决的题',
+
+  'contestResult.rank': '排名',
+  'contestResult.solved': '解题',
+  'contestResult.penalty': '罚时',
+  'contestResult.points': '得分',
+  'contestResult.rated': '计分',
+  'contestResult.unrated': '不计分',
+  'contestResult.pending': '等级分待更新',
+  'contestResult.unofficial': '非正式',
+  'contestResult.gym': 'Gym',
+  'contestResult.fast': '神速',
+  'contestResult.solvedUntimed': '已解决',
+
+  'teamCards.solvedTogether': '合计解题',
+  'teamCards.tagsCovered': '覆盖标签',
+  'teamCards.averageRating': '平均等级分',
+  'teamCards.ratingSpread': '等级分范围',
+  'teamCards.solved': '解题',
+  'teamCards.hardest': '最难',
+  'teamCards.tags': '标签',
+  'teamCards.acceptance': 'AC',
+  'teamCards.rated': '有等级分',
+  'teamCards.unrated': '无等级分',
+  'teamCards.mvpRating': '等级分担当',
+  'teamCards.mvpSolved': '刷题狂人',
+  'teamCards.mvpHardest': '最难题目',
+  'teamCards.mvpTags': '标签收集者',
+  'teamCards.mvpAcceptance': '一次过达人',
+  'teamCards.mvpPotential': '未开发的潜力',
+
+  'errors.generic': '出错了',
+  'errors.request_too_large': '请求过大',
+  'errors.invalid_origin': '请求来源无效',
+  'errors.invalid_request': '无效请求',
+  'errors.invalid_user_agent': '无效的 user agent',
+  'errors.unknown_persona': '未知的风格',
+  'errors.unsupported_language': '不支持该语言',
+  'errors.invalid_safe_mode': 'safeMode 必须是 true 或 false',
+  'errors.username_required': '请输入用户名',
+  'errors.username_length': '用户名长度需在 1 到 24 个字符之间',
+  'errors.username_invalid': '用户名包含无效字符',
+  'errors.invalid_utc_offset': '时区无效',
+  'errors.contest_id_invalid': '比赛 ID 必须是正整数',
+  'errors.not_in_contest': '{handle} 没有参加 {contest}',
+  'errors.handles_not_list': '用户名必须是列表',
+  'errors.compare_handle_count': '只能对比 {min} 到 {max} 个用户',
+  'errors.team_size': '队伍需要 {min} 到 {max} 名成员',
+  'errors.handles_duplicate': '用户名不能重复',
+  'errors.code_required': '请提供代码',
+  'errors.llm_not_configured': '服务尚未配置',
+  'errors.llm_rate_limited': 'AI 正忙，请一分钟后再试',
+  'errors.internal_error': '服务器内部错误',
+  'errors.rate_limited': '超出请求上限（{limit} 次），请稍后再试。',
+  'errors.rate_limit_unavailable': '请求限流暂时不可用，请稍后再试',
+  'errors.input_too_large': '输入过大（约 {tokens} 个 token，上限为 {limit}）',
+  'errors.budget_exhausted_global': '今日的夸夸额度已用完，请明天再来。',
+  'errors.budget_exhausted_client': '你今天的夸夸额度已用完，请明天再来。',
+  'errors.codeforces_not_found': '在 Codeforces 上未找到',
+  'errors.codeforces_rate_limited': 'Codeforces API 调用次数超限，请稍后再试',
+  'errors.codeforces_timeout': 'Codeforces API 超时',
+  'errors.codeforces_network': '无法连接 Codeforces API',
+  'errors.codeforces_invalid_response': 'Codeforces 返回了无法读取的数据',
+  'errors.codeforces_api_error': 'Codeforces 拒绝了请求',
+  'errors.invalid_glaze_id': '无效的夸夸 ID',
+  'errors.glaze_not_found': '夸夸不存在或已过期',
+}
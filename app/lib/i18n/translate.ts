@@ -0,0 +1,37 @@
+import { DEFAULT_LANGUAGE, LanguageCode } from './languages'
+import { en, MessageKey, Messages } from './messages/en'
+import { pt } from './messages/pt'
+import { ru } from './messages/ru'
+import { zh } from './messages/zh'
+
+export type MessageParams = Record<string, string | number>
+
+export const catalogs: Record<LanguageCode, Messages> = { en, ru, zh, pt }
+
+// Look up `key` in the language's catalog (falling back to English) and fill
+// in its `{name}` placeholders. Unknown placeholders are left as-is.
+export function translate(language: LanguageCode, key: MessageKey, params?: MessageParams): string {
+  const template = catalogs[language]?.[key] ?? catalogs[DEFAULT_LANGUAGE][key]
+  if (!params) return template
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  )
+}
+
+export function isErrorCode(code: unknown): code is string {
+  return typeof code === 'string' && `errors.${code}` in en
+}
+
+// Message for an error code returned by an API route. Codes the catalogs don't
+// know fall back to the route's English message, then to a generic one.
+export function translateError(
+  language: LanguageCode,
+  code?: string,
+  params?: MessageParams,
+  fallback?: string
+): string {
+  if (isErrorCode(code)) {
+    return translate(language, `errors.${code}` as MessageKey, params)
+  }
+  return fallback || translate(language, 'errors.generic')
+}
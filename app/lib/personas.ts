@@ -0,0 +1,24 @@
+// Persona catalogue shared by the API routes and the UI. The prompts behind
+// each persona live server-side in app/api/lib/personas.ts.
+
+export type PersonaId = 'meltdown' | 'coach' | 'bard' | 'roast' | 'commentator'
+
+export interface PersonaOption {
+  id: PersonaId
+  name: string
+  description: string
+}
+
+export const DEFAULT_PERSONA: PersonaId = 'meltdown'
+
+export const PERSONA_OPTIONS: PersonaOption[] = [
+  { id: 'meltdown', name: 'Meltdown', description: 'A screaming, foaming-at-the-mouth glaze' },
+  { id: 'coach', name: 'Wholesome Coach', description: 'Warm, encouraging and genuinely proud of you' },
+  { id: 'bard', name: 'Shakespearean Bard', description: 'Thy ratings, sung in iambic splendour' },
+  { id: 'roast', name: 'Gentle Roast', description: 'Affectionate teasing with a soft landing' },
+  { id: 'commentator', name: 'Sports Commentator', description: 'Live play-by-play of your career' },
+]
+
+export function isPersonaId(value: unknown): value is PersonaId {
+  return typeof value === 'string' && PERSONA_OPTIONS.some(option => option.id === value)
+}
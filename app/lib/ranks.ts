@@ -0,0 +1,36 @@
+// Codeforces rank tiers, shared by the API routes and the UI
+
+export interface RankTier {
+  name: string
+  minRating: number
+  color: string
+  // Colour family used for "time to reach each colour" milestones
+  colorName: string
+}
+
+// Ordered from lowest to highest
+export const RANK_TIERS: RankTier[] = [
+  { name: 'newbie', minRating: -Infinity, color: '#808080', colorName: 'gray' },
+  { name: 'pupil', minRating: 1200, color: '#008000', colorName: 'green' },
+  { name: 'specialist', minRating: 1400, color: '#03a89e', colorName: 'cyan' },
+  { name: 'expert', minRating: 1600, color: '#0000ff', colorName: 'blue' },
+  { name: 'candidate master', minRating: 1900, color: '#aa00aa', colorName: 'violet' },
+  { name: 'master', minRating: 2100, color: '#ff8c00', colorName: 'orange' },
+  { name: 'international master', minRating: 2300, color: '#ff8c00', colorName: 'orange' },
+  { name: 'grandmaster', minRating: 2400, color: '#ff0000', colorName: 'red' },
+  { name: 'international grandmaster', minRating: 2600, color: '#ff0000', colorName: 'red' },
+  { name: 'legendary grandmaster', minRating: 3000, color: '#ff0000', colorName: 'red' },
+]
+
+export function getRankTier(rating: number): RankTier {
+  for (let i = RANK_TIERS.length - 1; i >= 0; i--) {
+    if (rating >= RANK_TIERS[i].minRating) {
+      return RANK_TIERS[i]
+    }
+  }
+  return RANK_TIERS[0]
+}
+
+export function getRankColor(rating: number): string {
+  return getRankTier(rating).color
+}
@@ -0,0 +1,31 @@
+// Client-side view of the RateLimit-* / Retry-After response headers
+
+export interface RateLimitInfo {
+  limit: number
+  remaining: number
+  // Unix time in ms until which requests will be rejected, if currently limited
+  retryAt: number | null
+}
+
+export function readRateLimitHeaders(headers: Headers, now = Date.now()): RateLimitInfo | null {
+  const limit = parseInt(headers.get('RateLimit-Limit') || '')
+  const remaining = parseInt(headers.get('RateLimit-Remaining') || '')
+  if (isNaN(limit) || isNaN(remaining)) return null
+
+  const retryAfter = parseInt(headers.get('Retry-After') || '')
+  return {
+    limit,
+    remaining,
+    retryAt: isNaN(retryAfter) ? null : now + retryAfter * 1000,
+  }
+}
+
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  const pad = (value: number) => value.toString().padStart(2, '0')
+
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`
+}
@@ -1,6 +1,30 @@
 'use client'
 
 import { useState } from 'react'
+import { GlazeRequestError, readGlazeError, readGlazeStream } from './lib/glaze-stream'
+import RatingChart from './components/RatingChart'
+import ActivityHeatmap from './components/ActivityHeatmap'
+import PersonaPicker from './components/PersonaPicker'
+import ComparisonTable from './components/ComparisonTable'
+import TeamCardGrid from './components/TeamCardGrid'
+import ContestResult from './components/ContestResult'
+import ProfileHeader from './components/ProfileHeader'
+import ShareLink from './components/ShareLink'
+import AnnotatedCode from './components/AnnotatedCode'
+import RateLimitStatus from './components/RateLimitStatus'
+import LanguageSwitcher from './components/LanguageSwitcher'
+import { useI18n } from './components/I18nProvider'
+import type { Comparison } from './api/lib/compare'
+import type { CodeAnnotation } from './api/lib/code-review'
+import type { TeamShoutout, TeamStats } from './api/lib/team'
+import type { ContestPerformance } from './api/lib/contest'
+import { DEFAULT_PERSONA, PersonaId } from './lib/personas'
+import type { RatingHistoryStats } from './api/lib/rating-history'
+import type { ActivityStats } from './api/lib/activity'
+import type { SafetyReport } from './api/lib/safety'
+import { RateLimitInfo, formatCountdown, readRateLimitHeaders } from './lib/rate-limit'
+import { MessageParams, translateError } from './lib/i18n/translate'
+import type { MessageKey } from './lib/i18n/messages/en'
 
 interface CodeforcesData {
   handle: string
@@ -12,9 +36,38 @@ interface CodeforcesData {
   friendOfCount?: number
   avatar?: string
   titlePhoto?: string
+  ratingHistory?: RatingHistoryStats
+  activity?: ActivityStats
+}
+
+// Server-side quotas are per route, so each tab tracks its own
+type RateLimitedTab = 'profile' | 'code' | 'compare' | 'team' | 'contest'
+
+// Message for a tab that is still inside its Retry-After window, or null
+function getRateLimitWait(info: RateLimitInfo | null, t: (key: MessageKey, params?: MessageParams) => string): string | null {
+  if (!info?.retryAt || info.retryAt <= Date.now()) return null
+  return t('common.rateLimitWait', { time: formatCountdown(info.retryAt - Date.now()) })
+}
+
+// Mirrors the team route's limit
+const MAX_TEAM_SIZE = 10
+
+// Accepts a contest id or a contest/gym URL such as https://codeforces.com/contest/2049/problem/A
+function parseContestId(input: string): string | null {
+  const trimmed = input.trim()
+  const match = trimmed.match(/^(\d+)$/) || trimmed.match(/\/(?:contest|gym)\/(\d+)/)
+  return match && /^[1-9]\d{0,6}$/.test(match[1]) ? match[1] : null
+}
+
+interface CodePreprocessing {
+  language: string
+  languageName: string
+  strippedLines: number
+  strippedPercent: number
 }
 
 export default function Home() {
+  const { language, t } = useI18n()
   const [username, setUsername] = useState('')
   const [loading, setLoading] = useState(false)
   const [result, setResult] = useState('')
@@ -22,6 +75,46 @@ export default function Home() {
   const [userData, setUserData] = useState<CodeforcesData | null>(null)
   const [lastRequestTime, setLastRequestTime] = useState(0)
   const [tokensUsed, setTokensUsed] = useState(0)
+  const [persona, setPersona] = useState<PersonaId>(DEFAULT_PERSONA)
+  const [permalink, setPermalink] = useState<string | null>(null)
+  // Clean prompts and stricter filtering for every tab, e.g. at school events
+  const [safeMode, setSafeMode] = useState(false)
+  const [rateLimits, setRateLimits] = useState<Record<RateLimitedTab, RateLimitInfo | null>>({
+    profile: null,
+    code: null,
+    compare: null,
+    team: null,
+    contest: null,
+  })
+  
+  // Error codes from the routes are shown in the UI language
+  const describeError = (err: unknown) => {
+    if (err instanceof GlazeRequestError) {
+      return translateError(language, err.code, err.params, err.message)
+    }
+    return err instanceof Error ? err.message : t('errors.generic')
+  }
+  
+  // How the safety filter changed each tab's latest glaze, as the note to show under it
+  const [filtered, setFiltered] = useState<Record<RateLimitedTab, MessageKey | null>>({
+    profile: null,
+    code: null,
+    compare: null,
+    team: null,
+    contest: null,
+  })
+  
+  const updateFiltered = (tab: RateLimitedTab, safety?: SafetyReport) => {
+    const note: MessageKey | null = safety?.replaced ? 'common.replaced' : safety?.filtered ? 'common.filtered' : null
+    setFiltered(prev => ({ ...prev, [tab]: note }))
+  }
+  
+  const updateRateLimit = (tab: RateLimitedTab, response: Response) => {
+    const info = readRateLimitHeaders(response.headers)
+    if (info) {
+      setRateLimits(prev => ({ ...prev, [tab]: info }))
+    }
+  }
   
   // New state for code submission feature
   const [codeFile, setCodeFile] = useState<File | null>(null)
@@ -30,31 +123,71 @@ export default function Home() {
   const [codeLoading, setCodeLoading] = useState(false)
   const [codeError, setCodeError] = useState('')
   const [codeTokensUsed, setCodeTokensUsed] = useState(0)
-  const [activeTab, setActiveTab] = useState('profile') // 'profile' or 'code'
+  const [codePreprocessing, setCodePreprocessing] = useState<CodePreprocessing | null>(null)
+  const [shareCode, setShareCode] = useState(false)
+  const [codePermalink, setCodePermalink] = useState<string | null>(null)
+  // Annotations are kept with the code they were made against, since a new upload replaces codeContent
+  const [annotatedCode, setAnnotatedCode] = useState<{ code: string; annotations: CodeAnnotation[] } | null>(null)
+  const [activeTab, setActiveTab] = useState('profile') // 'profile', 'code', 'compare', 'team' or 'contest'
   const [codeRequestInProgress, setCodeRequestInProgress] = useState(false)
+  
+  // State for the head-to-head compare feature
+  const [compareHandles, setCompareHandles] = useState<string[]>(['', ''])
+  const [compareLoading, setCompareLoading] = useState(false)
+  const [compareError, setCompareError] = useState('')
+  const [compareGlaze, setCompareGlaze] = useState('')
+  const [comparison, setComparison] = useState<Comparison | null>(null)
+  const [compareTokensUsed, setCompareTokensUsed] = useState(0)
+  const [comparePermalink, setComparePermalink] = useState<string | null>(null)
+
+  // State for the team glazing feature
+  const [teamHandles, setTeamHandles] = useState('')
+  const [teamLoading, setTeamLoading] = useState(false)
+  const [teamError, setTeamError] = useState('')
+  const [teamGlaze, setTeamGlaze] = useState('')
+  const [team, setTeam] = useState<TeamStats | null>(null)
+  const [teamShoutouts, setTeamShoutouts] = useState<TeamShoutout[]>([])
+  const [teamTokensUsed, setTeamTokensUsed] = useState(0)
+  const [teamPermalink, setTeamPermalink] = useState<string | null>(null)
+
+  // State for the single contest feature
+  const [contestHandle, setContestHandle] = useState('')
+  const [contestInput, setContestInput] = useState('')
+  const [contestLoading, setContestLoading] = useState(false)
+  const [contestError, setContestError] = useState('')
+  const [contestGlaze, setContestGlaze] = useState('')
+  const [contestPerformance, setContestPerformance] = useState<ContestPerformance | null>(null)
+  const [contestTokensUsed, setContestTokensUsed] = useState(0)
+  const [contestPermalink, setContestPermalink] = useState<string | null>(null)
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!username.trim()) return
 
     // Client-side rate limiting
+    const rateLimitWait = getRateLimitWait(rateLimits.profile, t)
+    if (rateLimitWait) {
+      setError(rateLimitWait)
+      return
+    }
+    
     const now = Date.now()
     const timeSinceLastRequest = now - lastRequestTime
     
     if (timeSinceLastRequest < 20000) { // 20 seconds between requests
-      setError('Please wait 20 seconds between requests')
+      setError(t('common.waitBetweenRequests'))
       return
     }
 
     // Basic input validation
     const trimmedUsername = username.trim()
     if (trimmedUsername.length < 1 || trimmedUsername.length > 24) {
-      setError('Username must be between 1 and 24 characters')
+      setError(t('profile.usernameLength'))
       return
     }
 
     if (!/^[a-zA-Z0-9_.-]+$/.test(trimmedUsername)) {
-      setError('Username can only contain letters, numbers, dots, hyphens, and underscores')
+      setError(t('common.invalidHandle'))
       return
     }
 
@@ -62,6 +195,8 @@ export default function Home() {
     setError('')
     setResult('')
     setUserData(null)
+    setPermalink(null)
+    updateFiltered('profile')
     setLastRequestTime(now)
 
     try {
@@ -74,22 +209,36 @@ export default function Home() {
         },
         body: JSON.stringify({ 
           username: trimmedUsername,
-          honeypot: '' // Empty honeypot field
+          persona,
+          // Streaks and the heatmap use the viewer's calendar days
+          utcOffsetMinutes: -new Date().getTimezoneOffset(),
+          language,
+          safeMode,
+          honeypot: '', // Empty honeypot field
+          stream: true
         }),
       })
 
-      const data = await response.json()
+      updateRateLimit('profile', response)
 
       if (!response.ok) {
-        throw new Error(data.error || 'Something went wrong')
+        throw await readGlazeError(response)
       }
 
+      // Render the glaze as it streams in; profile data arrives with the final event
+      const data = await readGlazeStream<{ glaze: string; safety?: SafetyReport; userData: CodeforcesData; tokensUsed?: number; permalink?: string | null }>(
+        response,
+        (delta) => setResult(prev => prev + delta)
+      )
+
       setResult(data.glaze)
       setUserData(data.userData)
       setTokensUsed(data.tokensUsed || 0)
+      setPermalink(data.permalink || null)
+      updateFiltered('profile', data.safety)
       
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred')
+      setError(describeError(err))
     } finally {
       setLoading(false)
     }
@@ -102,7 +251,7 @@ export default function Home() {
       
       // Basic file size validation
       if (file.size > 1024 * 500) {  // 500 KB max
-        setCodeError('File is too large. Maximum size is 500KB.')
+        setCodeError(t('code.fileTooLarge'))
         e.target.value = '' // Reset the input
         return
       }
@@ -116,7 +265,7 @@ export default function Home() {
         
         // Check if content is too large
         if (content.length > 50000) {
-          setCodeError('Code content is too large. Maximum length is 50,000 characters.')
+          setCodeError(t('code.contentTooLarge'))
           setCodeFile(null)
           e.target.value = '' // Reset the input
           return
@@ -133,13 +282,13 @@ export default function Home() {
     e.preventDefault()
     
     if (!codeContent) {
-      setCodeError('Please upload a code file')
+      setCodeError(t('code.noFile'))
       return
     }
     
     // Prevent duplicate requests
     if (codeRequestInProgress) {
-      setCodeError('Request already in progress. Please wait.')
+      setCodeError(t('code.inProgress'))
       return
     }
     
@@ -147,8 +296,14 @@ export default function Home() {
     const now = Date.now()
     const timeSinceLastRequest = now - lastRequestTime
     
+    const rateLimitWait = getRateLimitWait(rateLimits.code, t)
+    if (rateLimitWait) {
+      setCodeError(rateLimitWait)
+      return
+    }
+    
     if (timeSinceLastRequest < 20000) { // 20 seconds between requests
-      setCodeError('Please wait 20 seconds between requests')
+      setCodeError(t('common.waitBetweenRequests'))
       return
     }
     
@@ -156,6 +311,10 @@ export default function Home() {
     setCodeRequestInProgress(true)
     setCodeError('')
     setCodeGlaze('')
+    setCodePreprocessing(null)
+    setCodePermalink(null)
+    setAnnotatedCode(null)
+    updateFiltered('code')
     setLastRequestTime(now)
     
     try {
@@ -168,20 +327,38 @@ export default function Home() {
         },
         body: JSON.stringify({
           code: codeContent,
-          honeypot: '' // Empty honeypot field
+          filename: codeFile?.name,
+          persona,
+          shareCode,
+          language,
+          safeMode,
+          honeypot: '', // Empty honeypot field
+          stream: true
         }),
       })
       
-      const data = await response.json()
+      updateRateLimit('code', response)
       
       if (!response.ok) {
-        throw new Error(data.error || 'Something went wrong')
+        throw await readGlazeError(response)
       }
       
+      // Render the evaluation as it streams in
+      const data = await readGlazeStream<{ glaze: string; safety?: SafetyReport; annotations?: CodeAnnotation[]; preprocessing?: CodePreprocessing; tokensUsed?: number; permalink?: string | null }>(
+        response,
+        (delta) => setCodeGlaze(prev => prev + delta)
+      )
+      
       setCodeGlaze(data.glaze)
+      setCodePreprocessing(data.preprocessing || null)
       setCodeTokensUsed(data.tokensUsed || 0)
+      setCodePermalink(data.permalink || null)
+      updateFiltered('code', data.safety)
+      if (data.annotations && data.annotations.length > 0) {
+        setAnnotatedCode({ code: codeContent, annotations: data.annotations })
+      }
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An error occurred'
+      const errorMessage = describeError(err)
       // Sanitize error message to prevent XSS
       setCodeError(errorMessage.replace(/<[^>]*>/g, ''))
     } finally {
@@ -190,12 +367,259 @@ export default function Home() {
     }
   }
   
+  // Handle head-to-head comparison submission
+  const handleCompareSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    
+    const handles = compareHandles.map(handle => handle.trim()).filter(Boolean)
+    if (handles.length < 2) {
+      setCompareError(t('compare.tooFew'))
+      return
+    }
+    
+    if (handles.some(handle => !/^[a-zA-Z0-9_.-]{1,24}$/.test(handle))) {
+      setCompareError(t('common.invalidHandles'))
+      return
+    }
+    
+    // Client-side rate limiting
+    const rateLimitWait = getRateLimitWait(rateLimits.compare, t)
+    if (rateLimitWait) {
+      setCompareError(rateLimitWait)
+      return
+    }
+    
+    const now = Date.now()
+    const timeSinceLastRequest = now - lastRequestTime
+    
+    if (timeSinceLastRequest < 20000) { // 20 seconds between requests
+      setCompareError(t('common.waitBetweenRequests'))
+      return
+    }
+    
+    setCompareLoading(true)
+    setCompareError('')
+    setCompareGlaze('')
+    setComparison(null)
+    setComparePermalink(null)
+    updateFiltered('compare')
+    setLastRequestTime(now)
+    
+    try {
+      const response = await fetch('/api/glaze-compare', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-cache',
+          'Pragma': 'no-cache'
+        },
+        body: JSON.stringify({
+          handles,
+          persona,
+          language,
+          safeMode,
+          honeypot: '', // Empty honeypot field
+          stream: true
+        }),
+      })
+      
+      updateRateLimit('compare', response)
+
+      if (!response.ok) {
+        throw await readGlazeError(response)
+      }
+      
+      // Render the versus glaze as it streams in; the stat table arrives with the final event
+      const data = await readGlazeStream<{ glaze: string; safety?: SafetyReport; comparison: Comparison; tokensUsed?: number; permalink?: string | null }>(
+        response,
+        (delta) => setCompareGlaze(prev => prev + delta)
+      )
+      
+      setCompareGlaze(data.glaze)
+      setComparison(data.comparison)
+      setCompareTokensUsed(data.tokensUsed || 0)
+      setComparePermalink(data.permalink || null)
+      updateFiltered('compare', data.safety)
+    } catch (err) {
+      setCompareError(describeError(err))
+    } finally {
+      setCompareLoading(false)
+    }
+  }
+  
+  // Handle team glazing submission
+  const handleTeamSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    
+    // Handles can be separated by commas, semicolons, spaces or new lines
+    const handles = teamHandles.split(/[\s,;]+/).filter(Boolean)
+    if (handles.length < 2 || handles.length > MAX_TEAM_SIZE) {
+      setTeamError(t('team.size', { max: MAX_TEAM_SIZE }))
+      return
+    }
+    
+    if (handles.some(handle => !/^[a-zA-Z0-9_.-]{1,24}$/.test(handle))) {
+      setTeamError(t('common.invalidHandles'))
+      return
+    }
+    
+    // Client-side rate limiting
+    const rateLimitWait = getRateLimitWait(rateLimits.team, t)
+    if (rateLimitWait) {
+      setTeamError(rateLimitWait)
+      return
+    }
+    
+    const now = Date.now()
+    const timeSinceLastRequest = now - lastRequestTime
+    
+    if (timeSinceLastRequest < 20000) { // 20 seconds between requests
+      setTeamError(t('common.waitBetweenRequests'))
+      return
+    }
+    
+    setTeamLoading(true)
+    setTeamError('')
+    setTeamGlaze('')
+    setTeam(null)
+    setTeamShoutouts([])
+    setTeamPermalink(null)
+    updateFiltered('team')
+    setLastRequestTime(now)
+    
+    try {
+      const response = await fetch('/api/glaze-team', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-cache',
+          'Pragma': 'no-cache'
+        },
+        body: JSON.stringify({
+          handles,
+          persona,
+          language,
+          safeMode,
+          honeypot: '', // Empty honeypot field
+          stream: true
+        }),
+      })
+      
+      updateRateLimit('team', response)
+
+      if (!response.ok) {
+        throw await readGlazeError(response)
+      }
+      
+      // Render the group glaze as it streams in; member cards and shout-outs arrive with the final event
+      const data = await readGlazeStream<{ glaze: string; safety?: SafetyReport; team: TeamStats; shoutouts: TeamShoutout[]; tokensUsed?: number; permalink?: string | null }>(
+        response,
+        (delta) => setTeamGlaze(prev => prev + delta)
+      )
+      
+      setTeamGlaze(data.glaze)
+      setTeam(data.team)
+      setTeamShoutouts(data.shoutouts || [])
+      setTeamTokensUsed(data.tokensUsed || 0)
+      setTeamPermalink(data.permalink || null)
+      updateFiltered('team', data.safety)
+    } catch (err) {
+      setTeamError(describeError(err))
+    } finally {
+      setTeamLoading(false)
+    }
+  }
+  
+  // Handle single contest submission
+  const handleContestSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    
+    const handle = contestHandle.trim()
+    if (!/^[a-zA-Z0-9_.-]{1,24}$/.test(handle)) {
+      setContestError(t('common.invalidHandle'))
+      return
+    }
+    
+    const contestId = parseContestId(contestInput)
+    if (!contestId) {
+      setContestError(t('contest.invalidContest'))
+      return
+    }
+    
+    // Client-side rate limiting
+    const rateLimitWait = getRateLimitWait(rateLimits.contest, t)
+    if (rateLimitWait) {
+      setContestError(rateLimitWait)
+      return
+    }
+    
+    const now = Date.now()
+    const timeSinceLastRequest = now - lastRequestTime
+    
+    if (timeSinceLastRequest < 20000) { // 20 seconds between requests
+      setContestError(t('common.waitBetweenRequests'))
+      return
+    }
+    
+    setContestLoading(true)
+    setContestError('')
+    setContestGlaze('')
+    setContestPerformance(null)
+    setContestPermalink(null)
+    updateFiltered('contest')
+    setLastRequestTime(now)
+    
+    try {
+      const response = await fetch('/api/glaze-contest', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-cache',
+          'Pragma': 'no-cache'
+        },
+        body: JSON.stringify({
+          handle,
+          contestId,
+          persona,
+          language,
+          safeMode,
+          honeypot: '', // Empty honeypot field
+          stream: true
+        }),
+      })
+      
+      updateRateLimit('contest', response)
+
+      if (!response.ok) {
+        throw await readGlazeError(response)
+      }
+      
+      // Render the glaze as it streams in; the contest result arrives with the final event
+      const data = await readGlazeStream<{ glaze: string; safety?: SafetyReport; performance: ContestPerformance; tokensUsed?: number; permalink?: string | null }>(
+        response,
+        (delta) => setContestGlaze(prev => prev + delta)
+      )
+      
+      setContestGlaze(data.glaze)
+      setContestPerformance(data.performance)
+      setContestTokensUsed(data.tokensUsed || 0)
+      setContestPermalink(data.permalink || null)
+      updateFiltered('contest', data.safety)
+    } catch (err) {
+      setContestError(describeError(err))
+    } finally {
+      setContestLoading(false)
+    }
+  }
+  
   // Clear code upload fields
   const handleClearCode = () => {
     setCodeFile(null)
     setCodeContent('')
     setCodeGlaze('')
     setCodeError('')
+    setCodePermalink(null)
+    setAnnotatedCode(null)
     // Reset any file input by targeting all file inputs
     const fileInputs = document.querySelectorAll('input[type="file"]')
     fileInputs.forEach((input: any) => { input.value = '' })
@@ -206,11 +630,23 @@ export default function Home() {
       <div className="max-w-4xl w-full">
         <div className="text-center mb-8">
           <h1 className="text-4xl md:text-6xl font-bold text-dark-text mb-4">
-            Codeforces Glazer
+            {t('app.title')}
           </h1>
-          <p className="text-xl text-dark-textSecondary mb-8">
-            Let AI praise your Codeforces profile and code submissions!
+          <p className="text-xl text-dark-textSecondary mb-4">
+            {t('app.tagline')}
           </p>
+          <div className="flex flex-wrap items-center justify-center gap-6 mb-4">
+            <LanguageSwitcher />
+            <label className="inline-flex items-center text-sm text-dark-textSecondary">
+              <input
+                type="checkbox"
+                checked={safeMode}
+                onChange={(e) => setSafeMode(e.target.checked)}
+                className="mr-2 accent-cyan-300"
+              />
+              {t('app.safeMode')}
+            </label>
+          </div>
         </div>
         
         {/* Tab Navigation */}
@@ -222,7 +658,7 @@ export default function Home() {
                 ? 'bg-cyan-300 text-slate-900' 
                 : 'text-dark-textSecondary hover:text-dark-text'}`}
             >
-              Profile Glazer
+              {t('tabs.profile')}
             </button>
             <button 
               onClick={() => setActiveTab('code')}
@@ -230,7 +666,31 @@ export default function Home() {
                 ? 'bg-cyan-300 text-slate-900' 
                 : 'text-dark-textSecondary hover:text-dark-text'}`}
             >
-              Code Glazer
+              {t('tabs.code')}
+            </button>
+            <button 
+              onClick={() => setActiveTab('compare')}
+              className={`px-6 py-2 text-sm font-medium ${activeTab === 'compare' 
+                ? 'bg-cyan-300 text-slate-900' 
+                : 'text-dark-textSecondary hover:text-dark-text'}`}
+            >
+              {t('tabs.compare')}
+            </button>
+            <button 
+              onClick={() => setActiveTab('team')}
+              className={`px-6 py-2 text-sm font-medium ${activeTab === 'team' 
+                ? 'bg-cyan-300 text-slate-900' 
+                : 'text-dark-textSecondary hover:text-dark-text'}`}
+            >
+              {t('tabs.team')}
+            </button>
+            <button 
+              onClick={() => setActiveTab('contest')}
+              className={`px-6 py-2 text-sm font-medium ${activeTab === 'contest' 
+                ? 'bg-cyan-300 text-slate-900' 
+                : 'text-dark-textSecondary hover:text-dark-text'}`}
+            >
+              {t('tabs.contest')}
             </button>
           </div>
         </div>
@@ -250,7 +710,7 @@ export default function Home() {
               
               <div>
                 <label htmlFor="username" className="block text-sm font-medium text-dark-textSecondary mb-2">
-                  Codeforces Username
+                  {t('profile.label')}
                 </label>
                 <input
                   type="text"
@@ -258,15 +718,15 @@ export default function Home() {
                   value={username}
                   onChange={(e) => setUsername(e.target.value)}
                   className="w-full px-4 py-3 bg-dark-bg border border-dark-border rounded-lg focus:ring-2 focus:ring-cyan-300 focus:border-cyan-300 transition-all duration-200 text-white placeholder-gray-500"
-                  placeholder="Enter your Codeforces handle..."
+                  placeholder={t('profile.placeholder')}
                   disabled={loading}
                   maxLength={24}
                 />
-                <p className="text-sm text-dark-textSecondary mt-2">
-                  Each IP address can make 50 requests per day
-                </p>
+                <RateLimitStatus info={rateLimits.profile} />
               </div>
               
+              <PersonaPicker id="profilePersona" value={persona} onChange={setPersona} disabled={loading} />
+              
               <button
                 type="submit"
                 disabled={loading || !username.trim()}
@@ -278,61 +738,60 @@ export default function Home() {
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                       <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                     </svg>
-                    Generating amazing praise...
+                    {t('profile.loading')}
                   </span>
                 ) : (
-                  'Glaze My Profile'
+                  t('profile.submit')
                 )}
               </button>
             </form>
             
             {error && (
               <div className="bg-red-900/50 border border-red-700 text-red-200 px-6 py-4 rounded-lg mt-8 backdrop-blur-sm">
-                <strong>Error:</strong> {error}
+                <strong>{t('common.error')}</strong> {error}
               </div>
             )}
             
-            {userData && result && (
+            {result && (
               <div className="mt-8">
-                <div className="flex items-center mb-6">
-                  {userData.avatar && (
-                    <img 
-                      src={userData.avatar} 
-                      alt="Avatar" 
-                      className="w-16 h-16 rounded-full mr-4 ring-2 ring-cyan-300/30"
-                    />
-                  )}
-                  <div>
-                    <h2 className="text-2xl font-bold text-dark-text">{userData.handle}</h2>
-                    {userData.rating && (
-                      <div className="text-lg text-dark-textSecondary">
-                        Rating: <span className="font-semibold text-cyan-300">{userData.rating}</span>
-                        {userData.maxRating && userData.maxRating !== userData.rating && (
-                          <span className="ml-2 text-sm text-dark-textSecondary">(Max: {userData.maxRating})</span>
-                        )}
-                      </div>
-                    )}
-                    {userData.rank && (
-                      <div className="text-sm text-dark-textSecondary capitalize">{userData.rank}</div>
-                    )}
-                  </div>
-                </div>
+                {userData && (
+                  <ProfileHeader
+                    handle={userData.handle}
+                    avatar={userData.avatar}
+                    rating={userData.rating}
+                    maxRating={userData.maxRating}
+                    rank={userData.rank}
+                  />
+                )}
+                
+                {userData?.ratingHistory && userData.ratingHistory.ratedContests > 0 && (
+                  <RatingChart stats={userData.ratingHistory} />
+                )}
+                
+                {userData?.activity && (
+                  <ActivityHeatmap stats={userData.activity} />
+                )}
                 
                 <div className="prose prose-lg max-w-none">
                   <div className="p-6 rounded-lg border-l-4 border-amber-400 bg-amber-900/20 backdrop-blur-sm">
                     <h3 className="text-xl font-bold text-yellow-300 mb-4 flex items-center">
-                      Profile Evaluation
+                      {t('profile.resultTitle')}
                       {tokensUsed > 0 && (
                         <span className="ml-2 text-xs text-dark-textSecondary font-normal">
-                          ({tokensUsed} tokens used)
+                          {t('common.tokensUsed', { count: tokensUsed })}
                         </span>
                       )}
                     </h3>
                     <div className="text-dark-text whitespace-pre-wrap leading-relaxed">
                       {result}
                     </div>
+                    {filtered.profile && (
+                      <p className="text-xs text-dark-textSecondary mt-4">{t(filtered.profile)}</p>
+                    )}
                   </div>
                 </div>
+                
+                {permalink && <ShareLink permalink={permalink} />}
               </div>
             )}
           </div>
@@ -353,18 +812,31 @@ export default function Home() {
               
               <div>
                 <label htmlFor="codeFile" className="block text-sm font-medium text-dark-textSecondary mb-2">
-                  Upload Your Codeforces Submission
+                  {t('code.label')}
                 </label>
                 <input
                   type="file"
                   id="codeFile"
                   onChange={handleFileChange}
-                  accept=".cpp,.c,.py,.java,.js,.rb,.go,.txt,.cs,.php"
+                  accept=".cpp,.cc,.c,.h,.py,.java,.js,.rb,.go,.rs,.kt,.txt,.cs,.php"
                   className="w-full px-4 py-3 bg-dark-bg border border-dark-border rounded-lg focus:ring-2 focus:ring-cyan-300 focus:border-cyan-300 transition-all duration-200 text-white file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-cyan-300 file:text-slate-900 hover:file:bg-cyan-400"
                   disabled={codeLoading}
                 />
               </div>
               
+              <PersonaPicker id="codePersona" value={persona} onChange={setPersona} disabled={codeLoading} />
+              
+              <label className="flex items-center text-sm text-dark-textSecondary">
+                <input
+                  type="checkbox"
+                  checked={shareCode}
+                  onChange={(e) => setShareCode(e.target.checked)}
+                  disabled={codeLoading}
+                  className="mr-2 accent-cyan-300"
+                />
+                {t('code.shareCode')}
+              </label>
+              
               <div className="flex space-x-4">
                 <button
                   type="submit"
@@ -377,10 +849,10 @@ export default function Home() {
                         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                       </svg>
-                      Analyzing code...
+                      {t('code.loading')}
                     </span>
                   ) : (
-                    'Glaze My Code'
+                    t('code.submit')
                   )}
                 </button>
                 
@@ -389,18 +861,16 @@ export default function Home() {
                   onClick={handleClearCode}
                   className="px-6 py-3 rounded-lg font-semibold text-dark-textSecondary border border-dark-border hover:bg-dark-cardHover transition-all duration-200"
                 >
-                  Clear
+                  {t('code.clear')}
                 </button>
               </div>
               
-              <p className="text-sm text-dark-textSecondary">
-                Each IP address can make 50 requests per day
-              </p>
+              <RateLimitStatus info={rateLimits.code} />
             </form>
             
             {codeError && (
               <div className="bg-red-900/50 border border-red-700 text-red-200 px-6 py-4 rounded-lg mt-8 backdrop-blur-sm">
-                <strong>Error:</strong> {codeError}
+                <strong>{t('common.error')}</strong> {codeError}
               </div>
             )}
             
@@ -409,18 +879,324 @@ export default function Home() {
                 <div className="prose prose-lg max-w-none">
                   <div className="p-6 rounded-lg border-l-4 border-emerald-400 bg-emerald-900/20 backdrop-blur-sm">
                     <h3 className="text-xl font-bold text-green-300 mb-4 flex items-center">
-                      Code Evaluation: {codeFile.name}
+                      {t('code.resultTitle', { filename: codeFile.name })}
                       {codeTokensUsed > 0 && (
                         <span className="ml-2 text-xs text-dark-textSecondary font-normal">
-                          ({codeTokensUsed} tokens used)
+                          {t('common.tokensUsed', { count: codeTokensUsed })}
                         </span>
                       )}
                     </h3>
+                    {codePreprocessing && codePreprocessing.strippedLines > 0 && (
+                      <p className="text-xs text-dark-textSecondary mb-4">
+                        {t('code.preprocessing', {
+                          language: codePreprocessing.languageName,
+                          lines: codePreprocessing.strippedLines,
+                          percent: codePreprocessing.strippedPercent,
+                        })}
+                      </p>
+                    )}
                     <div className="text-dark-text whitespace-pre-wrap leading-relaxed">
                       {codeGlaze}
                     </div>
+                    {filtered.code && (
+                      <p className="text-xs text-dark-textSecondary mt-4">{t(filtered.code)}</p>
+                    )}
                   </div>
                 </div>
+                
+                {annotatedCode && (
+                  <div className="mt-6">
+                    <h3 className="text-lg font-semibold text-dark-text mb-3">{t('code.lineByLine')}</h3>
+                    <AnnotatedCode code={annotatedCode.code} annotations={annotatedCode.annotations} />
+                  </div>
+                )}
+                
+                {codePermalink && <ShareLink permalink={codePermalink} />}
+              </div>
+            )}
+          </div>
+        )}
+        
+        {/* Compare Tab */}
+        {activeTab === 'compare' && (
+          <div className="bg-dark-card border border-dark-border rounded-2xl card-shadow p-8 mb-8 transition-all duration-300 hover:card-shadow-hover hover:bg-dark-cardHover">
+            <form onSubmit={handleCompareSubmit} className="space-y-6">
+              {/* Honeypot field - hidden from humans */}
+              <input
+                type="text"
+                name="website"
+                style={{ display: 'none' }}
+                tabIndex={-1}
+                autoComplete="off"
+              />
+              
+              <div>
+                <label className="block text-sm font-medium text-dark-textSecondary mb-2">
+                  {t('compare.label')}
+                </label>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {compareHandles.map((handle, index) => (
+                    <input
+                      key={index}
+                      type="text"
+                      value={handle}
+                      onChange={(e) => setCompareHandles(prev => prev.map((h, i) => i === index ? e.target.value : h))}
+                      className="w-full px-4 py-3 bg-dark-bg border border-dark-border rounded-lg focus:ring-2 focus:ring-cyan-300 focus:border-cyan-300 transition-all duration-200 text-white placeholder-gray-500"
+                      placeholder={t('compare.handlePlaceholder', { number: index + 1 })}
+                      disabled={compareLoading}
+                      maxLength={24}
+                    />
+                  ))}
+                </div>
+                <div className="flex space-x-4 mt-2 text-sm">
+                  {compareHandles.length < 4 && (
+                    <button
+                      type="button"
+                      onClick={() => setCompareHandles(prev => [...prev, ''])}
+                      className="text-cyan-300 hover:text-cyan-400"
+                      disabled={compareLoading}
+                    >
+                      {t('compare.addHandle')}
+                    </button>
+                  )}
+                  {compareHandles.length > 2 && (
+                    <button
+                      type="button"
+                      onClick={() => setCompareHandles(prev => prev.slice(0, -1))}
+                      className="text-dark-textSecondary hover:text-dark-text"
+                      disabled={compareLoading}
+                    >
+                      {t('compare.removeLast')}
+                    </button>
+                  )}
+                </div>
+                <RateLimitStatus info={rateLimits.compare} />
+              </div>
+              
+              <PersonaPicker id="comparePersona" value={persona} onChange={setPersona} disabled={compareLoading} />
+              
+              <button
+                type="submit"
+                disabled={compareLoading || compareHandles.filter(handle => handle.trim()).length < 2}
+                className="w-full bg-cyan-300 text-slate-900 py-3 px-6 rounded-lg font-semibold text-lg transition-all duration-200 hover:bg-cyan-400 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl"
+              >
+                {compareLoading ? t('compare.loading') : t('compare.submit')}
+              </button>
+            </form>
+            
+            {compareError && (
+              <div className="bg-red-900/50 border border-red-700 text-red-200 px-6 py-4 rounded-lg mt-8 backdrop-blur-sm">
+                <strong>{t('common.error')}</strong> {compareError}
+              </div>
+            )}
+            
+            {(compareGlaze || comparison) && (
+              <div className="mt-8 grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  {comparison ? (
+                    <ComparisonTable comparison={comparison} />
+                  ) : (
+                    <div className="text-sm text-dark-textSecondary">{t('compare.crunching')}</div>
+                  )}
+                </div>
+                <div className="p-6 rounded-lg border-l-4 border-fuchsia-400 bg-fuchsia-900/20 backdrop-blur-sm">
+                  <h3 className="text-xl font-bold text-fuchsia-300 mb-4 flex items-center">
+                    {t('compare.resultTitle')}
+                    {compareTokensUsed > 0 && (
+                      <span className="ml-2 text-xs text-dark-textSecondary font-normal">
+                        {t('common.tokensUsed', { count: compareTokensUsed })}
+                      </span>
+                    )}
+                  </h3>
+                  <div className="text-dark-text whitespace-pre-wrap leading-relaxed">
+                    {compareGlaze}
+                  </div>
+                  {filtered.compare && (
+                    <p className="text-xs text-dark-textSecondary mt-4">{t(filtered.compare)}</p>
+                  )}
+                </div>
+                
+                {comparePermalink && (
+                  <div className="md:col-span-2">
+                    <ShareLink permalink={comparePermalink} />
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+        
+        {/* Team Tab */}
+        {activeTab === 'team' && (
+          <div className="bg-dark-card border border-dark-border rounded-2xl card-shadow p-8 mb-8 transition-all duration-300 hover:card-shadow-hover hover:bg-dark-cardHover">
+            <form onSubmit={handleTeamSubmit} className="space-y-6">
+              {/* Honeypot field - hidden from humans */}
+              <input
+                type="text"
+                name="website"
+                style={{ display: 'none' }}
+                tabIndex={-1}
+                autoComplete="off"
+              />
+              
+              <div>
+                <label htmlFor="teamHandles" className="block text-sm font-medium text-dark-textSecondary mb-2">
+                  {t('team.label')}
+                </label>
+                <textarea
+                  id="teamHandles"
+                  value={teamHandles}
+                  onChange={(e) => setTeamHandles(e.target.value)}
+                  className="w-full px-4 py-3 bg-dark-bg border border-dark-border rounded-lg focus:ring-2 focus:ring-cyan-300 focus:border-cyan-300 transition-all duration-200 text-white placeholder-gray-500"
+                  placeholder="tourist, Benq, jiangly"
+                  rows={3}
+                  disabled={teamLoading}
+                  maxLength={MAX_TEAM_SIZE * 26}
+                />
+                <p className="text-xs text-dark-textSecondary mt-1">
+                  {t('team.hint', { max: MAX_TEAM_SIZE })}
+                </p>
+                <RateLimitStatus info={rateLimits.team} />
+              </div>
+              
+              <PersonaPicker id="teamPersona" value={persona} onChange={setPersona} disabled={teamLoading} />
+              
+              <button
+                type="submit"
+                disabled={teamLoading || !teamHandles.trim()}
+                className="w-full bg-cyan-300 text-slate-900 py-3 px-6 rounded-lg font-semibold text-lg transition-all duration-200 hover:bg-cyan-400 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl"
+              >
+                {teamLoading ? t('team.loading') : t('team.submit')}
+              </button>
+            </form>
+            
+            {teamError && (
+              <div className="bg-red-900/50 border border-red-700 text-red-200 px-6 py-4 rounded-lg mt-8 backdrop-blur-sm">
+                <strong>{t('common.error')}</strong> {teamError}
+              </div>
+            )}
+            
+            {(teamGlaze || team) && (
+              <div className="mt-8 space-y-6">
+                <div className="p-6 rounded-lg border-l-4 border-fuchsia-400 bg-fuchsia-900/20 backdrop-blur-sm">
+                  <h3 className="text-xl font-bold text-fuchsia-300 mb-4 flex items-center">
+                    {t('team.resultTitle')}
+                    {teamTokensUsed > 0 && (
+                      <span className="ml-2 text-xs text-dark-textSecondary font-normal">
+                        {t('common.tokensUsed', { count: teamTokensUsed })}
+                      </span>
+                    )}
+                  </h3>
+                  <div className="text-dark-text whitespace-pre-wrap leading-relaxed">
+                    {teamGlaze}
+                  </div>
+                  {filtered.team && (
+                    <p className="text-xs text-dark-textSecondary mt-4">{t(filtered.team)}</p>
+                  )}
+                </div>
+                
+                {team ? (
+                  <TeamCardGrid team={team} shoutouts={teamShoutouts} />
+                ) : (
+                  <div className="text-sm text-dark-textSecondary">{t('team.scouting')}</div>
+                )}
+                
+                {teamPermalink && <ShareLink permalink={teamPermalink} />}
+              </div>
+            )}
+          </div>
+        )}
+        
+        {/* Contest Tab */}
+        {activeTab === 'contest' && (
+          <div className="bg-dark-card border border-dark-border rounded-2xl card-shadow p-8 mb-8 transition-all duration-300 hover:card-shadow-hover hover:bg-dark-cardHover">
+            <form onSubmit={handleContestSubmit} className="space-y-6">
+              {/* Honeypot field - hidden from humans */}
+              <input
+                type="text"
+                name="website"
+                style={{ display: 'none' }}
+                tabIndex={-1}
+                autoComplete="off"
+              />
+              
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="contestHandle" className="block text-sm font-medium text-dark-textSecondary mb-2">
+                    {t('contest.handleLabel')}
+                  </label>
+                  <input
+                    id="contestHandle"
+                    type="text"
+                    value={contestHandle}
+                    onChange={(e) => setContestHandle(e.target.value)}
+                    className="w-full px-4 py-3 bg-dark-bg border border-dark-border rounded-lg focus:ring-2 focus:ring-cyan-300 focus:border-cyan-300 transition-all duration-200 text-white placeholder-gray-500"
+                    placeholder="tourist"
+                    disabled={contestLoading}
+                    maxLength={24}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="contestId" className="block text-sm font-medium text-dark-textSecondary mb-2">
+                    {t('contest.contestLabel')}
+                  </label>
+                  <input
+                    id="contestId"
+                    type="text"
+                    value={contestInput}
+                    onChange={(e) => setContestInput(e.target.value)}
+                    className="w-full px-4 py-3 bg-dark-bg border border-dark-border rounded-lg focus:ring-2 focus:ring-cyan-300 focus:border-cyan-300 transition-all duration-200 text-white placeholder-gray-500"
+                    placeholder={t('contest.contestPlaceholder')}
+                    disabled={contestLoading}
+                    maxLength={200}
+                  />
+                </div>
+              </div>
+              <RateLimitStatus info={rateLimits.contest} />
+              
+              <PersonaPicker id="contestPersona" value={persona} onChange={setPersona} disabled={contestLoading} />
+              
+              <button
+                type="submit"
+                disabled={contestLoading || !contestHandle.trim() || !contestInput.trim()}
+                className="w-full bg-cyan-300 text-slate-900 py-3 px-6 rounded-lg font-semibold text-lg transition-all duration-200 hover:bg-cyan-400 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl"
+              >
+                {contestLoading ? t('contest.loading') : t('contest.submit')}
+              </button>
+            </form>
+            
+            {contestError && (
+              <div className="bg-red-900/50 border border-red-700 text-red-200 px-6 py-4 rounded-lg mt-8 backdrop-blur-sm">
+                <strong>{t('common.error')}</strong> {contestError}
+              </div>
+            )}
+            
+            {(contestGlaze || contestPerformance) && (
+              <div className="mt-8 space-y-6">
+                {contestPerformance ? (
+                  <ContestResult performance={contestPerformance} />
+                ) : (
+                  <div className="text-sm text-dark-textSecondary">{t('contest.reading')}</div>
+                )}
+                
+                <div className="p-6 rounded-lg border-l-4 border-fuchsia-400 bg-fuchsia-900/20 backdrop-blur-sm">
+                  <h3 className="text-xl font-bold text-fuchsia-300 mb-4 flex items-center">
+                    {t('contest.resultTitle')}
+                    {contestTokensUsed > 0 && (
+                      <span className="ml-2 text-xs text-dark-textSecondary font-normal">
+                        {t('common.tokensUsed', { count: contestTokensUsed })}
+                      </span>
+                    )}
+                  </h3>
+                  <div className="text-dark-text whitespace-pre-wrap leading-relaxed">
+                    {contestGlaze}
+                  </div>
+                  {filtered.contest && (
+                    <p className="text-xs text-dark-textSecondary mt-4">{t(filtered.contest)}</p>
+                  )}
+                </div>
+                
+                {contestPermalink && <ShareLink permalink={contestPermalink} />}
               </div>
             )}
           </div>
@@ -1,6 +1,19 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   // App directory is now stable in Next.js 14
+  images: {
+    // Codeforces avatars and title photos
+    remotePatterns: [
+      { protocol: 'https', hostname: 'userpic.codeforces.org' },
+      { protocol: 'https', hostname: 'cdn.codeforces.com' },
+    ],
+  },
+  experimental: {
+    // Share card fonts are read from disk at request time
+    outputFileTracingIncludes: {
+      '/api/og': ['./app/api/og/fonts/**/*'],
+    },
+  },
 }
 
 module.exports = nextConfig 
\ No newline at end of file
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest'
+import { calculateActivityStats, formatActivityStats } from '../app/api/lib/activity'
+import { Submission } from '../app/api/lib/types'
+import userStatus from './fixtures/codeforces/user.status.json'
+import userInfo from './fixtures/codeforces/user.info.json'
+
+const NOW = Date.parse('2026-03-02T12:00:00Z')
+
+let nextId = 1
+
+function submission(time: string, verdict: string, problem: string): Submission {
+  const [contestId, index] = problem.split('-')
+  return {
+    id: nextId++,
+    contestId: parseInt(contestId),
+    creationTimeSeconds: Date.parse(time) / 1000,
+    relativeTimeSeconds: 0,
+    problem: { contestId: parseInt(contestId), index, name: `Problem ${index}`, type: 'PROGRAMMING', tags: [] },
+    author: { contestId: parseInt(contestId), members: [{ handle: 'mango_lassi' }], participantType: 'PRACTICE', ghost: false, startTimeSeconds: 0 },
+    programmingLanguage: 'C++17 (GCC 7-32)',
+    verdict,
+    testset: 'TESTS',
+    passedTestCount: 10,
+    timeConsumedMillis: 15,
+    memoryConsumedBytes: 0,
+  } as Submission
+}
+
+describe('calculateActivityStats', () => {
+  it('summarises the recorded submissions', () => {
+    const stats = calculateActivityStats(
+      userStatus.result as Submission[],
+      userInfo.result[0].registrationTimeSeconds,
+      { now: NOW }
+    )
+
+    expect(stats).toMatchObject({
+      activeDays: 4,
+      solvingDays: 4,
+      longestStreak: { days: 1, start: '2024-10-25', end: '2024-10-25' },
+      currentStreak: null,
+      mostProductiveDay: { date: '2024-12-28', solved: 4 },
+      mostProductiveMonth: { month: '2024-12', solved: 5 },
+      peakHour: 14,
+      dominantTimeOfDay: 'afternoon',
+      yearsActive: 3.9,
+    })
+    expect(stats.timeOfDay).toEqual({ night: 0, morning: 0, afternoon: 8, evening: 2 })
+    // Everything is older than the heatmap's year
+    expect(stats.heatmap).toEqual({ start: '2025-03-03', end: '2026-03-02', days: {} })
+  })
+
+  it('finds the longest and the current daily solving streak', () => {
+    const stats = calculateActivityStats([
+      submission('2026-02-20T10:00:00Z', 'OK', '1-A'),
+      submission('2026-02-21T10:00:00Z', 'OK', '1-B'),
+      submission('2026-02-22T10:00:00Z', 'OK', '1-C'),
+      // Days with only failed attempts break a streak
+      submission('2026-02-23T10:00:00Z', 'WRONG_ANSWER', '1-D'),
+      submission('2026-03-01T10:00:00Z', 'OK', '1-D'),
+      submission('2026-03-02T09:00:00Z', 'OK', '1-E'),
+    ], undefined, { now: NOW })
+
+    expect(stats.longestStreak).toEqual({ days: 3, start: '2026-02-20', end: '2026-02-22' })
+    expect(stats.currentStreak).toEqual({ days: 2, start: '2026-03-01', end: '2026-03-02' })
+    expect(stats.activeDays).toBe(6)
+    expect(stats.solvingDays).toBe(5)
+  })
+
+  it('keeps a streak that ended yesterday but drops older ones', () => {
+    const endedYesterday = calculateActivityStats([submission('2026-03-01T10:00:00Z', 'OK', '1-A')], undefined, { now: NOW })
+    const endedEarlier = calculateActivityStats([submission('2026-02-28T10:00:00Z', 'OK', '1-A')], undefined, { now: NOW })
+
+    expect(endedYesterday.currentStreak).toEqual({ days: 1, start: '2026-03-01', end: '2026-03-01' })
+    expect(endedEarlier.currentStreak).toBeNull()
+    expect(endedEarlier.longestStreak).toEqual({ days: 1, start: '2026-02-28', end: '2026-02-28' })
+  })
+
+  it('uses the viewer\'s calendar days and hours', () => {
+    const submissions = [
+      submission('2026-02-28T23:30:00Z', 'OK', '1-A'),
+      submission('2026-03-01T22:15:00Z', 'OK', '1-B'),
+    ]
+
+    const utc = calculateActivityStats(submissions, undefined, { now: NOW })
+    expect(utc.longestStreak).toMatchObject({ days: 2, end: '2026-03-01' })
+    expect(utc.peakHour).toBe(22)
+    expect(utc.timeOfDay.evening).toBe(2)
+
+    // Two hours ahead of UTC both submissions land after midnight
+    const ahead = calculateActivityStats(submissions, undefined, { now: NOW, utcOffsetMinutes: 120 })
+    expect(ahead.longestStreak).toEqual({ days: 2, start: '2026-03-01', end: '2026-03-02' })
+    expect(ahead.hourDistribution[0]).toBe(1)
+    expect(ahead.hourDistribution[1]).toBe(1)
+    expect(ahead.dominantTimeOfDay).toBe('night')
+    expect(ahead.heatmap).toMatchObject({ end: '2026-03-02', days: { '2026-03-01': 1, '2026-03-02': 1 } })
+  })
+
+  it('only counts first solves towards the most productive day and month', () => {
+    const stats = calculateActivityStats([
+      submission('2026-01-10T10:00:00Z', 'OK', '1-A'),
+      submission('2026-01-10T11:00:00Z', 'OK', '1-B'),
+      submission('2026-02-03T10:00:00Z', 'OK', '1-C'),
+      // Re-solving old problems is not productivity
+      submission('2026-02-05T10:00:00Z', 'OK', '1-A'),
+      submission('2026-02-05T10:30:00Z', 'OK', '1-B'),
+      submission('2026-02-05T11:00:00Z', 'OK', '1-B'),
+    ], undefined, { now: NOW })
+
+    expect(stats.mostProductiveDay).toEqual({ date: '2026-01-10', solved: 2 })
+    expect(stats.mostProductiveMonth).toEqual({ month: '2026-01', solved: 2 })
+  })
+
+  it('counts every submission on the heatmap for the last 52 weeks', () => {
+    const stats = calculateActivityStats([
+      submission('2025-03-02T10:00:00Z', 'OK', '1-A'),
+      submission('2025-03-03T10:00:00Z', 'WRONG_ANSWER', '1-B'),
+      submission('2025-03-03T11:00:00Z', 'OK', '1-B'),
+      submission('2026-03-02T08:00:00Z', 'COMPILATION_ERROR', '1-C'),
+    ], undefined, { now: NOW })
+
+    expect(stats.heatmap).toEqual({
+      start: '2025-03-03',
+      end: '2026-03-02',
+      days: { '2025-03-03': 2, '2026-03-02': 1 },
+    })
+  })
+
+  it('handles a user without submissions', () => {
+    const stats = calculateActivityStats([], undefined, { now: NOW })
+
+    expect(stats).toMatchObject({
+      activeDays: 0,
+      solvingDays: 0,
+      longestStreak: null,
+      currentStreak: null,
+      mostProductiveDay: null,
+      mostProductiveMonth: null,
+      peakHour: null,
+      dominantTimeOfDay: null,
+      yearsActive: null,
+    })
+    expect(formatActivityStats(stats)).toBe('No submission activity yet')
+  })
+})
+
+describe('formatActivityStats', () => {
+  it('lists streaks, productive days and the time of day', () => {
+    const stats = calculateActivityStats([
+      submission('2026-02-28T02:00:00Z', 'OK', '1-A'),
+      submission('2026-03-01T03:00:00Z', 'OK', '1-B'),
+      submission('2026-03-01T03:20:00Z', 'OK', '1-C'),
+      submission('2026-03-02T15:00:00Z', 'WRONG_ANSWER', '1-D'),
+    ], Date.parse('2024-09-01T00:00:00Z') / 1000, { now: NOW })
+
+    const text = formatActivityStats(stats)
+    expect(text).toContain('- Years on Codeforces: 1.5\n')
+    expect(text).toContain('- Active Days: 3 (2 with an accepted solution)\n')
+    expect(text).toContain('- Longest Daily Solving Streak: 2 days (2026-02-28 to 2026-03-01)\n')
+    expect(text).toContain('- Current Solving Streak: 2 days (2026-02-28 to 2026-03-01)\n')
+    expect(text).toContain('- Most Productive Day: 2026-03-01 (2 new problems solved)\n')
+    expect(text).toContain('- Busiest Hour: 3 AM (2 submissions)\n')
+    expect(text).toContain('night 75%, morning 0%, afternoon 25%, evening 0%')
+    expect(text).toContain('Night owl')
+  })
+})
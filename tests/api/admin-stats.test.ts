@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET } from '../../app/api/admin/stats/route'
+import { checkTokenBudget, recordTokenUsage } from '../../app/api/lib/token-budget'
+import { recordError, recordGlaze, recordRejection, recordRequest } from '../../app/api/lib/usage-stats'
+import { failKV } from '../helpers/kv'
+
+function getStats(query = '', secret: string | null = 'hunter2') {
+  const headers = new Headers()
+  if (secret !== null) headers.set('authorization', `Bearer ${secret}`)
+  return GET(new NextRequest(`https://cfglaze.vercel.app/api/admin/stats${query}`, { headers }))
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(new Date('2026-03-02T12:00:00Z'))
+  vi.stubEnv('ADMIN_SECRET', 'hunter2')
+})
+
+describe('GET /api/admin/stats', () => {
+  it('reports the recorded usage per day', async () => {
+    await recordRequest('profile')
+    await recordRequest('profile')
+    await recordRequest('team')
+    await recordGlaze('profile', ['tourist'])
+    await recordGlaze('team', ['tourist', 'mango_lassi'])
+    await recordError('team', new Error('Request timed out'))
+    await recordRejection('profile', 'rate_limit')
+    await recordTokenUsage(await checkTokenBudget('profile', '203.0.113.7', { promptTokens: 500, maxCompletionTokens: 500 }), 653)
+
+    const response = await getStats('?days=2')
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Cache-Control')).toBe('no-store')
+    expect(data.days.map((day: { day: string }) => day.day)).toEqual(['2026-03-02', '2026-03-01'])
+    expect(data.days[0]).toMatchObject({
+      requests: { profile: 2, team: 1 },
+      glazes: { profile: 1, team: 1 },
+      errors: { 'team:internal': 1 },
+      rejections: { 'profile:rate_limit': 1 },
+      tokens: { total: 653, profile: 653, team: 0 },
+    })
+    expect(data.days[1].tokens.total).toBe(0)
+    expect(data.topHandles).toEqual([{ handle: 'tourist', count: 2 }, { handle: 'mango_lassi', count: 1 }])
+    expect(data.budgets).toEqual({ global: 2_000_000, client: 60_000, maxPrompt: 12_000 })
+  })
+
+  it('defaults to a week and caps the range at 30 days', async () => {
+    expect((await (await getStats()).json()).days).toHaveLength(7)
+    expect((await (await getStats('?days=365')).json()).days).toHaveLength(30)
+  })
+
+  it('rejects requests without the admin secret', async () => {
+    expect((await getStats('', null)).status).toBe(401)
+    expect((await getStats('', 'hunter3')).status).toBe(401)
+  })
+
+  it('is disabled until an admin secret is configured', async () => {
+    vi.stubEnv('ADMIN_SECRET', '')
+
+    const response = await getStats('', '')
+
+    expect(response.status).toBe(503)
+    expect(await response.json()).toEqual({ error: 'Admin dashboard is not configured' })
+  })
+
+  it('reports KV outages instead of empty stats', async () => {
+    failKV()
+
+    const response = await getStats()
+
+    expect(response.status).toBe(503)
+    expect(await response.json()).toEqual({ error: 'Usage stats are unavailable' })
+  })
+})
@@ -0,0 +1,269 @@
+import { describe, expect, it, vi } from 'vitest'
+import { POST } from '../../app/api/glaze-code/route'
+import { readGlazeStream } from '../../app/lib/glaze-stream'
+import { ChatMessage, createMockProvider, getLLMProvider } from '../../app/api/lib/llm'
+import { REDACTED_MARKER, findInjectionAttempts, leaksSystemPrompt } from '../../app/api/lib/prompt-injection'
+import { createCompletion, replayCompletion } from '../helpers/openai'
+import { readKV } from '../helpers/kv'
+import { postRequest } from '../helpers/requests'
+import codeCompletion from '../fixtures/openai/chat-completion-code.json'
+import injectionCorpus from '../fixtures/prompt-injection/corpus.json'
+
+// Matches the line numbers in the recorded code review
+const CODE = [
+  '#include <bits/stdc++.h>',
+  'using namespace std;',
+  'int main() {',
+  '    int n; cin >> n;',
+  '    long long best = 0, sum = 0;',
+  '    for (int i = 0; i < n; i++) {',
+  '        long long x; cin >> x; sum = max(x, sum + x); best = max(best, sum);',
+  '    }',
+  "    cout << best << '\\n';",
+  '}',
+].join('\n')
+
+const REVIEW = JSON.parse(codeCompletion.choices[0].message.content)
+
+// Follows any instruction it can find in the submission, like a model with no defenses:
+// anything about its prompt, instructions or secrets gets the system prompt back.
+// It doesn't use the detector, so only what the route removed keeps it in line.
+const OBEYED = /\binstructions\b|\bprompt\b|everything above|secret|PWNED|pretend|instruções|инструкции|промпт|指令|提示/i
+
+function gullibleReply(messages: ChatMessage[]): string {
+  const compromised = OBEYED.test(messages[1].content)
+  return JSON.stringify({
+    glaze: compromised ? `Sure! Here are my instructions: ${messages[0].content}` : 'What a loop!',
+    annotations: [],
+  })
+}
+
+// Runs the route against the offline mock provider answering with `respond`
+function useMockModel(respond: (messages: ChatMessage[]) => string) {
+  vi.stubEnv('LLM_PROVIDER', 'mock')
+  const model = createMockProvider({ respond })
+  return vi.spyOn(getLLMProvider(), 'complete').mockImplementation(request => model.complete(request))
+}
+
+function glazeCode(body: Record<string, unknown>, headers?: Record<string, string | null>) {
+  return POST(postRequest('/api/glaze-code', { filename: 'solution.cpp', honeypot: '', ...body }, headers))
+}
+
+describe('POST /api/glaze-code', () => {
+  it('returns the glaze with line-anchored annotations', async () => {
+    replayCompletion(codeCompletion)
+
+    const response = await glazeCode({ code: CODE })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.glaze).toBe(REVIEW.glaze)
+    expect(data.annotations).toEqual([
+      expect.objectContaining({ startLine: 6, endLine: 8, comment: REVIEW.annotations[0].comment }),
+      expect.objectContaining({ startLine: 9, endLine: 9, comment: REVIEW.annotations[1].comment }),
+    ])
+    expect(data.preprocessing).toMatchObject({ language: 'cpp' })
+    expect(data.tokensUsed).toBe(585)
+
+    const params = createCompletion.mock.calls[0][0]
+    expect(params.response_format).toEqual({ type: 'json_object' })
+    expect(params.messages[1].content).toContain(' 6 |     for (int i = 0; i < n; i++) {')
+  })
+
+  it('keeps the JSON keys when asked for another language', async () => {
+    replayCompletion(codeCompletion)
+
+    const response = await glazeCode({ code: CODE, language: 'zh' })
+
+    expect(response.status).toBe(200)
+    const systemPrompt = createCompletion.mock.calls[0][0].messages[0].content
+    expect(systemPrompt).toContain('Write your entire response in Simplified Chinese')
+    expect(systemPrompt).toContain('keep every key and the structure unchanged')
+  })
+
+  it('rejects unsupported languages', async () => {
+    const response = await glazeCode({ code: CODE, language: 'klingon' })
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: 'Unsupported language', code: 'unsupported_language' })
+    expect(createCompletion).not.toHaveBeenCalled()
+  })
+
+  it('streams only the glaze text out of the JSON reply', async () => {
+    replayCompletion(codeCompletion)
+
+    const response = await glazeCode({ code: CODE, stream: true })
+    const deltas: string[] = []
+    const data = await readGlazeStream<{ glaze: string; annotations: unknown[] }>(response, delta => deltas.push(delta))
+
+    expect(deltas.join('')).toBe(REVIEW.glaze)
+    expect(data.annotations).toHaveLength(2)
+  })
+
+  it('falls back to the plain reply when the model ignores the JSON format', async () => {
+    replayCompletion(codeCompletion, 'MY KEYBOARD JUST BURST INTO FLAMES. What a loop.')
+
+    const data = await (await glazeCode({ code: CODE })).json()
+
+    expect(data.glaze).toBe('MY KEYBOARD JUST BURST INTO FLAMES. What a loop.')
+    expect(data.annotations).toEqual([])
+  })
+
+  it('filters annotation comments as well as the glaze', async () => {
+    vi.stubEnv('SAFETY_EXTRA_TERMS', 'royalty')
+    replayCompletion(codeCompletion)
+
+    const data = await (await glazeCode({ code: CODE })).json()
+
+    expect(data.glaze).toBe(REVIEW.glaze)
+    expect(data.annotations[0].comment).toBe('One loop. One pass. Linear time r******.')
+    expect(data.safety).toMatchObject({ filtered: true, masked: true, categories: ['custom'] })
+  })
+
+  it('rejects a non-boolean safeMode', async () => {
+    const response = await glazeCode({ code: CODE, safeMode: 1 })
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: 'safeMode must be true or false', code: 'invalid_safe_mode' })
+  })
+
+  it('keeps the instructions and the submission in separate roles', async () => {
+    replayCompletion(codeCompletion)
+
+    await glazeCode({ code: CODE })
+
+    const [system, user] = createCompletion.mock.calls[0][0].messages
+    const tag = user.content.match(/^<(submission-[0-9a-f]{16})>\n/)[1]
+    expect(user.content.endsWith(`\n</${tag}>`)).toBe(true)
+    expect(user.content).not.toContain('Respond with a single JSON object')
+    expect(system.content).toContain('Respond with a single JSON object')
+    expect(system.content).toContain(`between <${tag}> and </${tag}>`)
+  })
+
+  describe('prompt injection corpus', () => {
+    it.each(injectionCorpus.attacks)('keeps "$name" away from the model', async ({ code, filename }) => {
+      const complete = useMockModel(gullibleReply)
+
+      const response = await glazeCode({ code, filename })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.glaze).toBe('What a loop!')
+      expect(data.promptGuard).toEqual({ redacted: expect.any(Number), promptLeaked: false })
+      expect(data.promptGuard.redacted).toBeGreaterThan(0)
+      const submission = complete.mock.calls[0][0].messages[1].content
+      expect(submission).toContain(REDACTED_MARKER)
+      expect(findInjectionAttempts(submission)).toEqual([])
+    })
+
+    it.each(injectionCorpus.benign)('glazes $name as usual', async ({ code, filename }) => {
+      const complete = useMockModel(gullibleReply)
+
+      const data = await (await glazeCode({ code, filename })).json()
+
+      expect(data.promptGuard).toEqual({ redacted: 0, promptLeaked: false })
+      expect(complete.mock.calls[0][0].messages[1].content).not.toContain(REDACTED_MARKER)
+    })
+  })
+
+  it('throws away replies that leak the system prompt', async () => {
+    useMockModel(messages => JSON.stringify({
+      glaze: `Sure! ${messages[0].content}`,
+      annotations: [{ startLine: 6, endLine: 8, quote: 'for (int i = 0; i < n; i++) {', comment: 'Nice loop.' }],
+    }))
+
+    const data = await (await glazeCode({ code: CODE })).json()
+
+    expect(data.glaze).toBe('Your code is absolutely amazing!')
+    expect(data.annotations).toEqual([])
+    expect(data.promptGuard).toEqual({ redacted: 0, promptLeaked: true })
+  })
+
+  it('streams the glaze in several deltas before the final event', async () => {
+    const glaze = 'THIS LOOP IS ART. One pass over the input, no wasted work, and the output is formatted '
+      + 'exactly as the judge wants it. Linear time royalty, written by someone who clearly knows the craft.'
+    useMockModel(() => JSON.stringify({ glaze, annotations: [] }))
+
+    const response = await glazeCode({ code: CODE, stream: true })
+    const deltas: string[] = []
+    const data = await readGlazeStream<{ glaze: string }>(response, delta => deltas.push(delta))
+
+    expect(deltas.length).toBeGreaterThan(2)
+    expect(deltas.join('')).toBe(glaze)
+    expect(data.glaze).toBe(glaze)
+  })
+
+  it('stops streaming as soon as the reply leaks the system prompt', async () => {
+    const complete = useMockModel(messages => JSON.stringify({
+      glaze: `What a loop, what a clean solution, truly one for the ages. ${messages[0].content}`,
+      annotations: [],
+    }))
+
+    const response = await glazeCode({ code: CODE, stream: true })
+    const deltas: string[] = []
+    const data = await readGlazeStream<{ glaze: string; promptGuard: unknown }>(response, delta => deltas.push(delta))
+
+    const [system, user] = complete.mock.calls[0][0].messages
+    const tag = user.content.match(/^<(submission-[0-9a-f]{16})>\n/)![1]
+    expect(deltas.join('')).toMatch(/^What a loop/)
+    expect(leaksSystemPrompt(deltas.join(''), system.content, tag)).toBe(false)
+    expect(data.glaze).toBe('Your code is absolutely amazing!')
+    expect(data.promptGuard).toEqual({ redacted: 0, promptLeaked: true })
+  })
+
+  it('streams submissions with injection attempts through the same check', async () => {
+    useMockModel(gullibleReply)
+
+    const response = await glazeCode({ code: injectionCorpus.attacks[0].code, stream: true })
+    const deltas: string[] = []
+    const data = await readGlazeStream<{ glaze: string }>(response, delta => deltas.push(delta))
+
+    expect(deltas.join('')).toBe('What a loop!')
+    expect(data.glaze).toBe('What a loop!')
+  })
+
+  it('only stores the code and annotations on the share page when opted in', async () => {
+    replayCompletion(codeCompletion)
+
+    const privateGlaze = await (await glazeCode({ code: CODE })).json()
+    const sharedGlaze = await (await glazeCode({ code: CODE, shareCode: true })).json()
+
+    const privateRecord = readKV(`glaze:${privateGlaze.permalink.slice(3)}`)
+    const sharedRecord = readKV(`glaze:${sharedGlaze.permalink.slice(3)}`)
+    expect(privateRecord).not.toHaveProperty('code')
+    expect(privateRecord).not.toHaveProperty('annotations')
+    expect(sharedRecord).toMatchObject({ code: CODE, annotations: sharedGlaze.annotations })
+  })
+
+  it('answers filled honeypots with a canned glaze and no LLM call', async () => {
+    const response = await glazeCode({ code: CODE, honeypot: 'https://spam.example' })
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ annotations: [], tokensUsed: 0 })
+    expect(createCompletion).not.toHaveBeenCalled()
+  })
+
+  it('requires code', async () => {
+    const response = await glazeCode({ code: '' })
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: 'Code is required', code: 'code_required' })
+  })
+
+  it('rejects foreign origins and non-browser clients', async () => {
+    const foreign = await glazeCode({ code: CODE }, { origin: 'https://evil.example', referer: null })
+    const bot = await glazeCode({ code: CODE }, { 'user-agent': 'python-requests/2.32.3' })
+
+    expect(foreign.status).toBe(403)
+    expect(bot.status).toBe(403)
+    expect(await bot.json()).toEqual({ error: 'Invalid user agent', code: 'invalid_user_agent' })
+  })
+
+  it('rejects code too large to prompt with', async () => {
+    const response = await glazeCode({ code: 'int x = 0;\n'.repeat(6000) })
+
+    expect(response.status).toBe(413)
+    expect((await response.json()).error).toMatch(/^Input is too large to glaze/)
+    expect(createCompletion).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { POST } from '../../app/api/glaze-compare/route'
+import { stubCodeforces } from '../helpers/codeforces'
+import { createCompletion } from '../helpers/openai'
+import { postRequest, settle } from '../helpers/requests'
+import userInfo from '../fixtures/codeforces/user.info.json'
+import userStatus from '../fixtures/codeforces/user.status.json'
+import userNotFound from '../fixtures/codeforces/user-not-found.json'
+
+function glazeCompare(body: unknown, headers?: Record<string, string | null>) {
+  return settle(POST(postRequest('/api/glaze-compare', body, headers)))
+}
+
+// The recorded user plus a rival who only has the five newest submissions
+function stubTwoUsers() {
+  return stubCodeforces({
+    'user.info': params => ({
+      ...userInfo,
+      result: [{ ...userInfo.result[0], handle: params.get('handles'), rating: params.get('handles') === 'rival' ? 1490 : 1642 }],
+    }),
+    'user.status': params => ({
+      ...userStatus,
+      result: params.get('handle') === 'rival' ? userStatus.result.slice(0, 5) : userStatus.result,
+    }),
+  })
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] })
+})
+
+describe('POST /api/glaze-compare', () => {
+  it('compares two handles from the recorded Codeforces data', async () => {
+    const fetchMock = stubTwoUsers()
+
+    const response = await glazeCompare({ handles: ['mango_lassi', 'rival'] })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.users.map((user: { handle: string }) => user.handle)).toEqual(['mango_lassi', 'rival'])
+    expect(data.comparison.handles).toEqual(['mango_lassi', 'rival'])
+    expect(data.comparison.sharedSolved.count).toBe(3)
+    expect(data.tokensUsed).toBe(653)
+    expect(fetchMock).toHaveBeenCalledTimes(4)
+    expect(createCompletion).toHaveBeenCalledTimes(1)
+  })
+
+  it.each([
+    [{ handles: ['mango_lassi'] }, 'Compare between 2 and 4 handles', 'compare_handle_count'],
+    [{ handles: ['mango_lassi', 'MANGO_LASSI'] }, 'Handles must be different', 'handles_duplicate'],
+    [{ handles: ['mango_lassi', 'bad handle'] }, 'Username contains invalid characters', 'username_invalid'],
+    [{ handles: 'mango_lassi,rival' }, 'Handles must be a list of usernames', 'handles_not_list'],
+  ])('validates the body: %j', async (body, error, code) => {
+    stubTwoUsers()
+
+    const response = await glazeCompare(body)
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({ error, code })
+  })
+
+  it('turns away filled honeypots, foreign origins and oversized bodies', async () => {
+    const fetchMock = stubTwoUsers()
+
+    const honeypot = await glazeCompare({ handles: ['mango_lassi', 'rival'], honeypot: 'x' })
+    const foreign = await glazeCompare({ handles: ['mango_lassi', 'rival'] }, { origin: 'https://evil.example', referer: null })
+    const oversized = await glazeCompare({ handles: ['mango_lassi', 'rival'], padding: 'x'.repeat(1100) })
+
+    expect([honeypot.status, foreign.status, oversized.status]).toEqual([400, 403, 413])
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('passes through Codeforces errors', async () => {
+    stubCodeforces({ 'user.info': () => userNotFound })
+
+    const response = await glazeCompare({ handles: ['mango_lassi', 'no_such_user'] })
+
+    expect(response.status).toBe(404)
+    expect(await response.json()).toMatchObject({ kind: 'not_found' })
+  })
+})
@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { POST } from '../../app/api/glaze-contest/route'
+import { readGlazeStream } from '../../app/lib/glaze-stream'
+import { calledMethods, stubCodeforces } from '../helpers/codeforces'
+import { createCompletion } from '../helpers/openai'
+import { postRequest, settle } from '../helpers/requests'
+import { readKV } from '../helpers/kv'
+import contestStandings from '../fixtures/codeforces/contest.standings.json'
+import ratingChangesUnavailable from '../fixtures/codeforces/rating-changes-unavailable.json'
+
+function glazeContest(body: unknown, headers?: Record<string, string | null>) {
+  return settle(POST(postRequest('/api/glaze-contest', body, headers)))
+}
+
+// The recorded standings moved to a gym contest id
+function gymStandings() {
+  const { contest } = contestStandings.result
+  return { ...contestStandings, result: { ...contestStandings.result, contest: { ...contest, id: 104520, type: 'ICPC' } } }
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] })
+})
+
+describe('POST /api/glaze-contest', () => {
+  it('glazes one contest from its standings and rating changes', async () => {
+    const fetchMock = stubCodeforces()
+
+    const response = await glazeContest({ handle: 'mango_lassi', contestId: 2049 })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(calledMethods(fetchMock)).toEqual(['contest.standings', 'contest.ratingChanges'])
+    const params = new URL(String(fetchMock.mock.calls[0][0])).searchParams
+    expect(params.get('handles')).toBe('mango_lassi')
+    expect(params.get('showUnofficial')).toBe('true')
+
+    expect(data.performance).toMatchObject({
+      handle: 'mango_lassi',
+      rank: 812,
+      solvedCount: 4,
+      ratingStatus: 'rated',
+      ratingChange: { delta: 158 },
+    })
+    expect(data.performance.fastestSolves.map((problem: { index: string }) => problem.index)).toEqual(['A', 'B', 'C'])
+    expect(data.tokensUsed).toBe(653)
+
+    const prompt = createCompletion.mock.calls[0][0].messages[1].content
+    expect(prompt).toContain('Fastest solves (time since the previous solve): A. MEX Destruction')
+  })
+
+  it('accepts the contest id as a string and stores the performance behind the permalink', async () => {
+    stubCodeforces()
+
+    const response = await glazeContest({ handle: 'mango_lassi', contestId: '2049', stream: true })
+    const data = await readGlazeStream<{ performance: { rank: number }; permalink: string }>(response, () => {})
+
+    expect(data.performance.rank).toBe(812)
+    expect(readKV(`glaze:${data.permalink.slice(3)}`)).toMatchObject({ type: 'contest', performance: { rank: 812 } })
+  })
+
+  it('skips rating changes for gym contests', async () => {
+    const fetchMock = stubCodeforces({ 'contest.standings': () => gymStandings() })
+
+    const data = await (await glazeContest({ handle: 'mango_lassi', contestId: 104520 })).json()
+
+    expect(calledMethods(fetchMock)).toEqual(['contest.standings'])
+    expect(data.performance).toMatchObject({ contest: { gym: true }, ratingStatus: 'gym', ratingChange: null })
+  })
+
+  it('treats unavailable rating changes as an unrated contest', async () => {
+    stubCodeforces({ 'contest.ratingChanges': () => ratingChangesUnavailable })
+
+    const response = await glazeContest({ handle: 'mango_lassi', contestId: 2049 })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.performance).toMatchObject({ ratingStatus: 'unrated', ratingChange: null })
+  })
+
+  it('answers 404 for a handle that did not take part', async () => {
+    stubCodeforces()
+
+    const response = await glazeContest({ handle: 'kiwi_tart', contestId: 2049 })
+
+    expect(response.status).toBe(404)
+    expect(await response.json()).toEqual({
+      error: 'kiwi_tart did not take part in Codeforces Round 994 (Div. 2)',
+      code: 'not_in_contest',
+      params: { handle: 'kiwi_tart', contest: 'Codeforces Round 994 (Div. 2)' },
+    })
+    expect(createCompletion).not.toHaveBeenCalled()
+  })
+
+  it.each([
+    [{ contestId: 2049 }, 'Username is required', 'username_required'],
+    [{ handle: 'bad handle', contestId: 2049 }, 'Username contains invalid characters', 'username_invalid'],
+    [{ handle: 'mango_lassi' }, 'Contest ID must be a positive number', 'contest_id_invalid'],
+    [{ handle: 'mango_lassi', contestId: -5 }, 'Contest ID must be a positive number', 'contest_id_invalid'],
+    [{ handle: 'mango_lassi', contestId: '2049;2050' }, 'Contest ID must be a positive number', 'contest_id_invalid'],
+  ])('validates the body: %j', async (body, error, code) => {
+    const fetchMock = stubCodeforces()
+
+    const response = await glazeContest(body)
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error, code })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
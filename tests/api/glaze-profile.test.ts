@@ -0,0 +1,229 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { POST } from '../../app/api/glaze-profile/route'
+import { readGlazeStream } from '../../app/lib/glaze-stream'
+import { tokenKey } from '../../app/api/lib/token-budget'
+import { DEFAULT_PERSONA } from '../../app/lib/personas'
+import { calledMethods, stubCodeforces } from '../helpers/codeforces'
+import { createCompletion, replayCompletion } from '../helpers/openai'
+import { failKV, readKV } from '../helpers/kv'
+import { postRequest, settle } from '../helpers/requests'
+import completionFixture from '../fixtures/openai/chat-completion.json'
+import userNotFound from '../fixtures/codeforces/user-not-found.json'
+
+function glazeProfile(body: unknown, headers?: Record<string, string | null>) {
+  return settle(POST(postRequest('/api/glaze-profile', body, headers)))
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] })
+  vi.setSystemTime(new Date('2026-03-02T12:00:00Z'))
+})
+
+describe('POST /api/glaze-profile', () => {
+  it('glazes a profile from the recorded Codeforces data', async () => {
+    const fetchMock = stubCodeforces()
+
+    const response = await glazeProfile({ username: 'mango_lassi', honeypot: '' })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.glaze).toBe(completionFixture.choices[0].message.content)
+    expect(data.tokensUsed).toBe(653)
+    expect(data.persona).toBe(DEFAULT_PERSONA)
+    expect(data.userData).toMatchObject({ handle: 'mango_lassi', rating: 1642, maxRating: 1688, rank: 'expert' })
+    expect(data.userData.ratingHistory).toMatchObject({ ratedContests: 4, bestRank: { rank: 812 } })
+    expect(data.userData.activity).toMatchObject({ activeDays: 4, mostProductiveDay: { date: '2024-12-28', solved: 4 } })
+    expect(data.participation).toMatchObject({ contestsEntered: 2, byType: { contest: { solved: 5 }, practice: { solved: 2 } } })
+    expect(data.verdictBreakdown).toMatchObject({ judged: 10, verdicts: { accepted: 7, time_limit: 1 }, firstTryAccepted: 4 })
+    expect(data.permalink).toMatch(/^\/g\/[A-Za-z0-9]{8}$/)
+    expect(calledMethods(fetchMock).sort()).toEqual(['user.info', 'user.rating', 'user.status'])
+
+    // The prompt carries the computed stats
+    const prompt = createCompletion.mock.calls[0][0].messages[1].content
+    expect(prompt).toContain('Current Rating: 1642')
+    expect(prompt).toContain('- Acceptance Rate: 70%')
+    expect(prompt).toContain('Problem Ratings Distribution (Total: 6 unique problems solved)')
+    expect(prompt).toContain('- Most Productive Day: 2024-12-28 (4 new problems solved)')
+    expect(prompt).toContain('- Time Limit Exceeded: 1 (10%)')
+    expect(prompt).toContain('- Hardest Problem Solved Live: 2049D Shift + Esc (1900)')
+
+    expect(response.headers.get('RateLimit-Limit')).toBe('50')
+    expect(readKV(tokenKey('2026-03-02', 'global'))).toBe(653)
+    expect(readKV(`glaze:${data.permalink.slice(3)}`)).toMatchObject({ type: 'profile', glaze: data.glaze })
+  })
+
+  it('streams the glaze when asked to', async () => {
+    stubCodeforces()
+
+    const response = await glazeProfile({ username: 'mango_lassi', stream: true })
+    const deltas: string[] = []
+    const data = await readGlazeStream<{ glaze: string; tokensUsed: number }>(response, delta => deltas.push(delta))
+
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream')
+    expect(deltas.length).toBeGreaterThan(1)
+    expect(deltas.join('')).toBe(data.glaze)
+    expect(data.tokensUsed).toBe(630)
+  })
+
+  it('asks for the glaze in the requested language', async () => {
+    stubCodeforces()
+
+    const response = await glazeProfile({ username: 'mango_lassi', language: 'ru' })
+
+    expect(response.status).toBe(200)
+    const systemPrompt = createCompletion.mock.calls[0][0].messages[0].content
+    expect(systemPrompt).toContain('Write your entire response in Russian')
+    expect(systemPrompt).toContain('"Div. 2"')
+  })
+
+  it('uses the family-friendly prompt and masks what slips through in safe mode', async () => {
+    stubCodeforces()
+    replayCompletion(undefined, 'Damn, 1642 already? What the hell is this climb!')
+
+    const response = await glazeProfile({ username: 'mango_lassi', persona: 'meltdown', safeMode: true })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.glaze).toBe('D***, 1642 already? What the h*** is this climb!')
+    expect(data.safety).toEqual({ safeMode: true, filtered: true, regenerated: false, replaced: false, masked: true, categories: ['profanity'] })
+    expect(readKV(`glaze:${data.permalink.slice(3)}`)).toMatchObject({ glaze: data.glaze })
+
+    const systemPrompt = createCompletion.mock.calls[0][0].messages[0].content
+    expect(systemPrompt).not.toContain('Swear')
+    expect(systemPrompt).toContain('family friendly')
+  })
+
+  it('keeps light swearing outside safe mode', async () => {
+    stubCodeforces()
+    replayCompletion(undefined, 'Damn, 1642 already?')
+
+    const data = await (await glazeProfile({ username: 'mango_lassi', persona: 'meltdown' })).json()
+
+    expect(data.glaze).toBe('Damn, 1642 already?')
+    expect(data.safety).toMatchObject({ safeMode: false, filtered: false })
+  })
+
+  it('rejects bodies over 1KB', async () => {
+    const fetchMock = stubCodeforces()
+
+    const response = await glazeProfile({ username: 'mango_lassi', padding: 'x'.repeat(1100) })
+
+    expect(response.status).toBe(413)
+    expect(await response.json()).toEqual({ error: 'Request too large', code: 'request_too_large' })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('rejects foreign origins and non-browser clients', async () => {
+    const fetchMock = stubCodeforces()
+
+    const foreign = await glazeProfile({ username: 'mango_lassi' }, { origin: 'https://evil.example', referer: null })
+    const curl = await glazeProfile({ username: 'mango_lassi' }, { 'user-agent': 'curl/8.5.0' })
+
+    expect(foreign.status).toBe(403)
+    expect(await foreign.json()).toEqual({ error: 'Invalid request origin', code: 'invalid_origin' })
+    expect(curl.status).toBe(403)
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('turns away filled honeypots without calling Codeforces or the LLM', async () => {
+    const fetchMock = stubCodeforces()
+
+    const response = await glazeProfile({ username: 'mango_lassi', honeypot: 'https://spam.example' })
+
+    expect(response.status).toBe(400)
+    expect(fetchMock).not.toHaveBeenCalled()
+    expect(createCompletion).not.toHaveBeenCalled()
+  })
+
+  it.each([
+    [{}, 'Username is required', 'username_required'],
+    [{ username: 'x'.repeat(25) }, 'Username must be between 1 and 24 characters', 'username_length'],
+    [{ username: 'mango lassi' }, 'Username contains invalid characters', 'username_invalid'],
+    [{ username: 'mango_lassi', persona: 'nonexistent' }, 'Unknown persona', 'unknown_persona'],
+    [{ username: 'mango_lassi', language: 'fr' }, 'Unsupported language', 'unsupported_language'],
+    [{ username: 'mango_lassi', safeMode: 'yes' }, 'safeMode must be true or false', 'invalid_safe_mode'],
+    [{ username: 'mango_lassi', utcOffsetMinutes: 900 }, 'Invalid time zone offset', 'invalid_utc_offset'],
+    [{ username: 'mango_lassi', utcOffsetMinutes: '60' }, 'Invalid time zone offset', 'invalid_utc_offset'],
+  ])('validates the body: %j', async (body, error, code) => {
+    stubCodeforces()
+
+    const response = await glazeProfile(body)
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error, code })
+  })
+
+  it('counts activity in the viewer\'s time zone', async () => {
+    stubCodeforces()
+
+    // Nine hours ahead of UTC the afternoon round of 2024-12-28 runs past midnight
+    const response = await glazeProfile({ username: 'mango_lassi', utcOffsetMinutes: 540 })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.userData.activity).toMatchObject({
+      utcOffsetMinutes: 540,
+      longestStreak: { days: 2, start: '2024-12-28', end: '2024-12-29' },
+      dominantTimeOfDay: 'night',
+    })
+  })
+
+  it('answers 404 for unknown handles', async () => {
+    stubCodeforces({ 'user.info': () => userNotFound })
+
+    const response = await glazeProfile({ username: 'no_such_user' })
+
+    expect(response.status).toBe(404)
+    expect(await response.json()).toMatchObject({ kind: 'not_found' })
+    expect(createCompletion).not.toHaveBeenCalled()
+  })
+
+  it('reports a missing LLM configuration', async () => {
+    stubCodeforces()
+    vi.stubEnv('OPENAI_API_KEY', '')
+
+    const response = await glazeProfile({ username: 'mango_lassi' })
+
+    expect(response.status).toBe(500)
+    expect(await response.json()).toEqual({ error: 'OpenAI API key not configured', code: 'llm_not_configured' })
+  })
+
+  it('refuses requests over the client token budget', async () => {
+    stubCodeforces()
+    vi.stubEnv('TOKEN_BUDGET_CLIENT_DAILY', '100')
+
+    const response = await glazeProfile({ username: 'mango_lassi' })
+
+    expect(response.status).toBe(429)
+    expect(await response.json()).toMatchObject({ code: 'budget_exhausted_client', scope: 'client', reset: '2026-03-03T00:00:00.000Z' })
+    // Until midnight UTC, less the time spent waiting on the Codeforces queue
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(11 * 60 * 60)
+    expect(createCompletion).not.toHaveBeenCalled()
+  })
+
+  it('refuses requests over the rate limit', async () => {
+    stubCodeforces()
+    vi.stubEnv('RATE_LIMIT_PROFILE', '2/1d')
+
+    const allowed = [await glazeProfile({ username: 'mango_lassi' }), await glazeProfile({ username: 'mango_lassi' })]
+    const response = await glazeProfile({ username: 'mango_lassi' })
+
+    expect(allowed.map(result => result.headers.get('RateLimit-Remaining'))).toEqual(['1', '0'])
+    expect(response.status).toBe(429)
+    expect(await response.json()).toMatchObject({ code: 'rate_limited', params: { limit: 2 } })
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0)
+    expect(createCompletion).toHaveBeenCalledTimes(2)
+  })
+
+  it('fails closed when the rate limiter is unavailable and configured to', async () => {
+    stubCodeforces()
+    vi.stubEnv('RATE_LIMIT_FAILURE_MODE', 'closed')
+    failKV()
+
+    const response = await glazeProfile({ username: 'mango_lassi' })
+
+    expect(response.status).toBe(503)
+    expect(await response.json()).toMatchObject({ code: 'rate_limit_unavailable' })
+    expect(response.headers.get('Retry-After')).toBe('60')
+  })
+})
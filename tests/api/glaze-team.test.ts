@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { POST } from '../../app/api/glaze-team/route'
+import { readGlazeStream } from '../../app/lib/glaze-stream'
+import { calledMethods, stubCodeforces } from '../helpers/codeforces'
+import { createCompletion, replayCompletion } from '../helpers/openai'
+import { postRequest, settle } from '../helpers/requests'
+import { readKV } from '../helpers/kv'
+import userInfo from '../fixtures/codeforces/user.info.json'
+import userStatus from '../fixtures/codeforces/user.status.json'
+import userNotFound from '../fixtures/codeforces/user-not-found.json'
+
+const TEAM_REPLY = JSON.stringify({
+  glaze: 'This roster is unfair to everyone else.',
+  shoutouts: [
+    { handle: 'mango_lassi', line: 'Carrying the rating like it weighs nothing.' },
+    { handle: 'rival', line: 'Casually solving 1900s.' },
+  ],
+})
+
+function glazeTeam(body: unknown, headers?: Record<string, string | null>) {
+  return settle(POST(postRequest('/api/glaze-team', body, headers)))
+}
+
+// One batch user.info answer for every requested handle; everyone but the
+// recorded user only has the five newest submissions
+function stubTeam() {
+  return stubCodeforces({
+    'user.info': params => ({
+      ...userInfo,
+      result: (params.get('handles') || '').split(';').map(handle => ({
+        ...userInfo.result[0],
+        handle,
+        rating: handle === 'mango_lassi' ? 1642 : 1490,
+      })),
+    }),
+    'user.status': params => ({
+      ...userStatus,
+      result: params.get('handle') === 'mango_lassi' ? userStatus.result : userStatus.result.slice(0, 5),
+    }),
+  })
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] })
+})
+
+describe('POST /api/glaze-team', () => {
+  it('fetches the team with one batch user.info call and returns a glaze with shout-outs', async () => {
+    const fetchMock = stubTeam()
+    replayCompletion(undefined, TEAM_REPLY)
+
+    const response = await glazeTeam({ handles: ['mango_lassi', 'rival'] })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(calledMethods(fetchMock)).toEqual(['user.info', 'user.status', 'user.status'])
+    expect(new URL(String(fetchMock.mock.calls[0][0])).searchParams.get('handles')).toBe('mango_lassi;rival')
+    expect(data.glaze).toBe('This roster is unfair to everyone else.')
+    expect(data.team.combinedSolved).toBe(7)
+    expect(data.team.ratingSpread).toEqual({ min: 1490, max: 1642, average: 1566, spread: 152 })
+    expect(data.team.members.map((member: { mvp: { category: string } }) => member.mvp.category)).toEqual(['rating', 'hardest'])
+    expect(data.shoutouts).toEqual([
+      { handle: 'mango_lassi', line: 'Carrying the rating like it weighs nothing.' },
+      { handle: 'rival', line: 'Casually solving 1900s.' },
+    ])
+    expect(createCompletion.mock.calls[0][0]).toMatchObject({ response_format: { type: 'json_object' } })
+  })
+
+  it('streams only the glaze text and stores the team behind the permalink', async () => {
+    stubTeam()
+    replayCompletion(undefined, TEAM_REPLY)
+
+    const response = await glazeTeam({ handles: ['mango_lassi', 'rival'], stream: true })
+    const deltas: string[] = []
+    const data = await readGlazeStream<{ shoutouts: unknown[]; permalink: string }>(response, delta => deltas.push(delta))
+
+    expect(deltas.join('')).toBe('This roster is unfair to everyone else.')
+    expect(readKV(`glaze:${data.permalink.slice(3)}`)).toMatchObject({
+      type: 'team',
+      team: { combinedSolved: 7 },
+      shoutouts: data.shoutouts,
+    })
+  })
+
+  it.each([
+    [{ handles: ['mango_lassi'] }, 'A team has between 2 and 10 handles', 'team_size'],
+    [{ handles: Array.from({ length: 11 }, (_, index) => `member${index}`) }, 'A team has between 2 and 10 handles', 'team_size'],
+    [{ handles: ['mango_lassi', 'MANGO_LASSI'] }, 'Handles must be different', 'handles_duplicate'],
+    [{ handles: ['mango_lassi', 'bad;handle'] }, 'Username contains invalid characters', 'username_invalid'],
+  ])('validates the body: %j', async (body, error, code) => {
+    const fetchMock = stubTeam()
+
+    const response = await glazeTeam(body)
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({ error, code })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('fetches one page of submissions per member for a full team', async () => {
+    const handles = Array.from({ length: 10 }, (_, index) => `member${index}`)
+    const fetchMock = stubCodeforces({
+      'user.info': params => ({
+        ...userInfo,
+        result: (params.get('handles') || '').split(';').map(handle => ({ ...userInfo.result[0], handle })),
+      }),
+      // Every page is full, as for members with thousands of submissions
+      'user.status': params => {
+        const from = parseInt(params.get('from') || '1')
+        const count = parseInt(params.get('count') || '1')
+        const result = Array.from({ length: count }, (_, index) => ({ ...userStatus.result[0], id: 1e9 - from - index }))
+        return { ...userStatus, result }
+      },
+    })
+    replayCompletion(undefined, TEAM_REPLY)
+
+    const response = await glazeTeam({ handles })
+
+    expect(response.status).toBe(200)
+    expect(calledMethods(fetchMock)).toEqual(['user.info', ...handles.map(() => 'user.status')])
+    fetchMock.mock.calls.slice(1).forEach(([input]) => {
+      expect(new URL(String(input)).searchParams.get('count')).toBe('1000')
+    })
+  })
+
+  it('gives up when Codeforces takes longer than the fetch budget', async () => {
+    vi.stubGlobal('fetch', vi.fn(() => new Promise(() => {})))
+
+    const response = await glazeTeam({ handles: ['mango_lassi', 'rival'] })
+
+    expect(response.status).toBe(504)
+    expect(await response.json()).toMatchObject({ code: 'codeforces_timeout' })
+  })
+
+  it('passes through Codeforces errors', async () => {
+    stubCodeforces({ 'user.info': () => userNotFound })
+
+    const response = await glazeTeam({ handles: ['mango_lassi', 'no_such_user'] })
+
+    expect(response.status).toBe(404)
+    expect(await response.json()).toMatchObject({ kind: 'not_found' })
+  })
+})
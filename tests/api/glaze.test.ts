@@ -0,0 +1,46 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET } from '../../app/api/glaze/[id]/route'
+import { saveGlaze } from '../../app/api/lib/glaze-store'
+
+function getGlaze(id: string) {
+  return GET(new NextRequest(`https://cfglaze.vercel.app/api/glaze/${id}`), { params: { id } })
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(new Date('2026-03-02T12:00:00Z'))
+})
+
+describe('GET /api/glaze/[id]', () => {
+  it('returns a stored glaze', async () => {
+    const id = await saveGlaze({ type: 'code', glaze: 'THIS SEGMENT TREE IS ART', persona: 'meltdown', filename: 'a.cpp' })
+
+    const response = await getGlaze(id!)
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({
+      id,
+      type: 'code',
+      glaze: 'THIS SEGMENT TREE IS ART',
+      persona: 'meltdown',
+      filename: 'a.cpp',
+      createdAt: Date.parse('2026-03-02T12:00:00Z'),
+      expiresAt: Date.parse('2026-04-01T12:00:00Z'),
+    })
+  })
+
+  it('rejects malformed ids without reading KV', async () => {
+    const response = await getGlaze('not-an-id')
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: 'Invalid glaze id', code: 'invalid_glaze_id' })
+  })
+
+  it('reports unknown or expired glazes', async () => {
+    const response = await getGlaze('abcdefgh')
+
+    expect(response.status).toBe(404)
+    expect(await response.json()).toEqual({ error: 'Glaze not found or expired', code: 'glaze_not_found' })
+  })
+})
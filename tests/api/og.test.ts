@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET } from '../../app/api/og/route'
+import { saveGlaze } from '../../app/api/lib/glaze-store'
+import { getUserSubmissions } from '../../app/api/lib/submission-cache'
+import { stubCodeforces } from '../helpers/codeforces'
+
+// Cards are drawn with the fonts shipped in the repo, so any request at all is a bug
+function stubOffline() {
+  const fetchMock = vi.fn(async (input: string | URL | Request) => {
+    throw new Error(`Unexpected request in test: ${String(input)}`)
+  })
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+async function getCard(query = '') {
+  const response = await GET(new NextRequest(`https://cfglaze.vercel.app/api/og${query}`))
+  // The PNG is rendered while the body streams
+  return { response, body: new Uint8Array(await response.arrayBuffer()) }
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47]
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(new Date('2026-03-02T12:00:00Z'))
+})
+
+describe('GET /api/og', () => {
+  it('renders the site card without parameters', async () => {
+    const fetchMock = stubOffline()
+
+    const { response, body } = await getCard()
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('content-type')).toBe('image/png')
+    expect(Array.from(body.slice(0, 4))).toEqual(PNG_SIGNATURE)
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it.each([
+    ['Chinese', '这位选手的动态规划简直是艺术，太强了！🔥'],
+    ['Russian', 'Этот код прекрасен, а дп просто шедевр'],
+    ['Portuguese', 'Que solução elegante, não há nada a corrigir'],
+  ])('draws a %s glaze with the shipped fonts only', async (_, glaze) => {
+    const fetchMock = stubOffline()
+    const id = await saveGlaze({
+      type: 'profile',
+      glaze,
+      persona: 'meltdown',
+      userData: { handle: 'mango_lassi', rating: 1642, maxRating: 1688 },
+    })
+
+    const { response, body } = await getCard(`?id=${id}`)
+
+    expect(response.status).toBe(200)
+    expect(Array.from(body.slice(0, 4))).toEqual(PNG_SIGNATURE)
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('drops characters no shipped font covers instead of fetching them', async () => {
+    const fetchMock = stubOffline()
+    const id = await saveGlaze({ type: 'code', glaze: 'Pure art: 한국어 ᚠᚢᚦ', persona: 'coach', filename: 'a.cpp' })
+
+    const { response } = await getCard(`?id=${id}`)
+
+    expect(response.status).toBe(200)
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('draws handle cards from the submission cache', async () => {
+    stubCodeforces()
+    await getUserSubmissions('mango_lassi')
+    const fetchMock = stubOffline()
+
+    const { response, body } = await getCard('?handle=%20MANGO_LASSI%20')
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('cache-control')).toBe('public, max-age=3600, s-maxage=3600')
+    expect(Array.from(body.slice(0, 4))).toEqual(PNG_SIGNATURE)
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('falls back to the site card for uncached handles without reaching Codeforces', async () => {
+    const fetchMock = stubOffline()
+
+    const { response } = await getCard('?handle=tourist')
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('cache-control')).not.toBe('public, max-age=3600, s-maxage=3600')
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('rejects malformed ids and handles, and reports missing glazes', async () => {
+    stubOffline()
+
+    expect((await getCard('?id=nope')).response.status).toBe(400)
+    expect((await getCard('?id=abcdefgh')).response.status).toBe(404)
+    expect((await getCard('?handle=no%20spaces')).response.status).toBe(400)
+  })
+})
@@ -0,0 +1,296 @@
+import { describe, expect, it } from 'vitest'
+import { detectLanguage, preprocessCode } from '../app/api/lib/code-preprocess'
+
+function lines(...source: string[]): string {
+  return source.join('\n')
+}
+
+describe('detectLanguage', () => {
+  it('trusts the file extension first', () => {
+    expect(detectLanguage('print(1)', 'main.kt')).toBe('kotlin')
+    expect(detectLanguage('print(1)', 'SOLUTION.PY')).toBe('python')
+  })
+
+  it.each([
+    ['#include <bits/stdc++.h>\nusing namespace std;\nint main() { cin >> n; }', 'cpp'],
+    ['#include <stdio.h>\nint main() { scanf("%d", &n); printf("%d", n); }', 'c'],
+    ['import sys\ndef solve():\n    print(input())', 'python'],
+    ['public class Main { public static void main(String[] args) { System.out.println(1); } }', 'java'],
+    ['use std::io;\nfn main() { let mut s = String::new(); println!("{}", s); }', 'rust'],
+    ['fun main() { val n = readLine()!!.toInt() }', 'kotlin'],
+    ['package main\nimport "fmt"\nfunc main() { n := 1; fmt.Println(n) }', 'go'],
+    ['using System;\nclass P { static void Main() { Console.WriteLine(1); } }', 'csharp'],
+    ['const lines = require("fs").readFileSync(0)\nconsole.log(lines)', 'javascript'],
+    ['just some text', 'unknown'],
+  ])('detects %j as %s', (code, language) => {
+    expect(detectLanguage(code)).toBe(language)
+  })
+})
+
+describe('preprocessCode', () => {
+  it('collapses C++ includes, macros, fast IO and a one-line debug helper', () => {
+    const code = lines(
+      '#include <bits/stdc++.h>',
+      'using namespace std;',
+      '#define ll long long',
+      '#define rep(i, n) \\',
+      '    for (int i = 0; i < (n); i++)',
+      'template<typename T> void dbg(T x){ cerr << x << endl; }',
+      'int main() {',
+      '    ios::sync_with_stdio(false); cin.tie(nullptr);',
+      '    ll n; cin >> n;',
+      '    rep(i, n) dbg(i);',
+      '    cout << n * 2 << endl;',
+      '}',
+    )
+
+    const result = preprocessCode(code, 'a.cpp')
+
+    expect(result.code).toBe(lines(
+      '// [boilerplate removed: 6 lines of imports, macros, debug (ll, rep, dbg)]',
+      'int main() {',
+      '    // [boilerplate removed: 1 line of fast io]',
+      '    ll n; cin >> n;',
+      '    rep(i, n) dbg(i);',
+      '    cout << n * 2 << endl;',
+      '}',
+    ))
+    expect(result.lineMap).toEqual([1, 7, 8, 9, 10, 11, 12])
+    expect(result.stats).toMatchObject({ strippedLines: 7, categories: ['imports', 'macros', 'debug', 'fast io'] })
+  })
+
+  it('drops unused one-line C++ helpers but keeps used ones', () => {
+    const code = lines(
+      '#include <bits/stdc++.h>',
+      'using namespace std;',
+      'int add(int a, int b) { return a + b; }',
+      'long long power(long long b, int e) { return e ? b * power(b, e - 1) : 1; }',
+      'int main() {',
+      '    int a, b; cin >> a >> b;',
+      '    cout << add(a, b) << endl;',
+      '}',
+    )
+
+    const result = preprocessCode(code, 'a.cpp')
+
+    expect(result.code).toContain('int add(int a, int b) { return a + b; }')
+    expect(result.code).not.toContain('long long power(')
+    expect(result.code).toContain('// [boilerplate removed: 1 line of unused helpers (power)]')
+    expect(result.stats.categories).toEqual(['imports', 'unused helpers'])
+  })
+
+  it('removes #ifdef LOCAL debug sections in C', () => {
+    const code = lines(
+      '#include <stdio.h>',
+      '#ifdef LOCAL',
+      '#define debug(x) fprintf(stderr, "%d\\n", x)',
+      '#else',
+      '#define debug(x)',
+      '#endif',
+      'int main() {',
+      '    int n; scanf("%d", &n);',
+      '    debug(n);',
+      '    printf("%d\\n", n);',
+      '}',
+    )
+
+    const result = preprocessCode(code, 'a.c')
+
+    expect(result.language).toBe('c')
+    expect(result.code.split('\n')[0]).toBe('// [boilerplate removed: 6 lines of imports, debug]')
+    expect(result.lineMap.slice(0, 2)).toEqual([1, 7])
+  })
+
+  it('strips Python imports, fast IO and unused functions', () => {
+    const code = lines(
+      'import sys',
+      'from collections import defaultdict',
+      'input = sys.stdin.readline',
+      'sys.setrecursionlimit(10 ** 6)',
+      '',
+      'def unused(x):',
+      '    return x * 2',
+      '',
+      'def solve():',
+      '    n = int(input())',
+      '    print(n * 2)',
+      '',
+      'solve()',
+    )
+
+    const result = preprocessCode(code, 'a.py')
+
+    expect(result.code).toBe(lines(
+      '# [boilerplate removed: 6 lines of imports, fast io, unused helpers (unused)]',
+      '',
+      'def solve():',
+      '    n = int(input())',
+      '    print(n * 2)',
+      '',
+      'solve()',
+    ))
+    expect(result.lineMap).toEqual([1, 8, 9, 10, 11, 12, 13])
+    expect(result.stats).toMatchObject({ strippedLines: 6, categories: ['imports', 'fast io', 'unused helpers'] })
+  })
+
+  it('removes a Java fast reader class but keeps the solution', () => {
+    const code = lines(
+      'import java.util.*;',
+      'import java.io.*;',
+      'public class Main {',
+      '    static class FastReader {',
+      '        BufferedReader br = new BufferedReader(new InputStreamReader(System.in));',
+      '        int nextInt() throws IOException { return Integer.parseInt(br.readLine().trim()); }',
+      '    }',
+      '    public static void main(String[] args) throws IOException {',
+      '        FastReader in = new FastReader();',
+      '        System.out.println(in.nextInt() + 1);',
+      '    }',
+      '}',
+    )
+
+    const result = preprocessCode(code, 'Main.java')
+
+    expect(result.code).not.toContain('BufferedReader')
+    expect(result.code).toContain('System.out.println(in.nextInt() + 1);')
+    // Two short imports are shorter than their marker would be
+    expect(result.code).toContain('import java.io.*;')
+    expect(result.stats.categories).toEqual(['fast io'])
+  })
+
+  it('removes Rust debug macros and imports', () => {
+    const code = lines(
+      'use std::io::{self, Read};',
+      'macro_rules! dbg_out {',
+      '    ($x:expr) => { eprintln!("{:?}", $x) };',
+      '}',
+      'fn main() {',
+      '    let mut s = String::new();',
+      '    io::stdin().read_to_string(&mut s).unwrap();',
+      '    println!("{}", s.trim());',
+      '}',
+    )
+
+    const result = preprocessCode(code, 'a.rs')
+
+    expect(result.code.split('\n')[0]).toBe('// [boilerplate removed: 4 lines of imports, debug (dbg_out)]')
+    expect(result.code).toContain('fn main() {')
+  })
+
+  it('handles Kotlin one-line helpers', () => {
+    const code = lines(
+      'import java.io.*',
+      'private fun readLn() = readLine()!!',
+      'private fun readInt(): Int = readLn().toInt()',
+      'private fun readLongs() = readLn().split(" ").map { it.toLong() }',
+      'fun <T> List<T>.dbg() = System.err.println(this)',
+      'fun main() {',
+      '    val n = readInt()',
+      '    println(n * 2)',
+      '}',
+    )
+
+    const result = preprocessCode(code, 'a.kt')
+
+    expect(result.code).toContain('private fun readInt(): Int = readLn().toInt()')
+    expect(result.code).toContain('// [boilerplate removed: 2 lines of unused helpers, debug (readLongs, dbg)]')
+    expect(result.code).not.toContain('fun readLongs')
+    expect(result.code).not.toContain('List<T>.dbg')
+    expect(result.stats.categories).toEqual(['unused helpers', 'debug'])
+  })
+
+  it('removes Go import blocks', () => {
+    const code = lines(
+      'package main',
+      '',
+      'import (',
+      '    "bufio"',
+      '    "fmt"',
+      '    "os"',
+      '    "sort"',
+      '    "strconv"',
+      ')',
+      '',
+      'func main() {',
+      '    reader := bufio.NewReader(os.Stdin)',
+      '    var n int',
+      '    fmt.Fscan(reader, &n)',
+      '    fmt.Println(n)',
+      '}',
+    )
+
+    const result = preprocessCode(code, 'a.go')
+
+    expect(result.code).toContain('// [boilerplate removed: 7 lines of imports]')
+    expect(result.lineMap[result.code.split('\n').indexOf('func main() {')]).toBe(11)
+  })
+
+  it('removes C# usings and unused JavaScript functions', () => {
+    const csharp = preprocessCode(lines(
+      'using System;',
+      'using System.Collections.Generic;',
+      'using System.Linq;',
+      'class Program {',
+      '    static void Main() { Console.WriteLine(int.Parse(Console.ReadLine()) * 2); }',
+      '}',
+    ), 'a.cs')
+    const javascript = preprocessCode(lines(
+      'function unusedHelper(values) {',
+      '    return values.reduce((sum, value) => sum + value * value, 0)',
+      '}',
+      'const n = Number(require("fs").readFileSync(0, "utf8"))',
+      'console.log(n * 2)',
+    ), 'a.js')
+
+    expect(csharp.code.split('\n')[0]).toBe('// [boilerplate removed: 3 lines of imports]')
+    expect(javascript.code.split('\n')[0]).toBe('// [boilerplate removed: 3 lines of unused helpers (unusedHelper)]')
+  })
+
+  it('keeps lines whose marker would be longer than they are', () => {
+    const code = lines(
+      '#include <cstdio>',
+      'int main() {',
+      '    int n; scanf("%d", &n);',
+      '    printf("%d", n);',
+      '}',
+    )
+
+    const result = preprocessCode(code, 'a.cpp')
+
+    expect(result.code).toBe(code)
+    expect(result.stats).toMatchObject({ strippedLines: 0, strippedPercent: 0, categories: [] })
+  })
+
+  it('reports the share of characters removed', () => {
+    const code = lines(
+      '#include <iostream>',
+      '#include <vector>',
+      '#include <algorithm>',
+      '#include <numeric>',
+      'using namespace std;',
+      'int main() { int n; cin >> n; cout << n; }',
+    )
+
+    const { stats } = preprocessCode(code, 'a.cpp')
+
+    const cleaned = '// [boilerplate removed: 5 lines of imports]\nint main() { int n; cin >> n; cout << n; }'
+    expect(stats).toMatchObject({
+      originalLines: 6,
+      cleanedLines: 2,
+      originalChars: code.length,
+      cleanedChars: cleaned.length,
+      strippedLines: 5,
+      strippedPercent: Math.round((1 - cleaned.length / code.length) * 1000) / 10,
+    })
+    expect(stats.strippedPercent).toBeGreaterThan(0)
+  })
+
+  it('never returns an empty solution', () => {
+    const code = '#include <bits/stdc++.h>\nusing namespace std;'
+
+    const result = preprocessCode(code, 'a.cpp')
+
+    expect(result.code).toBe(code)
+    expect(result.stats.strippedLines).toBe(0)
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { numberCodeLines, parseCodeReview } from '../app/api/lib/code-review'
+
+const CODE = ['#include <cstdio>', '', 'int main() {', '  int x = 42;', '  printf("%d", x);', '}'].join('\n')
+
+describe('numberCodeLines', () => {
+  it('labels lines with their original line numbers', () => {
+    expect(numberCodeLines('a\nb', [9, 10])).toBe(' 9 | a\n10 | b')
+  })
+})
+
+describe('parseCodeReview', () => {
+  it('keeps valid annotations and moves misnumbered ones to their quote', () => {
+    const review = parseCodeReview(JSON.stringify({
+      glaze: 'Incredible.',
+      annotations: [
+        { startLine: 2, endLine: 2, quote: 'int x = 42;', comment: 'The answer to everything.' },
+        { startLine: 5, endLine: 5, quote: 'printf("%d", x);', comment: 'C-style output.' },
+      ],
+    }), CODE)
+
+    expect(review).toEqual({
+      glaze: 'Incredible.',
+      annotations: [
+        { startLine: 4, endLine: 4, quote: 'int x = 42;', comment: 'The answer to everything.' },
+        { startLine: 5, endLine: 5, quote: 'printf("%d", x);', comment: 'C-style output.' },
+      ],
+      structured: true,
+    })
+  })
+
+  it('drops annotations without a comment or outside the code', () => {
+    const review = parseCodeReview(JSON.stringify({
+      glaze: 'Wow.',
+      annotations: [
+        { startLine: 99, endLine: 100, comment: 'Past the end.' },
+        { startLine: 3, endLine: 3, comment: '  ' },
+        'not an annotation',
+        { startLine: 6, endLine: 3, comment: 'Reversed range.' },
+      ],
+    }), CODE)
+
+    expect(review.annotations).toEqual([
+      { startLine: 3, endLine: 6, quote: '', comment: 'Reversed range.' },
+    ])
+  })
+
+  it('recovers the glaze from truncated JSON', () => {
+    expect(parseCodeReview('{"glaze": "So clean\\nso fast", "annotations": [{"startLi', CODE)).toEqual({
+      glaze: 'So clean\nso fast',
+      annotations: [],
+      structured: false,
+    })
+  })
+
+  it('uses plain replies as the glaze', () => {
+    expect(parseCodeReview('Just wow.', CODE)).toEqual({ glaze: 'Just wow.', annotations: [], structured: false })
+  })
+})
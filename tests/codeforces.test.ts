@@ -0,0 +1,230 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  CodeforcesError,
+  callCodeforces,
+  fetchCodeforcesData,
+  fetchCodeforcesUsers,
+  fetchContestStandings,
+  fetchRatingHistory,
+  fetchUserSubmissions
+} from '../app/api/lib/codeforces'
+import { calledMethods, stubCodeforces } from './helpers/codeforces'
+import { settle } from './helpers/requests'
+import { getBudgetDay } from '../app/api/lib/token-budget'
+import { readKV } from './helpers/kv'
+import callLimitExceeded from './fixtures/codeforces/call-limit-exceeded.json'
+import userInfo from './fixtures/codeforces/user.info.json'
+import userStatus from './fixtures/codeforces/user.status.json'
+import userNotFound from './fixtures/codeforces/user-not-found.json'
+import contestStandings from './fixtures/codeforces/contest.standings.json'
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] })
+})
+
+describe('Codeforces client', () => {
+  it('reads user.info, user.rating and user.status from the recorded answers', async () => {
+    const fetchMock = stubCodeforces()
+
+    const user = await settle(fetchCodeforcesData('mango_lassi'))
+    const history = await settle(fetchRatingHistory('mango_lassi'))
+    const submissions = await settle(fetchUserSubmissions('mango_lassi'))
+
+    expect(user).toMatchObject({ handle: 'mango_lassi', rating: 1642, rank: 'expert' })
+    expect(history.map(change => change.newRating)).toEqual([1400, 1530, 1688, 1642])
+    expect(submissions).toHaveLength(10)
+    expect(calledMethods(fetchMock)).toEqual(['user.info', 'user.rating', 'user.status'])
+  })
+
+  it('pages through user.status until a short page', async () => {
+    const fetchMock = stubCodeforces()
+
+    const submissions = await settle(fetchUserSubmissions('mango_lassi', 4))
+
+    expect(submissions.map(sub => sub.id)).toEqual([301920553, 301917004, 301905118, 301903870])
+    const params = new URL(String(fetchMock.mock.calls[0][0])).searchParams
+    expect(params.get('from')).toBe('1')
+    expect(params.get('count')).toBe('4')
+  })
+
+  it('spaces calls at least a second apart', async () => {
+    const fetchMock = stubCodeforces()
+    const started: number[] = []
+    fetchMock.mockImplementation(async () => {
+      started.push(Date.now())
+      return Response.json({ status: 'OK', result: [] })
+    })
+
+    await settle(Promise.all([
+      callCodeforces('user.rating', { handle: 'a' }),
+      callCodeforces('user.rating', { handle: 'b' }),
+      callCodeforces('user.rating', { handle: 'c' }),
+    ]))
+
+    expect(started[1] - started[0]).toBeGreaterThanOrEqual(1000)
+    expect(started[2] - started[1]).toBeGreaterThanOrEqual(1000)
+  })
+
+  it('maps unknown handles to a not_found error', async () => {
+    stubCodeforces({ 'user.info': () => userNotFound })
+
+    const error = await settle(fetchCodeforcesData('no_such_user')).catch(error => error)
+
+    expect(error).toBeInstanceOf(CodeforcesError)
+    expect(error).toMatchObject({ kind: 'not_found', status: 404 })
+  })
+
+  it('retries "Call limit exceeded" with backoff before succeeding', async () => {
+    let attempts = 0
+    const fetchMock = stubCodeforces({
+      'user.rating': () => (++attempts < 3 ? callLimitExceeded : { status: 'OK', result: [] }),
+    })
+
+    await expect(settle(fetchRatingHistory('mango_lassi'))).resolves.toEqual([])
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+
+  it('gives up with rate_limited after the last retry', async () => {
+    const fetchMock = stubCodeforces({ 'user.rating': () => callLimitExceeded })
+
+    const error = await settle(fetchRatingHistory('mango_lassi')).catch(error => error)
+
+    expect(error).toMatchObject({ kind: 'rate_limited', status: 503 })
+    expect(fetchMock).toHaveBeenCalledTimes(4)
+  })
+
+  it('fails fast with rate_limited once too many calls are waiting', async () => {
+    // Move past slots reserved by earlier tests so only these calls are queued
+    vi.setSystemTime(Date.now() + 60000)
+    const fetchMock = stubCodeforces({ 'user.rating': () => ({ status: 'OK', result: [] }) })
+
+    const calls = Array.from({ length: 12 }, (_, index) =>
+      callCodeforces('user.rating', { handle: `member${index}` }).catch(error => error)
+    )
+    const results = await settle(Promise.all(calls))
+
+    expect(results.slice(0, 11)).toEqual(Array.from({ length: 11 }, () => []))
+    expect(results[11]).toMatchObject({ kind: 'rate_limited', status: 503 })
+    expect(fetchMock).toHaveBeenCalledTimes(11)
+  })
+
+  it('stops retrying a hanging API at the call deadline', async () => {
+    const started: number[] = []
+    const fetchMock = vi.fn((_input: string, init: RequestInit) => new Promise<Response>((_, reject) => {
+      started.push(Date.now())
+      init.signal!.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })))
+    }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const error = await settle(fetchRatingHistory('mango_lassi')).catch(error => error)
+
+    expect(error).toMatchObject({ kind: 'timeout', status: 504 })
+    // A 10s timeout, 1s of backoff, then what is left of the 15s deadline
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(Date.now() - started[0]).toBeLessThanOrEqual(16000)
+  })
+
+  it('treats 5xx answers as network errors and malformed bodies as invalid', async () => {
+    stubCodeforces({ 'user.info': () => new Response('Bad Gateway', { status: 502 }) })
+    await expect(settle(fetchCodeforcesData('mango_lassi'))).rejects.toMatchObject({ kind: 'network' })
+
+    stubCodeforces({ 'user.info': () => new Response('<html>maintenance</html>') })
+    await expect(settle(fetchCodeforcesData('mango_lassi'))).rejects.toMatchObject({ kind: 'invalid_response' })
+
+    stubCodeforces({ 'user.rating': () => ({ status: 'OK', result: { contestId: 1 } }) })
+    await expect(settle(fetchRatingHistory('mango_lassi'))).rejects.toMatchObject({ kind: 'invalid_response' })
+  })
+
+  it('drops malformed entries individually and counts them by field', async () => {
+    const [first, second, ...rest] = userStatus.result
+    stubCodeforces({
+      'user.status': () => ({
+        status: 'OK',
+        result: [
+          { ...first, problem: { ...first.problem, rating: '1900' } },
+          { ...second, verdict: 42 },
+          { ...rest[0], problem: { ...rest[0].problem, rating: 'x' } },
+          ...rest.slice(1),
+        ],
+      }),
+    })
+
+    const submissions = await settle(fetchUserSubmissions('mango_lassi'))
+
+    expect(submissions.map(sub => sub.id)).toEqual(userStatus.result.slice(3).map(sub => sub.id))
+    expect(readKV(`stats:${getBudgetDay()}:dropped`)).toEqual({
+      'user.status:problem.rating': 2,
+      'user.status:verdict': 1,
+    })
+  })
+
+  it('keeps paging when a full page loses entries to validation', async () => {
+    const fetchMock = stubCodeforces({
+      'user.status': params => ({
+        status: 'OK',
+        result: params.get('from') === '1'
+          ? [{ id: 'broken' }, ...userStatus.result.slice(0, 2)]
+          : userStatus.result.slice(2, 2 + Number(params.get('count'))),
+      }),
+    })
+
+    const submissions = await settle(fetchUserSubmissions('mango_lassi', 3))
+
+    expect(submissions.map(sub => sub.id)).toEqual(userStatus.result.slice(0, 3).map(sub => sub.id))
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('names the failing field of a malformed user', async () => {
+    stubCodeforces({ 'user.info': () => ({ status: 'OK', result: [{ ...userInfo.result[0], rating: '1642' }] }) })
+
+    await expect(settle(fetchCodeforcesData('mango_lassi'))).rejects.toMatchObject({
+      kind: 'invalid_response',
+      message: 'Invalid user data format (rating: expected number, got string)',
+    })
+  })
+
+  it('fetches several users with one batch user.info call', async () => {
+    const fetchMock = stubCodeforces({
+      'user.info': params => ({
+        status: 'OK',
+        result: (params.get('handles') || '').split(';').map(handle => ({ ...userInfo.result[0], handle })),
+      }),
+    })
+
+    const users = await settle(fetchCodeforcesUsers(['mango_lassi', 'rival', 'third']))
+
+    expect(users.map(user => user.handle)).toEqual(['mango_lassi', 'rival', 'third'])
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(new URL(String(fetchMock.mock.calls[0][0])).searchParams.get('handles')).toBe('mango_lassi;rival;third')
+  })
+
+  it('fails a batch with a malformed user instead of dropping the member', async () => {
+    stubCodeforces({
+      'user.info': () => ({ status: 'OK', result: [userInfo.result[0], { ...userInfo.result[0], handle: 7 }] }),
+    })
+
+    await expect(settle(fetchCodeforcesUsers(['mango_lassi', 'rival']))).rejects.toMatchObject({
+      kind: 'invalid_response',
+      message: 'Invalid user data format ([1].handle: expected string, got number)',
+    })
+  })
+
+  it('drops malformed standings rows but rejects a malformed problem list', async () => {
+    const [row] = contestStandings.result.rows
+    const withRows = (rows: unknown[], problems: unknown[] = contestStandings.result.problems) => () => ({
+      status: 'OK',
+      result: { ...contestStandings.result, problems, rows },
+    })
+
+    stubCodeforces({ 'contest.standings': withRows([{ ...row, rank: '812' }, row]) })
+    const standings = await settle(fetchContestStandings(2049, 'mango_lassi'))
+    expect(standings.rows).toEqual([row])
+    expect(readKV(`stats:${getBudgetDay()}:dropped`)).toEqual({ 'contest.standings:rank': 1 })
+
+    stubCodeforces({ 'contest.standings': withRows([row], [{ index: 'A' }]) })
+    await expect(settle(fetchContestStandings(2049, 'mango_lassi'))).rejects.toMatchObject({
+      kind: 'invalid_response',
+      message: 'Invalid contest standings format (problems[0].name: expected string, got undefined)',
+    })
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildContestPerformance,
+  canHaveRatingChange,
+  formatContestPerformance,
+  selectParticipantRow
+} from '../app/api/lib/contest'
+import type { ContestStandings, RanklistRow, RatingChange } from '../app/api/lib/types'
+import contestStandings from './fixtures/codeforces/contest.standings.json'
+import contestRatingChanges from './fixtures/codeforces/contest.ratingChanges.json'
+
+const standings = contestStandings.result as ContestStandings
+const [contestant] = standings.rows
+const ratingChanges = contestRatingChanges.result as RatingChange[]
+
+function withParticipantType(row: RanklistRow, participantType: string, rank = 0): RanklistRow {
+  return { ...row, rank, party: { ...row.party, participantType } }
+}
+
+describe('selectParticipantRow', () => {
+  it('prefers the official entry over virtual and practice rows', () => {
+    const practice = withParticipantType(contestant, 'PRACTICE')
+    const virtual = withParticipantType(contestant, 'VIRTUAL', 640)
+
+    expect(selectParticipantRow([practice, virtual, contestant], 'MANGO_LASSI')).toBe(contestant)
+    expect(selectParticipantRow([practice, virtual], 'mango_lassi')).toBe(virtual)
+    expect(selectParticipantRow([contestant], 'someone_else')).toBeNull()
+  })
+})
+
+describe('buildContestPerformance', () => {
+  it('computes rank, solves, wrong attempts and the rating delta', () => {
+    const performance = buildContestPerformance(standings, contestant, 'MANGO_LASSI', ratingChanges)
+
+    expect(performance).toMatchObject({
+      handle: 'mango_lassi',
+      contest: { id: 2049, name: 'Codeforces Round 994 (Div. 2)', gym: false },
+      participantType: 'CONTESTANT',
+      rank: 812,
+      points: 3988,
+      solvedCount: 4,
+      wrongAttempts: 4,
+      ratingStatus: 'rated',
+      ratingChange: { oldRating: 1530, newRating: 1688, delta: 158 },
+    })
+    expect(performance.problems.map(problem => [problem.index, problem.timeSeconds, problem.splitSeconds])).toEqual([
+      ['A', 372, 372],
+      ['B', 940, 568],
+      ['C', 2285, 1345],
+      ['D', 4810, 2525],
+      ['E', null, null],
+      ['F', null, null],
+    ])
+  })
+
+  it('ranks the fastest solves by the time since the previous solve', () => {
+    // D solved 4 minutes after C beats everything else
+    const quickD = {
+      ...contestant,
+      problemResults: contestant.problemResults.map((result, index) =>
+        index === 3 ? { ...result, bestSubmissionTimeSeconds: 2525 } : result
+      ),
+    }
+
+    const performance = buildContestPerformance(standings, quickD, 'mango_lassi', null)
+
+    expect(performance.fastestSolves.map(problem => problem.index)).toEqual(['D', 'A', 'B'])
+  })
+
+  it('explains why there is no rating change', () => {
+    const gym = { ...standings, contest: { ...standings.contest, id: 104520, type: 'ICPC' } }
+    const running = { ...standings, contest: { ...standings.contest, phase: 'SYSTEM_TEST' } }
+    const virtual = withParticipantType(contestant, 'VIRTUAL', 640)
+
+    expect(buildContestPerformance(gym, contestant, 'mango_lassi', null).ratingStatus).toBe('gym')
+    expect(buildContestPerformance(standings, virtual, 'mango_lassi', null).ratingStatus).toBe('unofficial')
+    expect(buildContestPerformance(running, contestant, 'mango_lassi', null).ratingStatus).toBe('pending')
+    expect(buildContestPerformance(standings, contestant, 'mango_lassi', []).ratingStatus).toBe('unrated')
+
+    expect(canHaveRatingChange(gym.contest, contestant)).toBe(false)
+    expect(canHaveRatingChange(standings.contest, virtual)).toBe(false)
+    expect(canHaveRatingChange(standings.contest, contestant)).toBe(true)
+  })
+
+  it('only counts full scores as solved in IOI contests', () => {
+    const ioi = {
+      ...standings,
+      contest: { ...standings.contest, type: 'IOI' },
+      problems: standings.problems.map(problem => ({ ...problem, points: 100 })),
+    }
+    const row = {
+      ...contestant,
+      problemResults: contestant.problemResults.map((result, index) => ({ ...result, points: index === 0 ? 100 : 40 })),
+    }
+
+    const performance = buildContestPerformance(ioi, row, 'mango_lassi', null)
+
+    expect(performance.problems.map(problem => problem.solved)).toEqual([true, false, false, false, false, false])
+    expect(performance.solvedCount).toBe(1)
+  })
+})
+
+describe('formatContestPerformance', () => {
+  it('names the solved problems with their times and the fastest solves', () => {
+    const text = formatContestPerformance(buildContestPerformance(standings, contestant, 'mango_lassi', ratingChanges))
+
+    expect(text).toContain('Contest: Codeforces Round 994 (Div. 2), CF rules, 2:00:00 long')
+    expect(text).toContain('Rank: 812')
+    expect(text).toContain('Solved: 4 of 6 problems, 4 wrong attempts')
+    expect(text).toContain('Rating: 1530 -> 1688 (+158)')
+    expect(text).toContain('- D. Shift + Esc (1900): solved at 1:20:10, 1 wrong attempt')
+    expect(text).toContain('- E. Broken Queries (2400): not solved, 2 wrong attempts')
+    expect(text).toContain('Fastest solves (time since the previous solve): A. MEX Destruction in 0:06:12; B. pspspsps in 0:09:28; C. MEX Cycle in 0:22:25')
+  })
+
+  it('says why an unrated performance has no rating change', () => {
+    const gym = { ...standings, contest: { ...standings.contest, id: 104520 } }
+
+    expect(formatContestPerformance(buildContestPerformance(gym, contestant, 'mango_lassi', null)))
+      .toContain('Rating: gym contest, never rated')
+  })
+})
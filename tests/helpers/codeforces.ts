@@ -0,0 +1,57 @@
+import { vi } from 'vitest'
+import userInfo from '../fixtures/codeforces/user.info.json'
+import userStatus from '../fixtures/codeforces/user.status.json'
+import userRating from '../fixtures/codeforces/user.rating.json'
+import contestStandings from '../fixtures/codeforces/contest.standings.json'
+import contestRatingChanges from '../fixtures/codeforces/contest.ratingChanges.json'
+
+// Recorded Codeforces answers served in place of https://codeforces.com/api.
+// A handler gets the query parameters and returns the JSON body, or a Response
+// for non-JSON answers.
+type Handler = (params: URLSearchParams) => unknown
+
+const RECORDED: Record<string, Handler> = {
+  'user.info': () => userInfo,
+  'user.rating': () => userRating,
+  // user.status is paged with from/count like the real API
+  'user.status': params => {
+    const from = parseInt(params.get('from') || '1')
+    const count = parseInt(params.get('count') || String(userStatus.result.length))
+    return { ...userStatus, result: userStatus.result.slice(from - 1, from - 1 + count) }
+  },
+  // contest.standings only returns the rows of the requested handles
+  'contest.standings': params => {
+    const handles = (params.get('handles') || '').toLowerCase().split(';')
+    const rows = contestStandings.result.rows.filter(row =>
+      row.party.members.some(member => handles.includes(member.handle.toLowerCase()))
+    )
+    return { ...contestStandings, result: { ...contestStandings.result, rows } }
+  },
+  'contest.ratingChanges': () => contestRatingChanges,
+}
+
+// Replace the global fetch with the recorded fixtures. `overrides` replace the
+// answer for individual API methods; the returned mock records every call.
+export function stubCodeforces(overrides: Record<string, Handler> = {}) {
+  const handlers = { ...RECORDED, ...overrides }
+
+  const fetchMock = vi.fn(async (input: string | URL | Request) => {
+    const url = new URL(typeof input === 'string' || input instanceof URL ? input : input.url)
+    const method = url.pathname.replace(/^\/api\//, '')
+    const handler = url.hostname === 'codeforces.com' ? handlers[method] : undefined
+    if (!handler) {
+      throw new Error(`Unexpected request in test: ${url}`)
+    }
+
+    const body = handler(url.searchParams)
+    return body instanceof Response ? body : Response.json(body)
+  })
+
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+// API methods requested so far, in order
+export function calledMethods(fetchMock: ReturnType<typeof stubCodeforces>): string[] {
+  return fetchMock.mock.calls.map(([input]) => new URL(String(input)).pathname.replace(/^\/api\//, ''))
+}
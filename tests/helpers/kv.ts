@@ -0,0 +1,164 @@
+// In-memory stand-in for `@vercel/kv`, covering the commands the app uses.
+//
+// Expiry options are accepted but ignored. Lua scripts only run when they are
+// the sliding-window script `@upstash/ratelimit` loads, reimplemented below, so
+// rate limits are enforced. failKV() makes every command reject, for testing
+// what happens when KV is unreachable.
+
+import { createHash } from 'crypto'
+
+type Value = unknown
+type Script = (keys: string[], args: Array<string | number>) => unknown
+
+// Values go through JSON like they do on the way to Upstash, so undefined
+// fields disappear and stored objects can't be mutated by the caller
+function copy<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value))
+}
+
+const store = new Map<string, Value>()
+const scripts = new Map<string, Script>()
+let failing = false
+
+// KEYS = [current window, previous window], ARGV = [tokens, now, window, incrementBy].
+// Returns the requests left, or -1 when the request is over the limit.
+const slidingWindowLimit: Script = ([currentKey, previousKey], [tokens, now, window, incrementBy]) => {
+  const current = Number(store.get(currentKey)) || 0
+  const previousWeight = 1 - (Number(now) % Number(window)) / Number(window)
+  const previous = Math.floor(previousWeight * (Number(store.get(previousKey)) || 0))
+  if (previous + current >= Number(tokens)) {
+    return -1
+  }
+  const next = current + Number(incrementBy)
+  store.set(currentKey, next)
+  return Number(tokens) - (next + previous)
+}
+
+function sha1(script: string): string {
+  return createHash('sha1').update(script).digest('hex')
+}
+
+function hash(key: string): Record<string, number> {
+  const value = store.get(key)
+  if (value && typeof value === 'object') return value as Record<string, number>
+  const created: Record<string, number> = {}
+  store.set(key, created)
+  return created
+}
+
+const commands = {
+  async get<T>(key: string): Promise<T | null> {
+    return store.has(key) ? copy(store.get(key)) as T : null
+  },
+
+  async mget<T extends unknown[]>(...keys: string[]): Promise<T> {
+    return keys.map(key => (store.has(key) ? copy(store.get(key)) : null)) as T
+  },
+
+  async set(key: string, value: Value, options: { nx?: boolean; ex?: number } = {}): Promise<'OK' | null> {
+    if (options.nx && store.has(key)) return null
+    store.set(key, copy(value))
+    return 'OK'
+  },
+
+  async incrby(key: string, amount: number): Promise<number> {
+    const next = (Number(store.get(key)) || 0) + amount
+    store.set(key, next)
+    return next
+  },
+
+  async expire(key: string): Promise<number> {
+    return store.has(key) ? 1 : 0
+  },
+
+  async hincrby(key: string, field: string, amount: number): Promise<number> {
+    const fields = hash(key)
+    fields[field] = (fields[field] || 0) + amount
+    return fields[field]
+  },
+
+  async hgetall(key: string): Promise<Record<string, number> | null> {
+    const value = store.get(key)
+    return value && typeof value === 'object' ? { ...(value as Record<string, number>) } : null
+  },
+
+  async zincrby(key: string, amount: number, member: string): Promise<number> {
+    return commands.hincrby(key, member, amount)
+  },
+
+  async zrange(
+    key: string,
+    start: number,
+    stop: number,
+    options: { rev?: boolean; withScores?: boolean } = {}
+  ): Promise<Array<string | number>> {
+    const entries = Object.entries((store.get(key) as Record<string, number>) || {})
+      .sort((a, b) => (options.rev ? b[1] - a[1] : a[1] - b[1]))
+      .slice(start, stop + 1)
+    return options.withScores ? entries.flat() : entries.map(([member]) => member)
+  },
+
+  async scriptLoad(script: string): Promise<string> {
+    if (!script.includes('requestsInPreviousWindow') || !script.includes('INCRBY')) {
+      throw new Error('The in-memory KV only runs the sliding-window rate limit script')
+    }
+    scripts.set(sha1(script), slidingWindowLimit)
+    return sha1(script)
+  },
+
+  async evalsha(hash: string, keys: string[], args: Array<string | number>): Promise<unknown> {
+    const script = scripts.get(hash)
+    if (!script) {
+      throw new Error('NOSCRIPT No matching script. Please use EVAL.')
+    }
+    return script(keys, args)
+  },
+
+  async eval(script: string, keys: string[], args: Array<string | number>): Promise<unknown> {
+    return commands.evalsha(await commands.scriptLoad(script), keys, args)
+  },
+}
+
+type CommandName = keyof typeof commands
+type Command = (...args: unknown[]) => Promise<unknown>
+
+// Every command rejects while KV is marked as failing
+function guard(command: Command): Command {
+  return (...args) => (failing ? Promise.reject(new Error('KV is unreachable')) : command(...args))
+}
+
+// Queues commands and runs them in order on exec(), like an Upstash pipeline
+function pipeline() {
+  const queued: Array<() => Promise<unknown>> = []
+  const chain: Record<string, unknown> = {
+    exec: guard(() => Promise.all(queued.map(run => run()))),
+  }
+  for (const name of Object.keys(commands) as CommandName[]) {
+    chain[name] = (...args: unknown[]) => {
+      queued.push(() => (commands[name] as Command)(...args))
+      return chain
+    }
+  }
+  return chain
+}
+
+const guarded: Record<string, Command> = {}
+for (const name of Object.keys(commands) as CommandName[]) {
+  guarded[name] = guard(commands[name] as Command)
+}
+
+export const kv = { ...(guarded as unknown as typeof commands), pipeline }
+
+export function resetKV(): void {
+  store.clear()
+  failing = false
+}
+
+export function failKV(): void {
+  failing = true
+}
+
+// Raw access for assertions
+export function readKV(key: string): Value {
+  return store.get(key)
+}
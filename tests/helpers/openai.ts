@@ -0,0 +1,48 @@
+import { vi } from 'vitest'
+import completionFixture from '../fixtures/openai/chat-completion.json'
+import streamFixture from '../fixtures/openai/chat-completion-stream.json'
+
+// Stubbed `client.chat.completions.create`. The setup file swaps it into every
+// OpenAI client, so the real provider code runs against recorded responses.
+export const createCompletion = vi.fn()
+
+type Completion = typeof completionFixture
+
+async function* streamChunks(chunks: unknown[]) {
+  for (const chunk of chunks) {
+    yield chunk
+  }
+}
+
+function withContent(completion: Completion, content: string): Completion {
+  return {
+    ...completion,
+    choices: [{ ...completion.choices[0], message: { ...completion.choices[0].message, content } }],
+  }
+}
+
+// Re-chunk `content` into the recorded stream, keeping its role and usage chunks
+function streamWithContent(content: string): unknown[] {
+  const [first, ...rest] = streamFixture
+  const [finish, usage] = rest.slice(-2)
+  const template = rest[0]
+  const pieces = content.match(/\s*\S+/g) || []
+  return [
+    first,
+    ...pieces.map(piece => ({ ...template, choices: [{ ...template.choices[0], delta: { content: piece } }] })),
+    finish,
+    usage,
+  ]
+}
+
+// Answer completions with a recorded response. Passing `content` swaps the reply
+// text into the recorded envelope; streamed requests get it chunk by chunk.
+export function replayCompletion(completion: Completion = completionFixture, content?: string): void {
+  createCompletion.mockImplementation(async (params: { stream?: boolean }) => {
+    const text = content ?? completion.choices[0].message.content
+    if (params.stream) {
+      return streamChunks(content === undefined && completion === completionFixture ? streamFixture : streamWithContent(text))
+    }
+    return withContent(completion, text)
+  })
+}
@@ -0,0 +1,53 @@
+import { vi } from 'vitest'
+import { NextRequest } from 'next/server'
+
+export const BROWSER_HEADERS = {
+  'origin': 'https://cfglaze.vercel.app',
+  'user-agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
+  'content-type': 'application/json',
+  'x-forwarded-for': '203.0.113.7',
+}
+
+// A POST as the page sends it. `headers` override the browser defaults; a
+// null value removes the header.
+export function postRequest(
+  path: string,
+  body: unknown,
+  headers: Record<string, string | null> = {}
+): NextRequest {
+  const payload = typeof body === 'string' ? body : JSON.stringify(body)
+  const merged: Record<string, string | null> = {
+    ...BROWSER_HEADERS,
+    'content-length': String(new TextEncoder().encode(payload).length),
+    ...headers,
+  }
+
+  const requestHeaders = new Headers()
+  for (const [name, value] of Object.entries(merged)) {
+    if (value !== null) requestHeaders.set(name, value)
+  }
+
+  return new NextRequest(`https://cfglaze.vercel.app${path}`, {
+    method: 'POST',
+    headers: requestHeaders,
+    body: payload,
+  })
+}
+
+// Codeforces calls are spaced a second apart and retried with backoff. With
+// fake timers enabled, keep advancing the clock until `promise` settles.
+export async function settle<T>(promise: Promise<T>): Promise<T> {
+  let settled = false
+  promise.then(() => { settled = true }, () => { settled = true })
+
+  for (let tick = 0; !settled; tick++) {
+    if (tick > 600) {
+      throw new Error('Promise did not settle within 10 fake minutes')
+    }
+    await vi.advanceTimersByTimeAsync(1000)
+    // Let real I/O such as body reads make progress between ticks
+    await new Promise(resolve => setImmediate(resolve))
+  }
+
+  return promise
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { negotiateLanguage } from '../app/lib/i18n/languages'
+import { catalogs, translate, translateError } from '../app/lib/i18n/translate'
+import { getLanguageInstruction, resolveLanguage } from '../app/api/lib/languages'
+
+describe('negotiateLanguage', () => {
+  it.each([
+    [null, 'en'],
+    ['', 'en'],
+    ['ru-RU,ru;q=0.9,en-US;q=0.8,en;q=0.7', 'ru'],
+    ['pt-BR', 'pt'],
+    ['zh-CN,zh;q=0.9', 'zh'],
+    ['de-DE,de;q=0.9,pt;q=0.5,en;q=0.3', 'pt'],
+    ['en;q=0.5,ru;q=0.8', 'ru'],
+    ['ru;q=0,zh', 'zh'],
+    ['fr-FR,de', 'en'],
+  ])('picks the best supported language for %j', (header, language) => {
+    expect(negotiateLanguage(header)).toBe(language)
+  })
+})
+
+describe('catalogs', () => {
+  it('define every English key', () => {
+    const keys = Object.keys(catalogs.en).sort()
+    Object.values(catalogs).forEach(messages => {
+      expect(Object.keys(messages).sort()).toEqual(keys)
+    })
+  })
+
+  it('keep the placeholders of the English messages', () => {
+    const placeholders = (message: string) => (message.match(/\{\w+\}/g) || []).sort()
+    Object.values(catalogs).forEach(messages => {
+      Object.entries(catalogs.en).forEach(([key, message]) => {
+        expect(placeholders(messages[key as keyof typeof messages]), key).toEqual(placeholders(message))
+      })
+    })
+  })
+})
+
+describe('translate', () => {
+  it('fills in placeholders', () => {
+    expect(translate('en', 'common.tokensUsed', { count: 653 })).toBe('(653 tokens used)')
+    expect(translate('pt', 'errors.not_in_contest', { handle: 'tourist', contest: 'Codeforces Round 994' }))
+      .toBe('tourist não participou de Codeforces Round 994')
+  })
+
+  it('leaves unknown placeholders alone', () => {
+    expect(translate('en', 'team.hint')).toBe('2 to {max} handles, separated by commas or new lines')
+  })
+})
+
+describe('translateError', () => {
+  it('translates known error codes', () => {
+    expect(translateError('ru', 'rate_limited', { limit: 50 })).toBe('Превышен лимит запросов (50). Попробуйте позже.')
+  })
+
+  it('falls back to the route message, then a generic one', () => {
+    expect(translateError('zh', 'something_new', undefined, 'Brand new failure')).toBe('Brand new failure')
+    expect(translateError('zh')).toBe('出错了')
+  })
+})
+
+describe('resolveLanguage', () => {
+  it('defaults to English and rejects unsupported languages', () => {
+    expect(resolveLanguage(undefined)).toBe('en')
+    expect(resolveLanguage('')).toBe('en')
+    expect(resolveLanguage('pt')).toBe('pt')
+    expect(resolveLanguage('pt-BR')).toBeNull()
+    expect(resolveLanguage(42)).toBeNull()
+  })
+})
+
+describe('getLanguageInstruction', () => {
+  it('leaves English prompts untouched', () => {
+    expect(getLanguageInstruction('en')).toBe('')
+  })
+
+  it('asks for the language while keeping the jargon', () => {
+    const instruction = getLanguageInstruction('pt')
+    expect(instruction).toContain('Write your entire response in Portuguese')
+    expect(instruction).toContain('AC, WA, TLE')
+  })
+})
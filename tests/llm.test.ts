@@ -0,0 +1,117 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  createMockProvider,
+  createOpenAICompatibleProvider,
+  createOpenAIProvider,
+  getLLMConfigError,
+  getLLMProvider
+} from '../app/api/lib/llm'
+import { createCompletion } from './helpers/openai'
+import completionFixture from './fixtures/openai/chat-completion.json'
+
+const messages = [
+  { role: 'system' as const, content: 'You are a glazer.' },
+  { role: 'user' as const, content: 'Glaze mango_lassi.' },
+]
+
+describe('OpenAI provider', () => {
+  it('returns the recorded completion and its reported usage', async () => {
+    const provider = createOpenAIProvider({ apiKey: 'sk-test' })
+
+    const result = await provider.complete({ messages, maxTokens: 300, temperature: 1 })
+
+    expect(result).toEqual({
+      content: completionFixture.choices[0].message.content,
+      tokensUsed: 653,
+    })
+    expect(createCompletion).toHaveBeenCalledWith({
+      model: 'gpt-4o-mini',
+      messages,
+      max_tokens: 300,
+      temperature: 1,
+    })
+  })
+
+  it('forwards streamed chunks and reads usage from the final chunk', async () => {
+    const provider = createOpenAIProvider({ apiKey: 'sk-test', model: 'gpt-4o' })
+    const deltas: string[] = []
+
+    const result = await provider.complete({
+      messages,
+      maxTokens: 300,
+      temperature: 1,
+      onDelta: delta => deltas.push(delta),
+    })
+
+    expect(deltas.join('')).toBe("BRO??? 1642 AND CLIMBING?! Legends don't debug, they simply decide the verdict.")
+    expect(result).toEqual({ content: deltas.join(''), tokensUsed: 630 })
+    expect(createCompletion).toHaveBeenCalledWith(expect.objectContaining({
+      model: 'gpt-4o',
+      stream: true,
+      stream_options: { include_usage: true },
+    }))
+  })
+
+  it('asks for a JSON object in JSON mode', async () => {
+    await createOpenAIProvider({ apiKey: 'sk-test' }).complete({ messages, maxTokens: 300, temperature: 1, jsonMode: true })
+
+    expect(createCompletion).toHaveBeenCalledWith(expect.objectContaining({
+      response_format: { type: 'json_object' },
+    }))
+  })
+})
+
+describe('OpenAI-compatible provider', () => {
+  it('skips stream_options and response_format and estimates usage', async () => {
+    const provider = createOpenAICompatibleProvider({ baseURL: 'http://localhost:8000/v1', model: 'llama' })
+
+    const result = await provider.complete({
+      messages,
+      maxTokens: 300,
+      temperature: 1,
+      jsonMode: true,
+      onDelta: () => {},
+    })
+
+    const params = createCompletion.mock.calls[0][0]
+    expect(params).not.toHaveProperty('stream_options')
+    expect(params).not.toHaveProperty('response_format')
+    // The recorded stream reports usage, so that total is used
+    expect(result.tokensUsed).toBe(630)
+  })
+})
+
+describe('mock provider', () => {
+  it('is deterministic per prompt and wraps replies in JSON mode', async () => {
+    const provider = createMockProvider()
+
+    const first = await provider.complete({ messages, maxTokens: 300, temperature: 1 })
+    const second = await provider.complete({ messages, maxTokens: 300, temperature: 1 })
+    const json = await provider.complete({ messages, maxTokens: 300, temperature: 1, jsonMode: true })
+
+    expect(first.content).toBe(second.content)
+    expect(JSON.parse(json.content)).toEqual({ glaze: first.content, annotations: [] })
+  })
+})
+
+describe('provider configuration', () => {
+  it('reports missing settings', () => {
+    vi.stubEnv('OPENAI_API_KEY', '')
+    expect(getLLMConfigError()).toBe('OpenAI API key not configured')
+
+    vi.stubEnv('LLM_PROVIDER', 'openai-compatible')
+    expect(getLLMConfigError()).toBe('LLM_BASE_URL is required for the openai-compatible provider')
+
+    vi.stubEnv('LLM_PROVIDER', 'carrier-pigeon')
+    expect(getLLMConfigError()).toBe('Unknown LLM provider: carrier-pigeon')
+    expect(() => getLLMProvider()).toThrow('Unknown LLM provider: carrier-pigeon')
+  })
+
+  it('selects and caches the provider from the environment', () => {
+    expect(getLLMProvider().name).toBe('openai')
+    expect(getLLMProvider()).toBe(getLLMProvider())
+
+    vi.stubEnv('LLM_PROVIDER', 'mock')
+    expect(getLLMProvider()).toMatchObject({ name: 'mock', model: 'mock-glazer' })
+  })
+})
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest'
+import {
+  calculateParticipationStats,
+  formatParticipationStats,
+  getParticipationType
+} from '../app/api/lib/participation'
+import { Submission } from '../app/api/lib/types'
+import userStatus from './fixtures/codeforces/user.status.json'
+
+const submissions = userStatus.result as Submission[]
+
+let nextId = 1
+
+function submission(
+  problem: string,
+  verdict: string,
+  participantType: string,
+  options: { rating?: number; startTimeSeconds?: number; ghost?: boolean } = {}
+): Submission {
+  const contestId = parseInt(problem)
+  const index = problem.replace(/^\d+/, '')
+  return {
+    id: nextId++,
+    contestId,
+    creationTimeSeconds: 1735392000 + nextId,
+    relativeTimeSeconds: 0,
+    problem: { contestId, index, name: `Problem ${index}`, type: 'PROGRAMMING', rating: options.rating, tags: [] },
+    author: {
+      contestId,
+      members: [{ handle: 'mango_lassi' }],
+      participantType,
+      ghost: options.ghost ?? false,
+      startTimeSeconds: options.startTimeSeconds,
+    },
+    programmingLanguage: 'GNU G++20 11.2.0 (64 bit, winlibs)',
+    verdict,
+    testset: 'TESTS',
+    passedTestCount: 0,
+    timeConsumedMillis: 100,
+    memoryConsumedBytes: 1024,
+  }
+}
+
+describe('getParticipationType', () => {
+  it.each([
+    ['CONTESTANT', 'contest'],
+    ['VIRTUAL', 'virtual'],
+    ['OUT_OF_COMPETITION', 'outOfCompetition'],
+    ['PRACTICE', 'practice'],
+    ['MANAGER', 'other'],
+  ])('maps %s to %s', (participantType, type) => {
+    expect(getParticipationType({ members: [], participantType, ghost: false })).toBe(type)
+  })
+
+  it('never treats ghost parties as live contestants', () => {
+    expect(getParticipationType({ members: [], participantType: 'CONTESTANT', ghost: true })).toBe('other')
+  })
+})
+
+describe('calculateParticipationStats', () => {
+  it('summarises the recorded submissions', () => {
+    expect(calculateParticipationStats(submissions)).toEqual({
+      byType: {
+        contest: { submissions: 7, solved: 5 },
+        virtual: { submissions: 0, solved: 0 },
+        outOfCompetition: { submissions: 0, solved: 0 },
+        practice: { submissions: 3, solved: 2 },
+        other: { submissions: 0, solved: 0 },
+      },
+      contestsEntered: 2,
+      virtualContests: 0,
+      outOfCompetitionRuns: 0,
+      solvedOnlyOutsideContests: 2,
+      upsolved: 0,
+      hardestLiveSolve: { problem: '2049D', problemName: 'Shift + Esc', rating: 1900 },
+      hardestPracticeSolve: { problem: '2043B', problemName: 'Digits', rating: 1100 },
+    })
+  })
+
+  it('counts each virtual run and upsolves of problems failed live', () => {
+    const stats = calculateParticipationStats([
+      submission('100A', 'OK', 'CONTESTANT', { rating: 1200 }),
+      submission('100B', 'WRONG_ANSWER', 'CONTESTANT', { rating: 1700 }),
+      submission('100B', 'OK', 'PRACTICE', { rating: 1700 }),
+      // The same contest run virtually twice
+      submission('200A', 'OK', 'VIRTUAL', { rating: 2400, startTimeSeconds: 1000 }),
+      submission('200A', 'OK', 'VIRTUAL', { rating: 2400, startTimeSeconds: 5000 }),
+      submission('300C', 'OK', 'OUT_OF_COMPETITION', { rating: 2000, startTimeSeconds: 9000 }),
+    ])
+
+    expect(stats).toMatchObject({
+      contestsEntered: 1,
+      virtualContests: 2,
+      outOfCompetitionRuns: 1,
+      solvedOnlyOutsideContests: 3,
+      upsolved: 1,
+      // Virtual and out-of-competition solves are neither live nor practice
+      hardestLiveSolve: { problem: '100A', rating: 1200 },
+      hardestPracticeSolve: { problem: '100B', rating: 1700 },
+    })
+    expect(stats.byType.virtual).toEqual({ submissions: 2, solved: 1 })
+  })
+
+  it('does not count a problem as upsolved once it was accepted live', () => {
+    const stats = calculateParticipationStats([
+      submission('100A', 'WRONG_ANSWER', 'CONTESTANT'),
+      submission('100A', 'OK', 'CONTESTANT'),
+      submission('100A', 'OK', 'PRACTICE'),
+    ])
+
+    expect(stats.upsolved).toBe(0)
+    expect(stats.solvedOnlyOutsideContests).toBe(0)
+  })
+})
+
+describe('formatParticipationStats', () => {
+  it('separates live solves from practice', () => {
+    const text = formatParticipationStats(calculateParticipationStats(submissions))
+
+    expect(text).toContain('- Solved Live in Contests: 5 problems across 2 contests\n')
+    expect(text).toContain('- Solved in Practice: 2 problems\n')
+    expect(text).toContain('- Hardest Problem Solved Live: 2049D Shift + Esc (1900)\n')
+    expect(text).not.toContain('Virtual Contests')
+  })
+
+  it('has a message for users without submissions', () => {
+    expect(formatParticipationStats(calculateParticipationStats([]))).toBe('No submissions yet')
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { PERSONAS, getSystemPrompt, resolvePersona } from '../app/api/lib/personas'
+import { DEFAULT_PERSONA, PERSONA_OPTIONS, isPersonaId } from '../app/lib/personas'
+
+describe('PERSONAS', () => {
+  it('has a prompt template for every persona the UI offers', () => {
+    expect(Object.keys(PERSONAS).sort()).toEqual(PERSONA_OPTIONS.map(option => option.id).sort())
+
+    PERSONA_OPTIONS.forEach(option => {
+      const persona = PERSONAS[option.id]
+      expect(persona).toMatchObject({ id: option.id, name: option.name })
+      expect(persona.systemPrompt).not.toBe('')
+      expect(persona.temperature).toBeGreaterThan(0)
+      expect(persona.temperature).toBeLessThanOrEqual(2)
+      Object.values(persona.maxTokens).forEach(limit => expect(limit).toBeGreaterThan(0))
+      ;[
+        persona.profileInstructions,
+        persona.codeInstructions,
+        persona.compareInstructions,
+        persona.teamInstructions,
+        persona.contestInstructions,
+      ].forEach(instructions => expect(instructions).not.toBe(''))
+    })
+  })
+})
+
+describe('resolvePersona', () => {
+  it.each([undefined, null, ''])('falls back to the default persona for %j', value => {
+    expect(resolvePersona(value)).toBe(PERSONAS[DEFAULT_PERSONA])
+  })
+
+  it('resolves known ids and rejects everything else', () => {
+    expect(resolvePersona('bard')).toBe(PERSONAS.bard)
+    expect(resolvePersona('Bard')).toBeNull()
+    expect(resolvePersona('toString')).toBeNull()
+    expect(resolvePersona(42)).toBeNull()
+    expect(isPersonaId('coach')).toBe(true)
+    expect(isPersonaId({ id: 'coach' })).toBe(false)
+  })
+})
+
+describe('getSystemPrompt', () => {
+  it('returns the persona prompt outside safe mode', () => {
+    expect(getSystemPrompt(PERSONAS.meltdown, false)).toBe(PERSONAS.meltdown.systemPrompt)
+  })
+
+  it('uses the clean variant and adds the family-friendly rules in safe mode', () => {
+    const personas = Object.values(PERSONAS)
+
+    personas.forEach(persona => {
+      const prompt = getSystemPrompt(persona, true)
+      expect(prompt.startsWith(persona.safeSystemPrompt || persona.systemPrompt)).toBe(true)
+      expect(prompt).toContain('Keep it family friendly')
+    })
+    // At least one persona ships a separate clean prompt
+    expect(personas.some(persona => persona.safeSystemPrompt && persona.safeSystemPrompt !== persona.systemPrompt)).toBe(true)
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { calculateRatingHistoryStats, formatRatingHistory } from '../app/api/lib/rating-history'
+import { RatingChange } from '../app/api/lib/types'
+import userRating from './fixtures/codeforces/user.rating.json'
+
+const changes = userRating.result as RatingChange[]
+
+describe('calculateRatingHistoryStats', () => {
+  it('summarizes the recorded contest history', () => {
+    const stats = calculateRatingHistoryStats(changes)
+
+    expect(stats).toMatchObject({
+      ratedContests: 4,
+      biggestGain: { contestId: 2049, delta: 158 },
+      biggestDrop: { contestId: 2053, delta: -46 },
+      bestRank: { rank: 812, contestId: 2049 },
+      longestPositiveStreak: 2,
+      volatility: 90.3,
+    })
+    expect(stats.history.map(point => point.rating)).toEqual([1400, 1530, 1688, 1642])
+  })
+
+  it('records the first contest at every colour reached, including skipped ones', () => {
+    const { colorMilestones } = calculateRatingHistoryStats(changes)
+
+    expect(colorMilestones.map(({ colorName, contestId, contestsTaken, daysTaken }) => [colorName, contestId, contestsTaken, daysTaken])).toEqual([
+      ['green', 2030, 1, 0],
+      ['cyan', 2030, 1, 0],
+      ['blue', 2049, 3, 64],
+    ])
+  })
+
+  it('sorts contests by time before computing streaks', () => {
+    const stats = calculateRatingHistoryStats(changes.slice().reverse())
+
+    expect(stats.history.map(point => point.contestId)).toEqual([2030, 2043, 2049, 2053])
+    expect(stats.longestPositiveStreak).toBe(2)
+  })
+
+  it('leaves the jump from 0 in the first rated contest out of gains and volatility', () => {
+    const first = calculateRatingHistoryStats(changes.slice(0, 1))
+    expect(first).toMatchObject({ ratedContests: 1, longestPositiveStreak: 0, volatility: 0 })
+    expect(first.biggestGain).toBeUndefined()
+
+    const steady = calculateRatingHistoryStats([
+      changes[0],
+      { ...changes[1], oldRating: 1400, newRating: 1420 },
+      { ...changes[2], oldRating: 1420, newRating: 1440 },
+    ])
+    expect(steady).toMatchObject({ biggestGain: { contestId: 2043, delta: 20 }, volatility: 0 })
+  })
+
+  it('handles users without rated contests', () => {
+    const stats = calculateRatingHistoryStats([])
+
+    expect(stats).toMatchObject({ ratedContests: 0, longestPositiveStreak: 0, volatility: 0, colorMilestones: [], history: [] })
+    expect(stats.biggestGain).toBeUndefined()
+    expect(formatRatingHistory(stats)).toBe('No rated contests yet')
+  })
+})
+
+describe('formatRatingHistory', () => {
+  it('lists the highlights and colour milestones for the prompt', () => {
+    const text = formatRatingHistory(calculateRatingHistoryStats(changes))
+
+    expect(text).toContain('- Rated Contests: 4')
+    expect(text).toContain('- Biggest Single-Contest Gain: +158 (Codeforces Round 994 (Div. 2))')
+    expect(text).toContain('- Biggest Single-Contest Drop: -46 (Good Bye 2024: 2025 is NEAR)')
+    expect(text).toContain('- Best Contest Rank: #812 (Codeforces Round 994 (Div. 2))')
+    expect(text).toContain('- Reached blue (expert) after 3 contests / 64 days')
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from 'vitest'
+import { findUnsafeContent, generateSafely, mapGlazeContent, maskUnsafeContent } from '../app/api/lib/safety'
+
+function categories(text: string, safeMode: boolean) {
+  return findUnsafeContent(text, safeMode).map(match => match.category)
+}
+
+describe('findUnsafeContent', () => {
+  it('only flags profanity and the stricter rules in safe mode', () => {
+    const text = 'HOLY SHIT, 1642?! You must be cheating, nobody is this good.'
+
+    expect(categories(text, false)).toEqual([])
+    expect(categories(text, true)).toEqual(['profanity', 'cheating_accusation'])
+  })
+
+  it('always flags self-harm and configured extra terms', () => {
+    vi.stubEnv('SAFETY_EXTRA_TERMS', 'bogosort, spaghetti code')
+
+    expect(categories('Your bogosort is art. Never kys, the world needs you.', false)).toEqual(['custom', 'self_harm'])
+    expect(categories('Not a line of SPAGHETTI CODE in sight', false)).toEqual(['custom'])
+  })
+
+  it('matches whole words, or word prefixes for starred terms', () => {
+    expect(categories('A classic assignment in class, then a passing grade', true)).toEqual([])
+    expect(categories('What the hell, hello there', true)).toEqual(['profanity'])
+    expect(findUnsafeContent('fucking brilliant', true)).toEqual([{ category: 'profanity', text: 'fucking' }])
+  })
+
+  it('covers the other catalog languages', () => {
+    expect(categories('Сука, блять, какой рейтинг', true)).toEqual(['profanity', 'profanity'])
+    expect(categories('Que porra de solução', true)).toEqual(['profanity'])
+    // Chinese has no spaces between words
+    expect(categories('卧槽这也能过', true)).toEqual(['profanity'])
+  })
+})
+
+describe('maskUnsafeContent', () => {
+  it('keeps the first letter of every masked word', () => {
+    expect(maskUnsafeContent('Damn, what the hell is this speed', true)).toBe('D***, what the h*** is this speed')
+    expect(maskUnsafeContent('блять, 2049D за 5 минут', true)).toBe('б****, 2049D за 5 минут')
+  })
+
+  it('leaves profanity alone outside safe mode', () => {
+    expect(maskUnsafeContent('Damn, what a solve', false)).toBe('Damn, what a solve')
+  })
+})
+
+describe('generateSafely', () => {
+  const reply = (content: string) => ({ content, tokensUsed: 100 })
+
+  it('passes clean glazes through untouched', async () => {
+    const generate = vi.fn(async () => reply('What a run!'))
+
+    const result = await generateSafely(generate, mapGlazeContent, { safeMode: true })
+
+    expect(result.content).toBe('What a run!')
+    expect(result.safety).toEqual({ safeMode: true, filtered: false, regenerated: false, replaced: false, masked: false, categories: [] })
+    expect(generate).toHaveBeenCalledTimes(1)
+  })
+
+  it('masks by default', async () => {
+    const generate = vi.fn(async () => reply('Damn, what a run!'))
+
+    const result = await generateSafely(generate, mapGlazeContent, { safeMode: true })
+
+    expect(result.content).toBe('D***, what a run!')
+    expect(result.safety).toMatchObject({ filtered: true, regenerated: false, masked: true, categories: ['profanity'] })
+  })
+
+  it('regenerates once when configured to, and adds up the tokens', async () => {
+    vi.stubEnv('SAFETY_ACTION', 'regenerate')
+    const generate = vi.fn(async () => reply('Wow, what a run!'))
+      .mockResolvedValueOnce(reply('Damn, what a run!'))
+
+    const result = await generateSafely(generate, mapGlazeContent, { safeMode: true })
+
+    expect(result).toMatchObject({ content: 'Wow, what a run!', tokensUsed: 200 })
+    // Nothing was streamed, so nothing on screen was replaced
+    expect(result.safety).toMatchObject({ filtered: true, regenerated: true, replaced: false, masked: false })
+  })
+
+  it('masks the second reply when it is still unsafe', async () => {
+    vi.stubEnv('SAFETY_ACTION', 'regenerate')
+    const generate = vi.fn(async () => reply('Damn, what a run!'))
+
+    const result = await generateSafely(generate, mapGlazeContent, { safeMode: true })
+
+    expect(result.content).toBe('D***, what a run!')
+    expect(result.safety).toMatchObject({ regenerated: true, masked: true })
+    expect(generate).toHaveBeenCalledTimes(2)
+  })
+
+  it('streams only the first attempt, masked, and flags it as replaced after regenerating', async () => {
+    vi.stubEnv('SAFETY_ACTION', 'regenerate')
+    const onDelta = vi.fn()
+    const generate = vi.fn(async (glazeDelta?: (content: string) => void) => reply('Wow, what a run!'))
+      .mockImplementationOnce(async glazeDelta => {
+        glazeDelta?.('Damn, what a run!')
+        return reply('Damn, what a run!')
+      })
+
+    const result = await generateSafely(generate, mapGlazeContent, { safeMode: true, onDelta })
+
+    expect(generate.mock.calls).toEqual([[expect.any(Function)], []])
+    expect(onDelta.mock.calls).toEqual([['D***, what a run!']])
+    expect(result.content).toBe('Wow, what a run!')
+    expect(result.safety).toMatchObject({ regenerated: true, replaced: true, masked: false })
+  })
+
+  it('masks streamed text before sending it, even when a term spans deltas', async () => {
+    const onDelta = vi.fn()
+    const chunks = ['Never k', 'ys, the world needs you. ', 'Keep going!']
+    const generate = vi.fn(async (glazeDelta?: (content: string) => void) => {
+      chunks.forEach(chunk => glazeDelta?.(chunk))
+      return reply(chunks.join(''))
+    })
+
+    const result = await generateSafely(generate, mapGlazeContent, { safeMode: false, onDelta })
+
+    expect(onDelta.mock.calls).toEqual([['Never k**,'], [' the world needs you. Keep going!']])
+    expect(result.content).toBe('Never k**, the world needs you. Keep going!')
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import {
+  getClientIP,
+  validateAdminSecret,
+  validateRequestOrigin,
+  validateUserAgent
+} from '../app/api/lib/security'
+import { BROWSER_HEADERS } from './helpers/requests'
+
+function requestWith(headers: Record<string, string>): NextRequest {
+  return new NextRequest('https://cfglaze.vercel.app/api/glaze-profile', { headers })
+}
+
+describe('validateUserAgent', () => {
+  it.each([
+    BROWSER_HEADERS['user-agent'],
+    'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1',
+    'Mozilla/5.0 (X11; Linux x86_64; rv:133.0) Gecko/20100101 Firefox/133.0',
+  ])('accepts browsers: %s', userAgent => {
+    expect(validateUserAgent(requestWith({ 'user-agent': userAgent }))).toBe(true)
+  })
+
+  it.each([
+    'curl/8.5.0',
+    'python-requests/2.32.3',
+    'node-fetch/1.0 (+https://github.com/bitinn/node-fetch)',
+    'axios/1.7.9',
+    'PostmanRuntime/7.43.0',
+    'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
+    'SomethingElse/1.0',
+  ])('rejects tools, bots and unknown agents: %s', userAgent => {
+    expect(validateUserAgent(requestWith({ 'user-agent': userAgent }))).toBe(false)
+  })
+
+  it('rejects requests without a user agent', () => {
+    expect(validateUserAgent(requestWith({}))).toBe(false)
+  })
+
+  it('allows anything with a user agent in development', () => {
+    vi.stubEnv('NODE_ENV', 'development')
+    expect(validateUserAgent(requestWith({ 'user-agent': 'curl/8.5.0' }))).toBe(true)
+    expect(validateUserAgent(requestWith({}))).toBe(false)
+  })
+})
+
+describe('validateRequestOrigin', () => {
+  it('accepts the default origins by origin or referer', () => {
+    expect(validateRequestOrigin(requestWith({ origin: 'https://cfglaze.vercel.app' }))).toBe(true)
+    expect(validateRequestOrigin(requestWith({ referer: 'https://codeforces-profile-glazer.vercel.app/g/abc' }))).toBe(true)
+  })
+
+  it('rejects other or missing origins', () => {
+    expect(validateRequestOrigin(requestWith({ origin: 'https://evil.example' }))).toBe(false)
+    expect(validateRequestOrigin(requestWith({ origin: 'https://cfglaze.vercel.app.evil.example' }))).toBe(false)
+    expect(validateRequestOrigin(requestWith({}))).toBe(false)
+  })
+
+  it('uses ALLOWED_ORIGINS when set', () => {
+    vi.stubEnv('ALLOWED_ORIGINS', 'https://glaze.example, http://localhost:3000')
+    expect(validateRequestOrigin(requestWith({ origin: 'http://localhost:3000' }))).toBe(true)
+    expect(validateRequestOrigin(requestWith({ origin: 'https://cfglaze.vercel.app' }))).toBe(false)
+  })
+})
+
+describe('getClientIP', () => {
+  it('takes the first forwarded address', () => {
+    expect(getClientIP(requestWith({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1' }))).toBe('203.0.113.7')
+    expect(getClientIP(requestWith({ 'x-real-ip': '198.51.100.2' }))).toBe('198.51.100.2')
+    expect(getClientIP(requestWith({}))).toBe('unknown')
+  })
+})
+
+describe('validateAdminSecret', () => {
+  it('is disabled without ADMIN_SECRET', () => {
+    expect(validateAdminSecret(requestWith({ authorization: 'Bearer ' }))).toBe(false)
+  })
+
+  it('accepts only the exact bearer token', () => {
+    vi.stubEnv('ADMIN_SECRET', 'hunter2')
+    expect(validateAdminSecret(requestWith({ authorization: 'Bearer hunter2' }))).toBe(true)
+    expect(validateAdminSecret(requestWith({ authorization: 'Bearer hunter' }))).toBe(false)
+    expect(validateAdminSecret(requestWith({ authorization: 'Bearer hunter22' }))).toBe(false)
+    expect(validateAdminSecret(requestWith({}))).toBe(false)
+  })
+})
@@ -0,0 +1,33 @@
+import { afterEach, beforeEach, vi } from 'vitest'
+import { resetKV } from './helpers/kv'
+import { createCompletion, replayCompletion } from './helpers/openai'
+
+// Everything runs offline: KV is an in-memory map and every OpenAI client
+// answers through the stubbed completion call.
+vi.mock('@vercel/kv', () => import('./helpers/kv'))
+
+vi.mock('openai', async importOriginal => {
+  const actual = await importOriginal<typeof import('openai')>()
+  const { createCompletion } = await import('./helpers/openai')
+
+  class StubbedOpenAI extends actual.default {
+    constructor(options: ConstructorParameters<typeof actual.default>[0]) {
+      super(options)
+      this.chat.completions.create = createCompletion as never
+    }
+  }
+
+  return { ...actual, default: StubbedOpenAI }
+})
+
+beforeEach(() => {
+  replayCompletion()
+})
+
+afterEach(() => {
+  resetKV()
+  createCompletion.mockReset()
+  vi.unstubAllGlobals()
+  vi.unstubAllEnvs()
+  vi.useRealTimers()
+})
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { buildGlazeCard, buildHandleCard, toCardText } from '../app/api/lib/share-card'
+import { Submission } from '../app/api/lib/types'
+import userStatus from './fixtures/codeforces/user.status.json'
+
+describe('toCardText', () => {
+  it('keeps letters of every script and drops emoji', () => {
+    expect(toCardText('Этот код 🔥 прекрасен', 100)).toBe('Этот код прекрасен')
+    expect(toCardText('动态规划，简直是艺术！', 100)).toBe('动态规划，简直是艺术！')
+    expect(toCardText('Solução O(n log n) — ótima', 100)).toBe('Solução O(n log n) — ótima')
+  })
+
+  it('collapses whitespace and truncates with an ellipsis', () => {
+    expect(toCardText('  BRO\n\nTHIS   LOOP  ', 100)).toBe('BRO THIS LOOP')
+    expect(toCardText('abcdefghij', 8)).toBe('abcde...')
+  })
+})
+
+describe('buildGlazeCard', () => {
+  it('puts the handle, rating and an excerpt on profile cards', () => {
+    const card = buildGlazeCard({
+      id: 'abcdefgh',
+      type: 'profile',
+      glaze: 'Ты решил 400 задач 🤯',
+      persona: 'meltdown',
+      createdAt: 0,
+      expiresAt: 0,
+      userData: { handle: 'mango_lassi', rating: 1642, maxRating: 1688 },
+      ratingDistribution: { '800-1199': 3, '1600-1999': 1 },
+    })
+
+    expect(card).toMatchObject({
+      title: 'mango_lassi',
+      titleColor: '#0000ff',
+      subtitle: 'Rating 1642 (max 1688)',
+      excerpt: 'Ты решил 400 задач',
+    })
+    expect(card.bars.map(bar => bar.range)).toEqual(['800-1199', '1600-1999'])
+  })
+})
+
+describe('buildHandleCard', () => {
+  it('spells the handle like Codeforces and counts solved problems from the submissions', () => {
+    const card = buildHandleCard('MANGO_LASSI', userStatus.result as Submission[])
+
+    expect(card.title).toBe('mango_lassi')
+    expect(card.subtitle).toMatch(/^\d+ problems solved$/)
+    expect(card.excerpt).toBeNull()
+    expect(card.bars.length).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { createGlazeFieldStreamer, extractGlazeField, parseJsonObject } from '../app/api/lib/structured-output'
+
+describe('createGlazeFieldStreamer', () => {
+  it('emits only the glaze string, decoding escapes split across chunks', () => {
+    let text = ''
+    const push = createGlazeFieldStreamer(piece => { text += piece })
+    const reply = JSON.stringify({ glaze: 'Line one\n"quoted" é', annotations: [] })
+
+    for (let i = 0; i < reply.length; i += 3) {
+      push(reply.slice(i, i + 3))
+    }
+
+    expect(text).toBe('Line one\n"quoted" é')
+  })
+
+  it('passes non-JSON replies through', () => {
+    let text = ''
+    const push = createGlazeFieldStreamer(piece => { text += piece })
+    push('Plain ')
+    push('text')
+    expect(text).toBe('Plain text')
+  })
+})
+
+describe('extractGlazeField', () => {
+  it('reads the glaze from a reply cut off mid-string', () => {
+    expect(extractGlazeField('{"glaze": "Half a thou')).toBe('Half a thou')
+  })
+})
+
+describe('parseJsonObject', () => {
+  it('finds the object inside code fences', () => {
+    expect(parseJsonObject('```json\n{"glaze": "hi"}\n```')).toEqual({ glaze: 'hi' })
+  })
+
+  it('returns null without a well-formed object', () => {
+    expect(parseJsonObject('no JSON here')).toBeNull()
+    expect(parseJsonObject('{"glaze": }')).toBeNull()
+  })
+})
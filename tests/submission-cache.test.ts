@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getUserSubmissions } from '../app/api/lib/submission-cache'
+import { Submission } from '../app/api/lib/types'
+import { stubCodeforces } from './helpers/codeforces'
+import { readKV } from './helpers/kv'
+import { settle } from './helpers/requests'
+import userStatus from './fixtures/codeforces/user.status.json'
+
+const RECORDED = userStatus.result as Submission[]
+
+function submission(id: number, verdict = 'OK'): Submission {
+  return { ...RECORDED[0], id, verdict }
+}
+
+// user.status paged with from/count over `history`, newest first
+function statusOf(history: Submission[]) {
+  return (params: URLSearchParams) => {
+    const from = parseInt(params.get('from') || '1')
+    const count = parseInt(params.get('count') || '1000')
+    return { status: 'OK', result: history.slice(from - 1, from - 1 + count) }
+  }
+}
+
+function statusPages(fetchMock: ReturnType<typeof stubCodeforces>): string[] {
+  return fetchMock.mock.calls.map(([input]) => {
+    const params = new URL(String(input)).searchParams
+    return `${params.get('from')}+${params.get('count')}`
+  })
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] })
+  vi.setSystemTime(new Date('2026-03-02T12:00:00Z'))
+})
+
+describe('getUserSubmissions', () => {
+  it('serves a cached history and only asks for newer submissions', async () => {
+    stubCodeforces()
+    const first = await settle(getUserSubmissions('mango_lassi'))
+
+    const fetchMock = stubCodeforces()
+    const second = await settle(getUserSubmissions('Mango_Lassi'))
+
+    expect(second).toEqual(first)
+    expect(second).toHaveLength(RECORDED.length)
+    // One small page, which already reaches the cached ids
+    expect(statusPages(fetchMock)).toEqual(['1+100'])
+  })
+
+  it('fetches only as many submissions as asked for on a miss and does not cache them', async () => {
+    const history = Array.from({ length: 1500 }, (_, index) => submission(2000 - index))
+    const fetchMock = stubCodeforces({ 'user.status': statusOf(history) })
+
+    const newest = await settle(getUserSubmissions('mango_lassi', 1000))
+
+    expect(newest).toHaveLength(1000)
+    expect(statusPages(fetchMock)).toEqual(['1+1000'])
+    expect(readKV('submissions:mango_lassi')).toBeUndefined()
+  })
+
+  it('merges new submissions and refetches ones that were still being judged', async () => {
+    const older = [submission(30, 'TESTING'), submission(20), submission(10)]
+    stubCodeforces({ 'user.status': statusOf(older) })
+    await settle(getUserSubmissions('mango_lassi'))
+
+    const newer = [submission(40), submission(30, 'WRONG_ANSWER'), submission(20), submission(10)]
+    stubCodeforces({ 'user.status': statusOf(newer) })
+    const merged = await settle(getUserSubmissions('mango_lassi'))
+
+    expect(merged.map(sub => [sub.id, sub.verdict])).toEqual([[40, 'OK'], [30, 'WRONG_ANSWER'], [20, 'OK'], [10, 'OK']])
+    expect(readKV('submissions:mango_lassi')).toMatchObject({ chunks: 1 })
+    expect(readKV('submissions:mango_lassi:0')).toHaveLength(4)
+  })
+
+  it('keeps the whole of a large history, split over several KV values', async () => {
+    const history = Array.from({ length: 5000 }, (_, index) => submission(5000 - index))
+    stubCodeforces({ 'user.status': statusOf(history) })
+
+    const fetched = await settle(getUserSubmissions('mango_lassi'))
+    expect(fetched).toHaveLength(5000)
+
+    const index = readKV('submissions:mango_lassi') as { chunks: number }
+    expect(index.chunks).toBeGreaterThan(1)
+    for (let chunk = 0; chunk < index.chunks; chunk++) {
+      expect(JSON.stringify(readKV(`submissions:mango_lassi:${chunk}`)).length).toBeLessThan(1024 * 1024)
+    }
+
+    const fetchMock = stubCodeforces({ 'user.status': statusOf(history) })
+    const cached = await settle(getUserSubmissions('mango_lassi'))
+    expect(cached).toHaveLength(5000)
+    expect(cached[4999].id).toBe(1)
+    expect(statusPages(fetchMock)).toEqual(['1+100'])
+  })
+
+  it('refetches everything once the history is a day old', async () => {
+    stubCodeforces()
+    await settle(getUserSubmissions('mango_lassi'))
+
+    vi.setSystemTime(new Date('2026-03-03T12:00:01Z'))
+    const fetchMock = stubCodeforces()
+    await settle(getUserSubmissions('mango_lassi'))
+
+    expect(statusPages(fetchMock)).toEqual(['1+1000'])
+  })
+})
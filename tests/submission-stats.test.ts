@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import {
+  calculateRatingDistribution,
+  calculateSubmissionStats,
+  formatRatingDistribution,
+  getRatingRange,
+  getRatingRangeMin
+} from '../app/api/lib/submission-stats'
+import { Submission } from '../app/api/lib/types'
+import userStatus from './fixtures/codeforces/user.status.json'
+
+const submissions = userStatus.result as Submission[]
+
+describe('calculateSubmissionStats', () => {
+  it('summarises the recorded submissions', () => {
+    expect(calculateSubmissionStats(submissions)).toEqual({
+      totalSubmissions: 10,
+      acceptedSubmissions: 7,
+      uniqueProblemsSolved: 7,
+      totalProblemsAttempted: 7,
+      acceptanceRate: 70,
+      averageAttemptsPerProblem: 1.4,
+    })
+  })
+
+  it('counts gym problems without a contest id as their own problems', () => {
+    const gym = submissions.filter(sub => sub.problem.contestId === undefined)
+    expect(calculateSubmissionStats(gym).uniqueProblemsSolved).toBe(1)
+  })
+
+  it('handles a user without submissions', () => {
+    expect(calculateSubmissionStats([])).toEqual({
+      totalSubmissions: 0,
+      acceptedSubmissions: 0,
+      uniqueProblemsSolved: 0,
+      totalProblemsAttempted: 0,
+      acceptanceRate: 0,
+      averageAttemptsPerProblem: 0,
+    })
+  })
+})
+
+describe('getRatingRange', () => {
+  it.each([
+    [0, '< 800'],
+    [799, '< 800'],
+    [800, '800-999'],
+    [1199, '1000-1199'],
+    [1200, '1200-1399'],
+    [2999, '2800-2999'],
+    [3000, '3000+'],
+    [3500, '3000+'],
+  ])('puts %i in %s', (rating, range) => {
+    expect(getRatingRange(rating)).toBe(range)
+  })
+
+  it('round-trips with getRatingRangeMin', () => {
+    for (const rating of [800, 1000, 1600, 2400, 3000]) {
+      expect(getRatingRangeMin(getRatingRange(rating))).toBe(rating)
+    }
+    expect(getRatingRangeMin('< 800')).toBe(0)
+  })
+})
+
+describe('calculateRatingDistribution', () => {
+  it('counts each solved rated problem once', () => {
+    expect(calculateRatingDistribution(submissions)).toEqual({
+      '800-999': 2,
+      '1000-1199': 1,
+      '1200-1399': 1,
+      '1400-1599': 1,
+      '1800-1999': 1,
+    })
+  })
+})
+
+describe('formatRatingDistribution', () => {
+  it('lists buckets in rating order with percentages', () => {
+    const distribution = { '1800-1999': 1, '800-999': 2, '3000+': 1, '< 800': 0 }
+    expect(formatRatingDistribution(distribution)).toBe(
+      'Problem Ratings Distribution (Total: 4 unique problems solved):\n' +
+      '< 800: 0 problems (0.0%)\n' +
+      '800-999: 2 problems (50.0%)\n' +
+      '1800-1999: 1 problems (25.0%)\n' +
+      '3000+: 1 problems (25.0%)'
+    )
+  })
+
+  it('has a message for users without rated solves', () => {
+    expect(formatRatingDistribution({})).toBe('No rated problems solved yet')
+  })
+})
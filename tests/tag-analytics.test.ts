@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { calculateTagBreakdown, formatTagBreakdown } from '../app/api/lib/tag-analytics'
+import { Submission } from '../app/api/lib/types'
+import userStatus from './fixtures/codeforces/user.status.json'
+
+const submissions = userStatus.result as Submission[]
+
+let nextId = 1
+
+// A submission on problem `index` of contest 1, tagged with a single tag
+function submission(tag: string, index: string, rating: number | undefined, verdict = 'OK'): Submission {
+  return {
+    id: nextId++,
+    contestId: 1,
+    creationTimeSeconds: nextId,
+    relativeTimeSeconds: 0,
+    problem: { contestId: 1, index, name: `Problem ${index}`, type: 'PROGRAMMING', rating, tags: [tag] },
+    author: { contestId: 1, members: [{ handle: 'mango_lassi' }], participantType: 'PRACTICE', ghost: false },
+    programmingLanguage: 'GNU G++20 11.2.0 (64 bit, winlibs)',
+    verdict,
+    testset: 'TESTS',
+    passedTestCount: 0,
+    timeConsumedMillis: 100,
+    memoryConsumedBytes: 1024,
+  }
+}
+
+// Three problems of `rating` under one tag, solved on the first try
+function solvedTag(tag: string, rating: number): Submission[] {
+  return ['A', 'B', 'C'].map(index => submission(tag, `${tag}-${index}`, rating))
+}
+
+describe('calculateTagBreakdown', () => {
+  it('counts problems, attempts and ratings per tag', () => {
+    const { referenceRating, tags } = calculateTagBreakdown(submissions, 1642)
+
+    expect(referenceRating).toBe(1642)
+    expect(tags.map(tag => tag.tag).slice(0, 3)).toEqual(['greedy', 'constructive algorithms', 'implementation'])
+    expect(tags[0]).toEqual({
+      tag: 'greedy',
+      solved: 4,
+      attempted: 4,
+      submissions: 6,
+      avgSolvedRating: 1250,
+      maxSolvedRating: 1900,
+      attemptsPerSolve: 1.5,
+      acceptanceRate: 66.7,
+      relativeRating: -392,
+    })
+    // The gym problem has no rating, so only the two rated solves count
+    expect(tags.find(tag => tag.tag === 'implementation')).toMatchObject({ solved: 3, avgSolvedRating: 1050 })
+  })
+
+  it('ranks strengths by relative difficulty and puts unsolved tags first among weaknesses', () => {
+    const breakdown = calculateTagBreakdown([
+      ...solvedTag('dp', 2000),
+      ...solvedTag('graphs', 1800),
+      ...solvedTag('math', 1600),
+      ...solvedTag('greedy', 1200),
+      ...solvedTag('trees', 1400),
+      ...['A', 'B', 'C'].map(index => submission('strings', `strings-${index}`, 1500, 'WRONG_ANSWER')),
+      // Tags with fewer than three problems are never highlighted
+      submission('fft', 'fft-A', 3000),
+    ], 1600)
+
+    expect(breakdown.strongest).toEqual(['dp', 'graphs', 'math'])
+    expect(breakdown.weakest).toEqual(['strings', 'greedy', 'trees'])
+    expect(breakdown.tags.find(tag => tag.tag === 'strings')).toMatchObject({ solved: 0, attemptsPerSolve: null, acceptanceRate: 0 })
+  })
+
+  it('compares unrated users against their own average solved rating', () => {
+    const breakdown = calculateTagBreakdown([submission('dp', 'A', 1000), submission('math', 'B', 2000)])
+
+    expect(breakdown.referenceRating).toBe(1500)
+    expect(breakdown.tags.map(tag => [tag.tag, tag.relativeRating])).toEqual([['dp', -500], ['math', 500]])
+  })
+})
+
+describe('formatTagBreakdown', () => {
+  it('lists the top tags and highlights for the prompt', () => {
+    const text = formatTagBreakdown(calculateTagBreakdown([...solvedTag('dp', 2000), ...solvedTag('greedy', 1200)], 1600))
+
+    expect(text).toBe([
+      'Problem Tag Breakdown (top 2 tags by problems solved):',
+      'dp: 3 solved, avg rating 2000, max 2000, 1 attempts per solve, 100% acceptance',
+      'greedy: 3 solved, avg rating 1200, max 1200, 1 attempts per solve, 100% acceptance',
+      'Strongest Tags (relative to their rating): dp, greedy',
+      '',
+    ].join('\n'))
+  })
+
+  it('says so when nothing was attempted', () => {
+    expect(formatTagBreakdown(calculateTagBreakdown([]))).toBe('No tagged problems attempted yet')
+  })
+})
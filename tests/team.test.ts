@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { buildTeamStats, formatTeamStats, parseTeamGlaze } from '../app/api/lib/team'
+import type { CodeforcesUser, Submission } from '../app/api/lib/types'
+import userInfo from './fixtures/codeforces/user.info.json'
+import userStatus from './fixtures/codeforces/user.status.json'
+
+const submissions = userStatus.result as Submission[]
+
+// The recorded user, a rival with the five newest submissions and an unrated newcomer
+const TEAM = [
+  { user: userInfo.result[0] as CodeforcesUser, submissions },
+  { user: { handle: 'rival', rating: 1490, rank: 'specialist' }, submissions: submissions.slice(0, 5) },
+  { user: { handle: 'newcomer' }, submissions: [] },
+]
+
+describe('buildTeamStats', () => {
+  it('combines solved problems and tags across members', () => {
+    const team = buildTeamStats(TEAM)
+
+    expect(team.combinedSolved).toBe(7)
+    expect(team.totalSolved).toBe(10)
+    expect(team.tagsCovered).toEqual([
+      'brute force', 'constructive algorithms', 'dp', 'graphs', 'greedy',
+      'implementation', 'math', 'number theory', 'sortings',
+    ])
+    expect(team.ratingSpread).toEqual({ min: 1490, max: 1642, average: 1566, spread: 152 })
+  })
+
+  it('gives each member the category they come closest to the team best in', () => {
+    const [recorded, rival, newcomer] = buildTeamStats(TEAM).members
+
+    expect(recorded).toMatchObject({ solved: 7, hardestSolved: 1900, tagsCovered: 9, acceptanceRate: 70 })
+    // Best in every category, so the first one wins the tie
+    expect(recorded.mvp).toEqual({ category: 'rating', label: 'Rating Carry', value: 1642 })
+    expect(rival.mvp).toEqual({ category: 'hardest', label: 'Hardest Solve', value: 1900 })
+    expect(newcomer.mvp).toEqual({ category: 'potential', label: 'Untapped Potential', value: null })
+  })
+
+  it('has no rating spread when nobody is rated', () => {
+    const team = buildTeamStats([TEAM[2], { user: { handle: 'other' }, submissions: [] }])
+
+    expect(team.ratingSpread).toBeNull()
+    expect(formatTeamStats(team)).toContain('Ratings: nobody is rated yet')
+  })
+})
+
+describe('formatTeamStats', () => {
+  it('lists the team totals and every member with their MVP category', () => {
+    const text = formatTeamStats(buildTeamStats(TEAM))
+
+    expect(text).toContain('Distinct problems solved by the team: 7 (10 counting each member separately)')
+    expect(text).toContain('Ratings: 1490 to 1642, average 1566, spread 152')
+    expect(text).toContain('- rival: rating 1490 (specialist), 3 solved, hardest solve 1900, 6 tags, 60% acceptance. MVP category: Hardest Solve (1900)')
+    expect(text).toContain('- newcomer: rating unrated, 0 solved, hardest solve n/a')
+  })
+})
+
+describe('parseTeamGlaze', () => {
+  const members = buildTeamStats(TEAM).members
+
+  it('keeps one shout-out per member in team order', () => {
+    const raw = JSON.stringify({
+      glaze: 'What a squad.',
+      shoutouts: [
+        { handle: 'RIVAL', line: 'Hardest solve in the building.' },
+        { handle: 'mango_lassi', line: 'Carries the rating.' },
+        { handle: 'mango_lassi', line: 'Duplicate.' },
+        { handle: 'stranger', line: 'Not on the team.' },
+      ],
+    })
+
+    expect(parseTeamGlaze(raw, members)).toEqual({
+      glaze: 'What a squad.',
+      shoutouts: [
+        { handle: 'mango_lassi', line: 'Carries the rating.' },
+        { handle: 'rival', line: 'Hardest solve in the building.' },
+        { handle: 'newcomer', line: "newcomer, the team's Untapped Potential!" },
+      ],
+      structured: true,
+    })
+  })
+
+  it('recovers the glaze from truncated JSON and fills in every shout-out', () => {
+    const result = parseTeamGlaze('{"glaze": "Cut off mid', members)
+
+    expect(result.glaze).toBe('Cut off mid')
+    expect(result.structured).toBe(false)
+    expect(result.shoutouts.map(shoutout => shoutout.line)).toEqual([
+      "mango_lassi, the team's Rating Carry!",
+      "rival, the team's Hardest Solve!",
+      "newcomer, the team's Untapped Potential!",
+    ])
+  })
+})
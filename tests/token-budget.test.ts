@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  checkTokenBudget,
+  getBudgetDay,
+  recordTokenUsage,
+  tokenKey,
+  withTokenReservation
+} from '../app/api/lib/token-budget'
+import { readKV } from './helpers/kv'
+
+const ESTIMATE = { promptTokens: 400, maxCompletionTokens: 600 }
+
+function used(scope: 'global' | 'client', id?: string): unknown {
+  return readKV(tokenKey(getBudgetDay(), scope, id))
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(new Date('2026-03-02T12:00:00Z'))
+})
+
+describe('checkTokenBudget', () => {
+  it('reserves the worst case up front', async () => {
+    const check = await checkTokenBudget('profile', '203.0.113.7', ESTIMATE)
+
+    expect(check).toMatchObject({ allowed: true, reserved: 1000 })
+    expect(used('global')).toBe(1000)
+    expect(used('client', check.clientHash)).toBe(1000)
+  })
+
+  it('reserves a second attempt when the safety filter may regenerate', async () => {
+    vi.stubEnv('SAFETY_ACTION', 'regenerate')
+
+    const check = await checkTokenBudget('profile', '203.0.113.7', ESTIMATE)
+
+    expect(check.reserved).toBe(2000)
+    expect(used('global')).toBe(2000)
+  })
+
+  it('lets only as many concurrent requests through as the budget holds', async () => {
+    vi.stubEnv('TOKEN_BUDGET_CLIENT_DAILY', '2500')
+
+    const checks = await Promise.all(
+      Array.from({ length: 4 }, () => checkTokenBudget('profile', '203.0.113.7', ESTIMATE))
+    )
+
+    expect(checks.map(check => check.allowed)).toEqual([true, true, false, false])
+    expect(checks[2]).toMatchObject({ reason: 'budget_exhausted', scope: 'client' })
+    // Rejected requests hand their reservation back
+    expect(used('client', checks[0].clientHash)).toBe(2000)
+  })
+
+  it('rejects oversized prompts without reserving anything', async () => {
+    vi.stubEnv('TOKEN_BUDGET_MAX_PROMPT', '100')
+
+    const check = await checkTokenBudget('code', '203.0.113.7', ESTIMATE)
+
+    expect(check).toMatchObject({ allowed: false, reason: 'prompt_too_large', reserved: 0 })
+    expect(used('global')).toBeUndefined()
+  })
+})
+
+describe('recordTokenUsage', () => {
+  it('settles the reservation to the tokens actually used', async () => {
+    const check = await checkTokenBudget('team', '203.0.113.7', ESTIMATE)
+
+    await recordTokenUsage(check, 700)
+
+    expect(used('global')).toBe(700)
+    expect(used('client', check.clientHash)).toBe(700)
+    expect(readKV(tokenKey(check.day, 'route', 'team'))).toBe(700)
+  })
+})
+
+describe('withTokenReservation', () => {
+  it('charges the prompt and hands the rest back when generation fails', async () => {
+    const check = await checkTokenBudget('contest', '203.0.113.7', ESTIMATE)
+
+    await expect(withTokenReservation(check, async () => {
+      throw new Error('LLM down')
+    })).rejects.toThrow('LLM down')
+
+    expect(used('global')).toBe(ESTIMATE.promptTokens)
+    expect(used('client', check.clientHash)).toBe(ESTIMATE.promptTokens)
+    expect(readKV(tokenKey(check.day, 'route', 'contest'))).toBe(ESTIMATE.promptTokens)
+  })
+})
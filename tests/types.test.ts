@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatValidationIssue,
+  partitionValid,
+  validateCodeforcesResponse,
+  validateCodeforcesUser,
+  validateContestStandings,
+  validateRanklistRow,
+  validateRatingChange,
+  validateRatingDistribution,
+  validateSubmission
+} from '../app/api/lib/types'
+import userInfo from './fixtures/codeforces/user.info.json'
+import userStatus from './fixtures/codeforces/user.status.json'
+import userRating from './fixtures/codeforces/user.rating.json'
+import contestStandings from './fixtures/codeforces/contest.standings.json'
+
+const submission = userStatus.result[0]
+
+describe('Codeforces validators', () => {
+  it('accept the recorded payloads', () => {
+    expect(validateCodeforcesResponse(userStatus)).toBeNull()
+    expect(validateCodeforcesUser(userInfo.result[0])).toBeNull()
+    userStatus.result.forEach(entry => expect(validateSubmission(entry)).toBeNull())
+    userRating.result.forEach(entry => expect(validateRatingChange(entry)).toBeNull())
+  })
+
+  it('check contest standings, leaving rows to be validated one by one', () => {
+    const { contest, problems, rows } = contestStandings.result
+    expect(validateContestStandings(contestStandings.result)).toBeNull()
+    expect(validateRanklistRow(rows[0])).toBeNull()
+
+    expect(validateContestStandings({ contest, problems, rows: [{ rank: 'first' }] })).toBeNull()
+    expect(validateContestStandings({ contest, problems: [{ ...problems[0], index: 1 }], rows })).toEqual({
+      path: 'problems[0].index',
+      message: 'expected string, got number',
+    })
+    expect(validateRanklistRow({ ...rows[0], problemResults: [{ points: 476 }] })).toEqual({
+      path: 'problemResults[0].rejectedAttemptCount',
+      message: 'expected number, got undefined',
+    })
+  })
+
+  it('accept submissions still waiting for a verdict', () => {
+    const { verdict, ...queued } = submission
+    expect(verdict).toBe('OK')
+    expect(validateSubmission(queued)).toBeNull()
+  })
+
+  it.each([
+    [{ ...submission, problem: { ...submission.problem, rating: '1900' } }, 'problem.rating: expected number, got string'],
+    [{ ...submission, verdict: null }, 'verdict: expected string, got null'],
+    [{ ...submission, problem: { ...submission.problem, tags: ['dp', 7] } }, 'problem.tags[1]: expected string, got number'],
+    [{ ...submission, author: { ...submission.author, members: [{}] } }, 'author.members[0].handle: expected string, got undefined'],
+    [{ ...submission, author: { ...submission.author, ghost: 'false' } }, 'author.ghost: expected boolean, got string'],
+    [{ ...submission, timeConsumedMillis: undefined }, 'timeConsumedMillis: expected number, got undefined'],
+    ['submission', 'expected object, got string'],
+  ])('report the failing path of a malformed submission (%#)', (entry, message) => {
+    const issue = validateSubmission(entry)
+    expect(issue && formatValidationIssue(issue)).toBe(message)
+  })
+
+  it('check every field of users and rating changes', () => {
+    expect(validateCodeforcesUser({ ...userInfo.result[0], friendOfCount: '37' })).toEqual({
+      path: 'friendOfCount',
+      message: 'expected number, got string',
+    })
+    expect(validateRatingChange({ ...userRating.result[0], contestName: 2030 })).toMatchObject({ path: 'contestName' })
+    expect(validateCodeforcesResponse({ status: 'FAILED', comment: ['nope'] })).toMatchObject({ path: 'comment' })
+    expect(validateRatingDistribution({ '800-999': 2, '1000-1199': '1' })).toMatchObject({ path: '1000-1199' })
+  })
+})
+
+describe('partitionValid', () => {
+  it('keeps valid entries and prefixes issues with the entry index', () => {
+    const { valid, dropped } = partitionValid(
+      [userRating.result[0], { ...userRating.result[1], rank: null }, 'junk'],
+      validateRatingChange
+    )
+
+    expect(valid).toEqual([userRating.result[0]])
+    expect(dropped).toEqual([
+      { path: '[1].rank', message: 'expected number, got null' },
+      { path: '[2]', message: 'expected object, got string' },
+    ])
+  })
+})
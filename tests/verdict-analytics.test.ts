@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest'
+import {
+  calculateVerdictBreakdown,
+  formatVerdictBreakdown,
+  getTestsetGroup,
+  getVerdictCategory
+} from '../app/api/lib/verdict-analytics'
+import { Submission } from '../app/api/lib/types'
+import userStatus from './fixtures/codeforces/user.status.json'
+
+const submissions = userStatus.result as Submission[]
+
+let nextId = 1
+
+// A judged submission on contest 1; `time` orders the attempts
+function submission(index: string, verdict: string | undefined, time: number, testset = 'TESTS'): Submission {
+  return {
+    id: nextId++,
+    contestId: 1,
+    creationTimeSeconds: time,
+    relativeTimeSeconds: 0,
+    problem: { contestId: 1, index, name: `Problem ${index}`, type: 'PROGRAMMING', tags: [] },
+    author: { contestId: 1, members: [{ handle: 'mango_lassi' }], participantType: 'CONTESTANT', ghost: false },
+    programmingLanguage: 'GNU G++20 11.2.0 (64 bit, winlibs)',
+    verdict,
+    testset,
+    passedTestCount: 0,
+    timeConsumedMillis: 100,
+    memoryConsumedBytes: 1024,
+  }
+}
+
+describe('getVerdictCategory', () => {
+  it.each([
+    ['OK', 'accepted'],
+    ['WRONG_ANSWER', 'wrong_answer'],
+    ['TIME_LIMIT_EXCEEDED', 'time_limit'],
+    ['MEMORY_LIMIT_EXCEEDED', 'memory_limit'],
+    ['RUNTIME_ERROR', 'runtime_error'],
+    ['COMPILATION_ERROR', 'compilation_error'],
+    ['CHALLENGED', 'hacked'],
+    ['SKIPPED', 'skipped'],
+    ['IDLENESS_LIMIT_EXCEEDED', 'other'],
+  ])('maps %s to %s', (verdict, category) => {
+    expect(getVerdictCategory(verdict)).toBe(category)
+  })
+})
+
+describe('getTestsetGroup', () => {
+  it.each([
+    ['PRETESTS', 'pretests'],
+    ['TESTS', 'systemTests'],
+    ['TESTS3', 'systemTests'],
+    ['SAMPLES', 'other'],
+    ['CHALLENGES', 'other'],
+  ])('puts %s in %s', (testset, group) => {
+    expect(getTestsetGroup(testset)).toBe(group)
+  })
+})
+
+describe('calculateVerdictBreakdown', () => {
+  it('summarises the recorded submissions', () => {
+    const breakdown = calculateVerdictBreakdown(submissions)
+
+    expect(breakdown).toMatchObject({
+      judged: 10,
+      pending: 0,
+      verdicts: { accepted: 7, wrong_answer: 1, time_limit: 1, runtime_error: 1, compilation_error: 0 },
+      firstTryAccepted: 4,
+      attemptedProblems: 7,
+      firstTryRate: 57.1,
+      comebacks: 3,
+      mostAttemptsBeforeAccepted: { problem: '2049D', problemName: 'Shift + Esc', attempts: 1 },
+      fastestAccepted: { submissionId: 301896010, problem: '2049A', timeMillis: 15 },
+      slowestAccepted: { submissionId: 301920553, problem: '2049D', timeMillis: 312 },
+      heaviestAccepted: { submissionId: 301920553, memoryBytes: 52428800 },
+    })
+    expect(breakdown.byTestset.systemTests.accepted).toBe(7)
+    expect(breakdown.byTestset.pretests.accepted).toBe(0)
+  })
+
+  it('splits verdicts by pretests and system tests', () => {
+    const breakdown = calculateVerdictBreakdown([
+      submission('A', 'OK', 1, 'PRETESTS'),
+      submission('B', 'WRONG_ANSWER', 2, 'PRETESTS'),
+      submission('C', 'CHALLENGED', 3, 'CHALLENGES'),
+      submission('A', 'WRONG_ANSWER', 4, 'TESTS'),
+      submission('D', 'SKIPPED', 5, 'PRETESTS'),
+    ])
+
+    expect(breakdown.byTestset.pretests).toMatchObject({ accepted: 1, wrong_answer: 1, skipped: 1 })
+    expect(breakdown.byTestset.systemTests).toMatchObject({ accepted: 0, wrong_answer: 1 })
+    expect(breakdown.byTestset.other).toMatchObject({ hacked: 1 })
+    expect(breakdown.verdicts).toMatchObject({ accepted: 1, wrong_answer: 2, hacked: 1, skipped: 1 })
+  })
+
+  it('ignores compilation errors and queued submissions when looking for the first attempt', () => {
+    const breakdown = calculateVerdictBreakdown([
+      submission('A', 'COMPILATION_ERROR', 1),
+      submission('A', 'OK', 2),
+      submission('B', 'TIME_LIMIT_EXCEEDED', 3),
+      submission('B', 'TIME_LIMIT_EXCEEDED', 4),
+      submission('B', 'WRONG_ANSWER', 5),
+      submission('B', 'OK', 6),
+      submission('C', undefined, 7),
+      submission('D', 'TESTING', 8),
+    ])
+
+    expect(breakdown).toMatchObject({
+      judged: 6,
+      pending: 2,
+      firstTryAccepted: 1,
+      attemptedProblems: 2,
+      firstTryRate: 50,
+      comebacks: 1,
+      mostAttemptsBeforeAccepted: { problem: '1B', attempts: 3 },
+    })
+    expect(breakdown.verdicts.compilation_error).toBe(1)
+  })
+
+  it('handles a user without submissions', () => {
+    const breakdown = calculateVerdictBreakdown([])
+
+    expect(breakdown).toMatchObject({
+      judged: 0,
+      firstTryRate: 0,
+      mostAttemptsBeforeAccepted: null,
+      fastestAccepted: null,
+      slowestAccepted: null,
+      heaviestAccepted: null,
+    })
+    expect(formatVerdictBreakdown(breakdown)).toBe('No judged submissions yet')
+  })
+})
+
+describe('formatVerdictBreakdown', () => {
+  it('lists verdicts, first-try solves and runtime records', () => {
+    const text = formatVerdictBreakdown(calculateVerdictBreakdown(submissions))
+
+    expect(text).toContain('Verdict Breakdown (10 judged submissions):\n')
+    expect(text).toContain('- Accepted: 7 (70%)\n')
+    expect(text).toContain('- Time Limit Exceeded: 1 (10%)\n')
+    expect(text).not.toContain('Compilation Error')
+    expect(text).toContain('- System Tests: 7 of 10 submissions passed\n')
+    expect(text).toContain('- Accepted on the First Try: 4 of 7 problems (57.1%)\n')
+    expect(text).toContain('- Solved After Failing First: 3 problems\n')
+    expect(text).toContain('- Fastest Accepted Run: 2049A MEX Destruction: 15 ms, 0 KB\n')
+    expect(text).toContain('- Slowest Accepted Run (closest to the time limit): 2049D Shift + Esc: 312 ms, 50 MB\n')
+  })
+})
@@ -0,0 +1,18 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  // The /api/og route renders JSX with the React 17+ runtime, like Next does
+  esbuild: {
+    jsx: 'automatic',
+  },
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+    setupFiles: ['tests/setup.ts'],
+    // Route tests talk to the stubbed OpenAI client, never a real provider
+    env: {
+      LLM_PROVIDER: 'openai',
+      OPENAI_API_KEY: 'sk-test',
+    },
+  },
+})